@@ -1,7 +1,7 @@
 import { Toaster } from "@/shared/components/ui/toaster";
 import { Toaster as Sonner } from "@/shared/components/ui/sonner";
 import { TooltipProvider } from "@/shared/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProfileProvider } from "@/contexts/ProfileContext";
@@ -10,6 +10,7 @@ import { TimeTrackingProvider } from "@/contexts/TimeTrackingContext";
 import { FloatingTimer } from "@/features/time-tracking/components/FloatingTimer";
 import { ThemeProvider } from "@/shared/components/common/ThemeProvider";
 import { KeyboardShortcutsDialog } from "@/shared/components/common/KeyboardShortcutsDialog";
+import { CommandPalette } from "@/shared/components/common/CommandPalette";
 import { useKeyboardShortcuts } from "@/shared/hooks/useKeyboardShortcuts";
 import { ProtectedRoute } from "@/core/router/ProtectedRoute";
 import { AdminRoute } from "@/core/router/AdminRoute";
@@ -29,16 +30,17 @@ import AdminUsers from "@/modules/admin/pages/AdminUsers";
 import AdminActivity from "@/modules/admin/pages/AdminActivity";
 import AdminSettings from "@/modules/admin/pages/AdminSettings";
 import AdminTimeTrackingAnalytics from "@/modules/admin/pages/AdminTimeTrackingAnalytics";
+import AdminTrash from "@/modules/admin/pages/AdminTrash";
 import UserProjects from "@/modules/user/pages/UserProjects";
 import ProjectDetails from "@/features/projects/pages/ProjectDetails";
 import ProjectSettings from "@/features/projects/pages/ProjectSettings";
+import Timesheets from "@/features/time-tracking/pages/Timesheets";
 import NotFound from "./pages/NotFound";
 import { UserDashboard } from "@/modules/user/pages/UserDashboard";
 import { UserSettings } from "@/features/profile/components/UserSettings";
 import { DashboardLayout } from "@/modules/user/layouts/DashboardLayout";
 import { AdminLayout } from "@/modules/admin/layouts/AdminLayout";
-
-const queryClient = new QueryClient();
+import { queryClient } from "@/core/data/queryClient";
 
 function AppContent() {
   useKeyboardShortcuts();
@@ -110,6 +112,16 @@ function AppContent() {
             </ProtectedRoute>
           } 
         />
+        <Route 
+          path="/timesheets" 
+          element={
+            <ProtectedRoute>
+              <DashboardLayout>
+                <Timesheets />
+              </DashboardLayout>
+            </ProtectedRoute>
+          } 
+        />
         <Route 
           path="/profile/edit" 
           element={
@@ -190,6 +202,14 @@ function AppContent() {
             </AdminRoute>
           } 
         />
+        <Route 
+          path="/admin/trash" 
+          element={
+            <AdminRoute>
+              <AdminTrash />
+            </AdminRoute>
+          } 
+        />
         <Route 
           path="/admin/time-analytics" 
           element={
@@ -223,6 +243,7 @@ function AppContent() {
       </Routes>
       <GlobalTaskEditPanel />
       <KeyboardShortcutsDialog />
+      <CommandPalette />
     </>
   );
 }
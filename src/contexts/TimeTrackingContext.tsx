@@ -1,118 +1,245 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { supabase } from '@/core/config/client';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/shared/hooks/use-toast';
+import { queryKeys } from '@/core/data/queryKeys';
+import { TimeEntryRepository, RunningTimeEntry } from '@/core/data/repositories/timeEntryRepository';
+import { useIdleDetection } from '@/features/time-tracking/hooks/useIdleDetection';
 
-interface TimeEntry {
-  id: string;
-  user_id: string;
+// What a timer logs to; both left out for time that isn't on any project
+export interface TimerTarget {
+  taskId?: string | null;
+  projectId?: string | null;
+}
+
+// Timer preferences, kept per device
+export interface TimerSettings {
+  // Minutes without input before asking about idle time; 0 turns it off
+  idleMinutes: number;
+  pomodoroEnabled: boolean;
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  // Every this many pomodoros the break is a long one
+  longBreakEvery: number;
+}
+
+const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  idleMinutes: 30,
+  pomodoroEnabled: false,
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+};
+
+// keep: leave the entry as is; discard: end it where the idleness began and
+// carry on from now; split: as discard, plus log the idle stretch separately
+export type IdleAction = 'keep' | 'discard' | 'split';
+
+interface ResumeTarget {
   description: string;
-  started_at: string;
-  ended_at: string | null;
-  duration: number;
-  is_running: boolean;
-  created_at: string;
-  task_id: string | null;
-  project_id: string | null;
+  taskId: string | null;
+  projectId: string | null;
+}
+
+export interface PomodoroStatus {
+  phase: 'off' | 'work' | 'break';
+  // Seconds left in the current work interval or break
+  remaining: number;
+  // Pomodoros finished since the last long break
+  completed: number;
+  // What was running when the last pomodoro ended, to pick it back up
+  resumeTarget: ResumeTarget | null;
+}
+
+interface PomodoroState {
+  phase: PomodoroStatus['phase'];
+  startedAt: number;
+  // Seconds
+  length: number;
+  completed: number;
+  resumeTarget: ResumeTarget | null;
 }
 
 interface TimeTrackingContextType {
-  currentEntry: TimeEntry | null;
+  currentEntry: RunningTimeEntry | null;
   isRunning: boolean;
   currentTime: number;
-  startTimer: (description: string) => Promise<void>;
+  startTimer: (description: string, target?: TimerTarget) => Promise<void>;
   stopTimer: () => Promise<void>;
   refreshRunningTimer: () => Promise<void>;
+  settings: TimerSettings;
+  updateSettings: (changes: Partial<TimerSettings>) => void;
+  // When the user went idle while the timer ran, until they say what to do with it
+  idleSince: Date | null;
+  resolveIdle: (action: IdleAction) => Promise<void>;
+  pomodoro: PomodoroStatus;
+  // Ends a break early, or starts the next pomodoro on what was running before it
+  resumeWork: () => Promise<void>;
 }
 
 const TimeTrackingContext = createContext<TimeTrackingContextType | undefined>(undefined);
 
+const SETTINGS_KEY = 'time-tracking-settings';
+
+const loadSettings = (): TimerSettings => {
+  try {
+    return { ...DEFAULT_TIMER_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_TIMER_SETTINGS;
+  }
+};
+
+const POMODORO_OFF: PomodoroState = { phase: 'off', startedAt: 0, length: 0, completed: 0, resumeTarget: null };
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${secs}s`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${secs}s`;
+  } else {
+    return `${secs}s`;
+  }
+};
+
+const secondsBetween = (from: number, to: number) => Math.max(0, Math.floor((to - from) / 1000));
+
+const startedAtOf = (entry: RunningTimeEntry) => new Date(entry.started_at!).getTime();
+
+// The fields that stop an entry at a given moment
+const finishFields = (entry: RunningTimeEntry, endedAt: Date) => ({
+  ended_at: endedAt.toISOString(),
+  duration: secondsBetween(startedAtOf(entry), endedAt.getTime()),
+  is_running: false,
+});
+
+/**
+ * The user's single running timer. The floating timer, task cards and task time
+ * trackers all drive it, so starting a timer anywhere stops the previous one.
+ * It also watches for idleness and runs the optional Pomodoro cycle.
+ */
 export function TimeTrackingProvider({ children }: { children: ReactNode }) {
-  const [currentEntry, setCurrentEntry] = useState<TimeEntry | null>(null);
-  const [isRunning, setIsRunning] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
+  const [currentEntry, setCurrentEntry] = useState<RunningTimeEntry | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [settings, setSettings] = useState<TimerSettings>(loadSettings);
+  const [idleSince, setIdleSince] = useState<Date | null>(null);
+  const [pomodoro, setPomodoro] = useState<PomodoroState>(POMODORO_OFF);
+  // Guards the async end of a pomodoro phase against the next ticks
+  const phaseEndingRef = useRef(false);
+  const isRunning = currentEntry !== null;
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { reset: resetIdle } = useIdleDetection(isRunning, settings.idleMinutes, setIdleSince);
 
   useEffect(() => {
     if (user) {
       checkRunningTimer();
+    } else {
+      setCurrentEntry(null);
+      setPomodoro(POMODORO_OFF);
     }
   }, [user]); // checkRunningTimer is defined below and doesn't need to be in deps
 
+  // Tick while there's a timer or a break to count
   useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isRunning && currentEntry) {
-      interval = setInterval(() => {
-        const now = Date.now();
-        const startTime = new Date(currentEntry.started_at).getTime();
-        setCurrentTime(Math.floor((now - startTime) / 1000));
-      }, 1000);
-    }
+    if (!currentEntry && pomodoro.phase !== 'break') return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [isRunning, currentEntry]);
+  }, [currentEntry, pomodoro.phase]);
+
+  // A stopped timer has no idle time left to ask about
+  useEffect(() => {
+    if (!currentEntry) setIdleSince(null);
+  }, [currentEntry]);
+
+  const currentTime = currentEntry ? secondsBetween(startedAtOf(currentEntry), now) : 0;
+  const pomodoroRemaining = pomodoro.phase === 'off'
+    ? 0
+    : Math.max(0, Math.ceil((pomodoro.startedAt + pomodoro.length * 1000 - now) / 1000));
+
+  useEffect(() => {
+    if (pomodoro.phase === 'off' || pomodoroRemaining > 0 || phaseEndingRef.current) return;
+
+    if (pomodoro.phase === 'work' && currentEntry) {
+      phaseEndingRef.current = true;
+      completePomodoro(currentEntry).finally(() => {
+        phaseEndingRef.current = false;
+      });
+    } else if (pomodoro.phase === 'break') {
+      setPomodoro(prev => ({ ...prev, phase: 'off' }));
+      notify("Break is over", "Ready for the next pomodoro?");
+    }
+  }, [pomodoroRemaining, pomodoro.phase]);
+
+  // Task time trackers list the entries, so they refresh whenever the timer changes
+  const invalidateEntries = () => queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all });
+
+  // Pomodoro prompts matter most when the app is in the background
+  const notify = (title: string, description: string) => {
+    toast({ title, description });
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification(title, { body: description, icon: '/favicon.ico' });
+    }
+  };
+
+  const startWorkInterval = () => {
+    setPomodoro(prev => ({
+      ...prev,
+      phase: 'work',
+      startedAt: Date.now(),
+      length: settings.workMinutes * 60,
+      resumeTarget: null,
+    }));
+  };
 
   const checkRunningTimer = async () => {
     if (!user) return;
-    
+
     try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .is('task_id', null)
-        .eq('is_running', true)
-        .maybeSingle();
-
-      if (error && error.code !== 'PGRST116') throw error;
-      
-      if (data) {
-        setCurrentEntry(data);
-        setIsRunning(true);
-        const now = Date.now();
-        const startTime = new Date(data.started_at).getTime();
-        setCurrentTime(Math.floor((now - startTime) / 1000));
+      const entry = await TimeEntryRepository.getRunningTimer(user.id);
+      setCurrentEntry(entry);
+      // How far into a pomodoro a reloaded timer was isn't kept, so it starts a new one
+      if (entry && settings.pomodoroEnabled) {
+        setPomodoro(prev => (prev.phase === 'work' ? prev : { ...prev, phase: 'work', startedAt: Date.now(), length: settings.workMinutes * 60, resumeTarget: null }));
       }
     } catch (err) {
       console.error('Error checking running timer:', err);
     }
   };
 
-  const startTimer = async (description: string) => {
+  const startTimer = async (description: string, target: TimerTarget = {}) => {
     if (!user) return;
     if (!description.trim()) {
       throw new Error('Description is required');
     }
 
-    // Stop any existing running timer first
-    if (currentEntry && isRunning) {
-      await stopTimer();
-    }
+    const previous = currentEntry;
 
     try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .insert({
-          user_id: user.id,
-          description: description.trim(),
-          started_at: new Date().toISOString(),
-          is_running: true,
-          duration: 0,
-          task_id: null,
-          project_id: null,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setCurrentEntry(data);
-      setIsRunning(true);
-      setCurrentTime(0);
+      const entry = await TimeEntryRepository.startTimer(user.id, description.trim(), target);
+      setCurrentEntry(entry);
+      invalidateEntries();
+      // Switching tasks carries on with the pomodoro under way
+      if (settings.pomodoroEnabled && pomodoro.phase !== 'work') {
+        startWorkInterval();
+      }
 
       toast({
         title: "Timer Started",
-        description: "Time tracking has begun",
+        description: previous
+          ? `Stopped "${previous.task?.title ?? previous.description}" after ${formatDuration(secondsBetween(startedAtOf(previous), Date.now()))}`
+          : entry.task
+            ? `Tracking time on "${entry.task.title}"`
+            : "Time tracking has begun",
       });
     } catch (err) {
       console.error('Error starting timer:', err);
@@ -121,6 +248,8 @@ export function TimeTrackingProvider({ children }: { children: ReactNode }) {
         description: "Failed to start timer",
         variant: "destructive"
       });
+      // The timer may have been switched from another tab or device
+      checkRunningTimer();
       throw err;
     }
   };
@@ -129,41 +258,19 @@ export function TimeTrackingProvider({ children }: { children: ReactNode }) {
     if (!currentEntry) return;
 
     try {
-      const endTime = new Date().toISOString();
-      const duration = Math.floor((new Date(endTime).getTime() - new Date(currentEntry.started_at).getTime()) / 1000);
-
-      const { error } = await supabase
-        .from('time_entries')
-        .update({
-          ended_at: endTime,
-          duration,
-          is_running: false,
-        })
-        .eq('id', currentEntry.id);
-
-      if (error) throw error;
-
-      const formatDuration = (seconds: number) => {
-        const hours = Math.floor(seconds / 3600);
-        const minutes = Math.floor((seconds % 3600) / 60);
-        const secs = seconds % 60;
-
-        if (hours > 0) {
-          return `${hours}h ${minutes}m ${secs}s`;
-        } else if (minutes > 0) {
-          return `${minutes}m ${secs}s`;
-        } else {
-          return `${secs}s`;
-        }
-      };
+      const fields = finishFields(currentEntry, new Date());
+      await TimeEntryRepository.updateEntry(currentEntry.id, fields);
 
       setCurrentEntry(null);
-      setIsRunning(false);
-      setCurrentTime(0);
+      invalidateEntries();
+      // Stopping by hand abandons the pomodoro under way
+      if (pomodoro.phase === 'work') {
+        setPomodoro(prev => ({ ...prev, phase: 'off' }));
+      }
 
       toast({
         title: "Timer Stopped",
-        description: `Time logged: ${formatDuration(duration)}`,
+        description: `Time logged: ${formatDuration(fields.duration)}`,
       });
     } catch (err) {
       console.error('Error stopping timer:', err);
@@ -176,6 +283,123 @@ export function TimeTrackingProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Credit the pomodoro to the running entry and stop it for the break
+  const completePomodoro = async (entry: RunningTimeEntry) => {
+    const completed = pomodoro.completed + 1;
+    const longBreak = completed % Math.max(1, settings.longBreakEvery) === 0;
+    const breakMinutes = longBreak ? settings.longBreakMinutes : settings.shortBreakMinutes;
+
+    try {
+      await TimeEntryRepository.updateEntry(entry.id, {
+        ...finishFields(entry, new Date()),
+        pomodoros: entry.pomodoros + 1,
+      });
+    } catch (err) {
+      console.error('Error completing pomodoro:', err);
+      setPomodoro(prev => ({ ...prev, phase: 'off' }));
+      toast({
+        title: "Error",
+        description: "Failed to save the pomodoro",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCurrentEntry(null);
+    invalidateEntries();
+    setPomodoro({
+      phase: 'break',
+      startedAt: Date.now(),
+      length: breakMinutes * 60,
+      completed: longBreak ? 0 : completed,
+      resumeTarget: { description: entry.description ?? '', taskId: entry.task_id, projectId: entry.project_id },
+    });
+
+    notify(
+      "Time for a break",
+      `Pomodoro done${entry.task ? ` on "${entry.task.title}"` : ''}. Take ${breakMinutes} minutes off.`
+    );
+  };
+
+  const resumeWork = async () => {
+    const target = pomodoro.resumeTarget;
+    if (!target) return;
+
+    await startTimer(target.description || 'Work', { taskId: target.taskId, projectId: target.projectId });
+  };
+
+  const resolveIdle = async (action: IdleAction) => {
+    const since = idleSince;
+    const entry = currentEntry;
+    setIdleSince(null);
+    resetIdle();
+    if (action === 'keep' || !since || !entry || !user) return;
+
+    const idleStart = new Date(Math.max(since.getTime(), startedAtOf(entry)));
+    const idleEnd = new Date();
+
+    try {
+      await TimeEntryRepository.updateEntry(entry.id, finishFields(entry, idleStart));
+
+      if (action === 'split') {
+        await TimeEntryRepository.createEntry({
+          user_id: user.id,
+          task_id: entry.task_id,
+          project_id: entry.project_id,
+          description: 'Idle time',
+          started_at: idleStart.toISOString(),
+          ended_at: idleEnd.toISOString(),
+          duration: secondsBetween(idleStart.getTime(), idleEnd.getTime()),
+          is_running: false,
+          is_billable: false,
+        });
+      }
+
+      const next = await TimeEntryRepository.startTimer(user.id, entry.description || 'Work', {
+        taskId: entry.task_id,
+        projectId: entry.project_id,
+      });
+      setCurrentEntry(next);
+      invalidateEntries();
+      // Time away doesn't count towards a pomodoro
+      if (pomodoro.phase === 'work') {
+        startWorkInterval();
+      }
+
+      toast({
+        title: action === 'split' ? "Idle time split off" : "Idle time discarded",
+        description: `${formatDuration(secondsBetween(idleStart.getTime(), idleEnd.getTime()))} ${
+          action === 'split' ? 'logged as a separate non-billable entry' : 'removed from the timer'
+        }`,
+      });
+    } catch (err) {
+      console.error('Error resolving idle time:', err);
+      toast({
+        title: "Error",
+        description: "Failed to adjust the timer",
+        variant: "destructive"
+      });
+      checkRunningTimer();
+    }
+  };
+
+  const updateSettings = (changes: Partial<TimerSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+
+    if (changes.pomodoroEnabled === true && !settings.pomodoroEnabled) {
+      if ('Notification' in window && Notification.permission === 'default') {
+        Notification.requestPermission();
+      }
+      if (currentEntry) {
+        setPomodoro(prev => ({ ...prev, phase: 'work', startedAt: Date.now(), length: next.workMinutes * 60, resumeTarget: null }));
+      }
+    } else if (changes.pomodoroEnabled === false) {
+      setPomodoro(POMODORO_OFF);
+    }
+  };
+
   const refreshRunningTimer = async () => {
     await checkRunningTimer();
   };
@@ -187,6 +411,17 @@ export function TimeTrackingProvider({ children }: { children: ReactNode }) {
     startTimer,
     stopTimer,
     refreshRunningTimer,
+    settings,
+    updateSettings,
+    idleSince,
+    resolveIdle,
+    pomodoro: {
+      phase: pomodoro.phase,
+      remaining: pomodoroRemaining,
+      completed: pomodoro.completed,
+      resumeTarget: pomodoro.resumeTarget,
+    },
+    resumeWork,
   };
 
   return (
@@ -202,4 +437,4 @@ export function useTimeTracking() {
     throw new Error('useTimeTracking must be used within a TimeTrackingProvider');
   }
   return context;
-}
\ No newline at end of file
+}
@@ -14,6 +14,68 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string | null
+          updated_by: string | null
+          value: Json
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string | null
+          updated_by?: string | null
+          value: Json
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      billing_rates: {
+        Row: {
+          created_at: string
+          hourly_rate: number
+          id: string
+          project_id: string | null
+          role: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          hourly_rate: number
+          id?: string
+          project_id?: string | null
+          role?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          hourly_rate?: number
+          id?: string
+          project_id?: string | null
+          role?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "billing_rates_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       calendar_events: {
         Row: {
           created_at: string
@@ -50,6 +112,171 @@ export type Database = {
         }
         Relationships: []
       }
+      invoice_items: {
+        Row: {
+          amount: number
+          description: string
+          id: string
+          invoice_id: string
+          item_type: string
+          position: number
+          quantity: number
+          task_id: string | null
+          unit_price: number
+          user_id: string | null
+        }
+        Insert: {
+          amount: number
+          description: string
+          id?: string
+          invoice_id: string
+          item_type: string
+          position?: number
+          quantity: number
+          task_id?: string | null
+          unit_price: number
+          user_id?: string | null
+        }
+        Update: {
+          amount?: number
+          description?: string
+          id?: string
+          invoice_id?: string
+          item_type?: string
+          position?: number
+          quantity?: number
+          task_id?: string | null
+          unit_price?: number
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_items_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_time_entries: {
+        Row: {
+          invoice_id: string
+          time_entry_id: string
+        }
+        Insert: {
+          invoice_id: string
+          time_entry_id: string
+        }
+        Update: {
+          invoice_id?: string
+          time_entry_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_time_entries_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_time_entries_time_entry_id_fkey"
+            columns: ["time_entry_id"]
+            isOneToOne: false
+            referencedRelation: "time_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          client_name: string | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          due_date: string | null
+          file_id: string | null
+          id: string
+          invoice_number: number
+          issue_date: string
+          notes: string | null
+          period_end: string
+          period_start: string
+          project_id: string
+          status: string
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          total: number
+          updated_at: string
+        }
+        Insert: {
+          client_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          due_date?: string | null
+          file_id?: string | null
+          id?: string
+          invoice_number: number
+          issue_date?: string
+          notes?: string | null
+          period_end: string
+          period_start: string
+          project_id: string
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total?: number
+          updated_at?: string
+        }
+        Update: {
+          client_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          due_date?: string | null
+          file_id?: string | null
+          id?: string
+          invoice_number?: number
+          issue_date?: string
+          notes?: string | null
+          period_end?: string
+          period_start?: string
+          project_id?: string
+          status?: string
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "project_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       kanban_columns: {
         Row: {
           color: string | null
@@ -58,6 +285,7 @@ export type Database = {
           name: string
           position: number
           project_id: string
+          status_value: string
           updated_at: string
         }
         Insert: {
@@ -67,6 +295,7 @@ export type Database = {
           name: string
           position?: number
           project_id: string
+          status_value: string
           updated_at?: string
         }
         Update: {
@@ -76,6 +305,7 @@ export type Database = {
           name?: string
           position?: number
           project_id?: string
+          status_value?: string
           updated_at?: string
         }
         Relationships: []
@@ -191,9 +421,55 @@ export type Database = {
         }
         Relationships: []
       }
+      project_custom_fields: {
+        Row: {
+          created_at: string
+          field_type: string
+          id: string
+          name: string
+          options: Json
+          position: number
+          project_id: string
+          show_in_list: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          field_type: string
+          id?: string
+          name: string
+          options?: Json
+          position?: number
+          project_id: string
+          show_in_list?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          field_type?: string
+          id?: string
+          name?: string
+          options?: Json
+          position?: number
+          project_id?: string
+          show_in_list?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_custom_fields_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_files: {
         Row: {
           created_at: string
+          deleted_at: string | null
+          deleted_by: string | null
           file_path: string
           file_size: number
           file_type: string
@@ -204,6 +480,8 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           file_path: string
           file_size: number
           file_type: string
@@ -214,6 +492,8 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           file_path?: string
           file_size?: number
           file_type?: string
@@ -224,6 +504,38 @@ export type Database = {
         }
         Relationships: []
       }
+      project_labels: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          project_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          name: string
+          project_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          project_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_labels_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_members: {
         Row: {
           id: string
@@ -259,45 +571,160 @@ export type Database = {
           },
         ]
       }
+      project_statuses: {
+        Row: {
+          color: string
+          created_at: string | null
+          id: string
+          name: string
+          position: number
+          project_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string | null
+          id?: string
+          name: string
+          position?: number
+          project_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          color?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          position?: number
+          project_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_statuses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
+          archived_at: string | null
+          archived_by: string | null
+          auto_archive_days: number | null
           category: string | null
           created_at: string
           created_by: string
+          deleted_at: string | null
+          deleted_by: string | null
           description: string | null
           end_date: string | null
+          estimate_unit: string
+          hours_per_point: number | null
           id: string
+          is_template: boolean
           name: string
+          role_permissions: Json
           start_date: string | null
           status: string | null
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
+          auto_archive_days?: number | null
           category?: string | null
           created_at?: string
           created_by: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_date?: string | null
+          estimate_unit?: string
+          hours_per_point?: number | null
           id?: string
+          is_template?: boolean
           name: string
+          role_permissions?: Json
           start_date?: string | null
           status?: string | null
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
+          archived_by?: string | null
+          auto_archive_days?: number | null
           category?: string | null
           created_at?: string
           created_by?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           end_date?: string | null
+          estimate_unit?: string
+          hours_per_point?: number | null
           id?: string
+          is_template?: boolean
           name?: string
+          role_permissions?: Json
           start_date?: string | null
           status?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      saved_task_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          group_by: string | null
+          id: string
+          is_shared: boolean
+          name: string
+          project_id: string | null
+          scope: string
+          updated_at: string
+          user_id: string
+          view_mode: string | null
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          group_by?: string | null
+          id?: string
+          is_shared?: boolean
+          name: string
+          project_id?: string | null
+          scope?: string
+          updated_at?: string
+          user_id: string
+          view_mode?: string | null
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          group_by?: string | null
+          id?: string
+          is_shared?: boolean
+          name?: string
+          project_id?: string | null
+          scope?: string
+          updated_at?: string
+          user_id?: string
+          view_mode?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_task_views_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_comments: {
         Row: {
           attachments: Json | null
@@ -355,14 +782,187 @@ export type Database = {
           },
         ]
       }
-      tasks: {
+      task_custom_field_values: {
         Row: {
-          assignee_id: string | null
-          budget: number | null
-          created_at: string
-          created_by: string
-          description: string | null
-          due_date: string | null
+          field_id: string
+          task_id: string
+          updated_at: string
+          value: Json | null
+        }
+        Insert: {
+          field_id: string
+          task_id: string
+          updated_at?: string
+          value?: Json | null
+        }
+        Update: {
+          field_id?: string
+          task_id?: string
+          updated_at?: string
+          value?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_custom_field_values_field_id_fkey"
+            columns: ["field_id"]
+            isOneToOne: false
+            referencedRelation: "project_custom_fields"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_custom_field_values_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_dependencies: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          depends_on_task_id: string
+          id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_task_id: string
+          id?: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          depends_on_task_id?: string
+          id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_dependencies_depends_on_task_id_fkey"
+            columns: ["depends_on_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_dependencies_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_field_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          field: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          project_id: string
+          reverted_from: string | null
+          task_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          field: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          project_id: string
+          reverted_from?: string | null
+          task_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          field?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          project_id?: string
+          reverted_from?: string | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_field_history_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_field_history_reverted_from_fkey"
+            columns: ["reverted_from"]
+            isOneToOne: false
+            referencedRelation: "task_field_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_field_history_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_labels: {
+        Row: {
+          created_at: string
+          label_id: string
+          task_id: string
+        }
+        Insert: {
+          created_at?: string
+          label_id: string
+          task_id: string
+        }
+        Update: {
+          created_at?: string
+          label_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_labels_label_id_fkey"
+            columns: ["label_id"]
+            isOneToOne: false
+            referencedRelation: "project_labels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_labels_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          archived_at: string | null
+          archived_by: string | null
+          assignee_id: string | null
+          budget: number | null
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string | null
+          due_date: string | null
+          due_time: string | null
+          estimate: number | null
           id: string
           is_subtask: boolean | null
           kanban_column: string | null
@@ -370,18 +970,29 @@ export type Database = {
           parent_task_id: string | null
           priority: string
           project_id: string
+          recurrence: Json | null
+          recurrence_index: number
+          recurrence_previous_id: string | null
+          start_date: string | null
           status: string
           subtask_order: number | null
           title: string
           updated_at: string
         }
         Insert: {
+          archived_at?: string | null
+          archived_by?: string | null
           assignee_id?: string | null
           budget?: number | null
+          completed_at?: string | null
           created_at?: string
           created_by: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date?: string | null
+          due_time?: string | null
+          estimate?: number | null
           id?: string
           is_subtask?: boolean | null
           kanban_column?: string | null
@@ -389,18 +1000,29 @@ export type Database = {
           parent_task_id?: string | null
           priority?: string
           project_id: string
+          recurrence?: Json | null
+          recurrence_index?: number
+          recurrence_previous_id?: string | null
+          start_date?: string | null
           status?: string
           subtask_order?: number | null
           title: string
           updated_at?: string
         }
         Update: {
+          archived_at?: string | null
+          archived_by?: string | null
           assignee_id?: string | null
           budget?: number | null
+          completed_at?: string | null
           created_at?: string
           created_by?: string
+          deleted_at?: string | null
+          deleted_by?: string | null
           description?: string | null
           due_date?: string | null
+          due_time?: string | null
+          estimate?: number | null
           id?: string
           is_subtask?: boolean | null
           kanban_column?: string | null
@@ -408,6 +1030,10 @@ export type Database = {
           parent_task_id?: string | null
           priority?: string
           project_id?: string
+          recurrence?: Json | null
+          recurrence_index?: number
+          recurrence_previous_id?: string | null
+          start_date?: string | null
           status?: string
           subtask_order?: number | null
           title?: string
@@ -430,15 +1056,168 @@ export type Database = {
           },
         ]
       }
+      time_entries: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          duration: number
+          ended_at: string | null
+          id: string
+          is_billable: boolean
+          is_running: boolean | null
+          pomodoros: number
+          project_id: string | null
+          started_at: string | null
+          task_id: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          duration?: number
+          ended_at?: string | null
+          id?: string
+          is_billable?: boolean
+          is_running?: boolean | null
+          pomodoros?: number
+          project_id?: string | null
+          started_at?: string | null
+          task_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          duration?: number
+          ended_at?: string | null
+          id?: string
+          is_billable?: boolean
+          is_running?: boolean | null
+          pomodoros?: number
+          project_id?: string | null
+          started_at?: string | null
+          task_id?: string | null
+          updated_at?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timesheets: {
+        Row: {
+          created_at: string
+          id: string
+          project_id: string
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string | null
+          time_zone: string
+          updated_at: string
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          project_id: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          project_id?: string
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          time_zone?: string
+          updated_at?: string
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timesheets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      archive_done_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      bulk_delete_tasks: {
+        Args: { p_task_ids: string[] }
+        Returns: number
+      }
+      bulk_update_tasks: {
+        Args: { p_task_ids: string[]; p_changes: Json }
+        Returns: Json
+      }
+      calculate_task_estimate: {
+        Args: { task_id: string }
+        Returns: number
+      }
       calculate_task_progress: {
         Args: { task_id: string }
         Returns: number
       }
+      count_tasks_by_status: {
+        Args: { p_filters: Json }
+        Returns: {
+          project_id: string
+          status: string
+          total: number
+        }[]
+      }
+      create_invoice: {
+        Args: {
+          p_client_name?: string
+          p_due_date?: string
+          p_from: string
+          p_notes?: string
+          p_project_id: string
+          p_tax_rate?: number
+          p_time_zone: string
+          p_to: string
+        }
+        Returns: string
+      }
       create_notification: {
         Args: {
           p_user_id: string
@@ -450,14 +1229,164 @@ export type Database = {
         }
         Returns: string
       }
+      create_project_from_template: {
+        Args: {
+          p_template_id: string
+          p_name: string
+          p_description?: string
+          p_category?: string
+          p_status?: string
+          p_start_date?: string
+          p_end_date?: string
+          p_copy_members?: boolean
+        }
+        Returns: string
+      }
+      default_project_role_permissions: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      export_project_archive: {
+        Args: { p_project_id: string }
+        Returns: Json
+      }
       get_comment_depth: {
         Args: { comment_id: string }
         Returns: number
       }
+      get_estimate_overruns: {
+        Args: { p_project_id?: string }
+        Returns: {
+          task_id: string
+          title: string
+          project_id: string
+          project_name: string
+          assignee_id: string | null
+          estimate: number
+          estimate_unit: string
+          estimated_seconds: number
+          logged_seconds: number
+        }[]
+      }
+      get_my_project_permissions: {
+        Args: { p_project_ids: string[] }
+        Returns: {
+          project_id: string
+          permissions: Json
+        }[]
+      }
+      get_project_member_directory: {
+        Args: { p_project_id: string }
+        Returns: {
+          user_id: string
+          name: string
+          email: string
+        }[]
+      }
+      get_task_estimate: {
+        Args: { p_task_id: string }
+        Returns: {
+          estimate: number | null
+          estimate_unit: string
+          estimated_seconds: number | null
+          logged_seconds: number
+          subtask_rollup: boolean
+        }[]
+      }
+      get_task_estimates: {
+        Args: { p_task_ids: string[] }
+        Returns: {
+          estimate: number | null
+          estimate_unit: string
+          estimated_seconds: number | null
+          logged_seconds: number
+          subtask_rollup: boolean
+          task_id: string
+        }[]
+      }
+      get_timesheet_rows: {
+        Args: { p_time_zone: string; p_user_id: string; p_week_start: string }
+        Returns: {
+          project_id: string | null
+          project_name: string | null
+          task_id: string | null
+          task_title: string | null
+          work_date: string
+          seconds: number
+        }[]
+      }
+      has_project_permission: {
+        Args: { p_project_id: string; p_permission: string }
+        Returns: boolean
+      }
+      is_done_status: {
+        Args: { p_status: string }
+        Returns: boolean
+      }
       is_admin: {
         Args: { user_id: string }
         Returns: boolean
       }
+      is_time_entry_approved: {
+        Args: { p_project_id: string; p_started_at: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_time_entry_locked: {
+        Args: { p_project_id: string; p_started_at: string; p_user_id: string }
+        Returns: boolean
+      }
+      list_task_ids: {
+        Args: { p_filters: Json; p_limit?: number }
+        Returns: string[]
+      }
+      list_task_page: {
+        Args: {
+          p_filters: Json
+          p_sort_by?: string
+          p_sort_desc?: boolean
+          p_cursor_key?: string
+          p_cursor_id?: string
+          p_limit?: number
+        }
+        Returns: {
+          task: Json
+          sort_key: string
+        }[]
+      }
+      list_timesheets: {
+        Args: { p_project_id?: string; p_status?: string }
+        Returns: {
+          id: string
+          user_id: string
+          user_name: string | null
+          project_id: string
+          project_name: string
+          week_start: string
+          time_zone: string
+          status: string
+          submitted_at: string | null
+          reviewed_by: string | null
+          reviewer_name: string | null
+          reviewed_at: string | null
+          review_comment: string | null
+          total_seconds: number
+        }[]
+      }
+      list_trash: {
+        Args: { p_project_id?: string }
+        Returns: {
+          entity_type: string
+          id: string
+          project_id: string
+          project_name: string
+          title: string
+          deleted_at: string
+          deleted_by: string | null
+          deleted_by_name: string | null
+          item_count: number
+          purge_at: string
+        }[]
+      }
       log_project_activity: {
         Args: {
           p_project_id: string
@@ -470,6 +1399,128 @@ export type Database = {
         }
         Returns: string
       }
+      move_to_trash: {
+        Args: { p_entity_type: string; p_ids: string[] }
+        Returns: number
+      }
+      next_recurrence_date: {
+        Args: { rule: Json; from_date: string }
+        Returns: string
+      }
+      preview_invoice: {
+        Args: { p_from: string; p_project_id: string; p_time_zone: string; p_to: string }
+        Returns: {
+          item_type: string
+          description: string
+          task_id: string | null
+          user_id: string | null
+          quantity: number
+          unit_price: number
+          amount: number
+          entry_count: number
+        }[]
+      }
+      purge_expired_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      purge_from_trash: {
+        Args: { p_entity_type: string; p_ids: string[] }
+        Returns: string[]
+      }
+      restore_from_trash: {
+        Args: { p_entity_type: string; p_ids: string[] }
+        Returns: number
+      }
+      restore_project_archive: {
+        Args: { p_archive: Json; p_name?: string }
+        Returns: string
+      }
+      restore_task_snapshot: {
+        Args: { p_snapshot: Json }
+        Returns: number
+      }
+      revert_task_field_change: {
+        Args: { p_history_id: string }
+        Returns: undefined
+      }
+      review_timesheet: {
+        Args: { p_approve: boolean; p_comment?: string; p_timesheet_id: string }
+        Returns: undefined
+      }
+      search_full_text: {
+        Args: { p_query: string; p_project_id?: string; p_limit?: number }
+        Returns: {
+          kind: string
+          id: string
+          task_id: string | null
+          project_id: string
+          title: string
+          snippet: string | null
+          rank: number
+        }[]
+      }
+      search_workspace: {
+        Args: { p_query: string; p_limit?: number }
+        Returns: {
+          kind: string
+          id: string
+          title: string
+          subtitle: string | null
+          project_id: string | null
+          task_id: string | null
+        }[]
+      }
+      set_invoice_file: {
+        Args: { p_file_id: string; p_invoice_id: string }
+        Returns: undefined
+      }
+      set_invoice_status: {
+        Args: { p_invoice_id: string; p_status: string }
+        Returns: undefined
+      }
+      set_project_archived: {
+        Args: { p_archived: boolean; p_project_id: string }
+        Returns: undefined
+      }
+      set_project_role_permissions: {
+        Args: { p_project_id: string; p_matrix: Json }
+        Returns: undefined
+      }
+      set_tasks_archived: {
+        Args: { p_archived: boolean; p_task_ids: string[] }
+        Returns: number
+      }
+      set_timesheet_hours: {
+        Args: {
+          p_date: string
+          p_project_id?: string
+          p_seconds: number
+          p_task_id?: string
+          p_time_zone: string
+        }
+        Returns: undefined
+      }
+      spawn_due_recurring_tasks: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      start_timer: {
+        Args: { p_description: string; p_project_id?: string; p_task_id?: string }
+        Returns: string
+      }
+      submit_timesheet: {
+        Args: { p_time_zone: string; p_week_start: string }
+        Returns: number
+      }
+      trash_retention_days: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      withdraw_timesheet: {
+        Args: { p_week_start: string }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,28 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queryKeys';
+import { CommentRepository, CommentInsert } from '../repositories/commentRepository';
+
+/**
+ * The comments of a task, newest first
+ */
+export function useTaskComments(taskId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.comments.byTask(taskId),
+    queryFn: () => CommentRepository.getTaskComments(taskId),
+    enabled
+  });
+}
+
+/**
+ * Add a comment and refresh the task's comments
+ */
+export function useAddComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (comment: CommentInsert) => CommentRepository.addComment(comment),
+    onSuccess: (_data, comment) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments.byTask(comment.task_id) });
+    }
+  });
+}
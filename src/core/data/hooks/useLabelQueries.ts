@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { LabelService } from '@/services/labelService';
+import { queryKeys } from '../queryKeys';
+
+/**
+ * The labels defined for a project
+ */
+export function useProjectLabels(projectId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.labels.byProject(projectId ?? ''),
+    queryFn: () => LabelService.getProjectLabels(projectId!),
+    enabled: !!user && !!projectId
+  });
+}
@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys } from '../queryKeys';
+import { MemberRepository } from '../repositories/memberRepository';
+
+/**
+ * The members of a project with their name and role
+ */
+export function useProjectMembers(projectId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.members.byProject(projectId ?? ''),
+    queryFn: () => MemberRepository.getProjectMembers(projectId!),
+    enabled: !!user && !!projectId
+  });
+}
+
+/**
+ * Every user profile as an id and display name
+ */
+export function useProfiles() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.members.profiles(),
+    queryFn: () => MemberRepository.getProfiles(),
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000
+  });
+}
@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys } from '../queryKeys';
+import { ProjectRepository } from '../repositories/projectRepository';
+
+/**
+ * All projects the current user can see
+ */
+export function useProjects() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.projects.list(),
+    queryFn: () => ProjectRepository.getProjects(),
+    enabled: !!user
+  });
+}
+
+/**
+ * A single project
+ */
+export function useProject(projectId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.projects.detail(projectId ?? ''),
+    queryFn: () => ProjectRepository.getProject(projectId!),
+    enabled: !!user && !!projectId
+  });
+}
+
+/**
+ * Member and task counts of a project
+ */
+export function useProjectStats(projectId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.projects.stats(projectId ?? ''),
+    queryFn: () => ProjectRepository.getProjectStats(projectId!),
+    enabled: !!user && !!projectId
+  });
+}
@@ -0,0 +1,102 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/core/config/client';
+import type { Task } from '@/features/tasks/components/TaskCard';
+import { queryKeys } from '../queryKeys';
+import { patchCachedTask, removeCachedTask } from '../taskCache';
+import { useTaskVisibility } from './useTaskQueries';
+
+/**
+ * Keep cached tasks, statuses, kanban columns and members in step with the
+ * database. Task updates and deletes are applied to the cache in place; new
+ * tasks and changes to the other tables refetch only the affected queries.
+ * Without a project id every project is watched.
+ */
+export function useRealtimeCacheSync(projectId?: string) {
+  const queryClient = useQueryClient();
+  const visibleTo = useTaskVisibility();
+
+  useEffect(() => {
+    const filter = projectId ? `project_id=eq.${projectId}` : undefined;
+    const scope = projectId ?? 'all';
+
+    const invalidateProjectTasks = (changedProjectId?: string) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.list(visibleTo) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.pages() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.counts() });
+      if (changedProjectId) {
+        queryClient.invalidateQueries({ queryKey: [...queryKeys.tasks.all, 'project', changedProjectId] });
+        queryClient.invalidateQueries({ queryKey: queryKeys.projects.stats(changedProjectId) });
+      }
+    };
+
+    const tasksChannel = supabase
+      .channel(`tasks-cache-${scope}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks', filter }, (payload) => {
+        if (payload.eventType === 'DELETE') {
+          const removed = payload.old as Partial<Task>;
+          if (removed.id) removeCachedTask(queryClient, removed.id);
+          invalidateProjectTasks(removed.project_id);
+          return;
+        }
+
+        const task = payload.new as Task;
+
+        if (payload.eventType === 'INSERT') {
+          // New rows need labels and custom fields, so the lists are refetched
+          invalidateProjectTasks(task.project_id);
+          return;
+        }
+
+        if (visibleTo && task.created_by !== visibleTo && task.assignee_id !== visibleTo) {
+          removeCachedTask(queryClient, task.id);
+        } else if (!patchCachedTask(queryClient, task.id, task)) {
+          // The task just became visible to this user
+          invalidateProjectTasks(task.project_id);
+          return;
+        }
+        queryClient.invalidateQueries({ queryKey: queryKeys.projects.stats(task.project_id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.counts() });
+      })
+      .subscribe();
+
+    const boardChannel = supabase
+      .channel(`board-cache-${scope}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'project_statuses', filter }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.statuses.all });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'kanban_columns', filter }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.columns.all });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'project_members', filter }, () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
+        if (projectId) queryClient.invalidateQueries({ queryKey: queryKeys.projects.stats(projectId) });
+      })
+      .subscribe();
+
+    // Labels, custom field values and similar edits do not touch the task row;
+    // components raise the `taskUpdated` flag after them instead.
+    const handleStorageChange = (e: StorageEvent) => {
+      if (e.key === 'taskUpdated') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      }
+    };
+
+    const checkTaskUpdates = () => {
+      if (localStorage.getItem('taskUpdated')) {
+        localStorage.removeItem('taskUpdated');
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      }
+    };
+
+    window.addEventListener('storage', handleStorageChange);
+    const localUpdateInterval = setInterval(checkTaskUpdates, 500);
+
+    return () => {
+      supabase.removeChannel(tasksChannel);
+      supabase.removeChannel(boardChannel);
+      window.removeEventListener('storage', handleStorageChange);
+      clearInterval(localUpdateInterval);
+    };
+  }, [projectId, visibleTo, queryClient]);
+}
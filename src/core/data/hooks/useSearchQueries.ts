@@ -0,0 +1,36 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys } from '../queryKeys';
+import { SearchRepository } from '../repositories/searchRepository';
+
+/**
+ * Everything matching a search term; nothing is fetched until the term has two characters
+ */
+export function useWorkspaceSearch(term: string) {
+  const { user } = useAuth();
+  const query = term.trim();
+
+  return useQuery({
+    queryKey: queryKeys.search.workspace(query),
+    queryFn: () => SearchRepository.searchWorkspace(query),
+    enabled: !!user && query.length >= 2,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000
+  });
+}
+
+/**
+ * Ranked full-text hits for a search term, optionally within one project
+ */
+export function useFullTextSearch(term: string, projectId: string | null = null, limit = 20) {
+  const { user } = useAuth();
+  const query = term.trim();
+
+  return useQuery({
+    queryKey: queryKeys.search.fullText(query, projectId, limit),
+    queryFn: () => SearchRepository.searchFullText(query, projectId, limit),
+    enabled: !!user && query.length > 0,
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000
+  });
+}
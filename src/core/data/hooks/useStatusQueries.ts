@@ -0,0 +1,43 @@
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys } from '../queryKeys';
+import { StatusRepository } from '../repositories/statusRepository';
+
+/**
+ * The ordered statuses of a project
+ */
+export function useProjectStatuses(projectId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.statuses.byProject(projectId ?? ''),
+    queryFn: () => StatusRepository.getProjectStatuses(projectId!),
+    enabled: !!user && !!projectId
+  });
+}
+
+/**
+ * The statuses of many projects, keyed by project id
+ */
+export function useStatusesForProjects(projectIds: string[]) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.statuses.byProjects(projectIds),
+    queryFn: () => StatusRepository.getStatusesForProjects(projectIds),
+    enabled: !!user && projectIds.length > 0
+  });
+}
+
+/**
+ * The ordered kanban columns of a project
+ */
+export function useKanbanColumns(projectId: string | undefined) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.columns.byProject(projectId ?? ''),
+    queryFn: () => StatusRepository.getKanbanColumns(projectId!),
+    enabled: !!user && !!projectId
+  });
+}
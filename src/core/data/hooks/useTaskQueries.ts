@@ -0,0 +1,161 @@
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import type { Task } from '@/features/tasks/components/TaskCard';
+import { queryKeys } from '../queryKeys';
+import { patchCachedTask } from '../taskCache';
+import {
+  TaskRepository,
+  TaskInsert,
+  TaskUpdate,
+  TaskListQuery,
+  TaskCursor,
+  BulkTaskChanges,
+  TaskSnapshot
+} from '../repositories/taskRepository';
+
+/**
+ * Whose tasks the current user may list: null for admins (everything),
+ * otherwise the user's own id (tasks they created or are assigned to)
+ */
+export function useTaskVisibility(): string | null {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  return profile?.role !== 'admin' && user?.id ? user.id : null;
+}
+
+/**
+ * Every task visible to the current user. Prefer the paginated hooks for
+ * lists; this is for views that need the whole set at once (calendar, timeline).
+ */
+export function useAllTasks(enabled = true) {
+  const { user } = useAuth();
+  const visibleTo = useTaskVisibility();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.list(visibleTo),
+    queryFn: () => TaskRepository.getTasks(visibleTo),
+    enabled: !!user && enabled
+  });
+}
+
+/**
+ * A filtered, sorted task list loaded page by page as it is scrolled
+ */
+export function useTaskPages(query: TaskListQuery, enabled = true) {
+  const { user } = useAuth();
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.tasks.page(query),
+    queryFn: ({ pageParam }) => TaskRepository.getTaskPage(query, pageParam),
+    initialPageParam: null as TaskCursor | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    placeholderData: keepPreviousData,
+    enabled: !!user && enabled
+  });
+}
+
+/**
+ * Task counts per project and status for a filtered list
+ */
+export function useTaskCounts(query: TaskListQuery, enabled = true) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.count(query),
+    queryFn: () => TaskRepository.countTasks(query),
+    placeholderData: keepPreviousData,
+    enabled: !!user && enabled
+  });
+}
+
+/**
+ * The tasks of a project visible to the current user
+ */
+export function useProjectTasks(projectId: string | undefined) {
+  const { user } = useAuth();
+  const visibleTo = useTaskVisibility();
+
+  return useQuery({
+    queryKey: queryKeys.tasks.byProject(projectId ?? '', visibleTo),
+    queryFn: () => TaskRepository.getProjectTasks(projectId!, visibleTo),
+    enabled: !!user && !!projectId
+  });
+}
+
+/**
+ * Update task columns, showing the change in every cached list right away and
+ * rolling it back if the write fails
+ */
+export function useUpdateTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskId, fields }: { taskId: string; fields: TaskUpdate }) =>
+      TaskRepository.updateTask(taskId, fields),
+    onMutate: async ({ taskId, fields }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.tasks.all });
+      const snapshot = queryClient.getQueriesData<unknown>({ queryKey: queryKeys.tasks.all });
+      patchCachedTask(queryClient, taskId, fields as Partial<Task>);
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => {
+      context?.snapshot.forEach(([queryKey, tasks]) => queryClient.setQueryData<unknown>(queryKey, tasks));
+    },
+    onSuccess: (task, { fields }) => {
+      patchCachedTask(queryClient, task.id, task);
+      // Estimates shown on cards are rolled up on the server, including the parent's
+      if ('estimate' in fields) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.stats(task.project_id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.counts() });
+    }
+  });
+}
+
+/**
+ * Create a task and refresh every task list and the project's stats
+ */
+export function useCreateTask() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (fields: TaskInsert) => TaskRepository.createTask(fields),
+    onSuccess: task => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.stats(task.project_id) });
+    }
+  });
+}
+
+/**
+ * Apply the same changes to many tasks, then refresh every task list and project stats
+ */
+export function useBulkUpdateTasks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ taskIds, changes }: { taskIds: string[]; changes: BulkTaskChanges }) =>
+      TaskRepository.bulkUpdateTasks(taskIds, changes),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+    }
+  });
+}
+
+/**
+ * Undo a bulk update from the snapshot it returned
+ */
+export function useRestoreTasks() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (snapshot: TaskSnapshot[]) => TaskRepository.restoreTasks(snapshot),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+    }
+  });
+}
@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '../queryKeys';
+import {
+  TimeEntryRepository,
+  TimeEntryInsert,
+  TimeEntryUpdate
+} from '../repositories/timeEntryRepository';
+
+/**
+ * The time logged on a task, newest first
+ */
+export function useTaskTimeEntries(taskId: string) {
+  return useQuery({
+    queryKey: queryKeys.timeEntries.byTask(taskId),
+    queryFn: () => TimeEntryRepository.getTaskEntries(taskId)
+  });
+}
+
+/**
+ * Create, update and delete time entries; each refreshes the cached entries
+ */
+export function useTimeEntryMutations() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all });
+
+  const createEntry = useMutation({
+    mutationFn: (entry: TimeEntryInsert) => TimeEntryRepository.createEntry(entry),
+    onSuccess: invalidate
+  });
+
+  const updateEntry = useMutation({
+    mutationFn: ({ entryId, fields }: { entryId: string; fields: TimeEntryUpdate }) =>
+      TimeEntryRepository.updateEntry(entryId, fields),
+    onSuccess: invalidate
+  });
+
+  const deleteEntry = useMutation({
+    mutationFn: (entryId: string) => TimeEntryRepository.deleteEntry(entryId),
+    onSuccess: invalidate
+  });
+
+  return { createEntry, updateEntry, deleteEntry };
+}
@@ -0,0 +1,13 @@
+import { QueryClient } from '@tanstack/react-query';
+
+// Realtime channels patch the cache as rows change, so cached data stays fresh
+// for a while and navigating between pages does not refetch it.
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000,
+      gcTime: 10 * 60 * 1000,
+      retry: 1
+    }
+  }
+});
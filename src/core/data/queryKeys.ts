@@ -0,0 +1,59 @@
+import type { TaskListQuery } from './repositories/taskRepository';
+
+/**
+ * Cache keys shared by every query and mutation hook. Keys are nested so a whole
+ * family can be invalidated at once, e.g. `queryKeys.tasks.all` drops every task list.
+ *
+ * `visibleTo` is the user whose own tasks are listed, or null when all tasks are
+ * visible (admins).
+ */
+export const queryKeys = {
+  projects: {
+    all: ['projects'] as const,
+    list: () => [...queryKeys.projects.all, 'list'] as const,
+    detail: (projectId: string) => [...queryKeys.projects.all, 'detail', projectId] as const,
+    stats: (projectId: string) => [...queryKeys.projects.all, 'stats', projectId] as const
+  },
+  tasks: {
+    all: ['tasks'] as const,
+    list: (visibleTo: string | null) => [...queryKeys.tasks.all, 'list', visibleTo] as const,
+    byProject: (projectId: string, visibleTo: string | null) =>
+      [...queryKeys.tasks.all, 'project', projectId, visibleTo] as const,
+    pages: () => [...queryKeys.tasks.all, 'page'] as const,
+    page: (query: TaskListQuery) => [...queryKeys.tasks.pages(), query] as const,
+    counts: () => [...queryKeys.tasks.all, 'counts'] as const,
+    count: (query: TaskListQuery) => [...queryKeys.tasks.counts(), query] as const
+  },
+  members: {
+    all: ['members'] as const,
+    byProject: (projectId: string) => [...queryKeys.members.all, 'project', projectId] as const,
+    profiles: () => [...queryKeys.members.all, 'profiles'] as const
+  },
+  statuses: {
+    all: ['statuses'] as const,
+    byProject: (projectId: string) => [...queryKeys.statuses.all, 'project', projectId] as const,
+    byProjects: (projectIds: string[]) => [...queryKeys.statuses.all, 'projects', projectIds] as const
+  },
+  columns: {
+    all: ['columns'] as const,
+    byProject: (projectId: string) => [...queryKeys.columns.all, 'project', projectId] as const
+  },
+  labels: {
+    all: ['labels'] as const,
+    byProject: (projectId: string) => [...queryKeys.labels.all, 'project', projectId] as const
+  },
+  comments: {
+    all: ['comments'] as const,
+    byTask: (taskId: string) => [...queryKeys.comments.all, 'task', taskId] as const
+  },
+  timeEntries: {
+    all: ['timeEntries'] as const,
+    byTask: (taskId: string) => [...queryKeys.timeEntries.all, 'task', taskId] as const
+  },
+  search: {
+    all: ['search'] as const,
+    workspace: (term: string) => [...queryKeys.search.all, 'workspace', term] as const,
+    fullText: (term: string, projectId: string | null, limit: number) =>
+      [...queryKeys.search.all, 'full-text', term, projectId, limit] as const
+  }
+};
@@ -0,0 +1,44 @@
+import { supabase } from '@/core/config/client';
+import type { Tables, TablesInsert } from '@/core/config/types';
+
+export type CommentRow = Tables<'task_comments'> & { user_name: string };
+export type CommentInsert = TablesInsert<'task_comments'>;
+
+export class CommentRepository {
+  /**
+   * Get the comments of a task, newest first, with the author's name
+   */
+  static async getTaskComments(taskId: string): Promise<CommentRow[]> {
+    const { data: comments, error } = await supabase
+      .from('task_comments')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    if (!comments || comments.length === 0) return [];
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, full_name')
+      .in('user_id', [...new Set(comments.map(c => c.user_id))]);
+
+    if (profilesError) throw profilesError;
+
+    return comments.map(comment => {
+      const profile = profiles?.find(p => p.user_id === comment.user_id);
+      return {
+        ...comment,
+        user_name: profile?.display_name || profile?.full_name || 'Unknown User'
+      };
+    });
+  }
+
+  /**
+   * Add a comment to a task
+   */
+  static async addComment(comment: CommentInsert): Promise<void> {
+    const { error } = await supabase.from('task_comments').insert(comment);
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,56 @@
+import { supabase } from '@/core/config/client';
+
+export interface MemberSummary {
+  id: string;
+  name: string;
+  role?: string;
+}
+
+type ProfileName = { user_id: string; display_name: string | null; full_name: string | null };
+
+const displayName = (profile?: ProfileName) =>
+  profile?.display_name || profile?.full_name || 'Unknown User';
+
+export class MemberRepository {
+  /**
+   * Get the members of a project with their display name and role
+   */
+  static async getProjectMembers(projectId: string): Promise<MemberSummary[]> {
+    const { data: members, error } = await supabase
+      .from('project_members')
+      .select('user_id, role')
+      .eq('project_id', projectId);
+
+    if (error) throw error;
+    if (!members || members.length === 0) return [];
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, full_name')
+      .in('user_id', members.map(m => m.user_id));
+
+    if (profilesError) throw profilesError;
+
+    return members.map(member => ({
+      id: member.user_id,
+      name: displayName(profiles?.find(p => p.user_id === member.user_id)),
+      role: member.role || undefined
+    }));
+  }
+
+  /**
+   * Get every user profile as an id and display name
+   */
+  static async getProfiles(): Promise<MemberSummary[]> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, full_name');
+
+    if (error) throw error;
+
+    return (data || []).map(profile => ({
+      id: profile.user_id,
+      name: displayName(profile)
+    }));
+  }
+}
@@ -0,0 +1,77 @@
+import { supabase } from '@/core/config/client';
+import type { Tables } from '@/core/config/types';
+
+export type ProjectRow = Tables<'projects'>;
+
+export interface ProjectStats {
+  totalTasks: number;
+  completedTasks: number;
+  teamMembers: number;
+  completionPercentage: number;
+}
+
+export class ProjectRepository {
+  /**
+   * Get all projects the user can see, by name. Archived projects are left out.
+   */
+  static async getProjects(): Promise<ProjectRow[]> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .is('archived_at', null)
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Get a single project
+   */
+  static async getProject(projectId: string): Promise<ProjectRow> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('id', projectId)
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Get member and task counts of a project
+   */
+  static async getProjectStats(projectId: string): Promise<ProjectStats> {
+    const [membersResult, tasksResult] = await Promise.all([
+      supabase.from('project_members').select('id').eq('project_id', projectId),
+      supabase.from('tasks').select('status').eq('project_id', projectId)
+    ]);
+
+    if (membersResult.error) throw membersResult.error;
+    if (tasksResult.error) throw tasksResult.error;
+
+    const totalTasks = tasksResult.data?.length || 0;
+    const completedTasks = tasksResult.data?.filter(task => task.status === 'done').length || 0;
+
+    return {
+      totalTasks,
+      completedTasks,
+      teamMembers: membersResult.data?.length || 0,
+      completionPercentage: totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0
+    };
+  }
+
+  /**
+   * Archive or unarchive a project. Archived projects are read-only and left out of
+   * the default lists; only admins and the project's creator may do this.
+   */
+  static async setProjectArchived(projectId: string, archived: boolean): Promise<void> {
+    const { error } = await supabase.rpc('set_project_archived', {
+      p_project_id: projectId,
+      p_archived: archived
+    });
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,43 @@
+import { supabase } from '@/core/config/client';
+import type { Database } from '@/core/config/types';
+
+export type SearchResultKind = 'task' | 'project' | 'comment' | 'file' | 'person';
+
+export type SearchResult = Omit<Database['public']['Functions']['search_workspace']['Returns'][number], 'kind'> & {
+  kind: SearchResultKind;
+};
+
+export type FullTextHit = Omit<Database['public']['Functions']['search_full_text']['Returns'][number], 'kind'> & {
+  kind: 'task' | 'comment' | 'file';
+};
+
+export class SearchRepository {
+  /**
+   * Search tasks, projects, comments, files and people the user can see,
+   * returning up to `limit` matches of each kind
+   */
+  static async searchWorkspace(query: string, limit = 5): Promise<SearchResult[]> {
+    const { data, error } = await supabase.rpc('search_workspace', {
+      p_query: query,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return (data || []) as SearchResult[];
+  }
+
+  /**
+   * Ranked full-text hits over tasks, comments and file names, optionally within one
+   * project. Matched words in `title` and `snippet` are wrapped in \u0002 and \u0003.
+   */
+  static async searchFullText(query: string, projectId?: string | null, limit = 20): Promise<FullTextHit[]> {
+    const { data, error } = await supabase.rpc('search_full_text', {
+      p_query: query,
+      p_project_id: projectId ?? undefined,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return (data || []) as FullTextHit[];
+  }
+}
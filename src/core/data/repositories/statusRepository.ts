@@ -0,0 +1,66 @@
+import { supabase } from '@/core/config/client';
+
+export interface StatusSummary {
+  id: string;
+  name: string;
+  color: string;
+}
+
+// Shown for projects that have not defined their own statuses
+export const DEFAULT_PROJECT_STATUSES: StatusSummary[] = [
+  { id: '1', name: 'To Do', color: '#6b7280' },
+  { id: '2', name: 'In Progress', color: '#0ea5e9' },
+  { id: '3', name: 'Review', color: '#f59e0b' },
+  { id: '4', name: 'Done', color: '#22c55e' }
+];
+
+export class StatusRepository {
+  /**
+   * Get the ordered statuses of a project, falling back to the defaults
+   */
+  static async getProjectStatuses(projectId: string): Promise<StatusSummary[]> {
+    const byProject = await this.getStatusesForProjects([projectId]);
+    return byProject[projectId];
+  }
+
+  /**
+   * Get the statuses of many projects at once, keyed by project id
+   */
+  static async getStatusesForProjects(projectIds: string[]): Promise<Record<string, StatusSummary[]>> {
+    if (projectIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('project_statuses')
+      .select('id, name, color, project_id')
+      .in('project_id', projectIds)
+      .order('position');
+
+    if (error) {
+      console.error('Error fetching project statuses:', error);
+    }
+
+    const result: Record<string, StatusSummary[]> = {};
+    projectIds.forEach(projectId => {
+      const statuses = (data || [])
+        .filter(status => status.project_id === projectId)
+        .map(({ id, name, color }) => ({ id, name, color }));
+      result[projectId] = statuses.length > 0 ? statuses : DEFAULT_PROJECT_STATUSES;
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the ordered kanban columns of a project
+   */
+  static async getKanbanColumns(projectId: string): Promise<StatusSummary[]> {
+    const { data, error } = await supabase
+      .from('kanban_columns')
+      .select('id, name, color')
+      .eq('project_id', projectId)
+      .order('position');
+
+    if (error) throw error;
+    return data || [];
+  }
+}
@@ -0,0 +1,268 @@
+import { supabase } from '@/core/config/client';
+import type { Json, TablesInsert, TablesUpdate } from '@/core/config/types';
+import type { Task } from '@/features/tasks/components/TaskCard';
+import type { TaskFilters } from '@/features/tasks/components/TaskFilters';
+import { LabelService } from '@/services/labelService';
+import { CustomFieldService } from '@/services/customFieldService';
+import { TaskDependencyService } from '@/services/taskDependencyService';
+import { TaskEstimateService } from '@/services/taskEstimateService';
+
+export type TaskInsert = TablesInsert<'tasks'>;
+export type TaskUpdate = TablesUpdate<'tasks'>;
+
+export const TASK_PAGE_SIZE = 50;
+
+/**
+ * What a paginated task list shows: the page filters plus the project and
+ * visibility scope. Subtasks are left out unless asked for.
+ */
+export interface TaskListQuery {
+  filters: TaskFilters;
+  visibleTo: string | null;
+  projectId?: string | null;
+  includeSubtasks?: boolean;
+}
+
+export interface TaskCursor {
+  key: string;
+  id: string;
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  nextCursor: TaskCursor | null;
+}
+
+export interface TaskStatusCount {
+  project_id: string;
+  status: string;
+  total: number;
+}
+
+/**
+ * Changes applied to every task of a bulk edit. A null assignee or due date clears it.
+ */
+export interface BulkTaskChanges {
+  status?: string;
+  priority?: Task['priority'];
+  assignee_id?: string | null;
+  due_date?: string | null;
+  project_id?: string;
+  add_label_ids?: string[];
+  remove_label_ids?: string[];
+}
+
+// The values a task had before a bulk edit, enough to undo it
+export interface TaskSnapshot {
+  id: string;
+  status: string;
+  priority: Task['priority'];
+  assignee_id: string | null;
+  due_date: string | null;
+  project_id: string;
+  label_ids: string[];
+}
+
+export interface BulkUpdateResult {
+  previous: TaskSnapshot[];
+  // Tasks left as they were because unfinished tasks still block them
+  blocked: string[];
+}
+
+const toFilterParams = ({ filters, visibleTo, projectId, includeSubtasks }: TaskListQuery): Json => ({
+  project_id: projectId || null,
+  visible_to: visibleTo,
+  include_subtasks: !!includeSubtasks,
+  search: filters.search.trim(),
+  status: filters.status,
+  priority: filters.priority,
+  assignee: filters.assignee,
+  tag: filters.tag || 'all',
+  archived: filters.archived || 'hide'
+});
+
+export class TaskRepository {
+  /**
+   * Attach labels, custom field values, dependency counts and estimates to task rows
+   */
+  static async hydrate(tasks: Task[]): Promise<Task[]> {
+    return TaskEstimateService.withEstimates(
+      await TaskDependencyService.withDependencyCounts(
+        await CustomFieldService.withCustomFields(await LabelService.withLabels(tasks))
+      )
+    );
+  }
+
+  /**
+   * Get every visible task, newest first. Without `visibleTo` all tasks are returned,
+   * otherwise only the ones that user created or is assigned to.
+   */
+  static async getTasks(visibleTo: string | null): Promise<Task[]> {
+    let query = supabase.from('tasks').select('*');
+
+    if (visibleTo) {
+      query = query.or(`created_by.eq.${visibleTo},assignee_id.eq.${visibleTo}`);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+
+    return this.hydrate((data || []) as Task[]);
+  }
+
+  /**
+   * Get the visible tasks of one project, newest first
+   */
+  static async getProjectTasks(projectId: string, visibleTo: string | null): Promise<Task[]> {
+    let query = supabase.from('tasks').select('*').eq('project_id', projectId);
+
+    if (visibleTo) {
+      query = query.or(`created_by.eq.${visibleTo},assignee_id.eq.${visibleTo}`);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
+    if (error) throw error;
+
+    return this.hydrate((data || []) as Task[]);
+  }
+
+  /**
+   * Get one page of a filtered, sorted task list. The cursor of the last page
+   * is null once the list is exhausted.
+   */
+  static async getTaskPage(query: TaskListQuery, cursor: TaskCursor | null, pageSize = TASK_PAGE_SIZE): Promise<TaskPage> {
+    const { data, error } = await supabase.rpc('list_task_page', {
+      p_filters: toFilterParams(query),
+      p_sort_by: query.filters.sortBy,
+      p_sort_desc: query.filters.sortOrder !== 'asc',
+      p_cursor_key: cursor?.key,
+      p_cursor_id: cursor?.id,
+      p_limit: pageSize
+    });
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const tasks = await this.hydrate(rows.map(row => row.task as unknown as Task));
+    const last = rows[rows.length - 1];
+
+    return {
+      tasks,
+      nextCursor: rows.length === pageSize && last ? { key: last.sort_key, id: tasks[tasks.length - 1].id } : null
+    };
+  }
+
+  /**
+   * Count the tasks of a filtered list per project and status
+   */
+  static async countTasks(query: TaskListQuery): Promise<TaskStatusCount[]> {
+    const { data, error } = await supabase.rpc('count_tasks_by_status', {
+      p_filters: toFilterParams(query)
+    });
+
+    if (error) throw error;
+    return (data || []).map(row => ({ ...row, total: Number(row.total) }));
+  }
+
+  /**
+   * Update task columns and return the stored row
+   */
+  static async updateTask(taskId: string, fields: TaskUpdate): Promise<Task> {
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(fields)
+      .eq('id', taskId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Task;
+  }
+
+  /**
+   * Create a task and return the stored row
+   */
+  static async createTask(fields: TaskInsert): Promise<Task> {
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert(fields)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as Task;
+  }
+
+  /**
+   * Ids of every task in a filtered list, up to 1000
+   */
+  static async listTaskIds(query: TaskListQuery): Promise<string[]> {
+    const { data, error } = await supabase.rpc('list_task_ids', {
+      p_filters: toFilterParams(query)
+    });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Apply the same changes to many tasks. Tasks the user may not edit are skipped.
+   */
+  static async bulkUpdateTasks(taskIds: string[], changes: BulkTaskChanges): Promise<BulkUpdateResult> {
+    const { data, error } = await supabase.rpc('bulk_update_tasks', {
+      p_task_ids: taskIds,
+      p_changes: changes as Json
+    });
+
+    if (error) throw error;
+    return data as unknown as BulkUpdateResult;
+  }
+
+  /**
+   * Put tasks back the way a bulk update found them
+   */
+  static async restoreTasks(snapshot: TaskSnapshot[]): Promise<number> {
+    const { data, error } = await supabase.rpc('restore_task_snapshot', {
+      p_snapshot: snapshot as unknown as Json
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  }
+
+  /**
+   * Move many tasks to the trash and return how many the user was allowed to delete
+   */
+  static async deleteTasks(taskIds: string[]): Promise<number> {
+    const { data, error } = await supabase.rpc('bulk_delete_tasks', {
+      p_task_ids: taskIds
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  }
+
+  /**
+   * Archive or unarchive tasks with their subtasks and return how many the user was allowed to change
+   */
+  static async setTasksArchived(taskIds: string[], archived: boolean): Promise<number> {
+    const { data, error } = await supabase.rpc('set_tasks_archived', {
+      p_task_ids: taskIds,
+      p_archived: archived
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  }
+
+  /**
+   * Archive done tasks past their project's auto-archive period. There is no
+   * scheduler, so task lists call this when they open.
+   */
+  static async archiveDoneTasks(): Promise<number> {
+    const { data, error } = await supabase.rpc('archive_done_tasks');
+
+    if (error) throw error;
+    return data ?? 0;
+  }
+}
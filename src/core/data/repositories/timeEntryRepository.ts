@@ -0,0 +1,101 @@
+import { supabase } from '@/core/config/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/core/config/types';
+
+export type TimeEntryRow = Tables<'time_entries'>;
+export type TimeEntryInsert = TablesInsert<'time_entries'>;
+export type TimeEntryUpdate = TablesUpdate<'time_entries'>;
+
+export type RunningTimeEntry = TimeEntryRow & {
+  task: { title: string } | null;
+  project: { name: string } | null;
+};
+
+export class TimeEntryRepository {
+  /**
+   * Get the time logged on a task, newest first
+   */
+  static async getTaskEntries(taskId: string): Promise<TimeEntryRow[]> {
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Get the user's running timer, with the task and project it's logging to
+   */
+  static async getRunningTimer(userId: string): Promise<RunningTimeEntry | null> {
+    const { data, error } = await supabase
+      .from('time_entries')
+      .select('*, task:tasks(title), project:projects(name)')
+      .eq('user_id', userId)
+      .eq('is_running', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Start the user's timer, stopping the one already running, and return it
+   */
+  static async startTimer(
+    userId: string,
+    description: string,
+    target: { taskId?: string | null; projectId?: string | null } = {}
+  ): Promise<RunningTimeEntry> {
+    const { error } = await supabase.rpc('start_timer', {
+      p_description: description,
+      p_task_id: target.taskId ?? undefined,
+      p_project_id: target.projectId ?? undefined
+    });
+
+    if (error) throw error;
+
+    const entry = await this.getRunningTimer(userId);
+    if (!entry) throw new Error('Started timer not found');
+    return entry;
+  }
+
+  /**
+   * Create a time entry and return it
+   */
+  static async createEntry(entry: TimeEntryInsert): Promise<TimeEntryRow> {
+    const { data, error } = await supabase
+      .from('time_entries')
+      .insert(entry)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Update a time entry
+   */
+  static async updateEntry(entryId: string, fields: TimeEntryUpdate): Promise<void> {
+    const { error } = await supabase
+      .from('time_entries')
+      .update(fields)
+      .eq('id', entryId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Delete a time entry
+   */
+  static async deleteEntry(entryId: string): Promise<void> {
+    const { error } = await supabase
+      .from('time_entries')
+      .delete()
+      .eq('id', entryId);
+
+    if (error) throw error;
+  }
+}
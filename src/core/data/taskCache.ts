@@ -0,0 +1,63 @@
+import type { InfiniteData, QueryClient } from '@tanstack/react-query';
+import type { Task } from '@/features/tasks/components/TaskCard';
+import { queryKeys } from './queryKeys';
+import type { TaskPage } from './repositories/taskRepository';
+
+type CachedTasks = Task[] | InfiniteData<TaskPage> | undefined;
+
+const isPaged = (data: CachedTasks): data is InfiniteData<TaskPage> =>
+  !!data && !Array.isArray(data) && Array.isArray(data.pages);
+
+// Apply a change to the tasks of a cached list, whether plain or paginated
+const mapCachedTasks = (data: CachedTasks, update: (tasks: Task[]) => Task[]): CachedTasks => {
+  if (isPaged(data)) {
+    return { ...data, pages: data.pages.map(page => ({ ...page, tasks: update(page.tasks) })) };
+  }
+  return Array.isArray(data) ? update(data) : data;
+};
+
+const cachedTaskLists = (queryClient: QueryClient) =>
+  queryClient
+    .getQueriesData<CachedTasks>({ queryKey: queryKeys.tasks.all })
+    .map(([, data]) => (isPaged(data) ? data.pages.flatMap(page => page.tasks) : Array.isArray(data) ? data : []));
+
+/**
+ * Merge changed columns into every cached task list holding the task. Hydrated
+ * fields (labels, custom field values) are kept since row changes never carry them.
+ * Returns whether the task was found in any list.
+ */
+export function patchCachedTask(queryClient: QueryClient, taskId: string, changes: Partial<Task>): boolean {
+  let found = false;
+
+  queryClient.setQueriesData<CachedTasks>({ queryKey: queryKeys.tasks.all }, data =>
+    mapCachedTasks(data, tasks => {
+      if (!tasks.some(task => task.id === taskId)) return tasks;
+      found = true;
+      return tasks.map(task => (task.id === taskId ? { ...task, ...changes } : task));
+    })
+  );
+
+  return found;
+}
+
+/**
+ * Drop a task from every cached task list
+ */
+export function removeCachedTask(queryClient: QueryClient, taskId: string) {
+  queryClient.setQueriesData<CachedTasks>({ queryKey: queryKeys.tasks.all }, data =>
+    mapCachedTasks(data, tasks =>
+      tasks.some(task => task.id === taskId) ? tasks.filter(task => task.id !== taskId) : tasks
+    )
+  );
+}
+
+/**
+ * Look a task up in whichever cached list has it
+ */
+export function findCachedTask(queryClient: QueryClient, taskId: string): Task | undefined {
+  for (const tasks of cachedTaskLists(queryClient)) {
+    const task = tasks.find(t => t.id === taskId);
+    if (task) return task;
+  }
+  return undefined;
+}
@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Badge } from '@/shared/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Loader2, Plus, Save, Trash2, Wallet } from 'lucide-react';
+import { useToast } from '@/shared/hooks/use-toast';
+import { useProfiles, useProjectMembers } from '@/core/data/hooks/useMemberQueries';
+import { BillingService, BillingRate } from '@/services/billingService';
+
+interface BillingRatesEditorProps {
+  // Leave out to edit the workspace-wide rates every project falls back to
+  projectId?: string;
+}
+
+const roleLabels: Record<string, string> = {
+  manager: 'მენეჯერი',
+  member: 'წევრი',
+  viewer: 'დამთვალიერებელი'
+};
+
+// Scopes are encoded as "default", "role:<role>" or "user:<id>" for the select
+const parseScope = (scope: string) => ({
+  role: scope.startsWith('role:') ? scope.slice(5) : null,
+  userId: scope.startsWith('user:') ? scope.slice(5) : null
+});
+
+const scopeOf = (rate: BillingRate) =>
+  rate.user_id ? `user:${rate.user_id}` : rate.role ? `role:${rate.role}` : 'default';
+
+// Default first, then roles, then individual overrides
+const scopeOrder = (rate: BillingRate) => (rate.user_id ? 2 : rate.role ? 1 : 0);
+
+/**
+ * Hourly rates by default, role and user. Project rates override the
+ * workspace-wide ones, and a user's own rate overrides their role's.
+ */
+export function BillingRatesEditor({ projectId }: BillingRatesEditorProps) {
+  const { toast } = useToast();
+  const { data: members = [] } = useProjectMembers(projectId);
+  const { data: profiles = [] } = useProfiles();
+  const people = projectId ? members : profiles;
+  const [rates, setRates] = useState<BillingRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Edited amounts keyed by rate id, saved on demand
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newScope, setNewScope] = useState('default');
+  const [newRate, setNewRate] = useState('');
+
+  useEffect(() => {
+    loadRates();
+  }, [projectId]);
+
+  const loadRates = async () => {
+    setLoading(true);
+    const data = await BillingService.getRates(projectId ?? null);
+    setRates(data);
+    setDrafts({});
+    setLoading(false);
+  };
+
+  const sortedRates = useMemo(
+    () => [...rates].sort((a, b) => scopeOrder(a) - scopeOrder(b)),
+    [rates]
+  );
+
+  const usedScopes = useMemo(() => new Set(rates.map(scopeOf)), [rates]);
+
+  const describe = (rate: BillingRate) => {
+    if (rate.user_id) return people.find(person => person.id === rate.user_id)?.name ?? 'უცნობი მომხმარებელი';
+    if (rate.role) return roleLabels[rate.role] ?? rate.role;
+    return 'ნაგულისხმევი';
+  };
+
+  const parseAmount = (value: string) => {
+    const amount = Number(value.replace(',', '.'));
+    return value.trim() !== '' && Number.isFinite(amount) && amount >= 0 ? amount : null;
+  };
+
+  const notify = (result: { success: boolean; error?: string }, success: string) => {
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    toast({ title: success });
+    return true;
+  };
+
+  const handleSave = async (rate: BillingRate) => {
+    const amount = parseAmount(drafts[rate.id] ?? '');
+    if (amount === null) return;
+
+    setBusyId(rate.id);
+    const result = await BillingService.saveRate({ id: rate.id, projectId: projectId ?? null, hourlyRate: amount });
+    setBusyId(null);
+
+    if (notify(result, 'განაკვეთი შენახულია')) loadRates();
+  };
+
+  const handleDelete = async (rate: BillingRate) => {
+    setBusyId(rate.id);
+    const result = await BillingService.deleteRate(rate.id);
+    setBusyId(null);
+
+    if (notify(result, 'განაკვეთი წაიშალა')) loadRates();
+  };
+
+  const handleAdd = async () => {
+    const amount = parseAmount(newRate);
+    if (amount === null) return;
+
+    setBusyId('new');
+    const result = await BillingService.saveRate({
+      projectId: projectId ?? null,
+      ...parseScope(newScope),
+      hourlyRate: amount
+    });
+    setBusyId(null);
+
+    if (notify(result, 'განაკვეთი დაემატა')) {
+      setNewRate('');
+      setNewScope('default');
+      loadRates();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" />
+          საათობრივი განაკვეთები
+        </CardTitle>
+        <CardDescription>
+          {projectId
+            ? 'პროექტის განაკვეთები ანაცვლებს საერთოს. მომხმარებლის განაკვეთი უპირატესია როლის განაკვეთზე.'
+            : 'საერთო განაკვეთები გამოიყენება ყველა პროექტში, სადაც საკუთარი არ არის მითითებული.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sortedRates.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">განაკვეთები არ არის მითითებული</p>
+        ) : (
+          <div className="divide-y">
+            {sortedRates.map(rate => {
+              const draft = drafts[rate.id];
+              const changed = draft !== undefined && parseAmount(draft) !== null && parseAmount(draft) !== Number(rate.hourly_rate);
+              return (
+                <div key={rate.id} className="flex items-center gap-3 py-2">
+                  <div className="flex min-w-0 flex-1 items-center gap-2">
+                    <span className="truncate text-sm font-medium">{describe(rate)}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {rate.user_id ? 'მომხმარებელი' : rate.role ? 'როლი' : 'ყველა'}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className="text-sm text-muted-foreground">₾</span>
+                    <Input
+                      className="h-8 w-24"
+                      inputMode="decimal"
+                      value={draft ?? String(rate.hourly_rate)}
+                      onChange={e => setDrafts(prev => ({ ...prev, [rate.id]: e.target.value }))}
+                    />
+                    <span className="text-sm text-muted-foreground">/სთ</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={!changed || busyId !== null}
+                    onClick={() => handleSave(rate)}
+                  >
+                    {busyId === rate.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    disabled={busyId !== null}
+                    onClick={() => handleDelete(rate)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+          <Select value={newScope} onValueChange={setNewScope}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default" disabled={usedScopes.has('default')}>ნაგულისხმევი (ყველა)</SelectItem>
+              {Object.entries(roleLabels).map(([role, label]) => (
+                <SelectItem key={role} value={`role:${role}`} disabled={usedScopes.has(`role:${role}`)}>
+                  როლი: {label}
+                </SelectItem>
+              ))}
+              {people.map(person => (
+                <SelectItem key={person.id} value={`user:${person.id}`} disabled={usedScopes.has(`user:${person.id}`)}>
+                  {person.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-1">
+            <span className="text-sm text-muted-foreground">₾</span>
+            <Input
+              className="h-8 w-24"
+              inputMode="decimal"
+              placeholder="0.00"
+              value={newRate}
+              onChange={e => setNewRate(e.target.value)}
+            />
+            <span className="text-sm text-muted-foreground">/სთ</span>
+          </div>
+          <Button
+            size="sm"
+            disabled={parseAmount(newRate) === null || usedScopes.has(newScope) || busyId !== null}
+            onClick={handleAdd}
+          >
+            {busyId === 'new' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            დამატება
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
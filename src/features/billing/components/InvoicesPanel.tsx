@@ -0,0 +1,399 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO, startOfMonth, endOfMonth, subMonths, addDays } from 'date-fns';
+import { ka } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { Badge } from '@/shared/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/shared/components/ui/alert-dialog';
+import { AlertTriangle, Ban, CheckCircle2, FileText, Loader2, Printer, Receipt, RotateCcw } from 'lucide-react';
+import { useToast } from '@/shared/hooks/use-toast';
+import {
+  BillingService,
+  Invoice,
+  InvoiceLine,
+  InvoiceStatus,
+  formatInvoiceNumber,
+  formatMoney
+} from '@/services/billingService';
+import { renderInvoiceHtml, printInvoiceHtml } from '../utils/invoiceDocument';
+
+interface InvoicesPanelProps {
+  projectId: string;
+  projectName: string;
+}
+
+const statusConfig: Record<string, { label: string; className: string }> = {
+  issued: { label: 'გაცემული', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' },
+  paid: { label: 'გადახდილი', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  void: { label: 'გაუქმებული', className: 'bg-muted text-muted-foreground line-through' }
+};
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/**
+ * Builds invoices from a project's approved billable time and finished task
+ * budgets, and lists the ones already issued
+ */
+export function InvoicesPanel({ projectId, projectName }: InvoicesPanelProps) {
+  const { toast } = useToast();
+  // Last month is what usually gets billed
+  const [periodStart, setPeriodStart] = useState(() => toDateInput(startOfMonth(subMonths(new Date(), 1))));
+  const [periodEnd, setPeriodEnd] = useState(() => toDateInput(endOfMonth(subMonths(new Date(), 1))));
+  const [clientName, setClientName] = useState('');
+  const [dueDate, setDueDate] = useState(() => toDateInput(addDays(new Date(), 14)));
+  const [taxRate, setTaxRate] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<InvoiceLine[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loadingInvoices, setLoadingInvoices] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [voiding, setVoiding] = useState<Invoice | null>(null);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [projectId]);
+
+  // A preview belongs to the period it was made for
+  useEffect(() => {
+    setLines(null);
+  }, [projectId, periodStart, periodEnd]);
+
+  const loadInvoices = async () => {
+    setLoadingInvoices(true);
+    setInvoices(await BillingService.getInvoices(projectId));
+    setLoadingInvoices(false);
+  };
+
+  const showError = (error?: string) => {
+    toast({
+      title: "შეცდომა",
+      description: error,
+      variant: "destructive"
+    });
+  };
+
+  const parsedTaxRate = Number(taxRate.replace(',', '.'));
+  const validTaxRate = Number.isFinite(parsedTaxRate) && parsedTaxRate >= 0 && parsedTaxRate <= 100;
+  const validPeriod = !!periodStart && !!periodEnd && periodStart <= periodEnd;
+
+  const totals = useMemo(() => {
+    const subtotal = (lines ?? []).reduce((sum, line) => sum + Number(line.amount), 0);
+    const tax = validTaxRate ? Math.round(subtotal * parsedTaxRate) / 100 : 0;
+    return { subtotal, tax, total: subtotal + tax };
+  }, [lines, parsedTaxRate, validTaxRate]);
+
+  // Time billed at a zero rate usually means a rate is missing
+  const unpricedLines = (lines ?? []).filter(line => line.item_type === 'time' && Number(line.unit_price) === 0);
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    const result = await BillingService.previewInvoice(projectId, periodStart, periodEnd);
+    setPreviewing(false);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    setLines(result.lines!);
+  };
+
+  const openInvoice = async (invoice: Invoice) => {
+    const items = await BillingService.getInvoiceItems(invoice.id);
+    const html = renderInvoiceHtml({ invoice, items, projectName });
+    if (!printInvoiceHtml(html)) {
+      showError('ბრაუზერმა ახალი ფანჯრის გახსნა დაბლოკა');
+    }
+    return html;
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const result = await BillingService.createInvoice(projectId, {
+      periodStart,
+      periodEnd,
+      clientName: clientName.trim() || undefined,
+      dueDate: dueDate || undefined,
+      taxRate: validTaxRate ? parsedTaxRate : 0,
+      notes: notes.trim() || undefined
+    });
+
+    if (!result.success) {
+      setCreating(false);
+      showError(result.error);
+      return;
+    }
+
+    const invoice = result.invoice!;
+    const html = await openInvoice(invoice);
+    const stored = await BillingService.storeDocument(invoice, html);
+    setCreating(false);
+
+    toast({
+      title: `ინვოისი ${formatInvoiceNumber(invoice.invoice_number)} შეიქმნა`,
+      description: stored.success ? 'ინვოისი შენახულია პროექტის ფაილებში' : stored.error,
+      variant: stored.success ? undefined : "destructive"
+    });
+
+    setLines(null);
+    setNotes('');
+    loadInvoices();
+  };
+
+  const changeStatus = async (invoice: Invoice, status: InvoiceStatus) => {
+    setBusyId(invoice.id);
+    const result = await BillingService.setStatus(invoice.id, status);
+    setBusyId(null);
+
+    if (!result.success) {
+      showError(result.error);
+      return;
+    }
+
+    loadInvoices();
+  };
+
+  const handleVoid = async () => {
+    if (!voiding) return;
+    const invoice = voiding;
+    setVoiding(null);
+    await changeStatus(invoice, 'void');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            ახალი ინვოისი
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="invoice-period-start">პერიოდის დასაწყისი</Label>
+              <Input id="invoice-period-start" type="date" value={periodStart} onChange={e => setPeriodStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-period-end">პერიოდის დასასრული</Label>
+              <Input id="invoice-period-end" type="date" value={periodEnd} onChange={e => setPeriodEnd(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-due-date">გადახდის ვადა</Label>
+              <Input id="invoice-due-date" type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="invoice-client">კლიენტი</Label>
+              <Input
+                id="invoice-client"
+                value={clientName}
+                onChange={e => setClientName(e.target.value)}
+                placeholder="კომპანიის ან პირის სახელი"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invoice-tax">დღგ (%)</Label>
+              <Input
+                id="invoice-tax"
+                inputMode="decimal"
+                value={taxRate}
+                onChange={e => setTaxRate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-notes">შენიშვნა</Label>
+            <Textarea
+              id="invoice-notes"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              placeholder="საბანკო რეკვიზიტები, გადახდის პირობები..."
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="outline" disabled={!validPeriod || previewing} onClick={handlePreview}>
+              {previewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              გადახედვა
+            </Button>
+          </div>
+
+          {lines && (
+            lines.length === 0 ? (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                ამ პერიოდში დამტკიცებული ბილინგური დრო ან დასრულებული დავალებების ბიუჯეტი არ არის
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {unpricedLines.length > 0 && (
+                  <div className="flex items-start gap-2 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-300">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                    {unpricedLines.length} სტრიქონს განაკვეთი არ აქვს და ნულად დაითვლება. მიუთითეთ განაკვეთები ინვოისის შექმნამდე.
+                  </div>
+                )}
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-muted-foreground">
+                        <th className="py-2 pr-2 text-left font-medium">აღწერა</th>
+                        <th className="px-2 py-2 text-right font-medium">რაოდენობა</th>
+                        <th className="px-2 py-2 text-right font-medium">ფასი</th>
+                        <th className="py-2 pl-2 text-right font-medium">თანხა</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map((line, index) => (
+                        <tr key={index} className="border-b last:border-0">
+                          <td className="py-2 pr-2">
+                            {line.description}
+                            {line.item_type === 'budget' && (
+                              <Badge variant="outline" className="ml-2 text-xs">ბიუჯეტი</Badge>
+                            )}
+                          </td>
+                          <td className="px-2 py-2 text-right">
+                            {line.item_type === 'time' ? `${Number(line.quantity).toFixed(2)}სთ` : Number(line.quantity)}
+                          </td>
+                          <td className="px-2 py-2 text-right">{formatMoney(line.unit_price)}</td>
+                          <td className="py-2 pl-2 text-right">{formatMoney(line.amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="ml-auto w-64 space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">ჯამი</span>
+                    <span>{formatMoney(totals.subtotal)}</span>
+                  </div>
+                  {totals.tax > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">დღგ ({parsedTaxRate}%)</span>
+                      <span>{formatMoney(totals.tax)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between border-t pt-1 font-semibold">
+                    <span>სულ</span>
+                    <span>{formatMoney(totals.total)}</span>
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <Button disabled={creating || !validTaxRate} onClick={handleCreate}>
+                    {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+                    ინვოისის შექმნა
+                  </Button>
+                </div>
+              </div>
+            )
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>ინვოისები</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loadingInvoices ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">ინვოისები ჯერ არ შექმნილა</p>
+          ) : (
+            <div className="divide-y">
+              {invoices.map(invoice => {
+                const status = statusConfig[invoice.status] ?? statusConfig.issued;
+                return (
+                  <div key={invoice.id} className="flex items-center gap-3 py-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{formatInvoiceNumber(invoice.invoice_number)}</span>
+                        <Badge variant="outline" className={`border-transparent text-xs ${status.className}`}>
+                          {status.label}
+                        </Badge>
+                        <span className="text-sm font-medium">{formatMoney(invoice.total, invoice.currency)}</span>
+                      </div>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {invoice.client_name && `${invoice.client_name} · `}
+                        {format(parseISO(invoice.period_start), 'd MMM', { locale: ka })} – {format(parseISO(invoice.period_end), 'd MMM yyyy', { locale: ka })}
+                        {invoice.due_date && ` · ვადა ${format(parseISO(invoice.due_date), 'd MMM yyyy', { locale: ka })}`}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => openInvoice(invoice)}>
+                      <Printer className="mr-2 h-4 w-4" />
+                      ბეჭდვა
+                    </Button>
+                    {invoice.status === 'issued' && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={busyId !== null}
+                        onClick={() => changeStatus(invoice, 'paid')}
+                      >
+                        {busyId === invoice.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                        გადახდილია
+                      </Button>
+                    )}
+                    {invoice.status === 'paid' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busyId !== null}
+                        onClick={() => changeStatus(invoice, 'issued')}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        გადაუხდელად მონიშვნა
+                      </Button>
+                    )}
+                    {invoice.status !== 'void' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={busyId !== null}
+                        onClick={() => setVoiding(invoice)}
+                      >
+                        <Ban className="mr-2 h-4 w-4" />
+                        გაუქმება
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={voiding !== null} onOpenChange={open => !open && setVoiding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>ინვოისის გაუქმება</AlertDialogTitle>
+            <AlertDialogDescription>
+              {voiding && formatInvoiceNumber(voiding.invoice_number)} გაუქმდება, ნომერი შენარჩუნდება, ხოლო მისი დრო და ბიუჯეტები ახალ ინვოისში ხელახლა ჩაირთვება.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>დახურვა</AlertDialogCancel>
+            <AlertDialogAction onClick={handleVoid}>გაუქმება</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { format, parseISO } from 'date-fns';
+import type { Invoice, InvoiceItem } from '@/services/billingService';
+import { formatInvoiceNumber, formatMoney } from '@/services/billingService';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (date: string) => format(parseISO(date), 'dd.MM.yyyy');
+
+const statusLabels: Record<string, string> = {
+  issued: 'გაცემული',
+  paid: 'გადახდილი',
+  void: 'გაუქმებული'
+};
+
+/**
+ * A standalone, printable HTML invoice. It's what gets stored with the project
+ * and what the browser prints (or saves as PDF).
+ */
+export function renderInvoiceHtml({
+  invoice,
+  items,
+  projectName
+}: {
+  invoice: Invoice;
+  items: InvoiceItem[];
+  projectName: string;
+}): string {
+  const money = (amount: number) => escapeHtml(formatMoney(amount, invoice.currency));
+  const number = formatInvoiceNumber(invoice.invoice_number);
+
+  const rows = items
+    .map(
+      item => `
+        <tr>
+          <td>${escapeHtml(item.description)}</td>
+          <td class="num">${item.item_type === 'time' ? `${Number(item.quantity).toFixed(2)} სთ` : Number(item.quantity)}</td>
+          <td class="num">${money(item.unit_price)}</td>
+          <td class="num">${money(item.amount)}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="ka">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(number)} — ${escapeHtml(projectName)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111827; margin: 40px; font-size: 14px; }
+  h1 { font-size: 28px; margin: 0 0 4px; }
+  .muted { color: #6b7280; }
+  .header { display: flex; justify-content: space-between; align-items: flex-start; margin-bottom: 32px; }
+  .meta td { padding: 2px 0 2px 16px; }
+  .meta td:first-child { padding-left: 0; color: #6b7280; }
+  table.items { width: 100%; border-collapse: collapse; margin-top: 24px; }
+  table.items th { text-align: left; border-bottom: 2px solid #111827; padding: 8px 4px; font-size: 12px; text-transform: uppercase; }
+  table.items td { border-bottom: 1px solid #e5e7eb; padding: 8px 4px; }
+  .num { text-align: right; white-space: nowrap; }
+  table.totals { margin-left: auto; margin-top: 16px; }
+  table.totals td { padding: 4px 0 4px 32px; }
+  table.totals tr.total td { font-weight: 700; font-size: 16px; border-top: 2px solid #111827; }
+  .void { color: #b91c1c; font-weight: 700; }
+  .notes { margin-top: 32px; white-space: pre-wrap; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>ინვოისი ${escapeHtml(number)}</h1>
+      <div class="muted">${escapeHtml(projectName)}</div>
+      ${invoice.status === 'void' ? `<div class="void">${statusLabels.void}</div>` : ''}
+    </div>
+    <table class="meta">
+      ${invoice.client_name ? `<tr><td>კლიენტი</td><td>${escapeHtml(invoice.client_name)}</td></tr>` : ''}
+      <tr><td>გაცემის თარიღი</td><td>${formatDate(invoice.issue_date)}</td></tr>
+      ${invoice.due_date ? `<tr><td>გადახდის ვადა</td><td>${formatDate(invoice.due_date)}</td></tr>` : ''}
+      <tr><td>პერიოდი</td><td>${formatDate(invoice.period_start)} – ${formatDate(invoice.period_end)}</td></tr>
+      <tr><td>სტატუსი</td><td>${statusLabels[invoice.status] ?? escapeHtml(invoice.status)}</td></tr>
+    </table>
+  </div>
+
+  <table class="items">
+    <thead>
+      <tr>
+        <th>აღწერა</th>
+        <th class="num">რაოდენობა</th>
+        <th class="num">ფასი</th>
+        <th class="num">თანხა</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>ჯამი</td><td class="num">${money(invoice.subtotal)}</td></tr>
+    ${Number(invoice.tax_rate) > 0 ? `<tr><td>დღგ (${Number(invoice.tax_rate)}%)</td><td class="num">${money(invoice.tax_amount)}</td></tr>` : ''}
+    <tr class="total"><td>სულ გადასახდელი</td><td class="num">${money(invoice.total)}</td></tr>
+  </table>
+
+  ${invoice.notes ? `<div class="notes">${escapeHtml(invoice.notes)}</div>` : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Open the invoice in a new window and bring up the print dialog, where it
+ * can also be saved as a PDF
+ */
+export function printInvoiceHtml(html: string) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // The document is self-contained, so there's nothing to wait for before printing
+  printWindow.print();
+  return true;
+}
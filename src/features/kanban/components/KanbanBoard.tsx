@@ -1,15 +1,38 @@
 import React, { useState, useEffect } from 'react';
 import { Button } from '@/shared/components/ui/button';
-import { Plus, Settings, GripVertical, Cog } from 'lucide-react';
+import { Plus, Settings, GripVertical, Cog, Tags } from 'lucide-react';
 import { AdvancedTaskFilters, TaskFilters } from '@/features/tasks/components/AdvancedTaskFilters';
 import { KanbanColumn } from './KanbanColumn';
 import { KanbanColumnForm } from './KanbanColumnForm';
 import { ColumnSettingsDialog } from './ColumnSettingsDialog';
 import { StatusManagement } from '@/features/project/components/StatusManagement';
+import { LabelManagement } from '@/features/project/components/LabelManagement';
 import { Task } from '@/features/tasks/components/TaskCard';
 import { supabase } from '@/core/config/client';
 import { useToast } from '@/shared/hooks/use-toast';
-import { createStatusMapping, getStatusFromColumnName, getTasksForColumn } from '../utils/statusMapping';
+import { createStatusMapping, getStatusFromColumnName, getTasksForColumn, isDoneStatus } from '../utils/statusMapping';
+import { TaskDependencyService, TaskDependency } from '@/services/taskDependencyService';
+import { SavedTaskView } from '@/services/savedViewService';
+import { CustomFieldService, ProjectCustomField } from '@/services/customFieldService';
+import { matchesCustomFieldFilter } from '@/features/tasks/utils/customFields';
+import { useTaskSearchMatches } from '@/features/tasks/hooks/useTaskSearch';
+import { matchesTaskSearch } from '@/features/tasks/utils/taskSearch';
+import { SavedViewSwitcher } from '@/features/tasks/components/SavedViewSwitcher';
+import { BulkActionBar } from '@/features/tasks/components/BulkActionBar';
+import { useTaskSelection } from '@/features/tasks/hooks/useTaskSelection';
+import { useTaskBulkActions } from '@/features/tasks/hooks/useTaskBulkActions';
+import { useProjectLabels } from '@/core/data/hooks/useLabelQueries';
+import type { BulkTaskChanges } from '@/core/data/repositories/taskRepository';
+import { useProjectPermissions } from '@/features/project/hooks/useProjectPermissions';
+import {
+  BOARD_FILTER_PARAM_KEYS,
+  boardFiltersFromParams,
+  boardFiltersToParams,
+  serializeBoardFilters,
+  deserializeBoardFilters,
+  mergeSearchParams
+} from '@/features/tasks/utils/filterParams';
+import { useSearchParams } from 'react-router-dom';
 
 interface KanbanColumnData {
   id: string;
@@ -45,25 +68,57 @@ export function KanbanBoard({
   const [editingColumn, setEditingColumn] = useState<KanbanColumnData | null>(null);
   const [isDraggingColumn, setIsDraggingColumn] = useState(false);
   const [dragOverColumnIndex, setDragOverColumnIndex] = useState<number | null>(null);
-  const [filters, setFilters] = useState<TaskFilters>({
-    search: '',
-    assignees: [],
-    priorities: [],
-    statuses: [],
-    dateRange: { from: null, to: null },
-    tags: [],
-    hasFiles: null,
-    hasComments: null,
-    overdue: null,
-  });
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [filters, setFilters] = useState<TaskFilters>(() => boardFiltersFromParams(searchParams));
   const [columnSettingsOpen, setColumnSettingsOpen] = useState(false);
   const [statusManagementOpen, setStatusManagementOpen] = useState(false);
+  const [labelManagementOpen, setLabelManagementOpen] = useState(false);
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [customFields, setCustomFields] = useState<ProjectCustomField[]>([]);
   const { toast } = useToast();
+  const { permissions } = useProjectPermissions(projectId);
+  const { data: projectLabels = [] } = useProjectLabels(projectId);
+  const selection = useTaskSelection();
+  const bulkActions = useTaskBulkActions();
+
+  useEffect(() => {
+    selection.clear();
+  }, [projectId]);
 
   useEffect(() => {
     fetchColumns();
+    CustomFieldService.getProjectFields(projectId).then(setCustomFields);
   }, [projectId]); // fetchColumns is stable since it only depends on projectId
 
+  useEffect(() => {
+    // Keep board filters in the URL so the board can be linked as filtered
+    setSearchParams(
+      prev => mergeSearchParams(prev, BOARD_FILTER_PARAM_KEYS, boardFiltersToParams(filters)),
+      { replace: true }
+    );
+  }, [filters]);
+
+  const applySavedView = (view: SavedTaskView) => {
+    setFilters(deserializeBoardFilters(view.filters));
+  };
+
+  useEffect(() => {
+    TaskDependencyService.getDependenciesForTasks(tasks.map(t => t.id)).then(setDependencies);
+  }, [tasks]);
+
+  // Count unfinished blockers and blocked tasks for each card
+  const getDependencyCounts = (taskId: string) => {
+    const openBlockers = dependencies.filter(d => {
+      if (d.task_id !== taskId) return false;
+      const blocker = tasks.find(t => t.id === d.depends_on_task_id);
+      return !blocker || !isDoneStatus(blocker.status);
+    });
+    return {
+      blockedByCount: openBlockers.length,
+      blocksCount: dependencies.filter(d => d.depends_on_task_id === taskId).length,
+    };
+  };
+
   const fetchColumns = async () => {
     try {
       const { data, error } = await supabase
@@ -160,6 +215,24 @@ export function KanbanBoard({
       // Use the column's status_value if available, otherwise column name
       const newStatus = targetColumn.status_value || targetColumn.name;
 
+      // Dragging one of several selected cards moves the whole selection
+      if (selection.selectedIds.has(taskId) && selection.selectedIds.size > 1) {
+        await bulkActions.updateTasks([...selection.selectedIds], { status: newStatus });
+        onTasksChange();
+        return;
+      }
+
+      // Respect blocking dependencies before moving the card
+      const check = await TaskDependencyService.checkStatusChange(taskId, newStatus);
+      if (!check.allowed) {
+        toast({
+          title: "სტატუსის შეცვლა შეუძლებელია",
+          description: check.warning,
+          variant: "destructive"
+        });
+        return;
+      }
+
       // Update the task in the database
       const { error } = await supabase
         .from('tasks')
@@ -174,7 +247,10 @@ export function KanbanBoard({
       // Refresh tasks
       onTasksChange();
       
-      toast({
+      toast(check.warning ? {
+        title: "გაფრთხილება",
+        description: check.warning,
+      } : {
         title: "Success",
         description: "Task moved successfully",
       });
@@ -319,6 +395,8 @@ export function KanbanBoard({
     }
   };
 
+  const searchMatches = useTaskSearchMatches(filters.search, projectId);
+
   // Filter tasks based on advanced filters, excluding sub-tasks
   const filteredTasks = tasks.filter(task => {
     // Exclude sub-tasks from the Kanban view
@@ -326,13 +404,14 @@ export function KanbanBoard({
       return false;
     }
     
+    // Archived tasks only show when asked for, and then on their own
+    if (filters.archived === true ? !task.archived_at : task.archived_at) {
+      return false;
+    }
+    
     // Search filter
-    if (filters.search) {
-      const searchLower = filters.search.toLowerCase();
-      const matchesSearch = 
-        task.title.toLowerCase().includes(searchLower) ||
-        task.description?.toLowerCase().includes(searchLower);
-      if (!matchesSearch) return false;
+    if (!matchesTaskSearch(task, filters.search, searchMatches)) {
+      return false;
     }
     
     // Assignee filter
@@ -361,6 +440,11 @@ export function KanbanBoard({
       if (filters.dateRange.to && taskDate > filters.dateRange.to) return false;
     }
     
+    // Tag filter
+    if (filters.tags.length > 0) {
+      if (!task.labels?.some(label => filters.tags.includes(label.name))) return false;
+    }
+    
     // Overdue filter
     if (filters.overdue === true) {
       if (!task.due_date) return false;
@@ -369,14 +453,51 @@ export function KanbanBoard({
       if (dueDate >= now) return false;
     }
     
+    // Custom field filters
+    for (const field of customFields) {
+      const filter = filters.customFields[field.id];
+      if (filter && !matchesCustomFieldFilter(field, task.custom_fields?.[field.id], filter)) return false;
+    }
+    
     return true;
   });
 
+  const availableTags = Array.from(
+    new Set(tasks.flatMap(task => task.labels?.map(label => label.name) || []))
+  ).sort((a, b) => a.localeCompare(b));
+
   // Group tasks by column using utility function
   const getFilteredTasksForColumn = (columnName: string) => {
     return getTasksForColumn(filteredTasks, columnName, columns);
   };
 
+  // Board order, column by column, for shift-click ranges
+  const orderedTaskIds = columns.flatMap(column => getFilteredTasksForColumn(column.name).map(task => task.id));
+
+  const canSelect = permissions.edit_tasks || permissions.delete_tasks;
+
+  const handleTaskSelect = (taskId: string, range: boolean) => {
+    selection.toggle(taskId, range, orderedTaskIds);
+  };
+
+  const handleBulkUpdate = async (changes: BulkTaskChanges) => {
+    if (await bulkActions.updateTasks([...selection.selectedIds], changes)) {
+      onTasksChange();
+    }
+  };
+
+  const handleBulkDelete = () => {
+    bulkActions.deleteTasks([...selection.selectedIds]);
+    selection.clear();
+  };
+
+  const handleBulkArchive = async (archived: boolean) => {
+    if (await bulkActions.archiveTasks([...selection.selectedIds], archived)) {
+      selection.clear();
+      onTasksChange();
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -394,26 +515,44 @@ export function KanbanBoard({
             filters={filters}
             onFiltersChange={setFilters}
             teamMembers={teamMembers}
+            availableTags={availableTags}
+            customFields={customFields}
           />
         </div>
         
         <div className="flex gap-2">
+          <SavedViewSwitcher
+            scope="board"
+            projectId={projectId}
+            getCurrentState={() => ({ filters: serializeBoardFilters(filters) })}
+            onApply={applySavedView}
+          />
           <Button variant="outline" onClick={() => setStatusManagementOpen(true)}>
             <Settings className="h-4 w-4 mr-2" />
             სტატუსების მართვა
           </Button>
-          <Button variant="outline" onClick={() => setColumnSettingsOpen(true)}>
-            <Cog className="h-4 w-4 mr-2" />
-            Column Settings
-          </Button>
-          <Button variant="outline" onClick={openCreateColumnForm}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Column
-          </Button>
-          <Button onClick={onCreateTask}>
-            <Plus className="h-4 w-4 mr-2" />
-            ახალი დავალება
+          <Button variant="outline" onClick={() => setLabelManagementOpen(true)}>
+            <Tags className="h-4 w-4 mr-2" />
+            ლეიბლების მართვა
           </Button>
+          {permissions.manage_board && (
+            <>
+              <Button variant="outline" onClick={() => setColumnSettingsOpen(true)}>
+                <Cog className="h-4 w-4 mr-2" />
+                Column Settings
+              </Button>
+              <Button variant="outline" onClick={openCreateColumnForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Column
+              </Button>
+            </>
+          )}
+          {permissions.create_tasks && (
+            <Button onClick={onCreateTask}>
+              <Plus className="h-4 w-4 mr-2" />
+              ახალი დავალება
+            </Button>
+          )}
         </div>
       </div>
 
@@ -432,6 +571,7 @@ export function KanbanBoard({
             >
               <KanbanColumn
                 column={column}
+                projectId={projectId}
                 tasks={getFilteredTasksForColumn(column.name)}
                 teamMembers={teamMembers}
                 onTaskEdit={onTaskEdit}
@@ -443,12 +583,31 @@ export function KanbanBoard({
                 isDragging={isDraggingColumn}
                 onColumnDragStart={handleColumnDragStart}
                 onColumnDragEnd={handleColumnDragEnd}
+                getDependencyCounts={getDependencyCounts}
+                permissions={permissions}
+                selectedTaskIds={selection.selectedIds}
+                onTaskSelect={canSelect ? handleTaskSelect : undefined}
               />
             </div>
           ))}
         </div>
       </div>
 
+      <BulkActionBar
+        selectedCount={selection.selectedIds.size}
+        matchingCount={filteredTasks.length}
+        onSelectAll={() => selection.selectAll(filteredTasks.map(task => task.id))}
+        onClear={selection.clear}
+        onUpdate={handleBulkUpdate}
+        onDelete={permissions.delete_tasks ? handleBulkDelete : undefined}
+        onArchive={permissions.edit_tasks && filters.archived !== true ? () => handleBulkArchive(true) : undefined}
+        onUnarchive={permissions.edit_tasks && filters.archived === true ? () => handleBulkArchive(false) : undefined}
+        statuses={columns.map(column => ({ name: column.status_value || column.name, color: column.color }))}
+        members={teamMembers}
+        labels={projectLabels}
+        busy={bulkActions.isUpdating}
+      />
+
       {/* Column Form Modal */}
       <KanbanColumnForm
         open={columnFormOpen}
@@ -480,6 +639,14 @@ export function KanbanBoard({
           onTasksChange();
         }}
       />
+
+      {/* Label Management Dialog */}
+      <LabelManagement
+        open={labelManagementOpen}
+        onOpenChange={setLabelManagementOpen}
+        projectId={projectId}
+        onSuccess={onTasksChange}
+      />
     </div>
   );
 }
\ No newline at end of file
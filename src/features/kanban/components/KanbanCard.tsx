@@ -1,16 +1,26 @@
 import React from 'react';
 import { Card, CardContent } from '@/shared/components/ui/card';
 import { Badge } from '@/shared/components/ui/badge';
+import { Checkbox } from '@/shared/components/ui/checkbox';
 import { Avatar, AvatarFallback } from '@/shared/components/ui/avatar';
-import { Calendar, AlertTriangle, DollarSign } from 'lucide-react';
+import { Calendar, AlertTriangle, DollarSign, Lock, Link2 } from 'lucide-react';
 import { format, isAfter, isBefore, addDays } from 'date-fns';
 import { Task } from './TaskCard';
+import { TaskLabelChips } from '@/features/tasks/components/TaskLabels';
+import { TaskTimerButton } from '@/features/time-tracking/components/TaskTimerButton';
 
 interface KanbanCardProps {
   task: Task;
   assigneeName?: string;
   onEdit: (task: Task) => void;
   onTaskClick?: (taskId: string) => void;
+  blockedByCount?: number;
+  blocksCount?: number;
+  draggable?: boolean;
+  showBudget?: boolean;
+  // Shows a selection checkbox; `range` is set for shift-clicks
+  selected?: boolean;
+  onSelect?: (taskId: string, range: boolean) => void;
 }
 
 const priorityColors = {
@@ -27,7 +37,7 @@ const priorityBorderColors = {
   'critical': 'border-l-red-400',
 };
 
-export function KanbanCard({ task, assigneeName, onEdit, onTaskClick }: KanbanCardProps) {
+export function KanbanCard({ task, assigneeName, onEdit, onTaskClick, blockedByCount = 0, blocksCount = 0, draggable = true, showBudget = true, selected = false, onSelect }: KanbanCardProps) {
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase();
   };
@@ -53,9 +63,18 @@ export function KanbanCard({ task, assigneeName, onEdit, onTaskClick }: KanbanCa
 
   return (
     <Card 
-      className={`w-full cursor-pointer hover:shadow-lg transition-all duration-200 border-l-4 ${priorityBorderColors[task.priority]} bg-card hover:bg-accent/5`}
-      onClick={() => onTaskClick ? onTaskClick(task.id) : onEdit(task)}
-      draggable
+      className={`w-full cursor-pointer hover:shadow-lg transition-all duration-200 border-l-4 ${priorityBorderColors[task.priority]} bg-card hover:bg-accent/5 ${selected ? 'ring-2 ring-primary' : ''}`}
+      onClick={(e) => {
+        // Shift/Ctrl-click selects instead of opening
+        if (onSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+          onSelect(task.id, e.shiftKey);
+        } else if (onTaskClick) {
+          onTaskClick(task.id);
+        } else {
+          onEdit(task);
+        }
+      }}
+      draggable={draggable}
       onDragStart={(e) => {
         e.dataTransfer.setData('text/plain', task.id);
         e.dataTransfer.effectAllowed = 'move';
@@ -63,31 +82,64 @@ export function KanbanCard({ task, assigneeName, onEdit, onTaskClick }: KanbanCa
     >
       <CardContent className="p-4 space-y-3">
         <div>
-          <h4 className="font-semibold text-sm leading-tight line-clamp-2 text-foreground">
-            {task.title}
-          </h4>
+          <div className="flex items-start gap-2">
+            {onSelect && (
+              <Checkbox
+                checked={selected}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect(task.id, e.shiftKey);
+                }}
+                className="mt-0.5"
+                aria-label="დავალების არჩევა"
+              />
+            )}
+            <h4 className="font-semibold text-sm leading-tight line-clamp-2 text-foreground">
+              {task.title}
+            </h4>
+          </div>
           {task.description && (
             <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
               {task.description}
             </p>
           )}
+          <TaskLabelChips labels={task.labels} max={3} className="mt-2" />
         </div>
 
         <div className="flex items-center justify-between">
-          <Badge 
-            variant="secondary" 
-            className={`text-xs ${priorityColors[task.priority]}`}
-          >
-            {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
-          </Badge>
+          <div className="flex items-center gap-1 flex-wrap">
+            <Badge 
+              variant="secondary" 
+              className={`text-xs ${priorityColors[task.priority]}`}
+            >
+              {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
+            </Badge>
+            {blockedByCount > 0 && (
+              <Badge variant="secondary" className="text-xs bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400">
+                <Lock className="h-3 w-3 mr-1" />
+                {blockedByCount}
+              </Badge>
+            )}
+            {blocksCount > 0 && (
+              <Badge variant="outline" className="text-xs">
+                <Link2 className="h-3 w-3 mr-1" />
+                {blocksCount}
+              </Badge>
+            )}
+          </div>
           
-          {assigneeName && (
-            <Avatar className="h-6 w-6">
-              <AvatarFallback className="text-xs bg-primary/10 text-primary">
-                {getInitials(assigneeName)}
-              </AvatarFallback>
-            </Avatar>
-          )}
+          <div className="flex items-center gap-1">
+            {!task.archived_at && (
+              <TaskTimerButton taskId={task.id} projectId={task.project_id} taskTitle={task.title} className="h-6" />
+            )}
+            {assigneeName && (
+              <Avatar className="h-6 w-6">
+                <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                  {getInitials(assigneeName)}
+                </AvatarFallback>
+              </Avatar>
+            )}
+          </div>
         </div>
 
         <div className="flex items-center justify-between gap-2">
@@ -101,16 +153,19 @@ export function KanbanCard({ task, assigneeName, onEdit, onTaskClick }: KanbanCa
                 {dueDateStatus?.status === 'overdue' && 'Overdue: '}
                 {dueDateStatus?.status === 'due-today' && 'Due today: '}
                 {format(new Date(task.due_date), 'MMM dd')}
+                {task.due_time && ` ${task.due_time.slice(0, 5)}`}
               </span>
             </div>
           )}
 
-          <div className="flex items-center text-xs ml-auto">
-            <DollarSign className={`h-3 w-3 mr-1 ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`} />
-            <span className={`font-mono font-semibold ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
-              ₾{task.budget ? task.budget.toFixed(2) : '0.00'}
-            </span>
-          </div>
+          {showBudget && (
+            <div className="flex items-center text-xs ml-auto">
+              <DollarSign className={`h-3 w-3 mr-1 ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`} />
+              <span className={`font-mono font-semibold ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
+                ₾{task.budget ? task.budget.toFixed(2) : '0.00'}
+              </span>
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
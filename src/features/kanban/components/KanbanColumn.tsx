@@ -6,6 +6,8 @@ import { MoreVertical, Plus, GripVertical, DollarSign } from 'lucide-react';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/shared/components/ui/dropdown-menu';
 import { KanbanCard } from './KanbanCard';
 import { Task } from './TaskCard';
+import { QuickAddTask } from '@/features/tasks/components/QuickAddTask';
+import { ProjectPermissions, ALL_PERMISSIONS } from '@/services/projectPermissionService';
 
 interface KanbanColumnData {
   id: string;
@@ -16,6 +18,7 @@ interface KanbanColumnData {
 
 interface KanbanColumnProps {
   column: KanbanColumnData;
+  projectId?: string;
   tasks: Task[];
   teamMembers: Array<{ id: string; name: string }>;
   onTaskEdit: (task: Task) => void;
@@ -27,10 +30,15 @@ interface KanbanColumnProps {
   isDragging?: boolean;
   onColumnDragStart?: (e: React.DragEvent, column: KanbanColumnData) => void;
   onColumnDragEnd?: () => void;
+  getDependencyCounts?: (taskId: string) => { blockedByCount: number; blocksCount: number };
+  permissions?: ProjectPermissions;
+  selectedTaskIds?: Set<string>;
+  onTaskSelect?: (taskId: string, range: boolean) => void;
 }
 
 export function KanbanColumn({ 
   column, 
+  projectId,
   tasks, 
   teamMembers, 
   onTaskEdit, 
@@ -41,7 +49,11 @@ export function KanbanColumn({
   onDeleteColumn,
   isDragging = false,
   onColumnDragStart,
-  onColumnDragEnd
+  onColumnDragEnd,
+  getDependencyCounts,
+  permissions = ALL_PERMISSIONS,
+  selectedTaskIds,
+  onTaskSelect
 }: KanbanColumnProps) {
   const [isDragOver, setIsDragOver] = useState(false);
 
@@ -56,7 +68,7 @@ export function KanbanColumn({
 
   const handleTaskDragOver = (e: React.DragEvent) => {
     // Only handle task drops, not column drops
-    if (e.dataTransfer.types.includes('text/plain')) {
+    if (permissions.edit_tasks && e.dataTransfer.types.includes('text/plain')) {
       e.preventDefault();
       e.dataTransfer.dropEffect = 'move';
       setIsDragOver(true);
@@ -73,7 +85,7 @@ export function KanbanColumn({
     setIsDragOver(false);
     
     const taskId = e.dataTransfer.getData('text/plain');
-    if (taskId && !e.dataTransfer.types.includes('column/id')) {
+    if (permissions.edit_tasks && taskId && !e.dataTransfer.types.includes('column/id')) {
       onTaskMove(taskId, column.id);
     }
   };
@@ -82,8 +94,8 @@ export function KanbanColumn({
     <div className={`flex flex-col h-full min-w-[300px] w-80 group ${isDragging ? 'pointer-events-none' : ''}`}>
       <Card className={`flex-1 flex flex-col transition-all ${isDragging ? 'opacity-50' : ''}`}>
         <CardHeader
-          className="pb-3 cursor-grab active:cursor-grabbing"
-          draggable
+          className={`pb-3 ${permissions.manage_board ? 'cursor-grab active:cursor-grabbing' : ''}`}
+          draggable={permissions.manage_board}
           onDragStart={(e) => onColumnDragStart?.(e, column)}
           onDragEnd={onColumnDragEnd}
         >
@@ -91,9 +103,11 @@ export function KanbanColumn({
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
                 {/* Column Drag Handle */}
-                <div className="opacity-60 hover:opacity-100 transition-opacity">
-                  <GripVertical className="h-4 w-4 text-muted-foreground" />
-                </div>
+                {permissions.manage_board && (
+                  <div className="opacity-60 hover:opacity-100 transition-opacity">
+                    <GripVertical className="h-4 w-4 text-muted-foreground" />
+                  </div>
+                )}
                 <div
                   className="w-3 h-3 rounded-full"
                   style={{ backgroundColor: column.color }}
@@ -104,48 +118,54 @@ export function KanbanColumn({
                 </Badge>
               </div>
               <div className="flex items-center space-x-1">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="h-7 w-7 p-0"
-                  onClick={() => onCreateTask(column.id)}
-                >
-                  <Plus className="h-4 w-4" />
-                </Button>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
-                      <MoreVertical className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem onClick={() => onEditColumn?.(column)}>
-                      Edit Column
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      className="text-destructive"
-                      onClick={() => onDeleteColumn?.(column.id)}
-                    >
-                      Delete Column
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
+                {permissions.create_tasks && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => onCreateTask(column.id)}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                )}
+                {permissions.manage_board && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                        <MoreVertical className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => onEditColumn?.(column)}>
+                        Edit Column
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-destructive"
+                        onClick={() => onDeleteColumn?.(column.id)}
+                      >
+                        Delete Column
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
               </div>
             </div>
 
             {/* Budget Total Row */}
-            <div className="flex items-center gap-2 text-xs pl-9">
-              <div className="flex items-center gap-1 text-muted-foreground">
-                <DollarSign className="h-3 w-3" />
-                <span className="font-medium">ბიუჯეტი:</span>
+            {permissions.view_budget && (
+              <div className="flex items-center gap-2 text-xs pl-9">
+                <div className="flex items-center gap-1 text-muted-foreground">
+                  <DollarSign className="h-3 w-3" />
+                  <span className="font-medium">ბიუჯეტი:</span>
+                </div>
+                <span className={`font-semibold font-mono ${columnBudgetTotal > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
+                  ₾{columnBudgetTotal.toLocaleString('en-US', {
+                    minimumFractionDigits: 2,
+                    maximumFractionDigits: 2
+                  })}
+                </span>
               </div>
-              <span className={`font-semibold font-mono ${columnBudgetTotal > 0 ? 'text-foreground' : 'text-muted-foreground'}`}>
-                ₾{columnBudgetTotal.toLocaleString('en-US', {
-                  minimumFractionDigits: 2,
-                  maximumFractionDigits: 2
-                })}
-              </span>
-            </div>
+            )}
           </div>
         </CardHeader>
         
@@ -157,6 +177,14 @@ export function KanbanColumn({
           onDragLeave={handleTaskDragLeave}
           onDrop={handleTaskDrop}
         >
+          {permissions.create_tasks && projectId && (
+            <QuickAddTask
+              projectId={projectId}
+              status={column.name}
+              placeholder='+ დავალება, მაგ. "ხვალ !high @ნინო ~2h"'
+            />
+          )}
+
           {tasks.map((task) => (
             <KanbanCard
               key={task.id}
@@ -164,6 +192,11 @@ export function KanbanColumn({
               assigneeName={teamMembers.find(m => m.id === task.assignee_id)?.name}
               onEdit={onTaskEdit}
               onTaskClick={onTaskClick}
+              draggable={permissions.edit_tasks}
+              showBudget={permissions.view_budget}
+              selected={selectedTaskIds?.has(task.id)}
+              onSelect={onTaskSelect}
+              {...getDependencyCounts?.(task.id)}
             />
           ))}
           
@@ -97,6 +97,7 @@ export function KanbanColumnForm({
           .insert({
             project_id: projectId,
             name: formData.name.trim(),
+            status_value: formData.name.trim(),
             color: formData.color,
             position: maxPosition + 1
           });
@@ -69,4 +69,16 @@ export function getTasksForColumn(
   }
   
   return filteredTasks.sort((a, b) => (a.kanban_position || 0) - (b.kanban_position || 0));
-}
\ No newline at end of file
+}
+// Normalize a status so legacy values ('in-progress') and column names ('In Progress') compare equal
+function normalizeStatus(status: string): string {
+  return (status || '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+export function isDoneStatus(status: string): boolean {
+  return ['done', 'completed', 'დასრულებული'].includes(normalizeStatus(status));
+}
+
+export function isInProgressStatus(status: string): boolean {
+  return ['in-progress', 'review', 'მიმდინარეობაში', 'მიმოხილვაში'].includes(normalizeStatus(status));
+}
@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Badge } from '@/shared/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Plus, Trash2, ArrowUp, ArrowDown, SlidersHorizontal, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { CustomFieldService, ProjectCustomField, CustomFieldType } from '@/services/customFieldService';
+import { CUSTOM_FIELD_TYPE_LABELS } from '@/features/tasks/utils/customFields';
+
+interface CustomFieldDesignerProps {
+  projectId: string;
+}
+
+type EditableField = Pick<ProjectCustomField, 'id' | 'name' | 'field_type' | 'options' | 'show_in_list'>;
+
+const FIELD_TYPES = Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[];
+
+export function CustomFieldDesigner({ projectId }: CustomFieldDesignerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [originalFields, setOriginalFields] = useState<ProjectCustomField[]>([]);
+  const [fields, setFields] = useState<EditableField[]>([]);
+  const [optionDrafts, setOptionDrafts] = useState<Record<string, string>>({});
+  const [canManage, setCanManage] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchFields();
+    if (user) {
+      CustomFieldService.canManageFields(projectId, user.id).then(setCanManage);
+    }
+  }, [projectId, user]);
+
+  const fetchFields = async () => {
+    setLoading(true);
+    const data = await CustomFieldService.getProjectFields(projectId);
+    setOriginalFields(data);
+    setFields(data.map(({ id, name, field_type, options, show_in_list }) => ({ id, name, field_type, options, show_in_list })));
+    setLoading(false);
+  };
+
+  const updateField = (fieldId: string, updates: Partial<EditableField>) => {
+    setFields(prev => prev.map(field =>
+      field.id === fieldId ? { ...field, ...updates } : field
+    ));
+  };
+
+  const addField = () => {
+    setFields(prev => [...prev, {
+      id: 'temp-' + Date.now(),
+      name: '',
+      field_type: 'text',
+      options: [],
+      show_in_list: false
+    }]);
+  };
+
+  const removeField = (fieldId: string) => {
+    setFields(prev => prev.filter(field => field.id !== fieldId));
+  };
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= fields.length) return;
+    setFields(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addOption = (fieldId: string) => {
+    const option = (optionDrafts[fieldId] || '').trim();
+    const field = fields.find(f => f.id === fieldId);
+    if (!option || !field || field.options.includes(option)) return;
+    updateField(fieldId, { options: [...field.options, option] });
+    setOptionDrafts(prev => ({ ...prev, [fieldId]: '' }));
+  };
+
+  const handleSave = async () => {
+    const names = fields.map(f => f.name.trim().toLowerCase());
+    if (names.some(name => !name)) {
+      toast({
+        title: "შეცდომა",
+        description: "ველის სახელი აუცილებელია",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      toast({
+        title: "შეცდომა",
+        description: "ველების სახელები არ უნდა მეორდებოდეს",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (fields.some(f => f.field_type === 'select' && f.options.length === 0)) {
+      toast({
+        title: "შეცდომა",
+        description: "არჩევანის ველს სჭირდება მინიმუმ ერთი ვარიანტი",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    const errors: string[] = [];
+
+    // Fields are updated in place so values already stored on tasks are kept
+    const removed = originalFields.filter(o => !fields.some(f => f.id === o.id));
+    for (const field of removed) {
+      if (!(await CustomFieldService.deleteField(field.id))) {
+        errors.push(`"${field.name}" ვერ წაიშალა`);
+      }
+    }
+
+    for (const [position, field] of fields.entries()) {
+      const input = {
+        name: field.name,
+        field_type: field.field_type,
+        options: field.field_type === 'select' ? field.options : [],
+        show_in_list: field.show_in_list,
+        position
+      };
+
+      const result = field.id.startsWith('temp-')
+        ? await CustomFieldService.createField(projectId, input)
+        : await CustomFieldService.updateField(field.id, input);
+
+      if (!result.success) errors.push(result.error!);
+    }
+
+    setSaving(false);
+
+    if (errors.length > 0) {
+      toast({
+        title: "შეცდომა",
+        description: errors.join(', '),
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "წარმატება",
+        description: "ველები წარმატებით შენახულია"
+      });
+      localStorage.setItem('taskUpdated', Date.now().toString());
+    }
+
+    fetchFields();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Custom Fields
+          </CardTitle>
+          {canManage && (
+            <Button size="sm" onClick={handleSave} disabled={saving || loading}>
+              {saving ? 'ინახება...' : 'ველების შენახვა'}
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          დამატებითი ველები ჩანს ამ პროექტის ყველა დავალებაზე. ველების მართვა შეუძლიათ პროექტის მენეჯერებს.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">იტვირთება...</p>
+        ) : (
+          <>
+            {fields.length === 0 && (
+              <p className="text-sm text-muted-foreground italic text-center py-4">
+                დამატებითი ველები ჯერ არ არის შექმნილი
+              </p>
+            )}
+
+            {fields.map((field, index) => {
+              const isNew = field.id.startsWith('temp-');
+              return (
+                <div key={field.id} className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={field.name}
+                      onChange={(e) => updateField(field.id, { name: e.target.value })}
+                      placeholder="ველის სახელი"
+                      maxLength={100}
+                      disabled={!canManage}
+                      className="flex-1"
+                    />
+                    {/* Changing the type of an existing field would orphan its stored values */}
+                    <Select
+                      value={field.field_type}
+                      onValueChange={(value) => updateField(field.id, { field_type: value as CustomFieldType })}
+                      disabled={!canManage || !isNew}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FIELD_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {canManage && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => moveField(index, -1)} disabled={index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => moveField(index, 1)} disabled={index === fields.length - 1}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeField(field.id)}
+                          className="text-destructive hover:text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+
+                  {field.field_type === 'select' && (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap gap-1">
+                        {field.options.map(option => (
+                          <Badge key={option} variant="secondary" className="gap-1">
+                            {option}
+                            {canManage && (
+                              <X
+                                className="h-3 w-3 cursor-pointer"
+                                onClick={() => updateField(field.id, { options: field.options.filter(o => o !== option) })}
+                              />
+                            )}
+                          </Badge>
+                        ))}
+                      </div>
+                      {canManage && (
+                        <div className="flex gap-2">
+                          <Input
+                            value={optionDrafts[field.id] || ''}
+                            onChange={(e) => setOptionDrafts(prev => ({ ...prev, [field.id]: e.target.value }))}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                e.preventDefault();
+                                addOption(field.id);
+                              }
+                            }}
+                            placeholder="ახალი ვარიანტი"
+                            className="h-8"
+                          />
+                          <Button variant="outline" size="sm" onClick={() => addOption(field.id)}>
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`show-in-list-${field.id}`}
+                      checked={field.show_in_list}
+                      onCheckedChange={(checked) => updateField(field.id, { show_in_list: checked })}
+                      disabled={!canManage}
+                    />
+                    <Label htmlFor={`show-in-list-${field.id}`} className="text-sm font-normal">
+                      სიის ხედში სვეტად ჩვენება
+                    </Label>
+                  </div>
+                </div>
+              );
+            })}
+
+            {canManage && (
+              <Button onClick={addField} className="w-full" variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                ახალი ველის დამატება
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
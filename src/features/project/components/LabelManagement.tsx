@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Card, CardContent, CardHeader } from '@/shared/components/ui/card';
+import { Tag, Trash2, Plus } from 'lucide-react';
+import { useToast } from '@/shared/hooks/use-toast';
+import { LabelService, ProjectLabel } from '@/services/labelService';
+
+interface LabelManagementProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  onSuccess: () => void;
+}
+
+const DEFAULT_COLORS = [
+  '#6b7280', '#ef4444', '#f97316', '#f59e0b',
+  '#eab308', '#84cc16', '#22c55e', '#10b981',
+  '#06b6d4', '#0ea5e9', '#3b82f6', '#6366f1',
+  '#8b5cf6', '#a855f7', '#d946ef', '#ec4899'
+];
+
+type EditableLabel = Pick<ProjectLabel, 'id' | 'name' | 'color'>;
+
+export function LabelManagement({
+  open,
+  onOpenChange,
+  projectId,
+  onSuccess
+}: LabelManagementProps) {
+  const [originalLabels, setOriginalLabels] = useState<ProjectLabel[]>([]);
+  const [labels, setLabels] = useState<EditableLabel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) {
+      fetchLabels();
+    }
+  }, [open, projectId]);
+
+  const fetchLabels = async () => {
+    setLoading(true);
+    const data = await LabelService.getProjectLabels(projectId);
+    setOriginalLabels(data);
+    setLabels(data.map(({ id, name, color }) => ({ id, name, color })));
+    setLoading(false);
+  };
+
+  const updateLabel = (labelId: string, updates: Partial<EditableLabel>) => {
+    setLabels(prev => prev.map(label =>
+      label.id === labelId ? { ...label, ...updates } : label
+    ));
+  };
+
+  const addNewLabel = () => {
+    setLabels(prev => [...prev, {
+      id: 'temp-' + Date.now(),
+      name: '',
+      color: DEFAULT_COLORS[prev.length % DEFAULT_COLORS.length]
+    }]);
+  };
+
+  const removeLabel = (labelId: string) => {
+    setLabels(prev => prev.filter(label => label.id !== labelId));
+  };
+
+  const handleSave = async () => {
+    const names = labels.map(l => l.name.trim().toLowerCase());
+    if (names.some(name => !name)) {
+      toast({
+        title: "შეცდომა",
+        description: "ლეიბლის სახელი აუცილებელია",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (new Set(names).size !== names.length) {
+      toast({
+        title: "შეცდომა",
+        description: "ლეიბლების სახელები არ უნდა მეორდებოდეს",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    const errors: string[] = [];
+
+    // Labels are edited in place (not recreated) so existing task links survive
+    const removed = originalLabels.filter(o => !labels.some(l => l.id === o.id));
+    for (const label of removed) {
+      if (!(await LabelService.deleteLabel(label.id))) {
+        errors.push(`"${label.name}" ვერ წაიშალა`);
+      }
+    }
+
+    for (const label of labels) {
+      if (label.id.startsWith('temp-')) {
+        const result = await LabelService.createLabel(projectId, label.name, label.color);
+        if (!result.success) errors.push(result.error!);
+        continue;
+      }
+
+      const original = originalLabels.find(o => o.id === label.id);
+      if (original && (original.name !== label.name.trim() || original.color !== label.color)) {
+        const result = await LabelService.updateLabel(label.id, { name: label.name.trim(), color: label.color });
+        if (!result.success) errors.push(result.error!);
+      }
+    }
+
+    setSaving(false);
+
+    if (errors.length > 0) {
+      toast({
+        title: "შეცდომა",
+        description: errors.join(', '),
+        variant: "destructive"
+      });
+      fetchLabels();
+      return;
+    }
+
+    toast({
+      title: "წარმატება",
+      description: "ლეიბლები წარმატებით შენახულია"
+    });
+
+    onSuccess();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{loading ? 'იტვირთება...' : 'ლეიბლების მართვა'}</DialogTitle>
+        </DialogHeader>
+
+        {!loading && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              ლეიბლები ეკუთვნის პროექტს და შეგიძლიათ მიამაგროთ ამ პროექტის ნებისმიერ დავალებას.
+            </p>
+
+            <div className="space-y-3">
+              {labels.length === 0 && (
+                <p className="text-sm text-muted-foreground italic text-center py-4">
+                  ლეიბლები ჯერ არ არის შექმნილი
+                </p>
+              )}
+              {labels.map((label) => (
+                <Card key={label.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center gap-3">
+                      <Tag className="h-4 w-4" style={{ color: label.color }} />
+                      <Input
+                        value={label.name}
+                        onChange={(e) => updateLabel(label.id, { name: e.target.value })}
+                        placeholder="ლეიბლის სახელი"
+                        maxLength={50}
+                        className="flex-1"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeLabel(label.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Label>ფერი</Label>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {DEFAULT_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          type="button"
+                          className={`w-6 h-6 rounded-full border transition-all hover:scale-110 ${
+                            label.color === color ? 'border-primary ring-2 ring-primary/20' : 'border-border'
+                          }`}
+                          style={{ backgroundColor: color }}
+                          onClick={() => updateLabel(label.id, { color })}
+                        />
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Button onClick={addNewLabel} className="w-full" variant="outline">
+              <Plus className="h-4 w-4 mr-2" />
+              ახალი ლეიბლის დამატება
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            გაუქმება
+          </Button>
+          <Button onClick={handleSave} disabled={saving || loading}>
+            {saving ? 'ინახება...' : 'ცვლილებების შენახვა'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
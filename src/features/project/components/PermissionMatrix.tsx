@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/shared/hooks/use-toast';
+import { useProjectPermissions } from '../hooks/useProjectPermissions';
+import {
+  ProjectPermissionService,
+  RolePermissionMatrix,
+  ProjectRole,
+  ProjectPermission,
+  PROJECT_ROLES,
+  PROJECT_PERMISSIONS,
+  PROJECT_PERMISSION_LABELS,
+  DEFAULT_ROLE_PERMISSIONS
+} from '@/services/projectPermissionService';
+
+interface PermissionMatrixProps {
+  projectId: string;
+}
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  manager: 'მენეჯერი',
+  member: 'წევრი',
+  viewer: 'მნახველი'
+};
+
+export function PermissionMatrix({ projectId }: PermissionMatrixProps) {
+  const { toast } = useToast();
+  const { permissions } = useProjectPermissions(projectId);
+  const [matrix, setMatrix] = useState<RolePermissionMatrix>(DEFAULT_ROLE_PERMISSIONS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const canManage = permissions.manage_members;
+
+  useEffect(() => {
+    setLoading(true);
+    ProjectPermissionService.getRoleMatrix(projectId).then(result => {
+      setMatrix(result);
+      setLoading(false);
+    });
+  }, [projectId]);
+
+  const togglePermission = (role: ProjectRole, permission: ProjectPermission, granted: boolean) => {
+    setMatrix(prev => ({
+      ...prev,
+      [role]: { ...prev[role], [permission]: granted }
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await ProjectPermissionService.saveRoleMatrix(projectId, matrix);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "წარმატება",
+      description: "როლების უფლებები შენახულია"
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Permissions
+          </CardTitle>
+          {canManage && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setMatrix(DEFAULT_ROLE_PERMISSIONS)} disabled={saving || loading}>
+                ნაგულისხმევზე დაბრუნება
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving || loading}>
+                {saving ? 'ინახება...' : 'უფლებების შენახვა'}
+              </Button>
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          რას შეუძლია თითოეულ როლს ამ პროექტში. ადმინისტრატორებს და პროექტის შემქმნელს ყველა უფლება აქვთ.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">იტვირთება...</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>უფლება</TableHead>
+                {PROJECT_ROLES.map(role => (
+                  <TableHead key={role} className="text-center">{ROLE_LABELS[role]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PROJECT_PERMISSIONS.map(permission => (
+                <TableRow key={permission}>
+                  <TableCell className="font-medium">{PROJECT_PERMISSION_LABELS[permission]}</TableCell>
+                  {PROJECT_ROLES.map(role => (
+                    <TableCell key={role} className="text-center">
+                      <Checkbox
+                        checked={matrix[role][permission]}
+                        onCheckedChange={(checked) => togglePermission(role, permission, checked === true)}
+                        disabled={!canManage}
+                        aria-label={`${ROLE_LABELS[role]}: ${PROJECT_PERMISSION_LABELS[permission]}`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Archive, Download, Upload } from 'lucide-react';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { ProjectArchiveService, ProjectArchive } from '@/services/projectArchiveService';
+import { useProjectPermissions } from '../hooks/useProjectPermissions';
+
+interface ProjectArchiveCardProps {
+  projectId: string;
+}
+
+export function ProjectArchiveCard({ projectId }: ProjectArchiveCardProps) {
+  const { profile } = useProfile();
+  const { permissions } = useProjectPermissions(projectId);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [archive, setArchive] = useState<ProjectArchive | null>(null);
+  const [restoreName, setRestoreName] = useState('');
+
+  const isAdmin = profile?.role === 'admin';
+
+  const handleExport = async () => {
+    setExporting(true);
+    const result = await ProjectArchiveService.exportProject(projectId);
+    setExporting(false);
+
+    if (!result.success || !result.archive) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    ProjectArchiveService.downloadArchive(result.archive);
+    toast({
+      title: "წარმატება",
+      description: "პროექტის არქივი ჩამოიტვირთა"
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = await ProjectArchiveService.readArchive(file);
+    if (!result.success || !result.archive) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setArchive(result.archive);
+    setRestoreName(`${result.archive.project.name} (აღდგენილი)`);
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+
+    setRestoring(true);
+    const result = await ProjectArchiveService.restoreProject(archive, restoreName);
+    setRestoring(false);
+
+    if (!result.success || !result.projectId) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "წარმატება",
+      description: "პროექტი აღდგენილია"
+    });
+    navigate(`/projects/${result.projectId}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Backup & Restore
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          არქივი შეიცავს პროექტს, სვეტებს, სტატუსებს, დავალებებს ქვედავალებებით, კომენტარებს, დროის ჩანაწერებს, ღონისძიებებს და ფაილების მეტამონაცემებს. თავად ფაილები არ კოპირდება.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {permissions.manage_members && (
+          <Button variant="outline" onClick={handleExport} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'მზადდება...' : 'არქივის ჩამოტვირთვა (JSON)'}
+          </Button>
+        )}
+
+        {isAdmin && (
+          <div className="space-y-3 border-t pt-4">
+            <Label htmlFor="project-archive-file" className="text-sm font-medium">
+              არქივიდან ახალი პროექტის შექმნა
+            </Label>
+            <Input
+              id="project-archive-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+            />
+
+            {archive && (
+              <div className="rounded-md border p-3 space-y-3">
+                <div className="text-sm text-muted-foreground space-y-1">
+                  <div>
+                    <span className="font-medium text-foreground">{archive.project.name}</span>
+                    {' · '}ექსპორტი: {format(new Date(archive.exported_at), 'MMM dd, yyyy HH:mm')}
+                  </div>
+                  <div>
+                    დავალებები: {archive.tasks.length} · კომენტარები: {archive.task_comments.length} · დროის ჩანაწერები: {archive.time_entries.length} · ღონისძიებები: {archive.calendar_events.length}
+                  </div>
+                  <div>
+                    მომხმარებლები დაემთხვევა ელ-ფოსტით; უცნობი ავტორები თქვენ მოგენიჭებათ.
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="restore-project-name">ახალი პროექტის სახელი</Label>
+                  <Input
+                    id="restore-project-name"
+                    value={restoreName}
+                    onChange={(e) => setRestoreName(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleRestore} disabled={restoring || !restoreName.trim()}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    {restoring ? 'აღდგება...' : 'აღდგენა'}
+                  </Button>
+                  <Button variant="ghost" onClick={() => setArchive(null)} disabled={restoring}>
+                    გაუქმება
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { Badge } from '@/shared/components/ui/badge';
 import { GripVertical, Edit, Trash2, Plus, Settings } from 'lucide-react';
 import { useToast } from '@/shared/hooks/use-toast';
 import { supabase } from '@/core/config/client';
+import { useProjectPermissions } from '../hooks/useProjectPermissions';
 
 interface ProjectStatus {
   id: string;
@@ -49,6 +50,8 @@ export function StatusManagement({
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const { toast } = useToast();
+  const { permissions } = useProjectPermissions(projectId);
+  const canManage = permissions.manage_board;
 
   useEffect(() => {
     if (open) {
@@ -227,6 +230,11 @@ export function StatusManagement({
           <p className="text-sm text-muted-foreground">
             აკონფიგურირეთ თქვენი პროექტის სტატუსები. კანბან კოლუმნები ავტომატურად შეიქმნება ამ სტატუსების მიხედვით.
           </p>
+          {!canManage && (
+            <p className="text-sm text-muted-foreground italic">
+              სტატუსების შეცვლის უფლება არ გაქვთ.
+            </p>
+          )}
 
           <div className="space-y-3">
             {statuses.map((status, index) => (
@@ -242,14 +250,16 @@ export function StatusManagement({
                     <Badge variant="secondary" className="ml-auto">
                       პოზიცია {status.position}
                     </Badge>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeStatus(status.id)}
-                      className="text-destructive hover:text-destructive"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeStatus(status.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -261,6 +271,7 @@ export function StatusManagement({
                         value={status.name}
                         onChange={(e) => updateStatus(status.id, { name: e.target.value })}
                         placeholder="სტატუსის სახელი"
+                        disabled={!canManage}
                       />
                     </div>
 
@@ -276,6 +287,7 @@ export function StatusManagement({
                             }`}
                             style={{ backgroundColor: color }}
                             onClick={() => updateStatus(status.id, { color })}
+                            disabled={!canManage}
                           />
                         ))}
                       </div>
@@ -286,17 +298,19 @@ export function StatusManagement({
             ))}
           </div>
 
-          <Button onClick={addNewStatus} className="w-full" variant="outline">
-            <Plus className="h-4 w-4 mr-2" />
-            ახალი სტატუსის დამატება
-          </Button>
+          {canManage && (
+            <Button onClick={addNewStatus} className="w-full" variant="outline">
+              <Plus className="h-4 w-4 mr-2" />
+              ახალი სტატუსის დამატება
+            </Button>
+          )}
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             გაუქმება
           </Button>
-          <Button onClick={handleSave} disabled={saving}>
+          <Button onClick={handleSave} disabled={saving || !canManage}>
             {saving ? 'ინახება...' : 'ცვლილებების შენახვა'}
           </Button>
         </DialogFooter>
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow, differenceInCalendarDays } from 'date-fns';
+import { ka } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/shared/components/ui/alert-dialog';
+import { CheckSquare, FileText, FolderOpen, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/shared/hooks/use-toast';
+import { queryKeys } from '@/core/data/queryKeys';
+import { TrashService, TrashItem, TrashEntityType } from '@/services/trashService';
+
+interface TrashBinProps {
+  // Leave out for the admin-wide trash across every project
+  projectId?: string;
+}
+
+const entityConfig: Record<TrashEntityType, { icon: React.ElementType; label: string; children: string }> = {
+  project: { icon: FolderOpen, label: 'პროექტი', children: 'დავალება' },
+  task: { icon: CheckSquare, label: 'დავალება', children: 'ქვედავალება' },
+  file: { icon: FileText, label: 'ფაილი', children: '' }
+};
+
+/**
+ * Trashed tasks, files and (admin-wide) projects with restore and permanent delete
+ */
+export function TrashBin({ projectId }: TrashBinProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<'all' | TrashEntityType>('all');
+  // Items awaiting confirmation of permanent deletion
+  const [purgeTargets, setPurgeTargets] = useState<TrashItem[] | null>(null);
+
+  useEffect(() => {
+    loadTrash();
+  }, [projectId]);
+
+  const loadTrash = async () => {
+    setLoading(true);
+    // Nothing purges on a schedule, so expired items are cleared whenever the trash opens
+    await TrashService.purgeExpired();
+    const result = await TrashService.list(projectId);
+    setLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setItems(result.items!);
+  };
+
+  const visibleItems = useMemo(
+    () => (typeFilter === 'all' ? items : items.filter(item => item.entity_type === typeFilter)),
+    [items, typeFilter]
+  );
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    const result = await TrashService.restore(item.entity_type, [item.id]);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "აღდგენილია",
+      description: `"${item.title}" აღდგა`
+    });
+    setItems(prev => prev.filter(i => i.id !== item.id));
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+  };
+
+  const handlePurge = async () => {
+    if (!purgeTargets) return;
+    const targets = purgeTargets;
+    setPurgeTargets(null);
+    setBusyId('purge');
+
+    // One call per entity type; projects first so their tasks are not purged twice
+    const errors: string[] = [];
+    for (const entityType of ['project', 'task', 'file'] as TrashEntityType[]) {
+      const ids = targets.filter(item => item.entity_type === entityType).map(item => item.id);
+      if (ids.length === 0) continue;
+      const result = await TrashService.purge(entityType, ids);
+      if (!result.success) errors.push(result.error!);
+    }
+
+    setBusyId(null);
+
+    if (errors.length > 0) {
+      toast({
+        title: "შეცდომა",
+        description: errors.join(', '),
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "წაიშალა",
+        description: `${targets.length} ელემენტი სამუდამოდ წაიშალა`
+      });
+    }
+    loadTrash();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          სანაგვე
+          {items.length > 0 && <Badge variant="secondary">{items.length}</Badge>}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Select value={typeFilter} onValueChange={value => setTypeFilter(value as 'all' | TrashEntityType)}>
+            <SelectTrigger className="h-8 w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">ყველა</SelectItem>
+              {!projectId && <SelectItem value="project">პროექტები</SelectItem>}
+              <SelectItem value="task">დავალებები</SelectItem>
+              <SelectItem value="file">ფაილები</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive"
+            disabled={visibleItems.length === 0 || busyId !== null}
+            onClick={() => setPurgeTargets(visibleItems)}
+          >
+            სანაგვის დაცლა
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">სანაგვე ცარიელია</p>
+        ) : (
+          <div className="divide-y">
+            {visibleItems.map(item => {
+              const config = entityConfig[item.entity_type];
+              const Icon = config.icon;
+              const daysLeft = Math.max(differenceInCalendarDays(new Date(item.purge_at), new Date()), 0);
+
+              return (
+                <div key={`${item.entity_type}-${item.id}`} className="flex items-center gap-3 py-3">
+                  <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{item.title}</span>
+                      <Badge variant="outline" className="shrink-0 text-xs">{config.label}</Badge>
+                      {item.item_count > 0 && (
+                        <span className="shrink-0 text-xs text-muted-foreground">
+                          +{item.item_count} {config.children}
+                        </span>
+                      )}
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {!projectId && item.entity_type !== 'project' && `${item.project_name} · `}
+                      წაშალა {item.deleted_by_name || 'უცნობმა'}{' '}
+                      {formatDistanceToNow(new Date(item.deleted_at), { addSuffix: true, locale: ka })}
+                      {' · '}
+                      სამუდამოდ წაიშლება {daysLeft} დღეში
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => handleRestore(item)}
+                  >
+                    {busyId === item.id
+                      ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      : <RotateCcw className="mr-2 h-4 w-4" />}
+                    აღდგენა
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    disabled={busyId !== null}
+                    onClick={() => setPurgeTargets([item])}
+                    title="სამუდამოდ წაშლა"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={purgeTargets !== null} onOpenChange={open => !open && setPurgeTargets(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>სამუდამოდ წაშლა</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTargets?.length === 1
+                ? `"${purgeTargets[0].title}" და მასთან ერთად წაშლილი ყველაფერი სამუდამოდ წაიშლება, მიმაგრებული ფაილების ჩათვლით.`
+                : `${purgeTargets?.length ?? 0} ელემენტი სამუდამოდ წაიშლება, მიმაგრებული ფაილების ჩათვლით.`}
+              {' '}ამ მოქმედების გაუქმება შეუძლებელია.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>გაუქმება</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              წაშლა
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ProjectPermissionService, ProjectPermissions, NO_PERMISSIONS } from '@/services/projectPermissionService';
+
+/**
+ * The current user's effective permissions in a project.
+ * Everything is denied until the permissions have loaded.
+ */
+export function useProjectPermissions(projectId: string | undefined) {
+  const { user } = useAuth();
+  const [permissions, setPermissions] = useState<ProjectPermissions>(NO_PERMISSIONS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!projectId || !user) return;
+
+    let cancelled = false;
+    setLoading(true);
+    ProjectPermissionService.getMyPermissions(projectId).then(result => {
+      if (cancelled) return;
+      setPermissions(result);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, user]);
+
+  return { permissions, loading };
+}
@@ -13,6 +13,7 @@ import { format } from 'date-fns';
 import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/shared/hooks/use-toast';
+import { useProjectPermissions } from '@/features/project/hooks/useProjectPermissions';
 
 interface ProjectMember {
   id: string;
@@ -33,11 +34,11 @@ interface TeamManagementProps {
 }
 
 const roleConfig = {
-  admin: {
-    label: 'Admin',
+  manager: {
+    label: 'Manager',
     icon: Crown,
     color: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
-    description: 'Full project access and management'
+    description: 'Manages the board, files and team'
   },
   member: {
     label: 'Member',
@@ -56,6 +57,7 @@ const roleConfig = {
 export function TeamManagement({ projectId, onTeamMembersChange }: TeamManagementProps) {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { permissions } = useProjectPermissions(projectId);
   const [teamMembers, setTeamMembers] = useState<ProjectMember[]>([]);
   const [loading, setLoading] = useState(true);
   const [showAddMember, setShowAddMember] = useState(false);
@@ -230,6 +232,7 @@ export function TeamManagement({ projectId, onTeamMembersChange }: TeamManagemen
           project_id: projectId,
           user_id: userId,
           role: selectedRole,
+          // Overrides on top of the project's role matrix; none by default
           permissions: {}
         });
 
@@ -353,8 +356,7 @@ export function TeamManagement({ projectId, onTeamMembersChange }: TeamManagemen
   const isCurrentUserMember = teamMembers.some(member => member.user_id === user?.id);
   const currentUserRole = teamMembers.find(member => member.user_id === user?.id)?.role;
   const isProjectCreator = projectCreator === user?.id;
-  // Temporarily allow all authenticated users to manage team members
-  const canManageTeam = true; // currentUserRole === 'admin' || currentUserRole === 'manager' || isProjectCreator || isGlobalAdmin || !isCurrentUserMember;
+  const canManageTeam = permissions.manage_members;
 
   // Debug logging
   console.log('Team Management Debug:', {
@@ -579,9 +581,9 @@ export function TeamManagement({ projectId, onTeamMembersChange }: TeamManagemen
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => updateMemberRole(member.id, 'admin')}>
+                          <DropdownMenuItem onClick={() => updateMemberRole(member.id, 'manager')}>
                             <Crown className="h-4 w-4 mr-2" />
-                            Make Admin
+                            Make Manager
                           </DropdownMenuItem>
                           <DropdownMenuItem onClick={() => updateMemberRole(member.id, 'member')}>
                             <User className="h-4 w-4 mr-2" />
@@ -28,19 +28,23 @@ import {
   Target,
   Award,
   Calendar,
-  Activity
+  Activity,
+  Hourglass
 } from 'lucide-react';
 import { supabase } from '@/core/config/client';
 import { useToast } from '@/shared/hooks/use-toast';
+import { TaskEstimateService, EstimateOverrun, formatEstimate, formatLoggedHours } from '@/services/taskEstimateService';
 
 interface TeamMember {
   id: string;
+  user_id: string;
   name: string;
   avatar_url: string | null;
   tasksCompleted: number;
   tasksInProgress: number;
   averageCompletionTime: number;
   productivityScore: number;
+  overrunTasks: number;
   role: string;
 }
 
@@ -52,6 +56,7 @@ interface ProjectPerformance {
   completedTasks: number;
   avgTaskDuration: number;
   teamSize: number;
+  overrunTasks: number;
 }
 
 interface PerformanceMetric {
@@ -67,6 +72,7 @@ export function TeamPerformanceAnalytics() {
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [projects, setProjects] = useState<ProjectPerformance[]>([]);
   const [performanceData, setPerformanceData] = useState<PerformanceMetric[]>([]);
+  const [overruns, setOverruns] = useState<EstimateOverrun[]>([]);
   const [selectedPeriod, setSelectedPeriod] = useState('30');
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
@@ -78,9 +84,13 @@ export function TeamPerformanceAnalytics() {
   const fetchAnalyticsData = async () => {
     setLoading(true);
     try {
+      // შეფასებაზე მეტი დროის მქონე tasks, წევრებისა და პროექტებისთვის
+      const overrunList = await TaskEstimateService.getOverruns();
+      setOverruns(overrunList);
+
       await Promise.all([
-        fetchTeamPerformance(),
-        fetchProjectPerformance(),
+        fetchTeamPerformance(overrunList),
+        fetchProjectPerformance(overrunList),
         fetchPerformanceMetrics()
       ]);
     } catch (error) {
@@ -95,7 +105,7 @@ export function TeamPerformanceAnalytics() {
     }
   };
 
-  const fetchTeamPerformance = async () => {
+  const fetchTeamPerformance = async (overrunList: EstimateOverrun[]) => {
     const daysAgo = parseInt(selectedPeriod);
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - daysAgo);
@@ -103,7 +113,7 @@ export function TeamPerformanceAnalytics() {
     // ყველა მომხმარებლის მოძიება
     const { data: profiles } = await supabase
       .from('profiles')
-      .select('id, display_name, full_name, avatar_url, role')
+      .select('id, user_id, display_name, full_name, avatar_url, role')
       .eq('role', 'user');
 
     if (!profiles) return;
@@ -137,12 +147,14 @@ export function TeamPerformanceAnalytics() {
 
       teamData.push({
         id: profile.id,
+        user_id: profile.user_id,
         name: profile.display_name || profile.full_name || 'უცნობი მომხმარებელი',
         avatar_url: profile.avatar_url,
         tasksCompleted: completedTasks || 0,
         tasksInProgress: inProgressTasks || 0,
         averageCompletionTime: avgCompletionTime,
         productivityScore,
+        overrunTasks: overrunList.filter(o => o.assignee_id === profile.user_id).length,
         role: profile.role
       });
     }
@@ -150,7 +162,7 @@ export function TeamPerformanceAnalytics() {
     setTeamMembers(teamData.sort((a, b) => b.productivityScore - a.productivityScore));
   };
 
-  const fetchProjectPerformance = async () => {
+  const fetchProjectPerformance = async (overrunList: EstimateOverrun[]) => {
     const { data: projects } = await supabase
       .from('projects')
       .select(`
@@ -193,7 +205,8 @@ export function TeamPerformanceAnalytics() {
         tasksCount: totalTasks || 0,
         completedTasks: completedTasks || 0,
         avgTaskDuration,
-        teamSize: teamSize || 0
+        teamSize: teamSize || 0,
+        overrunTasks: overrunList.filter(o => o.project_id === project.id).length
       });
     }
 
@@ -290,6 +303,12 @@ export function TeamPerformanceAnalytics() {
           <TabsTrigger value="team">გუნდის წევრები</TabsTrigger>
           <TabsTrigger value="projects">პროექტები</TabsTrigger>
           <TabsTrigger value="metrics">მეტრიკები</TabsTrigger>
+          <TabsTrigger value="overruns">
+            შეფასების გადაჭარბება
+            {overruns.length > 0 && (
+              <Badge variant="destructive" className="ml-2 h-5 px-1.5">{overruns.length}</Badge>
+            )}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="team" className="space-y-4">
@@ -313,6 +332,9 @@ export function TeamPerformanceAnalytics() {
                           <h3 className="font-semibold">{member.name}</h3>
                           <p className="text-sm text-muted-foreground">
                             {member.tasksCompleted} დასრულებული • {member.tasksInProgress} მიმდინარე
+                            {member.overrunTasks > 0 && (
+                              <span className="text-red-600"> • {member.overrunTasks} შეფასებაზე მეტი</span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -348,6 +370,9 @@ export function TeamPerformanceAnalytics() {
                       <h3 className="font-semibold">{project.name}</h3>
                       <p className="text-sm text-muted-foreground">
                         {project.completedTasks}/{project.tasksCount} დასრულებული • {project.teamSize} წევრი
+                        {project.overrunTasks > 0 && (
+                          <span className="text-red-600"> • {project.overrunTasks} შეფასებაზე მეტი</span>
+                        )}
                       </p>
                     </div>
                     <div className="text-right">
@@ -457,6 +482,50 @@ export function TeamPerformanceAnalytics() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="overruns" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Hourglass className="h-5 w-5" />
+                შეფასებაზე მეტი დროის მქონე დავალებები
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {overruns.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  ყველა დავალება შეფასების ფარგლებშია
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {overruns.map((overrun) => {
+                    const usage = Math.round(overrun.logged_seconds / overrun.estimated_seconds * 100);
+                    const assignee = teamMembers.find(m => m.user_id === overrun.assignee_id);
+                    return (
+                      <div key={overrun.task_id} className="flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <h4 className="font-medium truncate">{overrun.title}</h4>
+                          <p className="text-xs text-muted-foreground">
+                            {overrun.project_name}
+                            {assignee && ` • ${assignee.name}`}
+                          </p>
+                        </div>
+                        <div className="text-right shrink-0">
+                          <div className="text-sm font-semibold text-red-600">
+                            {formatLoggedHours(overrun.logged_seconds)} / {formatEstimate(overrun.estimate, overrun.estimate_unit)}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            +{usage - 100}%
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
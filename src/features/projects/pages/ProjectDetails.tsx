@@ -1,8 +1,19 @@
 import React, { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useParams, Navigate, useNavigate } from 'react-router-dom';
 import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useProfile } from '@/contexts/ProfileContext';
+import { queryKeys } from '@/core/data/queryKeys';
+import { removeCachedTask } from '@/core/data/taskCache';
+import { useProjectTasks, useUpdateTask } from '@/core/data/hooks/useTaskQueries';
+import { TaskRepository } from '@/core/data/repositories/taskRepository';
+import { useProject, useProjectStats } from '@/core/data/hooks/useProjectQueries';
+import { useProjectMembers } from '@/core/data/hooks/useMemberQueries';
+import { useProjectStatuses, useKanbanColumns } from '@/core/data/hooks/useStatusQueries';
+import { useRealtimeCacheSync } from '@/core/data/hooks/useRealtimeCacheSync';
+import type { ProjectStats } from '@/core/data/repositories/projectRepository';
+import type { MemberSummary } from '@/core/data/repositories/memberRepository';
+import { DEFAULT_PROJECT_STATUSES, StatusSummary } from '@/core/data/repositories/statusRepository';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { Badge } from '@/shared/components/ui/badge';
 import { Button } from '@/shared/components/ui/button';
@@ -10,50 +21,42 @@ import { Progress } from '@/shared/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
 import { LoadingSpinner } from '@/shared/components/common/LoadingSpinner';
 import { useToast } from '@/shared/hooks/use-toast';
-import { Calendar, Users, BarChart3, Plus, Settings, ListTodo } from 'lucide-react';
+import { TaskDependencyService } from '@/services/taskDependencyService';
+import { Calendar, Users, BarChart3, Plus, Settings, ListTodo, Upload, Archive } from 'lucide-react';
 import { format } from 'date-fns';
 import { TaskCard, Task } from '@/features/tasks/components/TaskCard';
 import { TaskForm } from '@/features/tasks/components/TaskForm';
+import { TaskImportDialog } from '@/features/tasks/components/TaskImportDialog';
 import { TaskFiltersComponent, TaskFilters } from '@/features/tasks/components/TaskFilters';
+import { TaskSearchHits } from '@/features/tasks/components/TaskSearchHits';
+import { useTaskSearchMatches } from '@/features/tasks/hooks/useTaskSearch';
+import { matchesTaskSearch } from '@/features/tasks/utils/taskSearch';
 import { TeamManagement } from '@/features/projects/components/EnhancedTeamManagement';
 import { KanbanBoard } from '@/features/kanban/components/KanbanBoard';
 import { TasksCalendarView } from '@/features/tasks/components/TasksCalendarView';
+import { TasksTimelineView } from '@/features/tasks/components/TasksTimelineView';
 import { FileManager } from '@/shared/components/forms/FileManager';
 import { ActivityFeed } from '@/shared/components/common/ActivityFeed';
+import { TrashBin } from '@/features/project/components/TrashBin';
+import { TimesheetApprovals } from '@/features/time-tracking/components/TimesheetApprovals';
+import { InvoicesPanel } from '@/features/billing/components/InvoicesPanel';
+import { BillingRatesEditor } from '@/features/billing/components/BillingRatesEditor';
 import { TaskViewerSidebar } from '@/features/tasks/components/TaskViewerSidebar';
 import { FileUploadService } from '@/services/fileUploadService';
+import { LabelService } from '@/services/labelService';
+import { useProjectPermissions } from '@/features/project/hooks/useProjectPermissions';
+import { useTaskBulkActions } from '@/features/tasks/hooks/useTaskBulkActions';
 import { FileUploadItem } from '@/components/ui/file-upload';
 
-interface Project {
-  id: string;
-  name: string;
-  description: string | null;
-  status: string | null;
-  category: string | null;
-  created_at: string;
-  updated_at: string;
-  start_date: string | null;
-  end_date: string | null;
-  created_by: string;
-}
-
-interface ProjectStats {
-  totalTasks: number;
-  completedTasks: number;
-  teamMembers: number;
-  completionPercentage: number;
-}
-
-interface TeamMember {
-  id: string;
-  name: string;
-  email?: string;
-}
+// Stable fallbacks while queries load
+const EMPTY_STATS: ProjectStats = { totalTasks: 0, completedTasks: 0, teamMembers: 0, completionPercentage: 0 };
+const EMPTY_TASKS: Task[] = [];
+const EMPTY_MEMBERS: MemberSummary[] = [];
+const EMPTY_COLUMNS: StatusSummary[] = [];
 
 export default function ProjectDetails() {
   const { id } = useParams<{ id: string }>();
   const { user } = useAuth();
-  const { profile } = useProfile();
   const { toast } = useToast();
   const navigate = useNavigate();
   
@@ -61,26 +64,27 @@ export default function ProjectDetails() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   
-  const [project, setProject] = useState<Project | null>(null);
-  const [stats, setStats] = useState<ProjectStats>({
-    totalTasks: 0,
-    completedTasks: 0,
-    teamMembers: 0,
-    completionPercentage: 0
-  });
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { data: project, isPending: loading, error: projectError } = useProject(id);
+  const error = projectError?.message ?? null;
+  const { data: stats = EMPTY_STATS } = useProjectStats(id);
   const [activeTab, setActiveTab] = useState('overview');
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
-  const [kanbanColumns, setKanbanColumns] = useState<Array<{ id: string; name: string; color: string }>>([]);
-  const [projectStatuses, setProjectStatuses] = useState<Array<{ id: string; name: string; color: string }>>([]);
+  const { data: tasks = EMPTY_TASKS, error: tasksError } = useProjectTasks(id);
+  const { data: teamMembers = EMPTY_MEMBERS } = useProjectMembers(id);
+  const { data: kanbanColumns = EMPTY_COLUMNS } = useKanbanColumns(id);
+  const { data: projectStatuses = DEFAULT_PROJECT_STATUSES } = useProjectStatuses(id);
+  const updateTask = useUpdateTask();
+  const bulkActions = useTaskBulkActions();
+  useRealtimeCacheSync(id);
   
   // Debug: log projectStatuses changes
   useEffect(() => {
     console.log('ProjectDetails projectStatuses updated:', projectStatuses);
   }, [projectStatuses]);
   const [taskFormOpen, setTaskFormOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const { permissions } = useProjectPermissions(id);
+  const canSeeTrash = permissions.delete_tasks || permissions.delete_files;
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [taskLoading, setTaskLoading] = useState(false);
   const [filters, setFilters] = useState<TaskFilters>({
@@ -89,7 +93,9 @@ export default function ProjectDetails() {
     assignee: 'all',
     search: '',
     sortBy: 'created_at',
-    sortOrder: 'desc'
+    sortOrder: 'desc',
+    tag: 'all',
+    archived: 'hide'
   });
 
   const handleTaskClick = (taskId: string) => {
@@ -103,195 +109,38 @@ export default function ProjectDetails() {
   };
 
   useEffect(() => {
-    if (!id || !user) return;
-    
-    fetchProject();
-    fetchProjectStats();
-    fetchTasks();
-    fetchTeamMembers();
-    fetchKanbanColumns();
-    fetchProjectStatuses();
-
-    // Set up realtime subscriptions
-    const projectStatusesChannel = supabase
-      .channel('project-statuses-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'project_statuses',
-          filter: `project_id=eq.${id}`
-        }, 
-        () => {
-          console.log('Project statuses changed, refreshing...');
-          fetchProjectStatuses();
-        }
-      )
-      .subscribe();
-
-    const tasksChannel = supabase
-      .channel('tasks-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'tasks',
-          filter: `project_id=eq.${id}`
-        }, 
-        (payload) => {
-          console.log('Tasks realtime change detected:', payload);
-          setTimeout(() => {
-            fetchTasks();
-            fetchProjectStats();
-            fetchProjectStatuses();
-          }, 100);
-        }
-      )
-      .subscribe();
-
-    const kanbanColumnsChannel = supabase
-      .channel('kanban-columns-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'kanban_columns',
-          filter: `project_id=eq.${id}`
-        }, 
-        () => {
-          console.log('Kanban columns changed, refreshing...');
-          fetchKanbanColumns();
-        }
-      )
-      .subscribe();
-
-    // Cleanup subscriptions on unmount
-    return () => {
-      supabase.removeChannel(projectStatusesChannel);
-      supabase.removeChannel(tasksChannel);
-      supabase.removeChannel(kanbanColumnsChannel);
-    };
-  }, [id, user, profile]);
-
-  const fetchProject = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
-      setProject(data);
-    } catch (err: any) {
-      setError(err.message);
-      toast({
-        title: "Error",
-        description: "Failed to load project details",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchProjectStats = async () => {
-    try {
-      // Get team members count
-      const { data: members, error: membersError } = await supabase
-        .from('project_members')
-        .select('id')
-        .eq('project_id', id);
-
-      if (membersError) throw membersError;
-
-      // Get tasks statistics
-      const { data: tasksData, error: tasksError } = await supabase
-        .from('tasks')
-        .select('status')
-        .eq('project_id', id);
-
-      if (tasksError) throw tasksError;
-
-      const teamMembersCount = members?.length || 0;
-      const totalTasks = tasksData?.length || 0;
-      const completedTasks = tasksData?.filter(task => task.status === 'done').length || 0;
-      const completionPercentage = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
-
-      setStats({
-        totalTasks,
-        completedTasks,
-        teamMembers: teamMembersCount,
-        completionPercentage
-      });
-    } catch (err: any) {
-      console.error('Error fetching project stats:', err);
-    }
-  };
+    if (!projectError) return;
+    toast({
+      title: "Error",
+      description: "Failed to load project details",
+      variant: "destructive"
+    });
+  }, [projectError]);
 
-  const fetchTasks = async () => {
-    try {
-      let query = supabase
-        .from('tasks')
-        .select('*')
-        .eq('project_id', id);
-      
-      // If user is not an admin, show tasks they created OR are assigned to
-      if (profile?.role !== 'admin' && user?.id) {
-        query = query.or(`created_by.eq.${user.id},assignee_id.eq.${user.id}`);
-      }
-      
-      const { data, error } = await query.order('created_at', { ascending: false });
+  useEffect(() => {
+    if (!tasksError) return;
+    console.error('Error fetching tasks:', tasksError);
+    toast({
+      title: "Error",
+      description: "Failed to load tasks",
+      variant: "destructive"
+    });
+  }, [tasksError]);
 
-      if (error) throw error;
-      setTasks((data || []) as Task[]);
-    } catch (err: any) {
-      console.error('Error fetching tasks:', err);
-      toast({
-        title: "Error",
-        description: "Failed to load tasks",
-        variant: "destructive"
-      });
-    }
+  const refreshTasks = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    if (id) queryClient.invalidateQueries({ queryKey: queryKeys.projects.stats(id) });
   };
+  const refreshStatuses = () => queryClient.invalidateQueries({ queryKey: queryKeys.statuses.all });
 
-  const fetchTeamMembers = async () => {
-    try {
-      // First get project members
-      const { data: membersData, error: membersError } = await supabase
-        .from('project_members')
-        .select('user_id')
-        .eq('project_id', id);
-
-      if (membersError) throw membersError;
-
-      if (!membersData || membersData.length === 0) {
-        setTeamMembers([]);
-        return;
-      }
-
-      // Then get profile info for each member
-      const userIds = membersData.map(m => m.user_id);
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, display_name, full_name')
-        .in('user_id', userIds);
-
-      if (profilesError) throw profilesError;
-
-      const members = membersData.map(member => {
-        const profile = profilesData?.find(p => p.user_id === member.user_id);
-        return {
-          id: member.user_id,
-          name: profile?.display_name || profile?.full_name || 'Unknown User'
-        };
-      });
-
-      setTeamMembers(members);
-    } catch (err: any) {
-      console.error('Error fetching team members:', err);
-    }
-  };
+  // Done tasks past the project's auto-archive period go to the archive when it opens
+  useEffect(() => {
+    if (!id) return;
+    TaskRepository.archiveDoneTasks()
+      .then(count => count > 0 && refreshTasks())
+      .catch((err: unknown) => console.error('Error archiving done tasks:', err));
+  }, [id]);
+  const refreshMembers = () => queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
 
   const handleCreateTask = async (taskData: any & { files?: FileUploadItem[] }) => {
     setTaskLoading(true);
@@ -308,6 +157,7 @@ export default function ProjectDetails() {
           priority: taskData.priority,
           assignee_id: taskData.assignee_id === 'unassigned' ? null : taskData.assignee_id,
           due_date: taskData.due_date,
+          recurrence: taskData.recurrence ?? null,
           project_id: id,
           created_by: user?.id,
           kanban_column: kanban_column, // Add kanban_column mapping
@@ -345,6 +195,10 @@ export default function ProjectDetails() {
         }
       }
 
+      if (taskData.label_ids?.length) {
+        await LabelService.setTaskLabels(taskResult.id, taskData.label_ids);
+      }
+
       // Log activity
       await supabase.rpc('log_project_activity', {
         p_project_id: id,
@@ -361,9 +215,8 @@ export default function ProjectDetails() {
       });
 
       setTaskFormOpen(false);
-      fetchTasks();
-      fetchProjectStats();
-      fetchProjectStatuses();
+      refreshTasks();
+      refreshStatuses();
     } catch (err: any) {
       console.error('Error creating task:', err);
       toast({
@@ -384,10 +237,12 @@ export default function ProjectDetails() {
       // Status is the column name itself
       const kanban_column = taskData.status.toLowerCase().replace(/\s+/g, '-');
       
+      const { files, label_ids, ...fields } = taskData;
+
       const { error } = await supabase
         .from('tasks')
         .update({
-          ...taskData,
+          ...fields,
           assignee_id: taskData.assignee_id === 'unassigned' ? null : taskData.assignee_id,
           kanban_column: kanban_column // Update kanban_column when editing
         })
@@ -395,6 +250,10 @@ export default function ProjectDetails() {
 
       if (error) throw error;
 
+      if (label_ids) {
+        await LabelService.setTaskLabels(editingTask.id, label_ids);
+      }
+
       // Log activity
       await supabase.rpc('log_project_activity', {
         p_project_id: id,
@@ -412,9 +271,8 @@ export default function ProjectDetails() {
 
       setTaskFormOpen(false);
       setEditingTask(null);
-      fetchTasks();
-      fetchProjectStats();
-      fetchProjectStatuses();
+      refreshTasks();
+      refreshStatuses();
     } catch (err: any) {
       console.error('Error updating task:', err);
       toast({
@@ -427,89 +285,24 @@ export default function ProjectDetails() {
     }
   };
 
-  const fetchKanbanColumns = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('kanban_columns')
-        .select('id, name, color')
-        .eq('project_id', id)
-        .order('position');
-
-      if (error) throw error;
-      setKanbanColumns(data || []);
-    } catch (err: any) {
-      console.error('Error fetching kanban columns:', err);
-    }
+  const handleDeleteTask = (taskId: string) => {
+    // Task was already deleted from modal, just drop it from the cached lists
+    removeCachedTask(queryClient, taskId);
+    refreshTasks();
   };
 
-  const fetchProjectStatuses = async () => {
+  const handleStatusChange = async (taskId: string, status: string) => {
     try {
-      console.log('fetchProjectStatuses called for projectId:', id);
-      const { data, error } = await supabase
-        .from('project_statuses')
-        .select('id, name, color')
-        .eq('project_id', id)
-        .order('position');
-      
-      console.log('fetchProjectStatuses result:', { data, error });
-
-      if (error) {
-        // If project_statuses table doesn't exist or no data, use default statuses
-        console.log('No project statuses found, using defaults', error);
-        const defaultStatuses = [
-          { id: '1', name: 'To Do', color: '#6b7280' },
-          { id: '2', name: 'In Progress', color: '#0ea5e9' },
-          { id: '3', name: 'Review', color: '#f59e0b' },
-          { id: '4', name: 'Done', color: '#22c55e' }
-        ];
-        console.log('Setting default projectStatuses:', defaultStatuses);
-        setProjectStatuses(defaultStatuses);
+      const check = await TaskDependencyService.checkStatusChange(taskId, status);
+      if (!check.allowed) {
+        toast({
+          title: "სტატუსის შეცვლა შეუძლებელია",
+          description: check.warning,
+          variant: "destructive"
+        });
         return;
       }
 
-      if (!data || data.length === 0) {
-        // Use default statuses if no custom ones are defined
-        console.log('No custom statuses found, using defaults');
-        const defaultStatuses = [
-          { id: '1', name: 'To Do', color: '#6b7280' },
-          { id: '2', name: 'In Progress', color: '#0ea5e9' },
-          { id: '3', name: 'Review', color: '#f59e0b' },
-          { id: '4', name: 'Done', color: '#22c55e' }
-        ];
-        console.log('Setting default projectStatuses:', defaultStatuses);
-        setProjectStatuses(defaultStatuses);
-      } else {
-        console.log('Found custom project statuses:', data);
-        setProjectStatuses(data);
-      }
-    } catch (err: any) {
-      console.error('Error fetching project statuses:', err);
-      // Fallback to default statuses
-      setProjectStatuses([
-        { id: '1', name: 'To Do', color: '#6b7280' },
-        { id: '2', name: 'In Progress', color: '#0ea5e9' },
-        { id: '3', name: 'Review', color: '#f59e0b' },
-        { id: '4', name: 'Done', color: '#22c55e' }
-      ]);
-    }
-  };
-
-  const handleDeleteTask = async (taskId: string) => {
-    // Task was already deleted from modal, just refresh the UI
-    try {
-      // Force UI refresh by clearing state and refetching
-      setTasks([]);
-      await Promise.all([fetchTasks(), fetchProjectStats()]);
-    } catch (err: any) {
-      console.error('Error refreshing project data:', err);
-      // Still try to refresh even if there's an error
-      await fetchTasks();
-      await fetchProjectStats();
-    }
-  };
-
-  const handleStatusChange = async (taskId: string, status: string) => {
-    try {
       // Get task title for activity log
       const { data: taskData } = await supabase
         .from('tasks')
@@ -520,15 +313,7 @@ export default function ProjectDetails() {
       // Status is the column name itself
       const kanban_column = status.toLowerCase().replace(/\s+/g, '-');
 
-      const { error } = await supabase
-        .from('tasks')
-        .update({ 
-          status,
-          kanban_column: kanban_column 
-        })
-        .eq('id', taskId);
-
-      if (error) throw error;
+      await updateTask.mutateAsync({ taskId, fields: { status, kanban_column } });
 
       // Log activity
       await supabase.rpc('log_project_activity', {
@@ -540,8 +325,14 @@ export default function ProjectDetails() {
         p_entity_id: taskId
       });
 
-      fetchTasks();
-      fetchProjectStats();
+      if (check.warning) {
+        toast({
+          title: "გაფრთხილება",
+          description: check.warning
+        });
+      }
+
+      refreshTasks();
     } catch (err: any) {
       console.error('Error updating task status:', err);
       toast({
@@ -562,16 +353,22 @@ export default function ProjectDetails() {
     setTaskFormOpen(true);
   };
 
+  const searchMatches = useTaskSearchMatches(filters.search, id ?? null);
+
   // Filter and sort tasks (exclude subtasks from main task list)
   const filteredTasks = React.useMemo(() => {
     let filtered = [...tasks].filter(task => !task.is_subtask); // Only show parent tasks
 
+    // Archived tasks only show when asked for
+    if (filters.archived === 'only') {
+      filtered = filtered.filter(task => task.archived_at);
+    } else if (filters.archived !== 'all') {
+      filtered = filtered.filter(task => !task.archived_at);
+    }
+
     // Apply filters
     if (filters.search) {
-      filtered = filtered.filter(task =>
-        task.title.toLowerCase().includes(filters.search.toLowerCase()) ||
-        task.description?.toLowerCase().includes(filters.search.toLowerCase())
-      );
+      filtered = filtered.filter(task => matchesTaskSearch(task, filters.search, searchMatches));
     }
 
     if (filters.status && filters.status !== 'all') {
@@ -582,6 +379,10 @@ export default function ProjectDetails() {
       filtered = filtered.filter(task => task.priority === filters.priority);
     }
 
+    if (filters.tag && filters.tag !== 'all') {
+      filtered = filtered.filter(task => task.labels?.some(label => label.name === filters.tag));
+    }
+
     if (filters.assignee && filters.assignee !== 'all') {
       if (filters.assignee === 'unassigned') {
         filtered = filtered.filter(task => !task.assignee_id);
@@ -625,7 +426,7 @@ export default function ProjectDetails() {
     });
 
     return filtered;
-  }, [tasks, filters]);
+  }, [tasks, filters, searchMatches]);
 
   // Calculate task counts for filters (exclude subtasks)
   const taskCounts = React.useMemo(() => {
@@ -673,10 +474,21 @@ export default function ProjectDetails() {
                 <Badge className={getStatusColor(project.status)}>
                   {project.status || 'Unknown'}
                 </Badge>
+                {project.archived_at && (
+                  <Badge variant="outline">
+                    <Archive className="h-3 w-3 mr-1" />
+                    Archived
+                  </Badge>
+                )}
               </div>
               {project.description && (
                 <p className="text-muted-foreground max-w-2xl">{project.description}</p>
               )}
+              {project.archived_at && (
+                <p className="text-sm text-muted-foreground">
+                  Archived on {format(new Date(project.archived_at), 'MMM dd, yyyy')}. The project is read-only; its tasks and reports stay available.
+                </p>
+              )}
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
                 <span>Created {format(new Date(project.created_at), 'MMM dd, yyyy')}</span>
                 {project.category && (
@@ -693,10 +505,12 @@ export default function ProjectDetails() {
                 <Settings className="h-4 w-4 mr-2" />
                 Settings
               </Button>
-              <Button size="sm" onClick={openCreateTaskForm}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Task
-              </Button>
+              {permissions.create_tasks && (
+                <Button size="sm" onClick={openCreateTaskForm}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Task
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -705,14 +519,18 @@ export default function ProjectDetails() {
       {/* Navigation Tabs */}
       <div className="px-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-7 lg:w-fit lg:grid-cols-7">
+          <TabsList className={`grid w-full lg:w-fit ${canSeeTrash ? 'grid-cols-9 lg:grid-cols-9' : 'grid-cols-8 lg:grid-cols-8'}`}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="tasks">Tasks</TabsTrigger>
             <TabsTrigger value="kanban">Kanban</TabsTrigger>
             <TabsTrigger value="calendar">Calendar</TabsTrigger>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
             <TabsTrigger value="files">Files</TabsTrigger>
             <TabsTrigger value="team">Team</TabsTrigger>
             <TabsTrigger value="activity">Activity</TabsTrigger>
+            {permissions.approve_timesheets && <TabsTrigger value="timesheets">Timesheets</TabsTrigger>}
+            {permissions.manage_billing && <TabsTrigger value="billing">Billing</TabsTrigger>}
+            {canSeeTrash && <TabsTrigger value="trash">Trash</TabsTrigger>}
           </TabsList>
 
           {/* Overview Tab */}
@@ -830,10 +648,18 @@ export default function ProjectDetails() {
                 <ListTodo className="h-5 w-5" />
                 <h2 className="text-lg font-semibold">Project Tasks</h2>
               </div>
-              <Button onClick={openCreateTaskForm}>
-                <Plus className="h-4 w-4 mr-2" />
-                New Task
-              </Button>
+              {permissions.create_tasks && (
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  <Button onClick={openCreateTaskForm}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Task
+                  </Button>
+                </div>
+              )}
             </div>
 
             <TaskFiltersComponent
@@ -842,8 +668,11 @@ export default function ProjectDetails() {
               teamMembers={teamMembers}
               taskCounts={taskCounts}
               kanbanColumns={kanbanColumns}
+              availableTags={Array.from(new Set(tasks.flatMap(t => t.labels?.map(l => l.name) || []))).sort()}
             />
 
+            <TaskSearchHits search={filters.search} projectId={id} onOpenTask={handleTaskClick} />
+
             {filteredTasks.length === 0 ? (
               <Card>
                 <CardContent className="p-8">
@@ -871,17 +700,18 @@ export default function ProjectDetails() {
                     task={task}
                     onEdit={openEditTaskForm}
                     onDelete={handleDeleteTask}
+                    onArchive={(taskId, archived) => bulkActions.archiveTasks([taskId], archived)}
                     onStatusChange={handleStatusChange}
                     assigneeName={teamMembers.find(m => m.id === task.assignee_id)?.name}
                     creatorName={teamMembers.find(m => m.id === task.created_by)?.name}
                     teamMembers={teamMembers}
                     projectStatuses={projectStatuses}
                     onTasksChange={() => {
-                      fetchTasks();
-                      fetchProjectStats();
+                      refreshTasks();
                     }}
                     showSubtasks={true}
                     onTaskClick={handleTaskClick}
+                    permissions={permissions}
                   />
                 ))}
               </div>
@@ -898,8 +728,8 @@ export default function ProjectDetails() {
               onTaskEdit={openEditTaskForm}
               onCreateTask={openCreateTaskForm}
               onTasksChange={() => {
-                fetchTasks();
-                fetchProjectStatuses();
+                refreshTasks();
+                refreshStatuses();
               }}
               onTaskClick={handleTaskClick}
             />
@@ -914,6 +744,19 @@ export default function ProjectDetails() {
             />
           </TabsContent>
 
+          <TabsContent value="timeline" className="py-6">
+            <TasksTimelineView
+              tasks={tasks}
+              teamMembers={teamMembers}
+              projects={project ? [{ id: project.id, name: project.name }] : []}
+              defaultGroupBy="assignee"
+              onTaskClick={handleTaskClick}
+              onTasksChange={() => {
+                refreshTasks();
+              }}
+            />
+          </TabsContent>
+
           <TabsContent value="files" className="py-6">
             <FileManager
               projectId={id!}
@@ -924,7 +767,7 @@ export default function ProjectDetails() {
           <TabsContent value="team" className="py-6">
             <TeamManagement 
               projectId={id!} 
-              onTeamMembersChange={fetchTeamMembers}
+              onTeamMembersChange={refreshMembers}
             />
           </TabsContent>
 
@@ -934,6 +777,25 @@ export default function ProjectDetails() {
               teamMembers={teamMembers}
             />
           </TabsContent>
+
+          {permissions.approve_timesheets && (
+            <TabsContent value="timesheets" className="py-6">
+              <TimesheetApprovals projectId={id!} />
+            </TabsContent>
+          )}
+
+          {permissions.manage_billing && (
+            <TabsContent value="billing" className="py-6 space-y-6">
+              <InvoicesPanel projectId={id!} projectName={project.name} />
+              <BillingRatesEditor projectId={id!} />
+            </TabsContent>
+          )}
+
+          {canSeeTrash && (
+            <TabsContent value="trash" className="py-6">
+              <TrashBin projectId={id!} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
 
@@ -949,6 +811,18 @@ export default function ProjectDetails() {
         projectStatuses={projectStatuses}
         />
 
+      {/* Task Import Dialog */}
+      <TaskImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        projectId={id!}
+        projectStatuses={projectStatuses}
+        existingTasks={tasks}
+        onImported={() => {
+          refreshTasks();
+        }}
+      />
+
       {/* Task Viewer Sidebar */}
       <TaskViewerSidebar
         taskId={selectedTaskId}
@@ -956,7 +830,7 @@ export default function ProjectDetails() {
         onClose={handleSidebarClose}
         onTaskDelete={handleDeleteTask}
         projectStatuses={projectStatuses}
-        onProjectStatusesUpdate={fetchProjectStatuses}
+        onProjectStatusesUpdate={refreshStatuses}
       />
     </div>
   );
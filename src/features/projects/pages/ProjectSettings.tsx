@@ -8,10 +8,14 @@ import { Input } from '@/shared/components/ui/input';
 import { Label } from '@/shared/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { Textarea } from '@/shared/components/ui/textarea';
+import { Switch } from '@/shared/components/ui/switch';
 import { LoadingSpinner } from '@/shared/components/common/LoadingSpinner';
 import { useToast } from '@/shared/hooks/use-toast';
-import { ArrowLeft, Save } from 'lucide-react';
+import { ArrowLeft, Save, Archive } from 'lucide-react';
 import { format } from 'date-fns';
+import { CustomFieldDesigner } from '@/features/project/components/CustomFieldDesigner';
+import { ProjectArchiveCard } from '@/features/project/components/ProjectArchiveCard';
+import { PermissionMatrix } from '@/features/project/components/PermissionMatrix';
 
 interface Project {
   id: string;
@@ -24,6 +28,11 @@ interface Project {
   start_date: string | null;
   end_date: string | null;
   created_by: string;
+  is_template: boolean;
+  auto_archive_days: number | null;
+  archived_at: string | null;
+  estimate_unit: string;
+  hours_per_point: number | null;
 }
 
 export default function ProjectSettings() {
@@ -46,6 +55,17 @@ export default function ProjectSettings() {
     start_date: '',
     end_date: ''
   });
+  const [isTemplate, setIsTemplate] = useState(false);
+  // Empty turns auto-archiving off
+  const [autoArchiveDays, setAutoArchiveDays] = useState('');
+  const autoArchiveValue = autoArchiveDays === '' ? null : Number(autoArchiveDays);
+  const isAutoArchiveValid = autoArchiveValue === null
+    || (Number.isInteger(autoArchiveValue) && autoArchiveValue >= 1 && autoArchiveValue <= 365);
+  const [estimateUnit, setEstimateUnit] = useState('hours');
+  // Empty leaves point estimates out of overrun checks
+  const [hoursPerPoint, setHoursPerPoint] = useState('');
+  const hoursPerPointValue = estimateUnit === 'points' && hoursPerPoint !== '' ? Number(hoursPerPoint) : null;
+  const isHoursPerPointValid = hoursPerPointValue === null || hoursPerPointValue > 0;
 
   useEffect(() => {
     if (!id || !user) return;
@@ -71,6 +91,10 @@ export default function ProjectSettings() {
         start_date: data.start_date || '',
         end_date: data.end_date || ''
       });
+      setIsTemplate(data.is_template);
+      setAutoArchiveDays(data.auto_archive_days ? String(data.auto_archive_days) : '');
+      setEstimateUnit(data.estimate_unit);
+      setHoursPerPoint(data.hours_per_point ? String(data.hours_per_point) : '');
     } catch (err: any) {
       setError(err.message);
       toast({
@@ -97,6 +121,10 @@ export default function ProjectSettings() {
           category: formData.category,
           start_date: formData.start_date || null,
           end_date: formData.end_date || null,
+          is_template: isTemplate,
+          auto_archive_days: autoArchiveValue,
+          estimate_unit: estimateUnit,
+          hours_per_point: hoursPerPointValue,
           updated_at: new Date().toISOString()
         })
         .eq('id', project.id);
@@ -172,7 +200,7 @@ export default function ProjectSettings() {
               </p>
             </div>
           </div>
-          <Button onClick={handleSave} disabled={saving}>
+          <Button onClick={handleSave} disabled={saving || !isAutoArchiveValid || !isHoursPerPointValid || !!project.archived_at}>
             <Save className="h-4 w-4 mr-2" />
             {saving ? 'Saving...' : 'Save Changes'}
           </Button>
@@ -180,6 +208,13 @@ export default function ProjectSettings() {
 
         {/* Settings Form */}
         <div className="space-y-6">
+          {project.archived_at && (
+            <div className="flex items-center gap-2 rounded-md border bg-muted p-3 text-sm text-muted-foreground">
+              <Archive className="h-4 w-4" />
+              This project was archived on {format(new Date(project.archived_at), 'MMMM dd, yyyy')} and is read-only. Unarchive it from the project list to change its settings.
+            </div>
+          )}
+
           {/* Basic Information */}
           <Card>
             <CardHeader>
@@ -240,6 +275,20 @@ export default function ProjectSettings() {
                   </Select>
                 </div>
               </div>
+
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="project-is-template">Use as template</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Offer this project's columns, statuses, tasks and team roles when creating new projects
+                  </p>
+                </div>
+                <Switch
+                  id="project-is-template"
+                  checked={isTemplate}
+                  onCheckedChange={setIsTemplate}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -273,6 +322,87 @@ export default function ProjectSettings() {
             </CardContent>
           </Card>
 
+          {/* Archiving */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Archiving</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="auto-archive-days">Archive done tasks after (days)</Label>
+              <Input
+                id="auto-archive-days"
+                type="number"
+                min={1}
+                max={365}
+                className="w-32"
+                value={autoArchiveDays}
+                onChange={(e) => setAutoArchiveDays(e.target.value)}
+                placeholder="Off"
+              />
+              <p className="text-sm text-muted-foreground">
+                Done tasks leave the board and task lists once they have been done this long. Archived tasks stay searchable with the Archived filter. Leave empty to archive only by hand.
+              </p>
+              {!isAutoArchiveValid && (
+                <p className="text-sm text-destructive">Enter a whole number of days between 1 and 365</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Estimates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Estimates</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="estimate-unit">Estimate tasks in</Label>
+                <Select value={estimateUnit} onValueChange={setEstimateUnit}>
+                  <SelectTrigger id="estimate-unit" className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hours">Hours</SelectItem>
+                    <SelectItem value="points">Story points</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground mt-1">
+                  Subtask estimates add up to their parent task. Switching units keeps the numbers already entered.
+                </p>
+              </div>
+
+              {estimateUnit === 'points' && (
+                <div className="space-y-2">
+                  <Label htmlFor="hours-per-point">Hours per point</Label>
+                  <Input
+                    id="hours-per-point"
+                    type="number"
+                    min={0}
+                    step="0.25"
+                    className="w-32"
+                    value={hoursPerPoint}
+                    onChange={(e) => setHoursPerPoint(e.target.value)}
+                    placeholder="Not set"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Used to compare point estimates with logged time. Leave empty to show points without overrun warnings.
+                  </p>
+                  {!isHoursPerPointValid && (
+                    <p className="text-sm text-destructive">Enter a number of hours greater than 0</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Custom Fields */}
+          <CustomFieldDesigner projectId={project.id} />
+
+          {/* Role Permissions */}
+          <PermissionMatrix projectId={project.id} />
+
+          {/* Backup & Restore */}
+          <ProjectArchiveCard projectId={project.id} />
+
           {/* Project Information */}
           <Card>
             <CardHeader>
@@ -15,9 +15,13 @@ import {
   Users,
   Flag,
   Clock,
-  Tags
+  Tags,
+  SlidersHorizontal,
+  Archive
 } from 'lucide-react';
 import { format } from 'date-fns';
+import type { ProjectCustomField } from '@/services/customFieldService';
+import { formatCustomFieldFilter } from '../utils/customFields';
 
 export interface TaskFilters {
   search: string;
@@ -32,6 +36,10 @@ export interface TaskFilters {
   hasFiles: boolean | null;
   hasComments: boolean | null;
   overdue: boolean | null;
+  // Archived tasks are hidden unless this asks for them alone
+  archived: boolean | null;
+  // Filter value per custom field id
+  customFields: Record<string, string>;
 }
 
 interface AdvancedTaskFiltersProps {
@@ -39,6 +47,7 @@ interface AdvancedTaskFiltersProps {
   onFiltersChange: (filters: TaskFilters) => void;
   teamMembers: Array<{ id: string; name: string }>;
   availableTags?: string[];
+  customFields?: ProjectCustomField[];
 }
 
 const priorityOptions = [
@@ -59,7 +68,8 @@ export function AdvancedTaskFilters({
   filters,
   onFiltersChange,
   teamMembers,
-  availableTags = []
+  availableTags = [],
+  customFields = []
 }: AdvancedTaskFiltersProps) {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -78,9 +88,18 @@ export function AdvancedTaskFilters({
       hasFiles: null,
       hasComments: null,
       overdue: null,
+      archived: null,
+      customFields: {},
     });
   };
 
+  const updateCustomFieldFilter = (fieldId: string, value: string) => {
+    const { [fieldId]: _removed, ...rest } = filters.customFields;
+    updateFilters({ customFields: value ? { ...rest, [fieldId]: value } : rest });
+  };
+
+  const activeCustomFields = customFields.filter(field => filters.customFields[field.id]);
+
   const getActiveFilterCount = () => {
     let count = 0;
     if (filters.search) count++;
@@ -92,6 +111,8 @@ export function AdvancedTaskFilters({
     if (filters.hasFiles !== null) count++;
     if (filters.hasComments !== null) count++;
     if (filters.overdue !== null) count++;
+    if (filters.archived !== null) count++;
+    count += activeCustomFields.length;
     return count;
   };
 
@@ -285,6 +306,55 @@ export function AdvancedTaskFilters({
               </div>
             )}
 
+            {/* Custom Fields */}
+            {customFields.length > 0 && (
+              <div className="space-y-3">
+                <Label className="flex items-center gap-2">
+                  <SlidersHorizontal className="h-4 w-4" />
+                  Custom Fields
+                </Label>
+                {customFields.map((field) => {
+                  const value = filters.customFields[field.id] || '';
+                  const selectOptions =
+                    field.field_type === 'select' ? field.options.map(option => ({ value: option, label: option })) :
+                    field.field_type === 'user' ? [{ value: 'unassigned', label: 'Unassigned' }, ...teamMembers.map(m => ({ value: m.id, label: m.name }))] :
+                    field.field_type === 'checkbox' ? [{ value: 'true', label: 'Checked' }, { value: 'false', label: 'Not checked' }] :
+                    null;
+
+                  return (
+                    <div key={field.id} className="space-y-1">
+                      <Label htmlFor={`cf-${field.id}`} className="text-sm text-muted-foreground">{field.name}</Label>
+                      {selectOptions ? (
+                        <Select
+                          value={value || 'all'}
+                          onValueChange={(newValue) => updateCustomFieldFilter(field.id, newValue === 'all' ? '' : newValue)}
+                        >
+                          <SelectTrigger id={`cf-${field.id}`} className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">Any</SelectItem>
+                            {selectOptions.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Input
+                          id={`cf-${field.id}`}
+                          type={field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : 'text'}
+                          value={value}
+                          onChange={(e) => updateCustomFieldFilter(field.id, e.target.value)}
+                          placeholder={field.field_type === 'text' ? 'Contains...' : undefined}
+                          className="h-8"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* Additional Filters */}
             <div className="space-y-3">
               <Label>Additional Options</Label>
@@ -324,6 +394,20 @@ export function AdvancedTaskFilters({
                   Overdue tasks only
                 </Label>
               </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="archived"
+                  checked={filters.archived === true}
+                  onCheckedChange={(checked) => 
+                    updateFilters({ archived: checked ? true : null })
+                  }
+                />
+                <Label htmlFor="archived" className="text-sm flex items-center gap-2">
+                  <Archive className="h-3 w-3 text-muted-foreground" />
+                  Archived tasks only
+                </Label>
+              </div>
             </div>
           </div>
 
@@ -374,6 +458,33 @@ export function AdvancedTaskFilters({
               />
             </Badge>
           )}
+          {filters.tags.length > 0 && (
+            <Badge variant="secondary" className="gap-1">
+              Tags: {filters.tags.length}
+              <X 
+                className="h-3 w-3 cursor-pointer" 
+                onClick={() => updateFilters({ tags: [] })}
+              />
+            </Badge>
+          )}
+          {filters.archived === true && (
+            <Badge variant="secondary" className="gap-1">
+              Archived
+              <X 
+                className="h-3 w-3 cursor-pointer" 
+                onClick={() => updateFilters({ archived: null })}
+              />
+            </Badge>
+          )}
+          {activeCustomFields.map((field) => (
+            <Badge key={field.id} variant="secondary" className="gap-1">
+              {field.name}: {formatCustomFieldFilter(field, filters.customFields[field.id], teamMembers)}
+              <X 
+                className="h-3 w-3 cursor-pointer" 
+                onClick={() => updateCustomFieldFilter(field.id, '')}
+              />
+            </Badge>
+          ))}
         </div>
       )}
     </div>
@@ -0,0 +1,236 @@
+import React, { useEffect } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Calendar } from '@/shared/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/shared/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/shared/components/ui/dropdown-menu';
+import { CalendarIcon, Tags, Trash2, X, Loader2, CheckSquare, Archive, ArchiveRestore } from 'lucide-react';
+import type { BulkTaskChanges } from '@/core/data/repositories/taskRepository';
+import type { ProjectLabel } from '@/services/labelService';
+import { Task } from './TaskCard';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // Tasks matching the current filters; offers "select all" when more than are selected
+  matchingCount?: number;
+  onSelectAll?: () => void;
+  onClear: () => void;
+  onUpdate: (changes: BulkTaskChanges) => void;
+  onDelete?: () => void;
+  // Shown as "archive" or, for a list of archived tasks, "unarchive"
+  onArchive?: () => void;
+  onUnarchive?: () => void;
+  statuses: Array<{ name: string; color?: string }>;
+  members: Array<{ id: string; name: string }>;
+  // Projects tasks can be moved to; leave out to hide the move control
+  projects?: Array<{ id: string; name: string }>;
+  // Labels of the one project in scope; labels are not offered across projects
+  labels?: ProjectLabel[];
+  busy?: boolean;
+}
+
+const priorityLabels: Record<Task['priority'], string> = {
+  low: 'დაბალი',
+  medium: 'საშუალო',
+  high: 'მაღალი',
+  critical: 'კრიტიკული'
+};
+
+/**
+ * Floating bar for acting on every selected task at once
+ */
+export function BulkActionBar({
+  selectedCount,
+  matchingCount,
+  onSelectAll,
+  onClear,
+  onUpdate,
+  onDelete,
+  onArchive,
+  onUnarchive,
+  statuses,
+  members,
+  projects,
+  labels = [],
+  busy = false
+}: BulkActionBarProps) {
+  // Escape drops the selection
+  useEffect(() => {
+    if (selectedCount === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !e.defaultPrevented) onClear();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedCount, onClear]);
+
+  if (selectedCount === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 z-40 w-[calc(100%-2rem)] max-w-5xl -translate-x-1/2">
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-card p-3 shadow-lg">
+        <Badge variant="secondary" className="gap-1">
+          <CheckSquare className="h-3 w-3" />
+          არჩეულია {selectedCount}
+        </Badge>
+        {onSelectAll && matchingCount !== undefined && matchingCount > selectedCount && (
+          <Button variant="link" size="sm" className="h-8 px-1" onClick={onSelectAll}>
+            ყველას არჩევა ({matchingCount})
+          </Button>
+        )}
+
+        <div className="mx-1 h-6 w-px bg-border" />
+
+        <Select value="" onValueChange={status => onUpdate({ status })} disabled={busy}>
+          <SelectTrigger className="h-8 w-36">
+            <SelectValue placeholder="სტატუსი" />
+          </SelectTrigger>
+          <SelectContent>
+            {statuses.map(status => (
+              <SelectItem key={status.name} value={status.name}>
+                <div className="flex items-center gap-2">
+                  {status.color && <div className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: status.color }} />}
+                  {status.name}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={priority => onUpdate({ priority: priority as Task['priority'] })} disabled={busy}>
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue placeholder="პრიორიტეტი" />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(priorityLabels) as Task['priority'][]).map(priority => (
+              <SelectItem key={priority} value={priority}>{priorityLabels[priority]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={assignee => onUpdate({ assignee_id: assignee === 'unassigned' ? null : assignee })}
+          disabled={busy}
+        >
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue placeholder="შემსრულებელი" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unassigned">მიუნიჭებელი</SelectItem>
+            {members.map(member => (
+              <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8" disabled={busy}>
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              ვადა
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              onSelect={date => date && onUpdate({ due_date: format(date, 'yyyy-MM-dd') })}
+              initialFocus
+            />
+            <div className="border-t p-2">
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => onUpdate({ due_date: null })}>
+                ვადის მოხსნა
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        {projects && projects.length > 0 && (
+          <Select value="" onValueChange={projectId => onUpdate({ project_id: projectId })} disabled={busy}>
+            <SelectTrigger className="h-8 w-40">
+              <SelectValue placeholder="პროექტში გადატანა" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {labels.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="h-8" disabled={busy}>
+                <Tags className="mr-2 h-4 w-4" />
+                ლეიბლები
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>დამატება</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {labels.map(label => (
+                    <DropdownMenuItem key={label.id} onClick={() => onUpdate({ add_label_ids: [label.id] })}>
+                      <div className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: label.color }} />
+                      {label.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>მოხსნა</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {labels.map(label => (
+                    <DropdownMenuItem key={label.id} onClick={() => onUpdate({ remove_label_ids: [label.id] })}>
+                      <div className="mr-2 h-2.5 w-2.5 rounded-full" style={{ backgroundColor: label.color }} />
+                      {label.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {onArchive && (
+          <Button variant="outline" size="sm" className="h-8" onClick={onArchive} disabled={busy}>
+            <Archive className="mr-2 h-4 w-4" />
+            დაარქივება
+          </Button>
+        )}
+
+        {onUnarchive && (
+          <Button variant="outline" size="sm" className="h-8" onClick={onUnarchive} disabled={busy}>
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+            არქივიდან დაბრუნება
+          </Button>
+        )}
+
+        {onDelete && (
+          <Button variant="outline" size="sm" className="h-8 text-destructive" onClick={onDelete} disabled={busy}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            წაშლა
+          </Button>
+        )}
+
+        <div className="ml-auto flex items-center gap-1">
+          {busy && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={onClear} title="არჩევის გაუქმება (Esc)">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
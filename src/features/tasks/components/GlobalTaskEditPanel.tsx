@@ -25,12 +25,16 @@ import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/shared/hooks/use-toast';
 import { Task } from '@/features/tasks/components/TaskCard';
+import { LabelService } from '@/services/labelService';
 import { TaskForm } from '@/features/tasks/components/TaskForm';
 import { SubtaskList } from '@/features/tasks/components/SubtaskList';
 import { TaskComments } from '@/features/tasks/components/TaskComments';
 import { ActivityFeed } from '@/shared/components/common/ActivityFeed';
 import { FileAttachments } from '@/shared/components/forms/FileAttachments';
 import { TimeTracker } from '@/features/tasks/components/TimeTracker';
+import { TaskHistoryTimeline } from '@/features/tasks/components/TaskHistoryTimeline';
+import { useProjectPermissions } from '@/features/project/hooks/useProjectPermissions';
+import { useTaskBulkActions } from '@/features/tasks/hooks/useTaskBulkActions';
 import { format } from 'date-fns';
 
 const statusColors = {
@@ -51,9 +55,11 @@ export function GlobalTaskEditPanel() {
   const { state, closeTaskEdit, setActiveTab, setMode } = useGlobalTaskEdit();
   const { user } = useAuth();
   const { toast } = useToast();
+  const bulkActions = useTaskBulkActions();
   const [task, setTask] = useState<Task | null>(null);
   const [loading, setLoading] = useState(false);
   const [teamMembers, setTeamMembers] = useState<Array<{ id: string; name: string }>>([]);
+  const { permissions } = useProjectPermissions(task?.project_id);
 
   useEffect(() => {
     if (state.isOpen && state.taskId) {
@@ -127,14 +133,20 @@ export function GlobalTaskEditPanel() {
     if (!task) return;
 
     try {
+      const { files, label_ids, ...fields } = updatedData;
+
       const { error } = await supabase
         .from('tasks')
-        .update(updatedData)
+        .update(fields)
         .eq('id', task.id);
 
       if (error) throw error;
 
-      setTask(prev => prev ? { ...prev, ...updatedData } : null);
+      if (label_ids) {
+        await LabelService.setTaskLabels(task.id, label_ids);
+      }
+
+      setTask(prev => prev ? { ...prev, ...fields } : null);
       setMode('view');
       
       toast({
@@ -184,30 +196,12 @@ export function GlobalTaskEditPanel() {
     }
   };
 
+  // Goes to the trash, with an undo button in the toast
   const handleDeleteTask = async () => {
     if (!task) return;
 
-    try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', task.id);
-
-      if (error) throw error;
-
-      toast({
-        title: "Success",
-        description: "Task deleted successfully"
-      });
-      
+    if (await bulkActions.deleteTasks([task.id])) {
       closeTaskEdit();
-    } catch (err: any) {
-      console.error('Error deleting task:', err);
-      toast({
-        title: "Error",
-        description: "Failed to delete task",
-        variant: "destructive"
-      });
     }
   };
 
@@ -402,11 +396,20 @@ export function GlobalTaskEditPanel() {
               <TabsContent value="time" className="mt-0">
                 <TimeTracker
                   taskId={task.id}
+                  projectId={task.project_id}
+                  taskTitle={task.title}
                   teamMembers={teamMembers}
                 />
               </TabsContent>
 
-              <TabsContent value="activity" className="mt-0">
+              <TabsContent value="activity" className="mt-0 space-y-4">
+                <TaskHistoryTimeline
+                  task={task}
+                  teamMembers={teamMembers}
+                  canEdit={permissions.edit_tasks}
+                  canViewBudget={permissions.view_budget}
+                  onReverted={fetchTask}
+                />
                 <ActivityFeed
                   projectId={task.project_id}
                   teamMembers={teamMembers}
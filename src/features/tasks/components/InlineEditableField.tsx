@@ -5,12 +5,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Button } from '@/shared/components/ui/button';
 import { Badge } from '@/shared/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/shared/components/ui/avatar';
+import { Checkbox } from '@/shared/components/ui/checkbox';
 import { Check, X, Edit2, Calendar, User, Star, Flag } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface InlineEditableFieldProps {
   value: any;
-  type: 'text' | 'textarea' | 'select' | 'date' | 'user' | 'status' | 'priority' | 'number';
+  type: 'text' | 'textarea' | 'select' | 'date' | 'user' | 'status' | 'priority' | 'number' | 'checkbox';
   label?: string;
   options?: Array<{ value: string; label: string; icon?: React.ReactNode; color?: string }>;
   teamMembers?: Array<{ id: string; name: string; email?: string }>;
@@ -388,6 +389,22 @@ export function InlineEditableField({
     }
   };
 
+  // Checkboxes have no separate edit mode: toggling saves right away
+  if (type === 'checkbox') {
+    return (
+      <div className={`flex items-center gap-2 ${className}`}>
+        <Checkbox
+          checked={value === true}
+          onCheckedChange={(checked) => handleSelectChange(checked === true)}
+          disabled={isSaving}
+        />
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+      </div>
+    );
+  }
+
   if (!isEditing) {
     return (
       <div 
@@ -0,0 +1,234 @@
+import React, { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Input } from '@/shared/components/ui/input';
+import { Badge } from '@/shared/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Calendar, Flag, User, Tag, Clock, AlertCircle, Loader2, CornerDownLeft } from 'lucide-react';
+import { supabase } from '@/core/config/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { useCreateTask } from '@/core/data/hooks/useTaskQueries';
+import { useProjectMembers } from '@/core/data/hooks/useMemberQueries';
+import { useProjectLabels } from '@/core/data/hooks/useLabelQueries';
+import { useProjectStatuses } from '@/core/data/hooks/useStatusQueries';
+import { useProject } from '@/core/data/hooks/useProjectQueries';
+import { LabelService } from '@/services/labelService';
+import { EstimateUnit, formatEstimate, hoursToEstimate } from '@/services/taskEstimateService';
+import { Task } from './TaskCard';
+import { parseQuickAdd } from '../utils/quickAdd';
+
+interface QuickAddTaskProps {
+  // Fixed project; when left out the user picks one of `projects`
+  projectId?: string;
+  projects?: Array<{ id: string; name: string }>;
+  // Status for the new task, e.g. the kanban column it was typed into
+  status?: string;
+  initialText?: string;
+  autoFocus?: boolean;
+  placeholder?: string;
+  className?: string;
+  onCreated?: (task: Task) => void;
+}
+
+const priorityLabels: Record<Task['priority'], string> = {
+  low: 'დაბალი',
+  medium: 'საშუალო',
+  high: 'მაღალი',
+  critical: 'კრიტიკული'
+};
+
+/**
+ * One-line task entry that reads the due date, priority, assignee, labels and estimate
+ * out of the text and previews them before the task is created
+ */
+export function QuickAddTask({
+  projectId,
+  projects = [],
+  status,
+  initialText = '',
+  autoFocus = false,
+  placeholder = 'სწრაფი დამატება: "ინვოისის გასწორება ხვალ 5pm !high @ნინო #billing ~2h"',
+  className = '',
+  onCreated
+}: QuickAddTaskProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [text, setText] = useState(initialText);
+  const [pickedProjectId, setPickedProjectId] = useState<string>('');
+  const targetProjectId = projectId || pickedProjectId || undefined;
+
+  const { data: members = [] } = useProjectMembers(targetProjectId);
+  const { data: labels = [] } = useProjectLabels(targetProjectId);
+  const { data: statuses = [] } = useProjectStatuses(targetProjectId);
+  const { data: project } = useProject(targetProjectId);
+  const createTask = useCreateTask();
+
+  const parsed = useMemo(() => parseQuickAdd(text, { members, labels }), [text, members, labels]);
+  // ~2h is in hours; points projects store it as points, or not at all without an hour value per point
+  const estimateUnit = (project?.estimate_unit ?? 'hours') as EstimateUnit;
+  const estimate = parsed.estimate === null || !project
+    ? null
+    : hoursToEstimate(parsed.estimate, estimateUnit, project.hours_per_point);
+  // Wait for the project's unit before saving an estimate
+  const canSubmit = !!user && !!targetProjectId && parsed.title.length > 0 && !createTask.isPending
+    && (parsed.estimate === null || !!project);
+
+  const handleSubmit = async () => {
+    if (!canSubmit || !user || !targetProjectId) return;
+
+    try {
+      const task = await createTask.mutateAsync({
+        title: parsed.title,
+        project_id: targetProjectId,
+        created_by: user.id,
+        status: status || statuses[0]?.name || 'To Do',
+        priority: parsed.priority ?? 'medium',
+        assignee_id: parsed.assignee?.id ?? null,
+        due_date: parsed.dueDate,
+        due_time: parsed.dueTime,
+        estimate,
+        kanban_position: 0
+      });
+
+      if (parsed.labels.length > 0) {
+        await LabelService.setTaskLabels(task.id, parsed.labels.map(label => label.id));
+      }
+
+      await supabase.rpc('log_project_activity', {
+        p_project_id: targetProjectId,
+        p_user_id: user.id,
+        p_activity_type: 'task_created',
+        p_description: `Created task "${task.title}"`,
+        p_entity_type: 'task',
+        p_entity_id: task.id
+      });
+
+      setText('');
+      toast({
+        title: "წარმატება",
+        description: `დავალება „${task.title}" შეიქმნა`
+      });
+      onCreated?.(task);
+    } catch (error: unknown) {
+      console.error('Error creating task:', error);
+      toast({
+        title: "შეცდომა",
+        description: "დავალების შექმნა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      // Keep the key from reaching surrounding forms and command lists
+      e.preventDefault();
+      e.stopPropagation();
+      handleSubmit();
+    } else if (e.key === 'Escape' && text) {
+      e.stopPropagation();
+      setText('');
+    }
+  };
+
+  const hasText = text.trim().length > 0;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex gap-2">
+        {!projectId && (
+          <Select value={pickedProjectId} onValueChange={setPickedProjectId}>
+            <SelectTrigger className="w-44 shrink-0">
+              <SelectValue placeholder="პროექტი" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="relative flex-1">
+          <Input
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            autoFocus={autoFocus}
+            className="pr-8"
+          />
+          {createTask.isPending ? (
+            <Loader2 className="absolute right-2.5 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+          ) : hasText && (
+            <CornerDownLeft className="absolute right-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          )}
+        </div>
+      </div>
+
+      {hasText && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className={`font-medium ${parsed.title ? '' : 'text-destructive'}`}>
+            {parsed.title || 'სათაური აკლია'}
+          </span>
+          {parsed.dueDate && (
+            <Badge variant="secondary" className="gap-1 font-normal">
+              <Calendar className="h-3 w-3" />
+              {format(parseISO(parsed.dueDate), 'MMM dd, yyyy')}
+              {parsed.dueTime && ` ${parsed.dueTime}`}
+            </Badge>
+          )}
+          {parsed.priority && (
+            <Badge variant="secondary" className="gap-1 font-normal">
+              <Flag className="h-3 w-3" />
+              {priorityLabels[parsed.priority]}
+            </Badge>
+          )}
+          {parsed.assignee && (
+            <Badge variant="secondary" className="gap-1 font-normal">
+              <User className="h-3 w-3" />
+              {parsed.assignee.name}
+            </Badge>
+          )}
+          {parsed.unknownAssignee && (
+            <Badge variant="outline" className="gap-1 font-normal text-orange-600">
+              <AlertCircle className="h-3 w-3" />
+              @{parsed.unknownAssignee} პროექტის წევრებში ვერ მოიძებნა
+            </Badge>
+          )}
+          {parsed.labels.map(label => (
+            <Badge
+              key={label.id}
+              variant="outline"
+              className="gap-1 font-normal"
+              style={{ borderColor: label.color, color: label.color }}
+            >
+              <Tag className="h-3 w-3" />
+              {label.name}
+            </Badge>
+          ))}
+          {parsed.unknownLabels.map(name => (
+            <Badge key={name} variant="outline" className="gap-1 font-normal text-orange-600">
+              <AlertCircle className="h-3 w-3" />
+              #{name} ვერ მოიძებნა
+            </Badge>
+          ))}
+          {estimate !== null && (
+            <Badge variant="secondary" className="gap-1 font-normal">
+              <Clock className="h-3 w-3" />
+              {formatEstimate(estimate, estimateUnit)}
+            </Badge>
+          )}
+          {parsed.estimate !== null && project && estimate === null && (
+            <Badge variant="outline" className="gap-1 font-normal text-orange-600">
+              <AlertCircle className="h-3 w-3" />
+              პროექტი ქულებით აფასებს, საათები ვერ გადაიყვანება
+            </Badge>
+          )}
+          {!targetProjectId && (
+            <span className="text-muted-foreground">აირჩიეთ პროექტი</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/shared/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/shared/components/ui/dropdown-menu';
+import { Bookmark, ChevronDown, Users, Lock, Trash2, Save, Link as LinkIcon, Plus } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { SavedViewService, SavedTaskView, SavedViewScope, SavedViewInput } from '@/services/savedViewService';
+
+interface SavedViewSwitcherProps {
+  scope: SavedViewScope;
+  /** Project the current state belongs to; views can only be shared when one is set */
+  projectId?: string | null;
+  getCurrentState: () => Pick<SavedViewInput, 'filters' | 'view_mode' | 'group_by'>;
+  onApply: (view: SavedTaskView) => void;
+}
+
+export function SavedViewSwitcher({ scope, projectId = null, getCurrentState, onApply }: SavedViewSwitcherProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [views, setViews] = useState<SavedTaskView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchViews();
+  }, [scope, projectId]);
+
+  const fetchViews = async () => {
+    setViews(await SavedViewService.getViews(scope, projectId));
+  };
+
+  const activeView = views.find(v => v.id === activeViewId) || null;
+  const myViews = views.filter(v => v.user_id === user?.id);
+  const sharedViews = views.filter(v => v.user_id !== user?.id);
+
+  const handleApply = (view: SavedTaskView) => {
+    setActiveViewId(view.id);
+    onApply(view);
+  };
+
+  const openSaveDialog = () => {
+    setName('');
+    setIsShared(false);
+    setSaveDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    if (!user || !name.trim()) return;
+
+    setSaving(true);
+    const result = await SavedViewService.createView(user.id, scope, {
+      ...getCurrentState(),
+      name,
+      project_id: projectId,
+      is_shared: isShared
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "წარმატება",
+      description: `ხედი „${name.trim()}“ შენახულია`
+    });
+    setSaveDialogOpen(false);
+    setActiveViewId(result.view!.id);
+    fetchViews();
+  };
+
+  const handleUpdateActive = async () => {
+    if (!activeView) return;
+
+    const result = await SavedViewService.updateView(activeView.id, getCurrentState());
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "შეინახა",
+      description: `ხედი „${activeView.name}“ განახლდა`
+    });
+    fetchViews();
+  };
+
+  const handleDelete = async (view: SavedTaskView) => {
+    if (!(await SavedViewService.deleteView(view.id))) {
+      toast({
+        title: "შეცდომა",
+        description: "ხედის წაშლა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (activeViewId === view.id) setActiveViewId(null);
+    fetchViews();
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "წარმატება",
+        description: "ბმული დაკოპირდა"
+      });
+    } catch (error) {
+      console.error('Error copying view link:', error);
+      toast({
+        title: "შეცდომა",
+        description: "ბმულის კოპირება ვერ მოხერხდა",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderViewItem = (view: SavedTaskView, canDelete: boolean) => (
+    <DropdownMenuItem
+      key={view.id}
+      onClick={() => handleApply(view)}
+      className="flex items-center justify-between gap-2"
+    >
+      <span className="flex items-center gap-2 min-w-0">
+        {view.is_shared ? (
+          <Users className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+        ) : (
+          <Lock className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+        )}
+        <span className={view.id === activeViewId ? 'font-semibold truncate' : 'truncate'}>{view.name}</span>
+      </span>
+      {canDelete && (
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-destructive"
+          onClick={(e) => {
+            e.stopPropagation();
+            handleDelete(view);
+          }}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 max-w-[220px]">
+            <Bookmark className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{activeView ? activeView.name : 'ხედები'}</span>
+            <ChevronDown className="h-4 w-4 opacity-50 flex-shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {views.length === 0 && (
+            <p className="text-sm text-muted-foreground px-2 py-1.5">შენახული ხედები არ არის</p>
+          )}
+
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuLabel className="text-xs text-muted-foreground">ჩემი ხედები</DropdownMenuLabel>
+              {myViews.map(view => renderViewItem(view, true))}
+            </>
+          )}
+
+          {sharedViews.length > 0 && (
+            <>
+              {myViews.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuLabel className="text-xs text-muted-foreground">გაზიარებული</DropdownMenuLabel>
+              {sharedViews.map(view => renderViewItem(view, false))}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            მიმდინარე ხედის შენახვა
+          </DropdownMenuItem>
+          {activeView && activeView.user_id === user?.id && (
+            <DropdownMenuItem onClick={handleUpdateActive}>
+              <Save className="h-4 w-4 mr-2" />
+              „{activeView.name}“-ის განახლება
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={handleCopyLink}>
+            <LinkIcon className="h-4 w-4 mr-2" />
+            ბმულის კოპირება
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={saveDialogOpen} onOpenChange={setSaveDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>ხედის შენახვა</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">სახელი</Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="მაგ. ჩემი ვადაგადაცილებული დავალებები"
+                maxLength={100}
+                autoFocus
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="saved-view-shared">პროექტის წევრებთან გაზიარება</Label>
+                <p className="text-xs text-muted-foreground">
+                  {projectId
+                    ? 'ხედს დაინახავს პროექტის ყველა წევრი'
+                    : 'გასაზიარებლად აირჩიეთ კონკრეტული პროექტი'}
+                </p>
+              </div>
+              <Switch
+                id="saved-view-shared"
+                checked={isShared}
+                onCheckedChange={setIsShared}
+                disabled={!projectId}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(false)}>
+              გაუქმება
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !name.trim()}>
+              {saving ? 'ინახება...' : 'შენახვა'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
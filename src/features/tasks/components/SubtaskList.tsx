@@ -6,8 +6,10 @@ import { Badge } from '@/shared/components/ui/badge';
 import { Plus, ChevronDown, ChevronRight, GripVertical } from 'lucide-react';
 import { TaskCard, Task } from '@/features/tasks/components/TaskCard';
 import { supabase } from '@/core/config/client';
+import { TaskRepository } from '@/core/data/repositories/taskRepository';
 import { useToast } from '@/shared/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { TrashService } from '@/services/trashService';
 import { AddSubtaskDialog } from './AddSubtaskDialog';
 
 interface SubtaskListProps {
@@ -44,7 +46,7 @@ export function SubtaskList({ parentTask, teamMembers, onTaskEdit, onTasksChange
         .order('subtask_order', { ascending: true });
 
       if (error) throw error;
-      setSubtasks((data || []) as Task[]);
+      setSubtasks(await TaskRepository.hydrate((data || []) as Task[]));
     } catch (err: any) {
       console.error('Error fetching subtasks:', err);
       toast({
@@ -108,43 +110,24 @@ export function SubtaskList({ parentTask, teamMembers, onTaskEdit, onTasksChange
   };
 
   const handleDeleteSubtask = async (taskId: string) => {
-    try {
-      const task = subtasks.find(t => t.id === taskId);
-      
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
-
-      if (error) throw error;
-
-      // Log activity
-      if (task) {
-        await supabase.rpc('log_project_activity', {
-          p_project_id: parentTask.project_id,
-          p_user_id: user?.id,
-          p_activity_type: 'subtask_deleted',
-          p_description: `Deleted subtask "${task.title}"`,
-          p_entity_type: 'task',
-          p_entity_id: taskId
-        });
-      }
+    const result = await TrashService.moveToTrash('task', [taskId]);
 
-      fetchSubtasks();
-      onTasksChange();
-
-      toast({
-        title: "Success",
-        description: "Subtask deleted",
-      });
-    } catch (err: any) {
-      console.error('Error deleting subtask:', err);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to delete subtask",
+        description: result.error,
         variant: "destructive"
       });
+      return;
     }
+
+    fetchSubtasks();
+    onTasksChange();
+
+    toast({
+      title: "Success",
+      description: "Subtask moved to trash",
+    });
   };
 
   if (subtasks.length === 0) {
@@ -2,15 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader } from '@/shared/components/ui/card';
 import { Badge } from '@/shared/components/ui/badge';
 import { Button } from '@/shared/components/ui/button';
+import { Checkbox } from '@/shared/components/ui/checkbox';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/shared/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/shared/components/ui/avatar';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/shared/components/ui/alert-dialog';
-import { MoreVertical, Edit, Trash2, MessageSquare, Calendar, ChevronDown, ChevronRight, Users, Plus, DollarSign } from 'lucide-react';
+import { MoreVertical, Edit, Trash2, MessageSquare, Calendar, ChevronDown, ChevronRight, Users, Plus, DollarSign, Lock, Link2, Repeat, Clock, Archive, ArchiveRestore } from 'lucide-react';
 import { format } from 'date-fns';
 import { SubtaskList } from './SubtaskList';
 import { TaskComments } from './TaskComments';
 import { useGlobalTaskEdit } from '@/contexts/GlobalTaskEditContext';
 import { supabase } from '@/core/config/client';
+import { TaskEstimate, formatEstimate, formatLoggedHours, isOverrun } from '@/services/taskEstimateService';
+import { ProjectLabel } from '@/services/labelService';
+import type { CustomFieldValue } from '@/services/customFieldService';
+import { ProjectPermissions, ALL_PERMISSIONS } from '@/services/projectPermissionService';
+import { TaskLabelChips } from './TaskLabels';
+import { TaskTimerButton } from '@/features/time-tracking/components/TaskTimerButton';
+import { parseRecurrence, describeRecurrence } from '../utils/recurrence';
+import type { Json } from '@/core/config/types';
 
 // Add props for task viewer integration
 interface TaskCardClickHandler {
@@ -27,6 +36,8 @@ export interface Task {
   assignee_id: string | null;
   created_by: string;
   due_date: string | null;
+  due_time?: string | null;
+  start_date?: string | null;
   created_at: string;
   updated_at: string;
   project_id: string;
@@ -36,12 +47,25 @@ export interface Task {
   is_subtask?: boolean;
   subtask_order?: number | null;
   budget?: number | null;
+  estimate?: number | null;
+  recurrence?: Json | null;
+  recurrence_index?: number;
+  recurrence_previous_id?: string | null;
+  archived_at?: string | null;
+  completed_at?: string | null;
+  labels?: ProjectLabel[];
+  custom_fields?: Record<string, CustomFieldValue>;
+  // Filled in for list rows by TaskRepository.hydrate
+  open_blocker_count?: number;
+  blocks_count?: number;
+  estimate_summary?: TaskEstimate | null;
 }
 
 interface TaskCardProps extends TaskCardClickHandler {
   task: Task;
   onEdit: (task: Task) => void;
   onDelete: (taskId: string) => void;
+  onArchive?: (taskId: string, archived: boolean) => void;
   onStatusChange: (taskId: string, status: Task['status']) => void;
   assigneeName?: string;
   creatorName?: string;
@@ -49,6 +73,10 @@ interface TaskCardProps extends TaskCardClickHandler {
   projectStatuses?: Array<{ id: string; name: string; color: string }>;
   onTasksChange?: () => void;
   showSubtasks?: boolean;
+  permissions?: ProjectPermissions;
+  // Shows a selection checkbox; `range` is set for shift-clicks
+  selected?: boolean;
+  onSelect?: (taskId: string, range: boolean) => void;
 }
 
 const statusColors = {
@@ -76,6 +104,7 @@ export function TaskCard({
   task, 
   onEdit, 
   onDelete, 
+  onArchive,
   onStatusChange, 
   assigneeName, 
   creatorName, 
@@ -83,7 +112,10 @@ export function TaskCard({
   projectStatuses = [],
   onTasksChange,
   showSubtasks = true,
-  onTaskClick
+  onTaskClick,
+  permissions = ALL_PERMISSIONS,
+  selected = false,
+  onSelect
 }: TaskCardProps) {
   const { openTaskEdit } = useGlobalTaskEdit();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -118,14 +150,21 @@ export function TaskCard({
   };
 
   const statusDisplay = getStatusDisplay();
+  const recurrence = parseRecurrence(task.recurrence);
   const [commentCount, setCommentCount] = useState(0);
   const [showComments, setShowComments] = useState(false);
 
+  const openBlockerCount = task.open_blocker_count ?? 0;
+  const blocksCount = task.blocks_count ?? 0;
+  const estimate = task.estimate_summary ?? null;
+
   useEffect(() => {
     checkForSubtasks();
     checkCommentCount();
   }, [task.id]);
 
+  const estimateOverrun = isOverrun(estimate);
+
   const checkForSubtasks = async () => {
     try {
       const { count, error } = await supabase
@@ -164,46 +203,89 @@ export function TaskCard({
   return (
     <div className="space-y-3">
       <Card 
-        className="w-full hover:shadow-md transition-shadow cursor-pointer" 
-        onClick={() => onTaskClick?.(task.id)}
+        className={`w-full hover:shadow-md transition-shadow cursor-pointer ${selected ? 'ring-2 ring-primary' : ''}`}
+        onClick={(e) => {
+          // Shift/Ctrl-click selects instead of opening
+          if (onSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+            onSelect(task.id, e.shiftKey);
+          } else {
+            onTaskClick?.(task.id);
+          }
+        }}
       >
         <CardHeader className="pb-3">
-          <div className="flex items-start justify-between">
+          <div className="flex items-start justify-between gap-2">
+            {onSelect && (
+              <Checkbox
+                checked={selected}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onSelect(task.id, e.shiftKey);
+                }}
+                className="mt-0.5"
+                aria-label="დავალების არჩევა"
+              />
+            )}
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2">
                 <h3 className="font-semibold text-sm truncate">{task.title}</h3>
+                {recurrence && (
+                  <span title={describeRecurrence(recurrence)} className="flex-shrink-0">
+                    <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+                  </span>
+                )}
                 {task.is_subtask && (
                   <Badge variant="secondary" className="text-xs px-1.5 py-0.5">
                     ქვედავალება
                   </Badge>
                 )}
+                {task.archived_at && (
+                  <Badge variant="outline" className="text-xs px-1.5 py-0.5">
+                    არქივში
+                  </Badge>
+                )}
               </div>
               {task.description && (
                 <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
                   {task.description}
                 </p>
               )}
+              <TaskLabelChips labels={task.labels} className="mt-2" />
             </div>
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
-                  <MoreVertical className="h-4 w-4" />
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuItem onClick={() => onEdit(task)}>
-                  <Edit className="h-4 w-4 mr-2" />
-                  დავალების რედაქტირება
-                </DropdownMenuItem>
-                <DropdownMenuItem 
-                  onClick={() => setShowDeleteDialog(true)}
-                  className="text-destructive"
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  დავალების წაშლა
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+            {(permissions.edit_tasks || permissions.delete_tasks) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0">
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {permissions.edit_tasks && (
+                    <DropdownMenuItem onClick={() => onEdit(task)}>
+                      <Edit className="h-4 w-4 mr-2" />
+                      დავალების რედაქტირება
+                    </DropdownMenuItem>
+                  )}
+                  {permissions.edit_tasks && onArchive && (
+                    <DropdownMenuItem onClick={() => onArchive(task.id, !task.archived_at)}>
+                      {task.archived_at
+                        ? <ArchiveRestore className="h-4 w-4 mr-2" />
+                        : <Archive className="h-4 w-4 mr-2" />}
+                      {task.archived_at ? 'არქივიდან დაბრუნება' : 'დაარქივება'}
+                    </DropdownMenuItem>
+                  )}
+                  {permissions.delete_tasks && (
+                    <DropdownMenuItem 
+                      onClick={() => setShowDeleteDialog(true)}
+                      className="text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      დავალების წაშლა
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </CardHeader>
         
@@ -219,6 +301,18 @@ export function TaskCard({
             <Badge className={priorityColors[task.priority]} variant="secondary">
               {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
             </Badge>
+            {openBlockerCount > 0 && (
+              <Badge variant="secondary" className="bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400">
+                <Lock className="h-3 w-3 mr-1" />
+                დაბლოკილია ({openBlockerCount})
+              </Badge>
+            )}
+            {blocksCount > 0 && (
+              <Badge variant="outline">
+                <Link2 className="h-3 w-3 mr-1" />
+                ბლოკავს {blocksCount}
+              </Badge>
+            )}
           </div>
 
           <div className="flex items-center gap-3 flex-wrap">
@@ -226,15 +320,29 @@ export function TaskCard({
               <div className="flex items-center text-xs text-muted-foreground">
                 <Calendar className="h-3 w-3 mr-1" />
                 ვადა {format(new Date(task.due_date), 'MMM dd, yyyy')}
+                {task.due_time && ` ${task.due_time.slice(0, 5)}`}
               </div>
             )}
 
-            <div className="flex items-center text-xs">
-              <DollarSign className={`h-3 w-3 mr-1 ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`} />
-              <span className={`font-mono font-medium ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
-                ₾{task.budget ? task.budget.toFixed(2) : '0.00'}
-              </span>
-            </div>
+            {estimate?.estimate != null && (
+              <div
+                className={`flex items-center text-xs ${estimateOverrun ? 'text-red-600 font-medium' : 'text-muted-foreground'}`}
+                title={estimateOverrun ? 'დახარჯული დრო აღემატება შეფასებას' : 'დახარჯული დრო / შეფასება'}
+              >
+                <Clock className="h-3 w-3 mr-1" />
+                {estimate.loggedSeconds > 0 && `${formatLoggedHours(estimate.loggedSeconds)} / `}
+                {formatEstimate(estimate.estimate, estimate.unit)}
+              </div>
+            )}
+
+            {permissions.view_budget && (
+              <div className="flex items-center text-xs">
+                <DollarSign className={`h-3 w-3 mr-1 ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`} />
+                <span className={`font-mono font-medium ${task.budget && task.budget > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
+                  ₾{task.budget ? task.budget.toFixed(2) : '0.00'}
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="flex items-center justify-between">
@@ -257,6 +365,9 @@ export function TaskCard({
             </div>
             
             <div className="flex items-center space-x-1">
+              {!task.archived_at && (
+                <TaskTimerButton taskId={task.id} projectId={task.project_id} taskTitle={task.title} />
+              )}
               <Button 
                 variant="ghost" 
                 size="sm" 
@@ -268,18 +379,21 @@ export function TaskCard({
                   <span className="ml-1 text-xs">{commentCount}</span>
                 )}
               </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-7 px-2"
-                onClick={() => openTaskEdit(task.id, 'edit')}
-              >
-                <Edit className="h-3 w-3" />
-              </Button>
+              {permissions.edit_tasks && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => openTaskEdit(task.id, 'edit')}
+                >
+                  <Edit className="h-3 w-3" />
+                </Button>
+              )}
               <select
                 value={task.status}
                 onChange={(e) => onStatusChange(task.id, e.target.value as Task['status'])}
                 className="text-xs border rounded px-2 py-1 bg-background"
+                disabled={!permissions.edit_tasks}
               >
                 <option value="todo">საკეთებელი</option>
                 <option value="in-progress">მიმდინარეობაში</option>
@@ -314,7 +428,7 @@ export function TaskCard({
             <AlertDialogDescription>
               Are you sure you want to delete "{task.title}"? 
               {hasSubtasks && ` This will also delete ${subtaskCount} subtask${subtaskCount > 1 ? 's' : ''}.`} 
-              This action cannot be undone.
+              It moves to the trash, where it can be restored.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { Button } from '@/shared/components/ui/button';
 import { Badge } from '@/shared/components/ui/badge';
@@ -6,6 +7,8 @@ import { MessageSquare, Plus, Filter } from 'lucide-react';
 import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/shared/hooks/use-toast';
+import { queryKeys } from '@/core/data/queryKeys';
+import { useTaskComments, useAddComment } from '@/core/data/hooks/useCommentQueries';
 import { CommentForm } from './CommentForm';
 import { CommentThread } from './CommentThread';
 import { Task } from './TaskCard';
@@ -34,102 +37,60 @@ interface TaskCommentsProps {
   onClose: () => void;
 }
 
+// Nest replies under the comment they answer
+const buildCommentTree = (flatComments: any[]): Comment[] => {
+  const commentMap = new Map();
+  const rootComments: Comment[] = [];
+
+  // Create a map for quick lookup
+  flatComments.forEach(comment => {
+    commentMap.set(comment.id, { ...comment, replies: [] });
+  });
+
+  // Build the tree structure
+  flatComments.forEach(comment => {
+    const commentWithReplies = commentMap.get(comment.id);
+    
+    if (comment.reply_to) {
+      const parent = commentMap.get(comment.reply_to);
+      if (parent) {
+        parent.replies.push(commentWithReplies);
+      }
+    } else {
+      rootComments.push(commentWithReplies);
+    }
+  });
+
+  return rootComments;
+};
+
 export function TaskComments({ task, teamMembers, isOpen, onClose }: TaskCommentsProps) {
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [loading, setLoading] = useState(false);
   const [showCommentForm, setShowCommentForm] = useState(false);
   // We're no longer setting replyingTo here as it's handled at the comment item level
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
   const { user } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: commentRows, isLoading: loading, error: commentsError } = useTaskComments(task.id, isOpen);
+  const addComment = useAddComment();
+  const comments = useMemo(() => buildCommentTree(commentRows || []), [commentRows]);
 
   useEffect(() => {
-    let cleanup: (() => void) | undefined;
-    
-    if (isOpen) {
-      fetchComments();
-      cleanup = setupRealtimeSubscription();
-    }
-
-    return () => {
-      if (cleanup) {
-        cleanup();
-      }
-    };
+    if (!isOpen) return;
+    return setupRealtimeSubscription();
   }, [isOpen, task.id]);
 
-  const fetchComments = async () => {
-    setLoading(true);
-    try {
-      // First get comments
-      const { data: commentsData, error: commentsError } = await supabase
-        .from('task_comments')
-        .select('*')
-        .eq('task_id', task.id)
-        .order('created_at', { ascending: false });
-
-      if (commentsError) throw commentsError;
-
-      // Get unique user IDs from comments
-      const userIds = [...new Set(commentsData?.map(c => c.user_id) || [])];
-      
-      // Fetch user profiles
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, display_name, full_name')
-        .in('user_id', userIds);
-
-      if (profilesError) throw profilesError;
-
-      // Process comments and add user names
-      const processedComments = commentsData?.map(comment => {
-        const profile = profilesData?.find(p => p.user_id === comment.user_id);
-        return {
-          ...comment,
-          user_name: profile?.display_name || profile?.full_name || 'Unknown User'
-        };
-      }) || [];
-
-      // Build threaded structure
-      const threadedComments = buildCommentTree(processedComments);
-      setComments(threadedComments);
-    } catch (err: any) {
-      console.error('Error fetching comments:', err);
-      toast({
-        title: "Error",
-        description: "Failed to load comments",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const buildCommentTree = (flatComments: any[]): Comment[] => {
-    const commentMap = new Map();
-    const rootComments: Comment[] = [];
-
-    // Create a map for quick lookup
-    flatComments.forEach(comment => {
-      commentMap.set(comment.id, { ...comment, replies: [] });
-    });
-
-    // Build the tree structure
-    flatComments.forEach(comment => {
-      const commentWithReplies = commentMap.get(comment.id);
-      
-      if (comment.reply_to) {
-        const parent = commentMap.get(comment.reply_to);
-        if (parent) {
-          parent.replies.push(commentWithReplies);
-        }
-      } else {
-        rootComments.push(commentWithReplies);
-      }
+  useEffect(() => {
+    if (!commentsError) return;
+    console.error('Error fetching comments:', commentsError);
+    toast({
+      title: "Error",
+      description: "Failed to load comments",
+      variant: "destructive"
     });
+  }, [commentsError]);
 
-    return rootComments;
-  };
+  const refreshComments = () => queryClient.invalidateQueries({ queryKey: queryKeys.comments.byTask(task.id) });
 
   const setupRealtimeSubscription = () => {
     const channel = supabase
@@ -144,7 +105,7 @@ export function TaskComments({ task, teamMembers, isOpen, onClose }: TaskComment
         },
         (payload) => {
           console.log('Comment change received:', payload);
-          fetchComments(); // Refresh comments on any change
+          refreshComments(); // Refresh comments on any change
         }
       )
       .subscribe();
@@ -162,19 +123,15 @@ export function TaskComments({ task, teamMembers, isOpen, onClose }: TaskComment
     reply_to?: string | null;
   }) => {
     try {
-      const { error } = await supabase
-        .from('task_comments')
-        .insert({
-          task_id: task.id,
-          user_id: user?.id,
-          comment: commentData.comment,
-          content_type: commentData.content_type,
-          mentions: commentData.mentions,
-          attachments: commentData.attachments,
-          reply_to: commentData.reply_to || null
-        });
-
-      if (error) throw error;
+      await addComment.mutateAsync({
+        task_id: task.id,
+        user_id: user?.id,
+        comment: commentData.comment,
+        content_type: commentData.content_type,
+        mentions: commentData.mentions,
+        attachments: commentData.attachments,
+        reply_to: commentData.reply_to || null
+      });
 
       toast({
         title: "Success",
@@ -182,8 +139,6 @@ export function TaskComments({ task, teamMembers, isOpen, onClose }: TaskComment
       });
 
       setShowCommentForm(false);
-      // Optimistically refresh comments immediately
-      fetchComments();
     } catch (err: any) {
       console.error('Error adding comment:', err);
       toast({
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { AlertTriangle } from 'lucide-react';
+import type { Json } from '@/core/config/types';
+import type { TaskFieldConflict } from '../hooks/useTaskAutoSave';
+import type { EstimateUnit } from '@/services/taskEstimateService';
+import { getTaskFieldLabel, formatTaskFieldValue } from '../utils/taskHistory';
+
+interface TaskConflictDialogProps {
+  conflict: TaskFieldConflict | null;
+  teamMembers: Array<{ id: string; name: string }>;
+  estimateUnit?: EstimateUnit;
+  onResolve: (value: unknown, keepTheirs?: boolean) => void;
+}
+
+// Free-text fields can keep both versions; single-line ones are joined on one line
+const MERGEABLE_FIELDS: Record<string, string> = {
+  title: ' / ',
+  description: '\n\n',
+  notes: '\n\n'
+};
+
+export function TaskConflictDialog({ conflict, teamMembers, estimateUnit = 'hours', onResolve }: TaskConflictDialogProps) {
+  if (!conflict) return null;
+
+  const { field, mine, theirs } = conflict;
+  const separator = MERGEABLE_FIELDS[field];
+  const canMerge = separator !== undefined && typeof mine === 'string' && typeof theirs === 'string';
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onResolve(theirs, true)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            ცვლილებების კონფლიქტი
+          </DialogTitle>
+          <DialogDescription>
+            ველი „{getTaskFieldLabel(field)}" სხვამ შეცვალა მას შემდეგ, რაც რედაქტირება დაიწყეთ. აირჩიეთ, რომელი მნიშვნელობა დარჩეს.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="rounded-md border p-3">
+            <div className="text-xs font-medium text-muted-foreground mb-1">თქვენი ვერსია</div>
+            <div className="whitespace-pre-wrap break-words">{formatTaskFieldValue(field, mine as Json, teamMembers, estimateUnit)}</div>
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="text-xs font-medium text-muted-foreground mb-1">მათი ვერსია</div>
+            <div className="whitespace-pre-wrap break-words">{formatTaskFieldValue(field, theirs as Json, teamMembers, estimateUnit)}</div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onResolve(theirs, true)}>
+            მათი შენარჩუნება
+          </Button>
+          {canMerge && (
+            <Button variant="outline" onClick={() => onResolve(`${theirs}${separator}${mine}`)}>
+              ორივეს შენარჩუნება
+            </Button>
+          )}
+          <Button onClick={() => onResolve(mine)}>
+            ჩემის შენარჩუნება
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
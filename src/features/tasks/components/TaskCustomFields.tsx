@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Separator } from '@/shared/components/ui/separator';
+import { Type, Hash, Calendar, ListChecks, User, CheckSquare } from 'lucide-react';
+import { cn } from '@/shared/utils/utils';
+import { InlineEditableField } from './InlineEditableField';
+import { CustomFieldService, ProjectCustomField, CustomFieldValue, CustomFieldType } from '@/services/customFieldService';
+import { formatCustomFieldValue } from '../utils/customFields';
+
+const FIELD_ICONS: Record<CustomFieldType, React.ComponentType<{ className?: string }>> = {
+  text: Type,
+  number: Hash,
+  date: Calendar,
+  select: ListChecks,
+  user: User,
+  checkbox: CheckSquare,
+};
+
+interface CustomFieldColumnsProps {
+  fields: ProjectCustomField[];
+  values?: Record<string, CustomFieldValue>;
+  teamMembers?: Array<{ id: string; name: string }>;
+  className?: string;
+}
+
+/**
+ * Compact name/value columns for the fields a project shows in list view
+ */
+export function CustomFieldColumns({ fields, values = {}, teamMembers = [], className }: CustomFieldColumnsProps) {
+  if (fields.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-x-4 gap-y-1 text-xs", className)}>
+      {fields.map(field => (
+        <div key={field.id} className="flex items-center gap-1 min-w-0">
+          <span className="text-muted-foreground">{field.name}:</span>
+          <span className="font-medium truncate max-w-[160px]">
+            {formatCustomFieldValue(field, values[field.id], teamMembers)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface TaskCustomFieldsProps {
+  taskId: string;
+  projectId: string;
+  teamMembers: Array<{ id: string; name: string; email?: string }>;
+  onTaskUpdate?: () => void;
+}
+
+/**
+ * Inline-editable values of the project's custom fields on a single task
+ */
+export function TaskCustomFields({ taskId, projectId, teamMembers, onTaskUpdate }: TaskCustomFieldsProps) {
+  const [fields, setFields] = useState<ProjectCustomField[]>([]);
+  const [values, setValues] = useState<Record<string, CustomFieldValue>>({});
+  const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
+
+  useEffect(() => {
+    CustomFieldService.getProjectFields(projectId).then(setFields);
+  }, [projectId]);
+
+  useEffect(() => {
+    CustomFieldService.getValuesForTasks([taskId]).then(result => setValues(result[taskId] || {}));
+  }, [taskId]);
+
+  const saveValue = async (field: ProjectCustomField, raw: unknown) => {
+    let value: CustomFieldValue = raw as CustomFieldValue;
+    if (field.field_type === 'number') {
+      value = raw === null || raw === '' ? null : Number(raw);
+      if (value !== null && isNaN(value)) throw new Error('შეიყვანეთ რიცხვი');
+    }
+
+    const result = await CustomFieldService.setValue(taskId, field.id, value);
+    if (!result.success) throw new Error(result.error);
+
+    setValues(prev => ({ ...prev, [field.id]: value }));
+    onTaskUpdate?.();
+  };
+
+  if (fields.length === 0) return null;
+
+  return (
+    <>
+      {fields.map(field => {
+        const Icon = FIELD_ICONS[field.field_type];
+        const value = values[field.id] ?? null;
+
+        return (
+          <React.Fragment key={field.id}>
+            <Separator />
+            <div className="flex items-center justify-between py-2 gap-4">
+              <div className="flex items-center gap-3 text-muted-foreground min-w-0">
+                <Icon className="h-4 w-4 flex-shrink-0" />
+                <span className="font-medium truncate">{field.name}</span>
+              </div>
+              <div className="flex-1 flex justify-end">
+                <InlineEditableField
+                  type={field.field_type}
+                  value={field.field_type === 'user' ? (value || 'unassigned') : value}
+                  options={field.options.map(option => ({ value: option, label: option }))}
+                  teamMembers={teamMembers}
+                  isEditing={editingFieldId === field.id}
+                  onChange={(newValue) => setValues(prev => ({ ...prev, [field.id]: newValue }))}
+                  onSave={(newValue) => saveValue(field, newValue)}
+                  onCancel={() => setEditingFieldId(null)}
+                  onEdit={() => setEditingFieldId(field.id)}
+                  placeholder={field.name}
+                  className="max-w-xs"
+                  instantSave={field.field_type !== 'text' && field.field_type !== 'number'}
+                />
+              </div>
+            </div>
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Link2, Lock, ArrowRight, X, CheckCircle2 } from 'lucide-react';
+import { supabase } from '@/core/config/client';
+import { useToast } from '@/shared/hooks/use-toast';
+import { TaskDependencyService, TaskDependencies as TaskDependencyLists } from '@/services/taskDependencyService';
+import { isDoneStatus } from '@/features/kanban/utils/statusMapping';
+import { Task } from './TaskCard';
+
+interface TaskDependenciesProps {
+  task: Task;
+  onDependenciesChange?: () => void;
+}
+
+export function TaskDependencies({ task, onDependenciesChange }: TaskDependenciesProps) {
+  const { toast } = useToast();
+  const [dependencies, setDependencies] = useState<TaskDependencyLists>({ blockedBy: [], blocks: [] });
+  const [projectTasks, setProjectTasks] = useState<Array<{ id: string; title: string; status: string }>>([]);
+  const [selectedTaskId, setSelectedTaskId] = useState<string>('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchDependencies();
+    fetchProjectTasks();
+  }, [task.id]);
+
+  const fetchDependencies = async () => {
+    const result = await TaskDependencyService.getTaskDependencies(task.id);
+    setDependencies(result);
+  };
+
+  const fetchProjectTasks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, status')
+        .eq('project_id', task.project_id)
+        .neq('id', task.id)
+        .order('title');
+
+      if (error) throw error;
+      setProjectTasks(data || []);
+    } catch (err) {
+      console.error('Error fetching project tasks for dependencies:', err);
+    }
+  };
+
+  const handleAddDependency = async () => {
+    if (!selectedTaskId) return;
+
+    setSaving(true);
+    const result = await TaskDependencyService.addDependency(task.id, selectedTaskId);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSelectedTaskId('');
+    await fetchDependencies();
+    onDependenciesChange?.();
+  };
+
+  const handleRemoveDependency = async (dependencyId: string) => {
+    const removed = await TaskDependencyService.removeDependency(dependencyId);
+    if (!removed) {
+      toast({
+        title: "შეცდომა",
+        description: "დამოკიდებულების წაშლა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    await fetchDependencies();
+    onDependenciesChange?.();
+  };
+
+  // Tasks already linked either way can't be picked again
+  const linkedIds = new Set([
+    ...dependencies.blockedBy.map(t => t.id),
+    ...dependencies.blocks.map(t => t.id)
+  ]);
+  const availableTasks = projectTasks.filter(t => !linkedIds.has(t.id));
+
+  return (
+    <div className="space-y-4">
+      {/* Blocked by */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+          <Lock className="h-4 w-4" />
+          <span>დაბლოკილია</span>
+        </div>
+        {dependencies.blockedBy.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">ბლოკერები არ არის</p>
+        ) : (
+          <div className="space-y-1">
+            {dependencies.blockedBy.map((blocker) => (
+              <div key={blocker.dependencyId} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {isDoneStatus(blocker.status) ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600 flex-shrink-0" />
+                  ) : (
+                    <Lock className="h-4 w-4 text-orange-600 flex-shrink-0" />
+                  )}
+                  <span className="text-sm truncate">{blocker.title}</span>
+                  <Badge variant="secondary" className="text-xs">{blocker.status}</Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleRemoveDependency(blocker.dependencyId)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Select value={selectedTaskId} onValueChange={setSelectedTaskId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="აირჩიეთ დამბლოკავი დავალება" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTasks.map((candidate) => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAddDependency}
+            disabled={!selectedTaskId || saving}
+          >
+            <Link2 className="h-4 w-4 mr-1" />
+            დამატება
+          </Button>
+        </div>
+      </div>
+
+      {/* Blocks */}
+      {dependencies.blocks.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+            <ArrowRight className="h-4 w-4" />
+            <span>ბლოკავს</span>
+          </div>
+          <div className="space-y-1">
+            {dependencies.blocks.map((blocked) => (
+              <div key={blocked.dependencyId} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm truncate">{blocked.title}</span>
+                  <Badge variant="secondary" className="text-xs">{blocked.status}</Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleRemoveDependency(blocked.dependencyId)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
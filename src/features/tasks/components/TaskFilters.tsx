@@ -3,7 +3,7 @@ import { Input } from '@/shared/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { Button } from '@/shared/components/ui/button';
 import { Badge } from '@/shared/components/ui/badge';
-import { Search, X, Filter } from 'lucide-react';
+import { Search, X, Filter, Tags, Archive } from 'lucide-react';
 import { createStatusMapping } from '@/features/kanban/utils/statusMapping';
 
 export interface TaskFilters {
@@ -13,6 +13,9 @@ export interface TaskFilters {
   assignee: string;
   sortBy: string;
   sortOrder: 'asc' | 'desc';
+  tag?: string;
+  // 'hide' (default), 'only' or 'all'
+  archived?: string;
 }
 
 interface TaskFiltersProps {
@@ -24,6 +27,7 @@ interface TaskFiltersProps {
     [status: string]: number; // Dynamic status counts
   };
   kanbanColumns?: Array<{ id: string; name: string; color: string }>;
+  availableTags?: string[];
 }
 
 export function TaskFiltersComponent({ 
@@ -31,7 +35,8 @@ export function TaskFiltersComponent({
   onFiltersChange, 
   teamMembers = [],
   taskCounts,
-  kanbanColumns = []
+  kanbanColumns = [],
+  availableTags = []
 }: TaskFiltersProps) {
   const updateFilter = (key: keyof TaskFilters, value: string) => {
     onFiltersChange({ ...filters, [key]: value });
@@ -45,10 +50,12 @@ export function TaskFiltersComponent({
       assignee: 'all',
       sortBy: 'created_at',
       sortOrder: 'desc',
+      tag: 'all',
+      archived: 'hide',
     });
   };
 
-  const hasActiveFilters = filters.search || (filters.status && filters.status !== 'all') || (filters.priority && filters.priority !== 'all') || (filters.assignee && filters.assignee !== 'all');
+  const hasActiveFilters = filters.search || (filters.status && filters.status !== 'all') || (filters.priority && filters.priority !== 'all') || (filters.assignee && filters.assignee !== 'all') || (filters.tag && filters.tag !== 'all') || (filters.archived && filters.archived !== 'hide');
 
   return (
     <div className="space-y-4">
@@ -72,7 +79,7 @@ export function TaskFiltersComponent({
       </div>
 
       {/* Filter Controls */}
-      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
         <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
           <SelectTrigger>
             <SelectValue placeholder="All Status" />
@@ -131,6 +138,34 @@ export function TaskFiltersComponent({
           </SelectContent>
         </Select>
 
+        <Select value={filters.tag || 'all'} onValueChange={(value) => updateFilter('tag', value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="All Labels" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Labels</SelectItem>
+            {availableTags.map((tag) => (
+              <SelectItem key={tag} value={tag}>
+                <div className="flex items-center gap-2">
+                  <Tags className="h-3 w-3" />
+                  {tag}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={filters.archived || 'hide'} onValueChange={(value) => updateFilter('archived', value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Archived" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="hide">Hide Archived</SelectItem>
+            <SelectItem value="only">Archived Only</SelectItem>
+            <SelectItem value="all">Include Archived</SelectItem>
+          </SelectContent>
+        </Select>
+
         <Select value={filters.sortBy} onValueChange={(value) => updateFilter('sortBy', value)}>
           <SelectTrigger>
             <SelectValue placeholder="Sort By" />
@@ -208,6 +243,29 @@ export function TaskFiltersComponent({
               </button>
             </Badge>
           )}
+          {filters.tag && filters.tag !== 'all' && (
+            <Badge variant="outline">
+              Label: {filters.tag}
+              <button 
+                onClick={() => updateFilter('tag', 'all')}
+                className="ml-1 hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
+          {filters.archived && filters.archived !== 'hide' && (
+            <Badge variant="outline">
+              <Archive className="h-3 w-3 mr-1" />
+              {filters.archived === 'only' ? 'Archived only' : 'Including archived'}
+              <button 
+                onClick={() => updateFilter('archived', 'hide')}
+                className="ml-1 hover:text-destructive"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
           {filters.assignee && filters.assignee !== 'all' && (
             <Badge variant="outline">
               Assignee: {filters.assignee === 'unassigned' ? 'Not assigned' : teamMembers.find(m => m.id === filters.assignee)?.name || 'Unknown'}
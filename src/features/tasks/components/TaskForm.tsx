@@ -9,10 +9,14 @@ import { Textarea } from '@/shared/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/shared/components/ui/form';
 import { Task } from './TaskCard';
-import { FolderOpen, Calendar, User, Star, Clock, Paperclip, DollarSign } from 'lucide-react';
+import { FolderOpen, Calendar, User, Star, Clock, Paperclip, DollarSign, Tags, Repeat } from 'lucide-react';
 import { useGlobalTaskEdit } from '@/contexts/GlobalTaskEditContext';
 import { FileUpload, FileUploadItem } from '@/components/ui/file-upload';
 import { createStatusMapping } from '@/features/kanban/utils/statusMapping';
+import { LabelService } from '@/services/labelService';
+import { TaskLabelPicker } from './TaskLabels';
+import { RecurrenceEditor } from './TaskRecurrence';
+import { RecurrenceRule, parseRecurrence } from '../utils/recurrence';
 
 const taskFormSchema = z.object({
   title: z.string().min(1, 'სათაური აუცილებელია').max(255, 'სათაური უნდა იყოს 255 სიმბოლოზე ნაკლები'),
@@ -49,7 +53,7 @@ interface Project {
 interface TaskFormProps {
   open: boolean | "embedded";
   onOpenChange: (open: boolean) => void;
-  onSubmit: (data: TaskFormData & { files?: FileUploadItem[] }) => void;
+  onSubmit: (data: TaskFormData & { files?: FileUploadItem[]; label_ids?: string[]; recurrence?: RecurrenceRule | null }) => void;
   task?: Task | null;
   teamMembers?: Array<{ id: string; name: string }>;
   loading?: boolean;
@@ -62,6 +66,8 @@ interface TaskFormProps {
 export function TaskForm({ open, onOpenChange, onSubmit, task, teamMembers = [], loading = false, projects = [], defaultProjectId, kanbanColumns = [], projectStatuses = [] }: TaskFormProps) {
   const { setMode } = useGlobalTaskEdit();
   const [uploadedFiles, setUploadedFiles] = React.useState<FileUploadItem[]>([]);
+  const [labelIds, setLabelIds] = React.useState<string[]>([]);
+  const [recurrence, setRecurrence] = React.useState<RecurrenceRule | null>(parseRecurrence(task?.recurrence));
   
   // Debug: log projectStatuses when component renders
   React.useEffect(() => {
@@ -97,6 +103,7 @@ export function TaskForm({ open, onOpenChange, onSubmit, task, teamMembers = [],
         budget: task.budget || null,
       });
       setUploadedFiles([]);
+      setRecurrence(parseRecurrence(task.recurrence));
     } else {
       // Only reset when creating new task and projectStatuses are available
       const defaultStatus = projectStatuses.length > 0 ? projectStatuses[0].name : 'To Do';
@@ -112,14 +119,34 @@ export function TaskForm({ open, onOpenChange, onSubmit, task, teamMembers = [],
         budget: null,
       });
       setUploadedFiles([]);
+      setRecurrence(null);
     }
   }, [task, projectStatuses.length]); // Use length instead of the whole array to prevent unnecessary re-renders
 
+  // A new task starts in the project it was opened for
+  React.useEffect(() => {
+    if (open && !task && defaultProjectId) {
+      form.setValue('project_id', defaultProjectId);
+    }
+  }, [open, defaultProjectId]);
+
+  React.useEffect(() => {
+    if (task) {
+      LabelService.getTaskLabels(task.id).then(labels => setLabelIds(labels.map(l => l.id)));
+    } else {
+      setLabelIds([]);
+    }
+  }, [task?.id]);
+
+  const labelProjectId = form.watch('project_id') || task?.project_id || defaultProjectId;
+
   const handleSubmit = (data: TaskFormData) => {
-    onSubmit({ ...data, files: uploadedFiles });
+    onSubmit({ ...data, files: uploadedFiles, label_ids: labelIds, recurrence });
     if (!task) {
       form.reset();
       setUploadedFiles([]);
+      setLabelIds([]);
+      setRecurrence(null);
     }
   };
 
@@ -392,6 +419,31 @@ export function TaskForm({ open, onOpenChange, onSubmit, task, teamMembers = [],
                 />
               </div>
 
+              {/* Labels */}
+              <div className="space-y-2">
+                <FormLabel className="text-sm font-medium flex items-center gap-1">
+                  <Tags className="h-3 w-3" />
+                  ლეიბლები
+                </FormLabel>
+                <TaskLabelPicker
+                  projectId={labelProjectId}
+                  value={labelIds}
+                  onChange={setLabelIds}
+                  disabled={loading}
+                />
+              </div>
+
+              {/* Recurrence */}
+              {!task?.is_subtask && (
+                <div className="space-y-2">
+                  <FormLabel className="text-sm font-medium flex items-center gap-1">
+                    <Repeat className="h-3 w-3" />
+                    გამეორება
+                  </FormLabel>
+                  <RecurrenceEditor value={recurrence} onChange={setRecurrence} disabled={loading} />
+                </div>
+              )}
+
               {/* File Upload Section */}
               <div className="space-y-3">
                 <FormLabel className="text-sm font-medium flex items-center gap-1">
@@ -637,6 +689,31 @@ export function TaskForm({ open, onOpenChange, onSubmit, task, teamMembers = [],
           />
         </div>
 
+        {/* Labels */}
+        <div className="space-y-2">
+          <FormLabel className="text-sm font-medium flex items-center gap-1">
+            <Tags className="h-3 w-3" />
+            ლეიბლები
+          </FormLabel>
+          <TaskLabelPicker
+            projectId={labelProjectId}
+            value={labelIds}
+            onChange={setLabelIds}
+            disabled={loading}
+          />
+        </div>
+
+        {/* Recurrence */}
+        {!task?.is_subtask && (
+          <div className="space-y-2">
+            <FormLabel className="text-sm font-medium flex items-center gap-1">
+              <Repeat className="h-3 w-3" />
+              გამეორება
+            </FormLabel>
+            <RecurrenceEditor value={recurrence} onChange={setRecurrence} disabled={loading} />
+          </div>
+        )}
+
         {/* File Upload Section for embedded form */}
         <div className="space-y-3">
           <FormLabel className="text-sm font-medium flex items-center gap-1">
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/shared/components/ui/avatar';
+import { History, Undo2, ArrowRight } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/core/config/client';
+import { useToast } from '@/shared/hooks/use-toast';
+import { TaskHistoryService, TaskFieldChange } from '@/services/taskHistoryService';
+import { EstimateUnit } from '@/services/taskEstimateService';
+import { useProject } from '@/core/data/hooks/useProjectQueries';
+import { Task } from './TaskCard';
+import { getTaskFieldLabel, formatTaskFieldValue, isLongTextField } from '../utils/taskHistory';
+
+interface TaskHistoryTimelineProps {
+  task: Task;
+  teamMembers: Array<{ id: string; name: string }>;
+  canEdit?: boolean;
+  // Budget changes are left out for users without view_budget
+  canViewBudget?: boolean;
+  onReverted?: () => void;
+}
+
+export function TaskHistoryTimeline({ task, teamMembers, canEdit = true, canViewBudget = false, onReverted }: TaskHistoryTimelineProps) {
+  const { toast } = useToast();
+  const [changes, setChanges] = useState<TaskFieldChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const { data: project } = useProject(task.project_id);
+  const estimateUnit = (project?.estimate_unit ?? 'hours') as EstimateUnit;
+
+  useEffect(() => {
+    fetchHistory();
+
+    const channel = supabase
+      .channel(`task-history-${task.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'task_field_history',
+          filter: `task_id=eq.${task.id}`
+        },
+        () => fetchHistory()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [task.id]);
+
+  const fetchHistory = async () => {
+    const data = await TaskHistoryService.getTaskHistory(task.id);
+    setChanges(data);
+    setLoading(false);
+  };
+
+  const visibleChanges = canViewBudget ? changes : changes.filter(change => change.field !== 'budget');
+
+  const handleRevert = async (change: TaskFieldChange) => {
+    setRevertingId(change.id);
+    const result = await TaskHistoryService.revertChange(change.id);
+    setRevertingId(null);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "წარმატება",
+      description: `${getTaskFieldLabel(change.field)} დაბრუნდა წინა მნიშვნელობაზე`
+    });
+    fetchHistory();
+    onReverted?.();
+  };
+
+  // Nothing to revert when the field already holds the old value
+  const isCurrentValue = (change: TaskFieldChange) => {
+    const current = (task as unknown as Record<string, unknown>)[change.field];
+    return JSON.stringify(current ?? null) === JSON.stringify(change.old_value ?? null);
+  };
+
+  const getInitials = (name: string) => {
+    return name.split(' ').map(n => n[0]).join('').toUpperCase();
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          ცვლილებების ისტორია
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">იტვირთება...</p>
+        ) : visibleChanges.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic text-center py-4">
+            ამ დავალებაში ცვლილებები ჯერ არ ყოფილა
+          </p>
+        ) : (
+          <div className="relative space-y-4 border-l pl-4 ml-3">
+            {visibleChanges.map(change => {
+              const editorName = change.changed_by_name || 'სისტემა';
+              const oldValue = formatTaskFieldValue(change.field, change.old_value, teamMembers, estimateUnit);
+              const newValue = formatTaskFieldValue(change.field, change.new_value, teamMembers, estimateUnit);
+
+              return (
+                <div key={change.id} className="relative">
+                  <Avatar className="absolute -left-[30px] top-0 h-6 w-6 border bg-background">
+                    <AvatarFallback className="text-[10px]">{getInitials(editorName)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium">{editorName}</span>
+                      {' შეცვალა '}
+                      <Badge variant="secondary" className="text-xs">{getTaskFieldLabel(change.field)}</Badge>
+                      {change.reverted_from && (
+                        <Badge variant="outline" className="ml-1 text-xs">გაუქმება</Badge>
+                      )}
+                      <div className="text-xs text-muted-foreground" title={format(new Date(change.changed_at), 'MMM dd, yyyy HH:mm')}>
+                        {formatDistanceToNow(new Date(change.changed_at), { addSuffix: true })}
+                      </div>
+                    </div>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={() => handleRevert(change)}
+                        disabled={revertingId !== null || isCurrentValue(change)}
+                        title="წინა მნიშვნელობის დაბრუნება"
+                      >
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        დაბრუნება
+                      </Button>
+                    )}
+                  </div>
+
+                  {isLongTextField(change.field) ? (
+                    <div className="mt-2 space-y-1 text-xs">
+                      <div className="rounded bg-red-50 dark:bg-red-900/20 p-2 line-through text-red-800 dark:text-red-300 whitespace-pre-wrap line-clamp-4">
+                        {oldValue}
+                      </div>
+                      <div className="rounded bg-green-50 dark:bg-green-900/20 p-2 text-green-800 dark:text-green-300 whitespace-pre-wrap line-clamp-4">
+                        {newValue}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="mt-1 flex items-center gap-2 text-xs flex-wrap">
+                      <span className="text-muted-foreground line-through">{oldValue}</span>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      <span className="font-medium">{newValue}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
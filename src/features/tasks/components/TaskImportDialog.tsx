@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/shared/components/ui/dialog';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Badge } from '@/shared/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table';
+import { Upload, FileSpreadsheet, AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { TaskImportService, ProjectMemberDirectoryEntry } from '@/services/taskImportService';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField,
+  ParsedImportFile,
+  PreparedImportRow,
+  guessColumnMapping,
+  parseImportFile,
+  validateImportRows
+} from '../utils/taskImport';
+
+interface TaskImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  projectStatuses: Array<{ id: string; name: string; color: string }>;
+  existingTasks: Array<{ id: string; title: string; parent_task_id?: string | null }>;
+  onImported: () => void;
+}
+
+type ImportStep = 'upload' | 'mapping' | 'preview';
+
+const NOT_MAPPED = '__none__';
+
+export function TaskImportDialog({
+  open,
+  onOpenChange,
+  projectId,
+  projectStatuses,
+  existingTasks,
+  onImported
+}: TaskImportDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [members, setMembers] = useState<ProjectMemberDirectoryEntry[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      TaskImportService.getMemberDirectory(projectId).then(setMembers);
+    } else {
+      setStep('upload');
+      setFileName('');
+      setParsed(null);
+      setMapping({});
+    }
+  }, [open, projectId]);
+
+  const preview: PreparedImportRow[] = useMemo(() => {
+    if (!parsed || step !== 'preview') return [];
+    return validateImportRows(parsed.rows, mapping, {
+      statuses: projectStatuses,
+      members,
+      existingTasks
+    });
+  }, [parsed, mapping, step, projectStatuses, members, existingTasks]);
+
+  const validCount = preview.filter(row => row.errors.length === 0).length;
+  const errorCount = preview.length - validCount;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = parseImportFile(await file.text(), file.name);
+      if (result.rows.length === 0) {
+        throw new Error('ფაილში დავალებები ვერ მოიძებნა');
+      }
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(guessColumnMapping(result.columns));
+      setStep('mapping');
+    } catch (error: unknown) {
+      toast({
+        title: "შეცდომა",
+        description: (error as { message?: string })?.message || 'ფაილის წაკითხვა ვერ მოხერხდა',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column === NOT_MAPPED ? undefined : column }));
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+
+    setImporting(true);
+    const result = await TaskImportService.importTasks(projectId, user.id, preview, fileName);
+    setImporting(false);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      if (result.created > 0) onImported();
+      return;
+    }
+
+    toast({
+      title: "წარმატება",
+      description: `შემოტანილია ${result.created} დავალება${errorCount > 0 ? `, გამოტოვებულია ${errorCount}` : ''}`
+    });
+    onImported();
+    onOpenChange(false);
+  };
+
+  const memberName = (id: string | null) => (id ? members.find(m => m.id === id)?.name : null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            დავალებების იმპორტი
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'ატვირთეთ CSV ან JSON ფაილი. პირველი სტრიქონი უნდა შეიცავდეს სვეტების სახელებს.'}
+            {step === 'mapping' && `${fileName}: ${parsed?.rows.length} სტრიქონი. მიუთითეთ, რომელი სვეტი რომელ ველს შეესაბამება.`}
+            {step === 'preview' && 'წინასწარი შემოწმება — ჯერ არაფერი შენახულა. შეცდომიანი სტრიქონები გამოტოვებული იქნება.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto min-h-0">
+          {step === 'upload' && (
+            <Label
+              htmlFor="task-import-file"
+              className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-10 cursor-pointer hover:bg-muted/50"
+            >
+              <Upload className="h-8 w-8 text-muted-foreground" />
+              <span className="text-sm font-medium">აირჩიეთ ფაილი</span>
+              <span className="text-xs text-muted-foreground">.csv ან .json</span>
+              <Input
+                id="task-import-file"
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </Label>
+          )}
+
+          {step === 'mapping' && parsed && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-sm">
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] || NOT_MAPPED}
+                    onValueChange={(value) => updateMapping(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>— არ შემოვიტანოთ —</SelectItem>
+                      {parsed.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="gap-1">
+                  <CheckCircle2 className="h-3 w-3 text-green-600" />
+                  შეიქმნება: {validCount}
+                </Badge>
+                {errorCount > 0 && (
+                  <Badge variant="destructive" className="gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    შეცდომით: {errorCount}
+                  </Badge>
+                )}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">#</TableHead>
+                    <TableHead>სათაური</TableHead>
+                    <TableHead>სტატუსი</TableHead>
+                    <TableHead>პრიორიტეტი</TableHead>
+                    <TableHead>შემსრულებელი</TableHead>
+                    <TableHead>ვადა</TableHead>
+                    <TableHead>ბიუჯეტი</TableHead>
+                    <TableHead>მშობელი</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map(row => (
+                    <React.Fragment key={row.rowNumber}>
+                      <TableRow className={row.errors.length > 0 ? 'bg-destructive/5 text-muted-foreground line-through' : 'bg-green-50/50'}>
+                        <TableCell>{row.errors.length > 0 ? '−' : '+'}{row.rowNumber}</TableCell>
+                        <TableCell className="font-medium">{row.title || '—'}</TableCell>
+                        <TableCell>{row.status}</TableCell>
+                        <TableCell>{row.priority}</TableCell>
+                        <TableCell>{memberName(row.assignee_id) || '—'}</TableCell>
+                        <TableCell>{row.due_date || '—'}</TableCell>
+                        <TableCell>{row.budget ?? '—'}</TableCell>
+                        <TableCell>{row.parentTitle || '—'}</TableCell>
+                      </TableRow>
+                      {(row.errors.length > 0 || row.warnings.length > 0) && (
+                        <TableRow>
+                          <TableCell />
+                          <TableCell colSpan={7} className="py-1 text-xs space-y-0.5">
+                            {row.errors.map(message => (
+                              <div key={message} className="flex items-center gap-1 text-destructive">
+                                <AlertCircle className="h-3 w-3" />
+                                {message}
+                              </div>
+                            ))}
+                            {row.warnings.map(message => (
+                              <div key={message} className="flex items-center gap-1 text-amber-600">
+                                <AlertTriangle className="h-3 w-3" />
+                                {message}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')}>უკან</Button>
+              <Button onClick={() => setStep('preview')} disabled={!mapping.title}>
+                შემოწმება
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')} disabled={importing}>უკან</Button>
+              <Button onClick={handleImport} disabled={importing || validCount === 0}>
+                {importing ? 'მიმდინარეობს...' : `${validCount} დავალების შემოტანა`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/shared/components/ui/badge';
+import { Button } from '@/shared/components/ui/button';
+import { Checkbox } from '@/shared/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/shared/components/ui/popover';
+import { Tags, ChevronDown } from 'lucide-react';
+import { cn } from '@/shared/utils/utils';
+import { LabelService, ProjectLabel } from '@/services/labelService';
+
+interface TaskLabelChipsProps {
+  labels?: ProjectLabel[];
+  max?: number;
+  className?: string;
+}
+
+export function TaskLabelChips({ labels = [], max, className }: TaskLabelChipsProps) {
+  if (labels.length === 0) return null;
+
+  const visible = max ? labels.slice(0, max) : labels;
+  const hidden = labels.length - visible.length;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {visible.map((label) => (
+        <Badge
+          key={label.id}
+          variant="outline"
+          className="text-xs font-normal"
+          style={{ borderColor: label.color, color: label.color, backgroundColor: `${label.color}14` }}
+        >
+          {label.name}
+        </Badge>
+      ))}
+      {hidden > 0 && (
+        <Badge variant="outline" className="text-xs font-normal">+{hidden}</Badge>
+      )}
+    </div>
+  );
+}
+
+interface TaskLabelPickerProps {
+  projectId?: string;
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function TaskLabelPicker({ projectId, value, onChange, disabled = false, className }: TaskLabelPickerProps) {
+  const [labels, setLabels] = useState<ProjectLabel[]>([]);
+
+  useEffect(() => {
+    if (!projectId) {
+      setLabels([]);
+      return;
+    }
+    LabelService.getProjectLabels(projectId).then(setLabels);
+  }, [projectId]);
+
+  const selected = labels.filter(l => value.includes(l.id));
+
+  const toggleLabel = (labelId: string) => {
+    onChange(value.includes(labelId)
+      ? value.filter(id => id !== labelId)
+      : [...value, labelId]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled || !projectId}
+          className={cn("w-full justify-between h-auto min-h-10 font-normal", className)}
+        >
+          {selected.length > 0 ? (
+            <TaskLabelChips labels={selected} />
+          ) : (
+            <span className="text-muted-foreground flex items-center gap-2">
+              <Tags className="h-4 w-4" />
+              აირჩიეთ ლეიბლები
+            </span>
+          )}
+          <ChevronDown className="h-4 w-4 opacity-50 flex-shrink-0 ml-2" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        {labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-2">
+            პროექტს ლეიბლები არ აქვს. შექმენით ისინი „ლეიბლების მართვაში“.
+          </p>
+        ) : (
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {labels.map((label) => (
+              <label
+                key={label.id}
+                className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted cursor-pointer"
+              >
+                <Checkbox
+                  checked={value.includes(label.id)}
+                  onCheckedChange={() => toggleLabel(label.id)}
+                />
+                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: label.color }} />
+                <span className="text-sm truncate">{label.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
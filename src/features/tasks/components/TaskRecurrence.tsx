@@ -0,0 +1,179 @@
+import React from 'react';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/shared/components/ui/toggle-group';
+import { Repeat } from 'lucide-react';
+import { cn } from '@/shared/utils/utils';
+import {
+  RecurrenceRule,
+  RecurrenceFrequency,
+  RecurrenceEnds,
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+  describeRecurrence
+} from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'დღეში',
+  weekly: 'კვირაში',
+  monthly: 'თვეში'
+};
+
+export function RecurrenceEditor({ value, onChange, disabled = false, className }: RecurrenceEditorProps) {
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+
+    const today = new Date();
+    onChange({
+      frequency: frequency as RecurrenceFrequency,
+      interval: value?.interval || 1,
+      weekdays: frequency === 'weekly' ? (value?.weekdays?.length ? value.weekdays : [today.getDay()]) : undefined,
+      month_day: frequency === 'monthly' ? (value?.month_day || today.getDate()) : undefined,
+      ends: value?.ends || { type: 'never' }
+    });
+  };
+
+  const update = (updates: Partial<RecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...updates });
+  };
+
+  const updateEnds = (ends: RecurrenceEnds) => update({ ends });
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center gap-2">
+        <Select value={value?.frequency || 'none'} onValueChange={handleFrequencyChange} disabled={disabled}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">არ მეორდება</SelectItem>
+            <SelectItem value="daily">დღიური</SelectItem>
+            <SelectItem value="weekly">კვირეული</SelectItem>
+            <SelectItem value="monthly">თვიური</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {value && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>ყოველ</span>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              disabled={disabled}
+              className="w-16"
+            />
+            <span>{INTERVAL_UNITS[value.frequency]}</span>
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="justify-start flex-wrap"
+          value={(value.weekdays || []).map(String)}
+          onValueChange={(days) => {
+            // Keep at least one weekday selected
+            if (days.length === 0) return;
+            update({ weekdays: days.map(Number).sort((a, b) => a - b) });
+          }}
+          disabled={disabled}
+        >
+          {WEEKDAY_ORDER.map((day) => (
+            <ToggleGroupItem key={day} value={String(day)} className="px-2 text-xs">
+              {WEEKDAY_LABELS[day]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {value?.frequency === 'monthly' && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>თვის</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            value={value.month_day || 1}
+            onChange={(e) => update({ month_day: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+            disabled={disabled}
+            className="w-16"
+          />
+          <span>რიცხვში</span>
+        </div>
+      )}
+
+      {value && (
+        <div className="space-y-2">
+          <Label className="text-sm">დასრულება</Label>
+          <div className="flex items-center gap-2">
+            <Select
+              value={value.ends.type}
+              onValueChange={(type) => updateEnds({
+                type: type as RecurrenceEnds['type'],
+                count: type === 'count' ? (value.ends.count || 10) : undefined,
+                until: type === 'date' ? value.ends.until : undefined
+              })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">არასდროს</SelectItem>
+                <SelectItem value="count">N ჯერის შემდეგ</SelectItem>
+                <SelectItem value="date">თარიღზე</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {value.ends.type === 'count' && (
+              <Input
+                type="number"
+                min={1}
+                value={value.ends.count || 1}
+                onChange={(e) => updateEnds({ type: 'count', count: Math.max(1, parseInt(e.target.value) || 1) })}
+                disabled={disabled}
+                className="w-20"
+              />
+            )}
+
+            {value.ends.type === 'date' && (
+              <Input
+                type="date"
+                value={value.ends.until || ''}
+                onChange={(e) => updateEnds({ type: 'date', until: e.target.value || undefined })}
+                disabled={disabled}
+                className="w-44"
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {value && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Repeat className="h-3 w-3" />
+          {describeRecurrence(value)}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { CheckSquare, MessageSquare, Paperclip, Search, Loader2 } from 'lucide-react';
+import { useFullTextSearch } from '@/core/data/hooks/useSearchQueries';
+import type { FullTextHit } from '@/core/data/repositories/searchRepository';
+import { splitHighlights } from '../utils/taskSearch';
+
+interface TaskSearchHitsProps {
+  search: string;
+  projectId?: string | null;
+  projectNames?: Record<string, string>;
+  onOpenTask: (taskId: string) => void;
+}
+
+const kindIcons: Record<FullTextHit['kind'], React.ElementType> = {
+  task: CheckSquare,
+  comment: MessageSquare,
+  file: Paperclip
+};
+
+const kindLabels: Record<FullTextHit['kind'], string> = {
+  task: 'Task',
+  comment: 'Comment',
+  file: 'File'
+};
+
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {splitHighlights(text).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * Best matches for the search box, with the matching words highlighted
+ */
+export function TaskSearchHits({ search, projectId = null, projectNames = {}, onOpenTask }: TaskSearchHitsProps) {
+  const { data: hits = [], isFetching } = useFullTextSearch(search, projectId, 8);
+
+  if (!search.trim() || (hits.length === 0 && !isFetching)) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-sm font-medium">
+          <Search className="h-4 w-4" />
+          Best matches
+          {isFetching && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1 pt-0">
+        {hits.map(hit => {
+          const Icon = kindIcons[hit.kind];
+          const content = (
+            <>
+              <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <span className="truncate"><Highlighted text={hit.title} /></span>
+                  <Badge variant="outline" className="text-[10px]">{kindLabels[hit.kind]}</Badge>
+                  {!projectId && projectNames[hit.project_id] && (
+                    <span className="truncate text-xs text-muted-foreground">{projectNames[hit.project_id]}</span>
+                  )}
+                </div>
+                {hit.snippet && hit.snippet !== hit.title && (
+                  <p className="line-clamp-2 text-xs text-muted-foreground">
+                    <Highlighted text={hit.snippet} />
+                  </p>
+                )}
+              </div>
+            </>
+          );
+
+          return hit.task_id ? (
+            <button
+              key={`${hit.kind}-${hit.id}`}
+              type="button"
+              onClick={() => onOpenTask(hit.task_id!)}
+              className="flex w-full items-start gap-2 rounded-md p-2 text-left hover:bg-muted/50"
+            >
+              {content}
+            </button>
+          ) : (
+            <Link
+              key={`${hit.kind}-${hit.id}`}
+              to={`/project/${hit.project_id}`}
+              className="flex w-full items-start gap-2 rounded-md p-2 hover:bg-muted/50"
+            >
+              {content}
+            </Link>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
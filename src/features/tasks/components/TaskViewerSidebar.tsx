@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { X, ChevronRight } from 'lucide-react';
+import { X, ChevronRight, Users } from 'lucide-react';
 import { Button } from '@/shared/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
 import { TaskDetailsTab } from './TaskViewerTabs/TaskDetailsTab';
@@ -7,7 +7,9 @@ import { SubtasksTab } from './TaskViewerTabs/SubtasksTab';
 import { CommentsTab } from './TaskViewerTabs/CommentsTab';
 import { TaskAttachmentsTab } from './TaskViewerTabs/TaskAttachmentsTab';
 import { supabase } from '@/core/config/client';
+import { useAuth } from '@/contexts/AuthContext';
 import { Task } from './TaskCard';
+import { getTaskFieldLabel } from '../utils/taskHistory';
 
 interface TaskViewerSidebarProps {
   taskId: string | null;
@@ -43,6 +45,14 @@ export function TaskViewerSidebar({ taskId, isOpen, onClose, onTaskDelete, proje
   // Track attachment count for the attachments tab badge
   const [attachmentCount, setAttachmentCount] = useState(0);
 
+  // Fields someone else changed while the task is open
+  const { user } = useAuth();
+  const [remoteEdit, setRemoteEdit] = useState<{ userId: string | null; fields: string[] } | null>(null);
+
+  useEffect(() => {
+    setRemoteEdit(null);
+  }, [taskId]);
+
   useEffect(() => {
     let cleanup: (() => void) | undefined;
 
@@ -285,6 +295,25 @@ export function TaskViewerSidebar({ taskId, isOpen, onClose, onTaskDelete, proje
           fetchCommentCount();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'task_field_history',
+          filter: `task_id=eq.${taskId}`
+        },
+        (payload) => {
+          const change = payload.new as { field: string; changed_by: string | null };
+          if (change.changed_by === user?.id) return;
+          setRemoteEdit(prev => ({
+            userId: change.changed_by,
+            fields: prev?.userId === change.changed_by && !prev.fields.includes(change.field)
+              ? [...prev.fields, change.field]
+              : prev?.userId === change.changed_by ? prev.fields : [change.field]
+          }));
+        }
+      )
       .on(
         'postgres_changes',
         {
@@ -359,6 +388,26 @@ export function TaskViewerSidebar({ taskId, isOpen, onClose, onTaskDelete, proje
           </Button>
         </div>
 
+        {/* Someone else edited the open task */}
+        {remoteEdit && (
+          <div className="flex items-center justify-between gap-3 px-6 py-2 border-b border-border bg-amber-50 text-amber-800 dark:bg-amber-950/40 dark:text-amber-300 text-sm">
+            <div className="flex items-center gap-2">
+              <Users className="h-4 w-4 flex-shrink-0" />
+              <span>
+                {state.teamMembers.find(m => m.id === remoteEdit.userId)?.name || 'სხვა მომხმარებელმა'} შეცვალა: {remoteEdit.fields.map(getTaskFieldLabel).join(', ')}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setRemoteEdit(null)}
+              className="h-7 w-7 p-0"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
         {/* Content */}
         <div className="flex-1 overflow-hidden">
           {state.isLoading ? (
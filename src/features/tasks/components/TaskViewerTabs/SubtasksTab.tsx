@@ -11,6 +11,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Plus, GripVertical, Edit, Trash2, Check, X, User, AlertCircle, Timer, Target, CheckCircle2 } from 'lucide-react';
 import { Task } from '../TaskCard';
 import { supabase } from '@/core/config/client';
+import { TrashService } from '@/services/trashService';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/shared/hooks/use-toast';
 import {
@@ -527,30 +528,24 @@ export function SubtasksTab({ parentTask, subtasks, teamMembers, onSubtasksUpdat
   const handleDeleteConfirm = async () => {
     if (!subtaskToDelete) return;
 
-    try {
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', subtaskToDelete);
-
-      if (error) throw error;
-      onSubtasksUpdate();
+    const result = await TrashService.moveToTrash('task', [subtaskToDelete]);
+    setDeleteDialogOpen(false);
+    setSubtaskToDelete(null);
 
-      toast({
-        title: "წარმატება",
-        description: "სუბთასქი წარმატებით წაიშალა"
-      });
-    } catch (error: any) {
-      console.error('Error deleting subtask:', error);
+    if (!result.success) {
       toast({
         title: "შეცდომა",
-        description: "სუბთასქის წაშლა ვერ მოხერხდა",
+        description: result.error,
         variant: "destructive"
       });
-    } finally {
-      setDeleteDialogOpen(false);
-      setSubtaskToDelete(null);
+      return;
     }
+
+    onSubtasksUpdate();
+    toast({
+      title: "წარმატება",
+      description: "სუბთასქი გადავიდა სანაგვეში"
+    });
   };
 
   const handleDeleteCancel = () => {
@@ -713,7 +708,7 @@ export function SubtasksTab({ parentTask, subtasks, teamMembers, onSubtasksUpdat
           <AlertDialogHeader>
             <AlertDialogTitle>სუბთასქის წაშლა</AlertDialogTitle>
             <AlertDialogDescription>
-              დარწმუნებული ხარ რომ გინდა ამ სუბთასქის წაშლა? ეს მოქმედება შეუცვლელია.
+              დარწმუნებული ხარ რომ გინდა ამ სუბთასქის წაშლა? ის გადავა სანაგვეში, საიდანაც შეგიძლია აღადგინო.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
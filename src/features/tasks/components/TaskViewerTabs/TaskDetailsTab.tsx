@@ -7,14 +7,25 @@ import { Card, CardContent, CardHeader } from '@/shared/components/ui/card';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/shared/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/shared/components/ui/alert-dialog';
 import { Separator } from '@/shared/components/ui/separator';
-import { Calendar, Clock, User, FolderOpen, MoreVertical, Trash2, CheckCircle2, AlertCircle, Timer, Target, DollarSign } from 'lucide-react';
+import { Calendar, Clock, User, FolderOpen, MoreVertical, Trash2, CheckCircle2, AlertCircle, Timer, Target, DollarSign, Link2, Tags, Repeat, Hourglass } from 'lucide-react';
 import { format, isAfter, isBefore, addDays } from 'date-fns';
 import { Task } from '../TaskCard';
 import { supabase } from '@/core/config/client';
 import { useGlobalTaskEdit } from '@/contexts/GlobalTaskEditContext';
 import { useToast } from '@/shared/hooks/use-toast';
 import { InlineEditableField } from '../InlineEditableField';
+import { TaskDependencies } from '../TaskDependencies';
 import { useTaskAutoSave } from '../../hooks/useTaskAutoSave';
+import { useTaskBulkActions } from '../../hooks/useTaskBulkActions';
+import { useProjectPermissions } from '@/features/project/hooks/useProjectPermissions';
+import { TaskDependencyService } from '@/services/taskDependencyService';
+import { LabelService } from '@/services/labelService';
+import { TaskEstimateService, TaskEstimate, ESTIMATE_UNIT_LABELS, formatEstimate, formatLoggedHours, isOverrun } from '@/services/taskEstimateService';
+import { TaskLabelPicker } from '../TaskLabels';
+import { TaskCustomFields } from '../TaskCustomFields';
+import { TaskConflictDialog } from '../TaskConflictDialog';
+import { RecurrenceEditor } from '../TaskRecurrence';
+import { RecurrenceRule, parseRecurrence, describeRecurrence, getTaskNextOccurrence } from '../../utils/recurrence';
 
 interface TaskDetailsTabProps {
   task: Task;
@@ -83,10 +94,15 @@ const priorityOptions = [
 
 export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTaskUpdate, onTaskDelete, onClose }: TaskDetailsTabProps) {
   const { toast } = useToast();
+  const bulkActions = useTaskBulkActions();
   const { openTaskEdit } = useGlobalTaskEdit();
+  const { permissions } = useProjectPermissions(task.project_id);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [localTask, setLocalTask] = useState(task);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [editingRecurrence, setEditingRecurrence] = useState(false);
+  const [recurrenceDraft, setRecurrenceDraft] = useState<RecurrenceRule | null>(null);
 
   // Create status options from project statuses or use defaults
   const statusOptions = projectStatuses.length > 0 
@@ -98,9 +114,10 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
       }))
     : defaultStatusOptions;
   
-  const { saveField, validators, isSaving, lastSaved } = useTaskAutoSave({
+  const { saveField, validators, isSaving, lastSaved, markEditStart, conflict, resolveConflict } = useTaskAutoSave({
     taskId: task.id,
-    onTaskUpdate
+    onTaskUpdate,
+    task
   });
 
   // Custom status validator that uses projectStatuses
@@ -116,6 +133,71 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
     return null;
   };
   
+  // Refuse to complete a task whose blockers are still open; warn when starting it early
+  const saveStatus = async (value: string) => {
+    const check = await TaskDependencyService.checkStatusChange(task.id, value);
+    if (!check.allowed) {
+      // The select has already applied the value locally, so put the saved status back
+      setLocalTask(prev => ({ ...prev, status: task.status }));
+      toast({
+        title: "სტატუსის შეცვლა შეუძლებელია",
+        description: check.warning,
+        variant: "destructive"
+      });
+      throw new Error(check.warning);
+    }
+    await saveField('status', value);
+    if (check.warning) {
+      toast({
+        title: "გაფრთხილება",
+        description: check.warning
+      });
+    }
+  };
+
+  React.useEffect(() => {
+    LabelService.getTaskLabels(task.id).then(labels => setLabelIds(labels.map(l => l.id)));
+  }, [task.id]);
+
+  const saveLabels = async (ids: string[]) => {
+    const previous = labelIds;
+    setLabelIds(ids);
+    const result = await LabelService.setTaskLabels(task.id, ids);
+    if (!result.success) {
+      setLabelIds(previous);
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+    localStorage.setItem('taskUpdated', Date.now().toString());
+    onTaskUpdate();
+  };
+
+  const recurrence = parseRecurrence(localTask.recurrence);
+  const nextOccurrence = recurrence ? getTaskNextOccurrence(recurrence, localTask) : null;
+
+  const startEditingRecurrence = () => {
+    setRecurrenceDraft(recurrence);
+    setEditingRecurrence(true);
+  };
+
+  const saveRecurrence = async () => {
+    try {
+      await saveField('recurrence', recurrenceDraft);
+      setLocalTask(prev => ({ ...prev, recurrence: recurrenceDraft as unknown as Task['recurrence'] }));
+      setEditingRecurrence(false);
+    } catch (error: unknown) {
+      toast({
+        title: "შეცდომა",
+        description: (error as { message?: string })?.message || "გამეორების შენახვა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+    }
+  };
+
   const assignee = teamMembers.find(member => member.id === localTask.assignee_id);
   
   // Update local task when prop changes
@@ -155,6 +237,7 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
   };
   
   const handleEditField = (field: string) => {
+    markEditStart(field);
     setEditingField(field);
   };
   
@@ -197,94 +280,36 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
     fetchProgress();
   }, [task.id]);
 
+  const [estimate, setEstimate] = React.useState<TaskEstimate | null>(null);
+
+  React.useEffect(() => {
+    TaskEstimateService.getTaskEstimate(task.id).then(setEstimate);
+  }, [task.id, task.estimate]);
+
+  const estimateOverrun = isOverrun(estimate);
+  const estimateUsage = estimate?.estimatedSeconds
+    ? Math.round((estimate.loggedSeconds / estimate.estimatedSeconds) * 100)
+    : null;
+
   const dueDateStatus = getDueDateStatus();
 
   const handleDeleteTask = async () => {
-    console.log('handleDeleteTask called for task:', localTask.id);
-    console.log('Task details:', {
-      id: localTask.id,
-      title: localTask.title,
-      created_by: localTask.created_by,
-      assignee_id: localTask.assignee_id,
-      project_id: localTask.project_id
-    });
-    
-    // First, let's check if we can read the task and see current user
-    const { data: { user } } = await supabase.auth.getUser();
-    console.log('Current user:', user?.id);
-    console.log('Can user delete this task?', {
-      isCreator: localTask.created_by === user?.id,
-      isAssignee: localTask.assignee_id === user?.id,
-      taskCreatedBy: localTask.created_by,
-      currentUser: user?.id
-    });
+    setShowDeleteDialog(false);
 
-    try {
-      // Test if we can select the task first
-      const { data: testSelect, error: selectError } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('id', localTask.id)
-        .single();
-      
-      console.log('Can select task?', { data: testSelect, error: selectError });
-      
-      // Now try to delete
-      console.log('Attempting to delete task...');
-      const { error, count } = await supabase
-        .from('tasks')
-        .delete({ count: 'exact' })
-        .eq('id', localTask.id);
-      
-      console.log('Delete result:', { error, count });
-      
-      if (error) {
-        console.error('Database deletion failed:', error);
-        throw error;
-      }
-      
-      if (count === 0) {
-        console.warn('No rows were deleted - this might indicate permission issues');
-        throw new Error('Task could not be deleted - no permission or task not found');
-      }
-      
-      console.log('Direct deletion successful, rows deleted:', count);
-      
-      toast({
-        title: "წარმატება",
-        description: "დავალება წარმატებით წაიშლა"
-      });
-      
-      setShowDeleteDialog(false);
-      
-      // Immediately refresh the parent's task list since we just deleted from DB
-      if (onTaskDelete) {
-        onTaskDelete(localTask.id);
-      }
-      
-      // Also refresh local data for other components
-      onTaskUpdate();
-      
-      // Close the sidebar after a brief delay to show the refresh happened
-      if (onClose) {
-        setTimeout(() => {
-          onClose();
-        }, 300);
-      }
-      
-    } catch (error: any) {
-      console.error('Delete error details:', {
-        message: error.message,
-        code: error.code,
-        details: error.details,
-        hint: error.hint
-      });
-      
-      toast({
-        title: "შეცდომა",
-        description: `წაშლა ვერ მოხერხდა: ${error.message}`,
-        variant: "destructive"
-      });
+    // Goes to the trash, with an undo button in the toast
+    if (!(await bulkActions.deleteTasks([localTask.id]))) return;
+
+    // The task is already gone from the cache, so the parent only refreshes its list
+    if (onTaskDelete) {
+      onTaskDelete(localTask.id);
+    }
+    onTaskUpdate();
+
+    // Close the sidebar after a brief delay to show the refresh happened
+    if (onClose) {
+      setTimeout(() => {
+        onClose();
+      }, 300);
     }
   };
 
@@ -320,7 +345,7 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
                   options={statusOptions}
                   isEditing={editingField === 'status'}
                   onChange={(value) => handleFieldUpdate('status', value)}
-                  onSave={(value) => saveField('status', value)}
+                  onSave={saveStatus}
                   onCancel={handleCancelEdit}
                   onEdit={() => handleEditField('status')}
                   validator={customStatusValidator}
@@ -427,6 +452,113 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
         </Card>
       )}
 
+      {/* Estimate Card */}
+      {estimate && (estimate.estimate !== null || estimate.loggedSeconds > 0) && (
+        <Card className="mx-6 mb-4">
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Hourglass className={`h-4 w-4 ${estimateOverrun ? 'text-red-600' : 'text-primary'}`} />
+                  <h3 className="font-medium">შეფასება და დახარჯული დრო</h3>
+                </div>
+                <div className="text-right">
+                  <div className={`text-2xl font-bold ${estimateOverrun ? 'text-red-600' : 'text-primary'}`}>
+                    {formatLoggedHours(estimate.loggedSeconds)}
+                    {estimate.estimate !== null && (
+                      <span className="text-base font-medium text-muted-foreground"> / {formatEstimate(estimate.estimate, estimate.unit)}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {estimate.fromSubtasks ? 'ქვედავალებების შეფასებების ჯამი' : 'დახარჯული / შეფასება'}
+                  </div>
+                </div>
+              </div>
+              {estimateUsage !== null && (
+                <div className="space-y-2">
+                  <Progress
+                    value={Math.min(estimateUsage, 100)}
+                    className={`h-3 bg-muted/50 ${estimateOverrun ? '[&>div]:bg-red-600' : ''}`}
+                  />
+                  <p className={`text-sm flex items-center justify-between ${estimateOverrun ? 'text-red-600' : 'text-muted-foreground'}`}>
+                    <span>
+                      {estimateOverrun
+                        ? `შეფასება გადაჭარბებულია ${formatLoggedHours(estimate.loggedSeconds - estimate.estimatedSeconds!)}-ით`
+                        : `დარჩა ${formatLoggedHours(estimate.estimatedSeconds! - estimate.loggedSeconds)}`}
+                    </span>
+                    <span>{estimateUsage}%</span>
+                  </p>
+                </div>
+              )}
+              {estimate.estimate !== null && estimate.estimatedSeconds === null && (
+                <p className="text-sm text-muted-foreground">
+                  ქულების დახარჯულ დროსთან შესადარებლად მიუთითეთ ქულის საათები პროექტის პარამეტრებში
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dependencies Card */}
+      <Card className="mx-6 mb-4">
+        <CardHeader>
+          <h3 className="font-semibold flex items-center gap-2">
+            <Link2 className="h-4 w-4 text-primary" />
+            დამოკიდებულებები
+          </h3>
+        </CardHeader>
+        <CardContent>
+          <TaskDependencies task={localTask} onDependenciesChange={onTaskUpdate} />
+        </CardContent>
+      </Card>
+
+      {/* Recurrence Card */}
+      {!localTask.is_subtask && (
+        <Card className="mx-6 mb-4">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Repeat className="h-4 w-4 text-primary" />
+                გამეორება
+              </h3>
+              {!editingRecurrence && (
+                <Button variant="ghost" size="sm" onClick={startEditingRecurrence}>
+                  {recurrence ? 'რედაქტირება' : 'დაყენება'}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {editingRecurrence ? (
+              <div className="space-y-3">
+                <RecurrenceEditor value={recurrenceDraft} onChange={setRecurrenceDraft} disabled={isSaving} />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setEditingRecurrence(false)}>
+                    გაუქმება
+                  </Button>
+                  <Button size="sm" onClick={saveRecurrence} disabled={isSaving}>
+                    შენახვა
+                  </Button>
+                </div>
+              </div>
+            ) : recurrence ? (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">{describeRecurrence(recurrence)}</p>
+                <p className="text-muted-foreground">
+                  {nextOccurrence
+                    ? `შემდეგი: ${format(nextOccurrence, 'MMM dd, yyyy')}`
+                    : 'სერია დასრულებულია'}
+                  {(localTask.recurrence_index ?? 1) > 1 && ` · #${localTask.recurrence_index}`}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground italic">დავალება არ მეორდება</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Details Card */}
       <Card className="mx-6 mb-6">
         <CardHeader>
@@ -473,6 +605,47 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
 
           <Separator />
 
+          {/* Labels */}
+          <div className="flex items-center justify-between py-2 gap-4">
+            <div className="flex items-center gap-3 text-muted-foreground">
+              <Tags className="h-4 w-4" />
+              <span className="font-medium">ლეიბლები</span>
+            </div>
+            <div className="flex-1 flex justify-end">
+              <TaskLabelPicker
+                projectId={localTask.project_id}
+                value={labelIds}
+                onChange={saveLabels}
+                className="max-w-xs"
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Start Date */}
+          <div className="flex items-center justify-between py-2">
+            <div className="flex items-center gap-3 text-muted-foreground">
+              <Calendar className="h-4 w-4" />
+              <span className="font-medium">დაწყების თარიღი</span>
+            </div>
+            <div className="flex-1 flex justify-end">
+              <InlineEditableField
+                type="date"
+                value={localTask.start_date}
+                isEditing={editingField === 'start_date'}
+                onChange={(value) => handleFieldUpdate('start_date', value)}
+                onSave={(value) => saveField('start_date', value || null)}
+                onCancel={handleCancelEdit}
+                onEdit={() => handleEditField('start_date')}
+                className="max-w-xs text-right"
+                instantSave={true}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
           {/* Due Date */}
           <div className="flex items-center justify-between py-2">
             <div className="flex items-center gap-3 text-muted-foreground">
@@ -498,29 +671,68 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
           <Separator />
 
           {/* Budget */}
+          {permissions.view_budget && (
+            <>
+              <div className="flex items-center justify-between py-2">
+                <div className="flex items-center gap-3 text-muted-foreground">
+                  <DollarSign className="h-4 w-4" />
+                  <span className="font-medium">ბიუჯეტი</span>
+                </div>
+                <div className="flex-1 flex justify-end">
+                  <InlineEditableField
+                    type="number"
+                    value={localTask.budget}
+                    isEditing={editingField === 'budget'}
+                    onChange={(value) => handleFieldUpdate('budget', value === '' ? null : parseFloat(value))}
+                    onSave={(value) => saveField('budget', value === '' ? null : parseFloat(value))}
+                    onCancel={handleCancelEdit}
+                    onEdit={() => handleEditField('budget')}
+                    validator={validators.budget}
+                    className="max-w-xs text-right font-mono"
+                    placeholder="0.00"
+                    instantSave={true}
+                    prefix="₾"
+                  />
+                </div>
+              </div>
+
+              <Separator />
+            </>
+          )}
+
+          {/* Estimate */}
           <div className="flex items-center justify-between py-2">
             <div className="flex items-center gap-3 text-muted-foreground">
-              <DollarSign className="h-4 w-4" />
-              <span className="font-medium">ბიუჯეტი</span>
+              <Hourglass className="h-4 w-4" />
+              <span className="font-medium">
+                შეფასება ({ESTIMATE_UNIT_LABELS[estimate?.unit ?? 'hours']})
+              </span>
             </div>
             <div className="flex-1 flex justify-end">
               <InlineEditableField
                 type="number"
-                value={localTask.budget}
-                isEditing={editingField === 'budget'}
-                onChange={(value) => handleFieldUpdate('budget', value === '' ? null : parseFloat(value))}
-                onSave={(value) => saveField('budget', value === '' ? null : parseFloat(value))}
+                value={localTask.estimate}
+                isEditing={editingField === 'estimate'}
+                onChange={(value) => handleFieldUpdate('estimate', value === '' ? null : parseFloat(value))}
+                onSave={(value) => saveField('estimate', value === '' ? null : parseFloat(value))}
                 onCancel={handleCancelEdit}
-                onEdit={() => handleEditField('budget')}
-                validator={validators.budget}
+                onEdit={() => handleEditField('estimate')}
+                validator={validators.estimate}
                 className="max-w-xs text-right font-mono"
-                placeholder="0.00"
+                placeholder="0"
                 instantSave={true}
-                prefix="₾"
               />
             </div>
           </div>
 
+          {/* Custom Fields */}
+          <TaskCustomFields
+            taskId={localTask.id}
+            projectId={localTask.project_id}
+            teamMembers={teamMembers}
+            onTaskUpdate={onTaskUpdate}
+          />
+
           <Separator />
 
           {/* Created */}
@@ -563,7 +775,7 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
             <AlertDialogTitle>დავალების წაშლა</AlertDialogTitle>
             <AlertDialogDescription>
               ნამდვილად გსურთ დავალება "{localTask.title}"-ს წაშლა? 
-              ეს მოქმედება შეუქცევადია და დავალება სამუდამოდ წაიშლება.
+              დავალება ქვედავალებებთან ერთად გადავა სანაგვეში, საიდანაც მისი აღდგენა შეიძლება.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -577,6 +789,13 @@ export function TaskDetailsTab({ task, teamMembers, projectStatuses = [], onTask
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <TaskConflictDialog
+        conflict={conflict}
+        teamMembers={teamMembers}
+        estimateUnit={estimate?.unit}
+        onResolve={resolveConflict}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,509 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { format, parseISO, isValid, addDays, differenceInCalendarDays, startOfDay, startOfWeek, isSameDay, isWeekend } from 'date-fns';
+import { ka } from 'date-fns/locale';
+import { Card, CardContent } from '@/shared/components/ui/card';
+import { Badge } from '@/shared/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
+import { ChartGantt, FolderOpen, User } from 'lucide-react';
+import { cn } from '@/shared/utils/utils';
+import { useToast } from '@/shared/hooks/use-toast';
+import { Task } from './TaskCard';
+import { updateTaskFields } from '../hooks/useTaskAutoSave';
+import { TaskDependencyService, TaskDependency } from '@/services/taskDependencyService';
+import { isDoneStatus, isInProgressStatus } from '@/features/kanban/utils/statusMapping';
+
+export type TimelineGroupBy = 'project' | 'assignee';
+type GroupBy = TimelineGroupBy;
+type Zoom = 'day' | 'week';
+type DragMode = 'move' | 'resize-start' | 'resize-end';
+
+interface TasksTimelineViewProps {
+  tasks: Task[];
+  teamMembers: Array<{ id: string; name: string }>;
+  projects?: Array<{ id: string; name: string }>;
+  defaultGroupBy?: GroupBy;
+  /** Controlled grouping, used when the page persists it (e.g. in a saved view) */
+  groupBy?: GroupBy;
+  onGroupByChange?: (groupBy: GroupBy) => void;
+  onTaskClick?: (taskId: string) => void;
+  onTasksChange?: () => void;
+}
+
+interface TimelineBar {
+  task: Task;
+  start: Date;
+  end: Date;
+}
+
+interface TimelineGroup {
+  key: string;
+  label: string;
+  bars: TimelineBar[];
+}
+
+interface DragState {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+const DAY_WIDTH: Record<Zoom, number> = { day: 40, week: 16 };
+const LABEL_WIDTH = 240;
+const HEADER_HEIGHT = 48;
+const GROUP_HEIGHT = 32;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 22;
+
+const toDay = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const date = parseISO(value.length > 10 ? value : `${value}T00:00:00`);
+  return isValid(date) ? startOfDay(date) : null;
+};
+
+const toDateValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Only tasks with a start or due date can be placed on the timeline
+const getBar = (task: Task): TimelineBar | null => {
+  const start = toDay(task.start_date);
+  const due = toDay(task.due_date);
+  if (!start && !due) return null;
+
+  const barStart = start ?? due!;
+  const barEnd = due && due >= barStart ? due : barStart;
+  return { task, start: barStart, end: barEnd };
+};
+
+const getBarColor = (status: string) => {
+  if (isDoneStatus(status)) return 'bg-green-500 border-green-600';
+  if (isInProgressStatus(status)) return 'bg-sky-500 border-sky-600';
+  return 'bg-slate-400 border-slate-500';
+};
+
+export function TasksTimelineView({
+  tasks,
+  teamMembers,
+  projects = [],
+  defaultGroupBy = 'project',
+  groupBy: controlledGroupBy,
+  onGroupByChange,
+  onTaskClick,
+  onTasksChange
+}: TasksTimelineViewProps) {
+  const { toast } = useToast();
+  const [internalGroupBy, setInternalGroupBy] = useState<GroupBy>(defaultGroupBy);
+  const groupBy = controlledGroupBy ?? internalGroupBy;
+  const setGroupBy = (value: GroupBy) => {
+    setInternalGroupBy(value);
+    onGroupByChange?.(value);
+  };
+  const [zoom, setZoom] = useState<Zoom>('day');
+  const [dependencies, setDependencies] = useState<TaskDependency[]>([]);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // Dates saved from a drag, shown until the refreshed tasks arrive
+  const [pendingDates, setPendingDates] = useState<Record<string, { start: Date; end: Date }>>({});
+  const dragRef = useRef<DragState | null>(null);
+
+  const dayWidth = DAY_WIDTH[zoom];
+  const visibleTasks = useMemo(() => tasks.filter(t => !t.is_subtask && !t.parent_task_id), [tasks]);
+
+  useEffect(() => {
+    TaskDependencyService.getDependenciesForTasks(visibleTasks.map(t => t.id)).then(setDependencies);
+    setPendingDates({});
+  }, [visibleTasks]);
+
+  const bars = useMemo(() => {
+    return visibleTasks
+      .map(task => {
+        const bar = getBar(task);
+        if (bar && pendingDates[task.id]) {
+          return { ...bar, ...pendingDates[task.id] };
+        }
+        return bar;
+      })
+      .filter(Boolean) as TimelineBar[];
+  }, [visibleTasks, pendingDates]);
+
+  const unscheduledCount = visibleTasks.length - bars.length;
+
+  const groups = useMemo(() => {
+    const grouped = new Map<string, TimelineGroup>();
+
+    bars.forEach(bar => {
+      const key = groupBy === 'project' ? bar.task.project_id : (bar.task.assignee_id || 'unassigned');
+      if (!grouped.has(key)) {
+        const label = groupBy === 'project'
+          ? projects.find(p => p.id === key)?.name || 'პროექტი'
+          : teamMembers.find(m => m.id === key)?.name || 'მიუნიშნავი';
+        grouped.set(key, { key, label, bars: [] });
+      }
+      grouped.get(key)!.bars.push(bar);
+    });
+
+    return Array.from(grouped.values())
+      .map(group => ({ ...group, bars: group.bars.sort((a, b) => a.start.getTime() - b.start.getTime()) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [bars, groupBy, projects, teamMembers]);
+
+  // Visible range: from the week of the earliest bar (or today) to two weeks past the latest
+  const { rangeStart, totalDays } = useMemo(() => {
+    const today = startOfDay(new Date());
+    const earliest = bars.reduce((min, bar) => (bar.start < min ? bar.start : min), today);
+    const latest = bars.reduce((max, bar) => (bar.end > max ? bar.end : max), today);
+    const start = startOfWeek(earliest, { weekStartsOn: 1 });
+    return {
+      rangeStart: start,
+      totalDays: differenceInCalendarDays(addDays(latest, 14), start) + 1
+    };
+  }, [bars]);
+
+  const days = useMemo(
+    () => Array.from({ length: totalDays }, (_, i) => addDays(rangeStart, i)),
+    [rangeStart, totalDays]
+  );
+
+  const chartWidth = totalDays * dayWidth;
+
+  // Apply a drag to a bar's dates
+  const applyDrag = (bar: TimelineBar, state: DragState | null) => {
+    if (!state || state.taskId !== bar.task.id || state.deltaDays === 0) {
+      return { start: bar.start, end: bar.end };
+    }
+    const delta = state.deltaDays;
+    switch (state.mode) {
+      case 'move':
+        return { start: addDays(bar.start, delta), end: addDays(bar.end, delta) };
+      case 'resize-start': {
+        const start = addDays(bar.start, delta);
+        return { start: start > bar.end ? bar.end : start, end: bar.end };
+      }
+      case 'resize-end': {
+        const end = addDays(bar.end, delta);
+        return { start: bar.start, end: end < bar.start ? bar.start : end };
+      }
+    }
+  };
+
+  // Row positions, used for bars and dependency arrows
+  const layout = useMemo(() => {
+    const positions: Record<string, number> = {};
+    let y = 0;
+    groups.forEach(group => {
+      y += GROUP_HEIGHT;
+      group.bars.forEach(bar => {
+        positions[bar.task.id] = y;
+        y += ROW_HEIGHT;
+      });
+    });
+    return { positions, height: y };
+  }, [groups]);
+
+  const saveDrag = async (state: DragState) => {
+    const bar = bars.find(b => b.task.id === state.taskId);
+    if (!bar) return;
+
+    if (state.deltaDays === 0) {
+      if (state.mode === 'move') onTaskClick?.(state.taskId);
+      return;
+    }
+
+    const { start, end } = applyDrag(bar, state);
+    const fields: Record<string, string> = {};
+    if (state.mode !== 'resize-end' || !bar.task.start_date) fields.start_date = toDateValue(start);
+    if (state.mode !== 'resize-start' || !bar.task.due_date) fields.due_date = toDateValue(end);
+
+    setPendingDates(prev => ({ ...prev, [state.taskId]: { start, end } }));
+
+    try {
+      await updateTaskFields(state.taskId, fields);
+      toast({
+        title: "შეინახა",
+        description: `${bar.task.title}: ${format(start, 'MMM d', { locale: ka })} – ${format(end, 'MMM d', { locale: ka })}`,
+        duration: 1500,
+      });
+      onTasksChange?.();
+    } catch (err: unknown) {
+      console.error('Error rescheduling task:', err);
+      setPendingDates(prev => {
+        const next = { ...prev };
+        delete next[state.taskId];
+        return next;
+      });
+      toast({
+        title: "შეცდომა",
+        description: "დავალების გადატანა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // The pointer listeners live for the whole drag; they save through this ref so a
+  // drop uses the tasks as they are then, not as they were when the drag started
+  const saveDragRef = useRef(saveDrag);
+  saveDragRef.current = saveDrag;
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const deltaDays = Math.round((e.clientX - current.originX) / dayWidth);
+      if (deltaDays !== current.deltaDays) {
+        dragRef.current = { ...current, deltaDays };
+        setDrag(dragRef.current);
+      }
+    };
+
+    const handlePointerUp = () => {
+      const finished = dragRef.current;
+      dragRef.current = null;
+      setDrag(null);
+      if (finished) saveDragRef.current(finished);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [drag !== null, dayWidth]);
+
+  const startDrag = (e: React.PointerEvent, taskId: string, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = { taskId, mode, originX: e.clientX, deltaDays: 0 };
+    setDrag(dragRef.current);
+  };
+
+  const getBarGeometry = (bar: TimelineBar) => {
+    const { start, end } = applyDrag(bar, drag);
+    const x = differenceInCalendarDays(start, rangeStart) * dayWidth;
+    const width = (differenceInCalendarDays(end, start) + 1) * dayWidth;
+    return { x, width };
+  };
+
+  const barsById = useMemo(() => {
+    const map: Record<string, TimelineBar> = {};
+    bars.forEach(bar => { map[bar.task.id] = bar; });
+    return map;
+  }, [bars]);
+
+  const todayOffset = differenceInCalendarDays(startOfDay(new Date()), rangeStart) * dayWidth;
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <ChartGantt className="h-5 w-5" />
+          თაიმლაინი
+        </h2>
+        <div className="flex items-center gap-2">
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="project">
+                <div className="flex items-center gap-2">
+                  <FolderOpen className="h-4 w-4" />
+                  პროექტის მიხედვით
+                </div>
+              </SelectItem>
+              <SelectItem value="assignee">
+                <div className="flex items-center gap-2">
+                  <User className="h-4 w-4" />
+                  შემსრულებლის მიხედვით
+                </div>
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <Tabs value={zoom} onValueChange={(value) => setZoom(value as Zoom)}>
+            <TabsList>
+              <TabsTrigger value="day">დღე</TabsTrigger>
+              <TabsTrigger value="week">კვირა</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      <Card className="border-0 shadow-sm">
+        <CardContent className="p-0">
+          {bars.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <ChartGantt className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              <p>თაიმლაინზე გამოსაჩენად დავალებებს მიუთითეთ დაწყების ან დასრულების თარიღი</p>
+            </div>
+          ) : (
+            <div className={cn("overflow-x-auto", drag && "select-none cursor-grabbing")}>
+              <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+                {/* Date header */}
+                <div className="flex sticky top-0 z-20 bg-background border-b" style={{ height: HEADER_HEIGHT }}>
+                  <div className="sticky left-0 z-30 bg-background border-r flex items-end px-3 pb-1 text-xs font-medium text-muted-foreground" style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}>
+                    დავალება
+                  </div>
+                  <div className="relative" style={{ width: chartWidth }}>
+                    {days.map((day, index) => {
+                      const showMonth = index === 0 || day.getDate() === 1;
+                      const showDay = zoom === 'day' || day.getDay() === 1;
+                      return (
+                        <div
+                          key={day.toISOString()}
+                          className={cn(
+                            "absolute top-0 bottom-0 border-l border-border/40",
+                            isWeekend(day) && "bg-muted/40"
+                          )}
+                          style={{ left: index * dayWidth, width: dayWidth }}
+                        >
+                          {showMonth && (
+                            <div className="absolute top-1 left-1 text-xs font-medium whitespace-nowrap">
+                              {format(day, 'LLLL yyyy', { locale: ka })}
+                            </div>
+                          )}
+                          {showDay && (
+                            <div className={cn(
+                              "absolute bottom-1 left-1 text-[10px] text-muted-foreground",
+                              isSameDay(day, new Date()) && "text-primary font-semibold"
+                            )}>
+                              {format(day, 'd')}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Rows */}
+                <div className="relative">
+                  {/* Weekend shading and today line */}
+                  <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: chartWidth }}>
+                    {days.map((day, index) => isWeekend(day) && (
+                      <div
+                        key={day.toISOString()}
+                        className="absolute top-0 bottom-0 bg-muted/30"
+                        style={{ left: index * dayWidth, width: dayWidth }}
+                      />
+                    ))}
+                    <div
+                      className="absolute top-0 bottom-0 w-px bg-primary/60"
+                      style={{ left: todayOffset + dayWidth / 2 }}
+                    />
+                  </div>
+
+                  {groups.map(group => (
+                    <React.Fragment key={group.key}>
+                      <div className="flex bg-muted/50 border-b" style={{ height: GROUP_HEIGHT }}>
+                        <div className="sticky left-0 z-10 bg-muted flex items-center gap-2 px-3 text-sm font-semibold" style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}>
+                          {groupBy === 'project' ? <FolderOpen className="h-4 w-4 text-primary" /> : <User className="h-4 w-4 text-primary" />}
+                          <span className="truncate">{group.label}</span>
+                          <Badge variant="secondary" className="text-xs ml-auto">{group.bars.length}</Badge>
+                        </div>
+                      </div>
+
+                      {group.bars.map(bar => {
+                        const { x, width } = getBarGeometry(bar);
+                        const isDragging = drag?.taskId === bar.task.id;
+                        return (
+                          <div key={bar.task.id} className="flex border-b border-border/40" style={{ height: ROW_HEIGHT }}>
+                            <button
+                              type="button"
+                              className="sticky left-0 z-10 bg-background border-r flex items-center px-3 text-sm text-left hover:bg-muted/50 transition-colors"
+                              style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                              onClick={() => onTaskClick?.(bar.task.id)}
+                            >
+                              <span className="truncate">{bar.task.title}</span>
+                            </button>
+                            <div className="relative" style={{ width: chartWidth }}>
+                              <div
+                                className={cn(
+                                  "absolute rounded-md border text-white text-xs flex items-center shadow-sm cursor-grab group",
+                                  getBarColor(bar.task.status),
+                                  isDragging && "ring-2 ring-primary cursor-grabbing opacity-90"
+                                )}
+                                style={{
+                                  left: x,
+                                  width,
+                                  top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                                  height: BAR_HEIGHT
+                                }}
+                                title={`${bar.task.title} (${format(bar.start, 'MMM d', { locale: ka })} – ${format(bar.end, 'MMM d', { locale: ka })})`}
+                                onPointerDown={(e) => startDrag(e, bar.task.id, 'move')}
+                              >
+                                <div
+                                  className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-black/20 rounded-l-md"
+                                  onPointerDown={(e) => startDrag(e, bar.task.id, 'resize-start')}
+                                />
+                                <span className="px-2 truncate pointer-events-none">{bar.task.title}</span>
+                                <div
+                                  className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize opacity-0 group-hover:opacity-100 bg-black/20 rounded-r-md"
+                                  onPointerDown={(e) => startDrag(e, bar.task.id, 'resize-end')}
+                                />
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+
+                  {/* Dependency arrows */}
+                  <svg
+                    className="absolute top-0 pointer-events-none"
+                    style={{ left: LABEL_WIDTH }}
+                    width={chartWidth}
+                    height={layout.height}
+                  >
+                    <defs>
+                      <marker id="timeline-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                        <path d="M0,0 L8,4 L0,8 z" className="fill-muted-foreground" />
+                      </marker>
+                      <marker id="timeline-arrow-conflict" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                        <path d="M0,0 L8,4 L0,8 z" className="fill-destructive" />
+                      </marker>
+                    </defs>
+                    {dependencies.map(dependency => {
+                      const blocker = barsById[dependency.depends_on_task_id];
+                      const blocked = barsById[dependency.task_id];
+                      if (!blocker || !blocked) return null;
+
+                      const from = getBarGeometry(blocker);
+                      const to = getBarGeometry(blocked);
+                      const x1 = from.x + from.width;
+                      const y1 = layout.positions[blocker.task.id] + ROW_HEIGHT / 2;
+                      const x2 = to.x;
+                      const y2 = layout.positions[blocked.task.id] + ROW_HEIGHT / 2;
+                      // Blocked task is scheduled to start before its blocker ends
+                      const conflict = x2 < x1;
+
+                      return (
+                        <path
+                          key={dependency.id}
+                          d={`M ${x1} ${y1} C ${x1 + 24} ${y1}, ${x2 - 24} ${y2}, ${x2} ${y2}`}
+                          fill="none"
+                          strokeWidth={1.5}
+                          strokeDasharray={conflict ? '4 3' : undefined}
+                          className={conflict ? 'stroke-destructive' : 'stroke-muted-foreground'}
+                          markerEnd={`url(#${conflict ? 'timeline-arrow-conflict' : 'timeline-arrow'})`}
+                        />
+                      );
+                    })}
+                  </svg>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {unscheduledCount > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {unscheduledCount} დავალება თარიღის გარეშე თაიმლაინზე არ ჩანს
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from '@/shared/components/ui/button';
 import { Input } from '@/shared/components/ui/input';
 import { Textarea } from '@/shared/components/ui/textarea';
 import { Badge } from '@/shared/components/ui/badge';
+import { Switch } from '@/shared/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/shared/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/shared/components/ui/form';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/shared/components/ui/dropdown-menu';
@@ -18,30 +19,24 @@ import {
   Trash2,
   Timer,
   TrendingUp,
-  Calendar
+  Calendar,
+  DollarSign,
+  Target
 } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { supabase } from '@/core/config/client';
+import { TimeEntryRow } from '@/core/data/repositories/timeEntryRepository';
+import { useTaskTimeEntries, useTimeEntryMutations } from '@/core/data/hooks/useTimeEntryQueries';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTimeTracking } from '@/contexts/TimeTrackingContext';
 import { useToast } from '@/shared/hooks/use-toast';
 import { format, differenceInSeconds, addSeconds } from 'date-fns';
 
-interface TimeEntry {
-  id: string;
-  task_id: string;
-  user_id: string;
-  description: string;
-  start_time: string;
-  end_time: string | null;
-  duration: number;
-  is_running: boolean;
-  created_at: string;
-}
-
 interface TimeTrackerProps {
   taskId: string;
+  projectId?: string;
+  taskTitle?: string;
   teamMembers: Array<{ id: string; name: string }>;
 }
 
@@ -49,6 +44,7 @@ const timeEntrySchema = z.object({
   description: z.string().min(1, 'Description is required'),
   duration: z.string().min(1, 'Duration is required'),
   date: z.string().min(1, 'Date is required'),
+  is_billable: z.boolean(),
 });
 
 type TimeEntryFormData = z.infer<typeof timeEntrySchema>;
@@ -88,11 +84,14 @@ const parseTimeInput = (timeString: string): number => {
   return totalMinutes * 60; // Convert to seconds
 };
 
-export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
-  const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
-  const [currentEntry, setCurrentEntry] = useState<TimeEntry | null>(null);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [isRunning, setIsRunning] = useState(false);
+export function TimeTracker({ taskId, projectId, taskTitle, teamMembers }: TimeTrackerProps) {
+  const { data: timeEntries = [], error: entriesError } = useTaskTimeEntries(taskId);
+  const { createEntry, updateEntry, deleteEntry: removeEntry } = useTimeEntryMutations();
+  // The user's one running timer, which may be on another task
+  const { currentEntry: runningEntry, currentTime: runningTime, startTimer: startSharedTimer, stopTimer: stopSharedTimer, pomodoro } = useTimeTracking();
+  const currentEntry = runningEntry?.task_id === taskId ? runningEntry : null;
+  const isRunning = currentEntry !== null;
+  const currentTime = isRunning ? runningTime : 0;
   const [dialogOpen, setDialogOpen] = useState(false);
   const { user } = useAuth();
   const { toast } = useToast();
@@ -103,138 +102,33 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
       description: '',
       duration: '',
       date: format(new Date(), 'yyyy-MM-dd'),
+      is_billable: true,
     },
   });
 
   useEffect(() => {
-    fetchTimeEntries();
-    checkRunningTimer();
-  }, [taskId]);
-
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isRunning && currentEntry) {
-      interval = setInterval(() => {
-        const now = Date.now();
-        const startTime = new Date(currentEntry.start_time).getTime();
-        setCurrentTime(Math.floor((now - startTime) / 1000));
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [isRunning, currentEntry]);
-
-  const fetchTimeEntries = async () => {
+    if (!entriesError) return;
+    console.error('Error fetching time entries:', entriesError);
+    toast({
+      title: "Error",
+      description: "Failed to load time entries",
+      variant: "destructive"
+    });
+  }, [entriesError]);
+
+  const startTimer = async (description: string = taskTitle || 'Working on task') => {
     try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .select('*')
-        .eq('task_id', taskId)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setTimeEntries(data || []);
-    } catch (err) {
-      console.error('Error fetching time entries:', err);
-      toast({
-        title: "Error",
-        description: "Failed to load time entries",
-        variant: "destructive"
-      });
-    }
-  };
-
-  const checkRunningTimer = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .select('*')
-        .eq('task_id', taskId)
-        .eq('user_id', user?.id)
-        .eq('is_running', true)
-        .single();
-
-      if (error && error.code !== 'PGRST116') throw error;
-      
-      if (data) {
-        setCurrentEntry(data);
-        setIsRunning(true);
-      }
-    } catch (err) {
-      console.error('Error checking running timer:', err);
-    }
-  };
-
-  const startTimer = async (description: string = 'Working on task') => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .insert({
-          task_id: taskId,
-          user_id: user.id,
-          description,
-          start_time: new Date().toISOString(),
-          is_running: true,
-          duration: 0,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setCurrentEntry(data);
-      setIsRunning(true);
-      setCurrentTime(0);
-
-      toast({
-        title: "Timer Started",
-        description: "Time tracking has begun for this task",
-      });
+      await startSharedTimer(description, { taskId, projectId });
     } catch (err) {
       console.error('Error starting timer:', err);
-      toast({
-        title: "Error",
-        description: "Failed to start timer",
-        variant: "destructive"
-      });
     }
   };
 
   const stopTimer = async () => {
-    if (!currentEntry) return;
-
     try {
-      const endTime = new Date().toISOString();
-      const duration = Math.floor((new Date(endTime).getTime() - new Date(currentEntry.start_time).getTime()) / 1000);
-
-      const { error } = await supabase
-        .from('time_entries')
-        .update({
-          end_time: endTime,
-          duration,
-          is_running: false,
-        })
-        .eq('id', currentEntry.id);
-
-      if (error) throw error;
-
-      setCurrentEntry(null);
-      setIsRunning(false);
-      setCurrentTime(0);
-      fetchTimeEntries();
-
-      toast({
-        title: "Timer Stopped",
-        description: `Time logged: ${formatDuration(duration)}`,
-      });
+      await stopSharedTimer();
     } catch (err) {
       console.error('Error stopping timer:', err);
-      toast({
-        title: "Error",
-        description: "Failed to stop timer",
-        variant: "destructive"
-      });
     }
   };
 
@@ -245,19 +139,16 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
       const duration = parseTimeInput(data.duration);
       const entryDate = new Date(data.date);
       
-      const { error } = await supabase
-        .from('time_entries')
-        .insert({
-          task_id: taskId,
-          user_id: user.id,
-          description: data.description,
-          start_time: entryDate.toISOString(),
-          end_time: addSeconds(entryDate, duration).toISOString(),
-          duration,
-          is_running: false,
-        });
-
-      if (error) throw error;
+      await createEntry.mutateAsync({
+        task_id: taskId,
+        user_id: user.id,
+        description: data.description,
+        started_at: entryDate.toISOString(),
+        ended_at: addSeconds(entryDate, duration).toISOString(),
+        duration,
+        is_running: false,
+        is_billable: data.is_billable,
+      });
 
       toast({
         title: "Success",
@@ -266,7 +157,6 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
 
       setDialogOpen(false);
       form.reset();
-      fetchTimeEntries();
     } catch (err) {
       console.error('Error adding manual entry:', err);
       toast({
@@ -277,21 +167,30 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
     }
   };
 
-  const deleteEntry = async (entryId: string) => {
+  const toggleBillable = async (entry: TimeEntryRow) => {
     try {
-      const { error } = await supabase
-        .from('time_entries')
-        .delete()
-        .eq('id', entryId);
+      await updateEntry.mutateAsync({
+        entryId: entry.id,
+        fields: { is_billable: !entry.is_billable }
+      });
+    } catch (err) {
+      console.error('Error updating entry:', err);
+      toast({
+        title: "Error",
+        description: "Failed to update time entry",
+        variant: "destructive"
+      });
+    }
+  };
 
-      if (error) throw error;
+  const deleteEntry = async (entryId: string) => {
+    try {
+      await removeEntry.mutateAsync(entryId);
 
       toast({
         title: "Success",
         description: "Time entry deleted successfully",
       });
-      
-      fetchTimeEntries();
     } catch (err) {
       console.error('Error deleting entry:', err);
       toast({
@@ -303,6 +202,7 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
   };
 
   const totalTime = timeEntries.reduce((total, entry) => total + entry.duration, 0);
+  const totalPomodoros = timeEntries.reduce((total, entry) => total + entry.pomodoros, 0);
   const getUserName = (userId: string) => {
     const member = teamMembers.find(m => m.id === userId);
     return member?.name || 'Unknown User';
@@ -327,6 +227,12 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
             {currentEntry && (
               <p className="text-sm text-muted-foreground mb-4">
                 {currentEntry.description}
+                {pomodoro.phase === 'work' && ` • Pomodoro: ${formatDuration(pomodoro.remaining)} left`}
+              </p>
+            )}
+            {runningEntry && !currentEntry && (
+              <p className="text-sm text-muted-foreground mb-4">
+                Your timer is running on {runningEntry.task ? `"${runningEntry.task.title}"` : 'another activity'}. Starting it here will stop that one.
               </p>
             )}
             
@@ -402,6 +308,19 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
                           </FormItem>
                         )}
                       />
+
+                      <FormField
+                        control={form.control}
+                        name="is_billable"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center justify-between">
+                            <FormLabel>Billable</FormLabel>
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
                       
                       <div className="flex justify-end gap-2">
                         <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
@@ -426,6 +345,15 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
               {formatDuration(totalTime)}
             </div>
           </div>
+          {totalPomodoros > 0 && (
+            <div className="flex items-center justify-between px-4">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Target className="h-4 w-4" />
+                <span>Pomodoros Completed</span>
+              </div>
+              <span className="font-semibold">{totalPomodoros}</span>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -446,9 +374,24 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
                   <p className="font-medium truncate">{entry.description}</p>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <Calendar className="h-3 w-3" />
-                    <span>{format(new Date(entry.start_time), 'MMM dd, yyyy')}</span>
+                    <span>{format(new Date(entry.started_at || entry.created_at!), 'MMM dd, yyyy')}</span>
                     <span>•</span>
-                    <span>{getUserName(entry.user_id)}</span>
+                    <span>{getUserName(entry.user_id || '')}</span>
+                    {!entry.is_billable && (
+                      <>
+                        <span>•</span>
+                        <Badge variant="outline">Non-billable</Badge>
+                      </>
+                    )}
+                    {entry.pomodoros > 0 && (
+                      <>
+                        <span>•</span>
+                        <span className="flex items-center gap-1" title="Pomodoros completed">
+                          <Target className="h-3 w-3" />
+                          {entry.pomodoros}
+                        </span>
+                      </>
+                    )}
                     {entry.is_running && (
                       <>
                         <span>•</span>
@@ -477,6 +420,10 @@ export function TimeTracker({ taskId, teamMembers }: TimeTrackerProps) {
                           <Edit className="h-4 w-4 mr-2" />
                           Edit
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => toggleBillable(entry)}>
+                          <DollarSign className="h-4 w-4 mr-2" />
+                          {entry.is_billable ? 'Mark as non-billable' : 'Mark as billable'}
+                        </DropdownMenuItem>
                         <DropdownMenuItem 
                           onClick={() => deleteEntry(entry.id)}
                           className="text-destructive"
@@ -0,0 +1,92 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { VirtualList } from '@/shared/components/common/VirtualList';
+import { LoadingSpinner } from '@/shared/components/common/LoadingSpinner';
+import { useTaskPages } from '@/core/data/hooks/useTaskQueries';
+import type { TaskListQuery } from '@/core/data/repositories/taskRepository';
+import { Task } from './TaskCard';
+
+interface VirtualTaskListProps {
+  query: TaskListQuery;
+  // `tasks` is every loaded task in list order, e.g. for shift-click ranges
+  renderTask: (task: Task, tasks: Task[]) => React.ReactNode;
+  // Lay tasks out in the responsive card grid instead of one per row
+  grid?: boolean;
+  estimateSize?: number;
+  emptyState?: React.ReactNode;
+}
+
+// Card grid columns, matching the md:grid-cols-2 lg:grid-cols-3 breakpoints
+const getGridColumns = () => (window.innerWidth >= 1024 ? 3 : window.innerWidth >= 768 ? 2 : 1);
+
+function useGridColumns(enabled: boolean) {
+  const [columns, setColumns] = useState(() => (enabled ? getGridColumns() : 1));
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleResize = () => setColumns(getGridColumns());
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [enabled]);
+
+  return enabled ? columns : 1;
+}
+
+/**
+ * A server-filtered task list that loads further pages while scrolling and only
+ * renders the rows on screen
+ */
+export function VirtualTaskList({ query, renderTask, grid = false, estimateSize = 180, emptyState }: VirtualTaskListProps) {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useTaskPages(query);
+  const columns = useGridColumns(grid);
+
+  const tasks = useMemo(() => data?.pages.flatMap(page => page.tasks) ?? [], [data]);
+
+  const rows = useMemo(() => {
+    const result: Task[][] = [];
+    for (let i = 0; i < tasks.length; i += columns) {
+      result.push(tasks.slice(i, i + columns));
+    }
+    return result;
+  }, [tasks, columns]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (tasks.length === 0) {
+    return <>{emptyState}</>;
+  }
+
+  return (
+    <div>
+      <VirtualList
+        items={rows}
+        getKey={row => row.map(task => task.id).join(':')}
+        estimateSize={estimateSize}
+        gap={16}
+        onEndReached={hasNextPage && !isFetchingNextPage ? () => fetchNextPage() : undefined}
+        renderItem={row =>
+          grid ? (
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {row.map(task => (
+                <React.Fragment key={task.id}>{renderTask(task, tasks)}</React.Fragment>
+              ))}
+            </div>
+          ) : (
+            renderTask(row[0], tasks)
+          )
+        }
+      />
+      {isFetchingNextPage && (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      )}
+    </div>
+  );
+}
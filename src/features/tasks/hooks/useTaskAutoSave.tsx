@@ -2,21 +2,136 @@ import { useState, useCallback, useRef } from 'react';
 import { supabase } from '@/core/config/client';
 import { useToast } from '@/shared/hooks/use-toast';
 
+/**
+ * Write one or more task fields and notify other views that the task changed.
+ * Shared by inline editing and timeline drag/resize so both go through the same path.
+ */
+export async function updateTaskFields(taskId: string, fields: Record<string, unknown>): Promise<void> {
+  const updated = await updateTaskFieldsIfUnchanged(taskId, fields);
+  if (!updated) throw new Error('Task could not be updated');
+}
+
+/**
+ * Same as updateTaskFields, but when expectedUpdatedAt is given the row is only written
+ * if nobody saved it since that version. Resolves to false when nothing was written.
+ */
+export async function updateTaskFieldsIfUnchanged(
+  taskId: string,
+  fields: Record<string, unknown>,
+  expectedUpdatedAt?: string
+): Promise<boolean> {
+  if (!taskId) throw new Error('Task ID is required');
+
+  // Prepare the update object
+  const updateData: Record<string, any> = {
+    updated_at: new Date().toISOString()
+  };
+
+  Object.entries(fields).forEach(([field, value]) => {
+    updateData[field] = value === 'unassigned' ? null : value;
+  });
+
+  // Special handling for different field types
+  if (fields.due_date) {
+    updateData.due_date = new Date(fields.due_date as string).toISOString();
+  }
+
+  let query = supabase
+    .from('tasks')
+    .update(updateData)
+    .eq('id', taskId);
+
+  if (expectedUpdatedAt) {
+    query = query.eq('updated_at', expectedUpdatedAt);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) throw error;
+  if (!data || data.length === 0) return false;
+
+  // Signal other components that task was updated
+  localStorage.setItem('taskUpdated', Date.now().toString());
+  return true;
+}
+
+/**
+ * A field was saved by someone else after the editor loaded it
+ */
+export interface TaskFieldConflict {
+  field: string;
+  mine: unknown;
+  theirs: unknown;
+  theirUpdatedAt: string;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
 interface UseTaskAutoSaveProps {
   taskId: string;
   onTaskUpdate: () => void;
   debounceMs?: number;
+  /** The task as last loaded; its updated_at guards saves against overwriting newer edits */
+  task?: { updated_at: string } | null;
 }
 
 export function useTaskAutoSave({ 
   taskId, 
   onTaskUpdate, 
-  debounceMs = 500 
+  debounceMs = 500,
+  task
 }: UseTaskAutoSaveProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
+  const [conflict, setConflict] = useState<TaskFieldConflict | null>(null);
   const { toast } = useToast();
   const debounceRef = useRef<NodeJS.Timeout>();
+  // Version and value of each field at the moment editing started
+  const baselinesRef = useRef<Record<string, { value: unknown; updatedAt: string }>>({});
+
+  const markEditStart = useCallback((field: string) => {
+    if (!task) return;
+    baselinesRef.current[field] = {
+      value: (task as Record<string, unknown>)[field],
+      updatedAt: task.updated_at
+    };
+  }, [task]);
+
+  /**
+   * Write a field only if it still holds the value the editor started from.
+   * Edits to other fields in the meantime are not conflicts: the save is retried on the newer version.
+   * Resolves to false when the field was changed by someone else and a conflict is now pending.
+   */
+  const writeGuarded = useCallback(async (field: string, value: unknown, baseline?: { value: unknown; updatedAt: string }): Promise<boolean> => {
+    if (!baseline) {
+      await updateTaskFields(taskId, { [field]: value });
+      return true;
+    }
+
+    let expectedUpdatedAt = baseline.updatedAt;
+    for (let attempt = 0; attempt < 3; attempt++) {
+      if (await updateTaskFieldsIfUnchanged(taskId, { [field]: value }, expectedUpdatedAt)) return true;
+
+      const { data: latest, error } = await supabase
+        .from('tasks')
+        .select('*')
+        .eq('id', taskId)
+        .single();
+
+      if (error) throw error;
+
+      const theirs = (latest as Record<string, unknown>)[field];
+      if (sameValue(theirs, value)) return true;
+      if (!sameValue(theirs, baseline.value)) {
+        setConflict({ field, mine: value, theirs, theirUpdatedAt: latest.updated_at });
+        return false;
+      }
+
+      expectedUpdatedAt = latest.updated_at;
+    }
+
+    throw new Error('ცვლილების შენახვა ვერ მოხერხდა');
+  }, [taskId]);
 
   const saveField = useCallback(async (field: string, value: any): Promise<void> => {
     if (!taskId) throw new Error('Task ID is required');
@@ -24,30 +139,15 @@ export function useTaskAutoSave({
     setIsSaving(true);
     
     try {
-      // Prepare the update object
-      const updateData: Record<string, any> = {
-        [field]: value === 'unassigned' ? null : value,
-        updated_at: new Date().toISOString()
-      };
-
-      // Special handling for different field types
-      if (field === 'due_date' && value) {
-        updateData[field] = new Date(value).toISOString();
-      }
-
-      const { error } = await supabase
-        .from('tasks')
-        .update(updateData)
-        .eq('id', taskId);
-
-      if (error) throw error;
+      const baseline = baselinesRef.current[field]
+        ?? (task ? { value: (task as Record<string, unknown>)[field], updatedAt: task.updated_at } : undefined);
+      const saved = await writeGuarded(field, value, baseline);
+      delete baselinesRef.current[field];
+      if (!saved) return;
 
       setLastSaved(new Date());
       onTaskUpdate();
       
-      // Signal other components that task was updated
-      localStorage.setItem('taskUpdated', Date.now().toString());
-      
       // Show subtle success toast
       toast({
         title: "შეინახა",
@@ -61,7 +161,34 @@ export function useTaskAutoSave({
     } finally {
       setIsSaving(false);
     }
-  }, [taskId, onTaskUpdate, toast]);
+  }, [taskId, onTaskUpdate, toast, task, writeGuarded]);
+
+  /**
+   * Settle a conflict with the chosen value; keeping theirs just reloads the task
+   */
+  const resolveConflict = useCallback(async (value: unknown, keepTheirs = false): Promise<void> => {
+    if (!conflict) return;
+
+    const { field, theirs, theirUpdatedAt } = conflict;
+    setConflict(null);
+
+    if (keepTheirs) {
+      delete baselinesRef.current[field];
+      onTaskUpdate();
+      return;
+    }
+
+    baselinesRef.current[field] = { value: theirs, updatedAt: theirUpdatedAt };
+    try {
+      await saveField(field, value);
+    } catch (error: unknown) {
+      toast({
+        title: "შეცდომა",
+        description: (error as { message?: string })?.message || "ცვლილების შენახვა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+    }
+  }, [conflict, saveField, onTaskUpdate, toast]);
 
   const debouncedSave = useCallback((field: string, value: any): Promise<void> => {
     return new Promise((resolve, reject) => {
@@ -140,6 +267,14 @@ export function useTaskAutoSave({
       if (isNaN(numValue)) return 'ბიუჯეტი უნდა იყოს რიცხვი';
       if (numValue < 0) return 'ბიუჯეტი უნდა იყოს დადებითი რიცხვი';
       return null;
+    },
+
+    estimate: (value: number | string | null | undefined) => {
+      if (value === null || value === undefined || value === '') return null;
+      const numValue = typeof value === 'string' ? parseFloat(value) : value;
+      if (isNaN(numValue)) return 'შეფასება უნდა იყოს რიცხვი';
+      if (numValue <= 0) return 'შეფასება უნდა იყოს ნულზე მეტი';
+      return null;
     }
   };
 
@@ -148,6 +283,9 @@ export function useTaskAutoSave({
     lastSaved,
     saveField: immediateSave,
     debouncedSave,
-    validators
+    validators,
+    markEditStart,
+    conflict,
+    resolveConflict
   };
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import React, { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/shared/hooks/use-toast';
+import { ToastAction } from '@/shared/components/ui/toast';
+import { queryKeys } from '@/core/data/queryKeys';
+import { removeCachedTask } from '@/core/data/taskCache';
+import { useBulkUpdateTasks, useRestoreTasks } from '@/core/data/hooks/useTaskQueries';
+import { TaskRepository, BulkTaskChanges, TaskSnapshot } from '@/core/data/repositories/taskRepository';
+import { TrashService } from '@/services/trashService';
+
+// How long a bulk change can be undone from its toast
+const UNDO_WINDOW = 8000;
+
+/**
+ * Bulk update, archive and delete for selected tasks, each with an undo button in its
+ * toast. Deleted tasks go to the trash, so undoing a delete restores them from there.
+ */
+export function useTaskBulkActions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const bulkUpdate = useBulkUpdateTasks();
+  const restore = useRestoreTasks();
+
+  const undoUpdate = useCallback(async (snapshot: TaskSnapshot[]) => {
+    try {
+      await restore.mutateAsync(snapshot);
+      toast({
+        title: "გაუქმდა",
+        description: `${snapshot.length} დავალება დაბრუნდა წინა მდგომარეობაში`
+      });
+    } catch (error: unknown) {
+      console.error('Error undoing bulk update:', error);
+      toast({
+        title: "შეცდომა",
+        description: "ცვლილების გაუქმება ვერ მოხერხდა",
+        variant: "destructive"
+      });
+    }
+  }, [restore, toast]);
+
+  const updateTasks = useCallback(async (taskIds: string[], changes: BulkTaskChanges): Promise<boolean> => {
+    try {
+      const { previous, blocked } = await bulkUpdate.mutateAsync({ taskIds, changes });
+      const denied = taskIds.length - previous.length - blocked.length;
+
+      const notes = [
+        blocked.length > 0 && `${blocked.length} დაბლოკილია დაუსრულებელი დავალებებით`,
+        denied > 0 && `${denied} ვერ შეიცვალა (არ გაქვთ უფლება)`
+      ].filter(Boolean);
+
+      toast({
+        title: previous.length > 0 ? "წარმატება" : "ცვლილება არ შესრულდა",
+        description: [`${previous.length} დავალება განახლდა`, ...notes].join(', '),
+        variant: previous.length > 0 ? "default" : "destructive",
+        duration: UNDO_WINDOW,
+        action: previous.length > 0 ? (
+          <ToastAction altText="ცვლილების გაუქმება" onClick={() => undoUpdate(previous)}>
+            დაბრუნება
+          </ToastAction>
+        ) : undefined
+      });
+      return previous.length > 0;
+    } catch (error: unknown) {
+      console.error('Error updating tasks:', error);
+      toast({
+        title: "შეცდომა",
+        description: "დავალებების განახლება ვერ მოხერხდა",
+        variant: "destructive"
+      });
+      return false;
+    }
+  }, [bulkUpdate, toast, undoUpdate]);
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.projects.all });
+  }, [queryClient]);
+
+  const undoDelete = useCallback(async (taskIds: string[]) => {
+    const result = await TrashService.restore('task', taskIds);
+    refresh();
+
+    toast(result.success ? {
+      title: "გაუქმდა",
+      description: `${result.count} დავალება აღდგა`
+    } : {
+      title: "შეცდომა",
+      description: result.error,
+      variant: "destructive"
+    });
+  }, [refresh, toast]);
+
+  const deleteTasks = useCallback(async (taskIds: string[]): Promise<boolean> => {
+    taskIds.forEach(taskId => removeCachedTask(queryClient, taskId));
+
+    try {
+      const deleted = await TaskRepository.deleteTasks(taskIds);
+      const denied = taskIds.length - deleted;
+
+      toast({
+        title: deleted > 0 ? "სანაგვეში გადავიდა" : "წაშლა არ შესრულდა",
+        description: [
+          `${deleted} დავალება გადავიდა სანაგვეში`,
+          denied > 0 && `${denied} დავალების წაშლის უფლება არ გაქვთ`
+        ].filter(Boolean).join(', '),
+        variant: deleted > 0 ? "default" : "destructive",
+        duration: UNDO_WINDOW,
+        action: deleted > 0 ? (
+          <ToastAction altText="წაშლის გაუქმება" onClick={() => undoDelete(taskIds)}>
+            დაბრუნება
+          </ToastAction>
+        ) : undefined
+      });
+      return deleted > 0;
+    } catch (error: unknown) {
+      console.error('Error deleting tasks:', error);
+      toast({
+        title: "შეცდომა",
+        description: "დავალებების წაშლა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      refresh();
+    }
+  }, [queryClient, refresh, toast, undoDelete]);
+
+  const archiveTasks = useCallback(async (taskIds: string[], archived: boolean, undoable = true): Promise<boolean> => {
+    try {
+      const changed = await TaskRepository.setTasksArchived(taskIds, archived);
+      const denied = taskIds.length - changed;
+
+      toast({
+        title: changed === 0 ? "ცვლილება არ შესრულდა" : archived ? "დაარქივდა" : "არქივიდან დაბრუნდა",
+        description: [
+          archived ? `${changed} დავალება დაარქივდა` : `${changed} დავალება დაბრუნდა არქივიდან`,
+          denied > 0 && `${denied} ვერ შეიცვალა (არ გაქვთ უფლება)`
+        ].filter(Boolean).join(', '),
+        variant: changed > 0 ? "default" : "destructive",
+        duration: UNDO_WINDOW,
+        action: changed > 0 && undoable ? (
+          <ToastAction altText="ცვლილების გაუქმება" onClick={() => archiveTasks(taskIds, !archived, false)}>
+            დაბრუნება
+          </ToastAction>
+        ) : undefined
+      });
+      return changed > 0;
+    } catch (error: unknown) {
+      console.error('Error archiving tasks:', error);
+      toast({
+        title: "შეცდომა",
+        description: archived ? "დავალებების დაარქივება ვერ მოხერხდა" : "არქივიდან დაბრუნება ვერ მოხერხდა",
+        variant: "destructive"
+      });
+      return false;
+    } finally {
+      refresh();
+    }
+  }, [refresh, toast]);
+
+  return {
+    updateTasks,
+    deleteTasks,
+    archiveTasks,
+    isUpdating: bulkUpdate.isPending || restore.isPending
+  };
+}
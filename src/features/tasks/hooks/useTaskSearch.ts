@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useFullTextSearch } from '@/core/data/hooks/useSearchQueries';
+
+// Enough hits to filter a whole project's board by
+const MATCH_LIMIT = 500;
+
+/**
+ * Ids of the tasks matching a search through their text, comments or attachments.
+ * Null while there is no search or the first results are still loading.
+ */
+export function useTaskSearchMatches(search: string, projectId: string | null = null): Set<string> | null {
+  const term = search.trim();
+  const { data: hits } = useFullTextSearch(term, projectId, MATCH_LIMIT);
+
+  return useMemo(() => {
+    if (!term || !hits) return null;
+    return new Set(hits.filter(hit => hit.task_id).map(hit => hit.task_id!));
+  }, [term, hits]);
+}
@@ -0,0 +1,39 @@
+import { useState, useRef, useCallback } from 'react';
+
+/**
+ * Checkbox selection of tasks. A shift-click selects everything between the last
+ * clicked task and this one, in the order the list shows them.
+ */
+export function useTaskSelection() {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const anchorId = useRef<string | null>(null);
+
+  const toggle = useCallback((taskId: string, range: boolean, orderedIds: string[] = []) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const from = anchorId.current ? orderedIds.indexOf(anchorId.current) : -1;
+      const to = orderedIds.indexOf(taskId);
+
+      if (range && from >= 0 && to >= 0) {
+        orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(id => next.add(id));
+      } else if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+    anchorId.current = taskId;
+  }, []);
+
+  const selectAll = useCallback((taskIds: string[]) => {
+    setSelectedIds(new Set(taskIds));
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelectedIds(prev => (prev.size === 0 ? prev : new Set()));
+    anchorId.current = null;
+  }, []);
+
+  return { selectedIds, toggle, selectAll, clear };
+}
@@ -1,7 +1,25 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useProfile } from '@/contexts/ProfileContext';
+import { queryKeys } from '@/core/data/queryKeys';
+import {
+  useAllTasks,
+  useProjectTasks,
+  useTaskCounts,
+  useTaskVisibility,
+  useUpdateTask
+} from '@/core/data/hooks/useTaskQueries';
+import { findCachedTask } from '@/core/data/taskCache';
+import { useProjects } from '@/core/data/hooks/useProjectQueries';
+import { useProfiles } from '@/core/data/hooks/useMemberQueries';
+import { useStatusesForProjects } from '@/core/data/hooks/useStatusQueries';
+import { useRealtimeCacheSync } from '@/core/data/hooks/useRealtimeCacheSync';
+import type { ProjectRow } from '@/core/data/repositories/projectRepository';
+import type { MemberSummary } from '@/core/data/repositories/memberRepository';
+import type { StatusSummary } from '@/core/data/repositories/statusRepository';
+import { TaskRepository } from '@/core/data/repositories/taskRepository';
+import type { TaskListQuery, TaskStatusCount, BulkTaskChanges } from '@/core/data/repositories/taskRepository';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { Button } from '@/shared/components/ui/button';
 import { Badge } from '@/shared/components/ui/badge';
@@ -13,11 +31,37 @@ import { TaskCard, Task } from '@/features/tasks/components/TaskCard';
 import { TaskForm } from '@/features/tasks/components/TaskForm';
 import { TaskFiltersComponent, TaskFilters } from '@/features/tasks/components/TaskFilters';
 import { TaskViewerSidebar } from '@/features/tasks/components/TaskViewerSidebar';
+import { VirtualTaskList } from '@/features/tasks/components/VirtualTaskList';
+import { TaskSearchHits } from '@/features/tasks/components/TaskSearchHits';
+import { QuickAddTask } from '@/features/tasks/components/QuickAddTask';
+import { BulkActionBar } from '@/features/tasks/components/BulkActionBar';
+import { useTaskSearchMatches } from '@/features/tasks/hooks/useTaskSearch';
+import { useTaskSelection } from '@/features/tasks/hooks/useTaskSelection';
+import { useTaskBulkActions } from '@/features/tasks/hooks/useTaskBulkActions';
+import { matchesTaskSearch } from '@/features/tasks/utils/taskSearch';
 import { KanbanBoard } from '@/features/kanban/components/KanbanBoard';
 import { TasksCalendarView } from '@/features/tasks/components/TasksCalendarView';
+import { TasksTimelineView, TimelineGroupBy } from '@/features/tasks/components/TasksTimelineView';
+import { SavedViewSwitcher } from '@/features/tasks/components/SavedViewSwitcher';
+import { CustomFieldColumns } from '@/features/tasks/components/TaskCustomFields';
 import { StatusManagement } from '@/features/project/components/StatusManagement';
+import { LabelManagement } from '@/features/project/components/LabelManagement';
 import { useToast } from '@/shared/hooks/use-toast';
-import { useParams, useNavigate } from 'react-router-dom';
+import { TaskDependencyService } from '@/services/taskDependencyService';
+import { LabelService, ProjectLabel } from '@/services/labelService';
+import { CustomFieldService, ProjectCustomField } from '@/services/customFieldService';
+import { ProjectPermissionService, ProjectPermissions } from '@/services/projectPermissionService';
+import { SavedTaskView } from '@/services/savedViewService';
+import { TrashService } from '@/services/trashService';
+import {
+  DEFAULT_TASK_FILTERS,
+  TASK_FILTER_PARAM_KEYS,
+  taskFiltersFromParams,
+  taskFiltersToParams,
+  deserializeTaskFilters,
+  mergeSearchParams
+} from '@/features/tasks/utils/filterParams';
+import { useParams, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { 
   Plus, 
   Filter, 
@@ -30,7 +74,9 @@ import {
   List,
   Users,
   ListTodo,
-  Settings
+  Settings,
+  ChartGantt,
+  Tags
 } from 'lucide-react';
 
 interface Project {
@@ -42,122 +88,181 @@ interface Project {
   created_at: string;
 }
 
-interface ProjectWithTasks extends Project {
-  tasks: Task[];
+interface ProjectWithCounts extends Project {
   taskCounts: {
     total: number;
     [status: string]: number; // Dynamic status counts
   };
 }
 
-interface TeamMember {
-  id: string;
-  name: string;
-}
+type ViewMode = 'grouped' | 'list' | 'kanban' | 'calendar' | 'timeline';
+
+const VIEW_MODES: ViewMode[] = ['grouped', 'list', 'kanban', 'calendar', 'timeline'];
+
+const parseViewMode = (value: string | null): ViewMode =>
+  VIEW_MODES.includes(value as ViewMode) ? (value as ViewMode) : 'grouped';
+
+// Query string keys owned by this page, besides the filter keys
+const PAGE_PARAM_KEYS = ['project', 'view', 'group'];
+
+// Stable fallbacks while queries load, so derived values are not recomputed every render
+const EMPTY_PROJECTS: ProjectRow[] = [];
+const EMPTY_TASKS: Task[] = [];
+const EMPTY_MEMBERS: MemberSummary[] = [];
+const EMPTY_STATUSES: Record<string, StatusSummary[]> = {};
+const EMPTY_COUNTS: TaskStatusCount[] = [];
 
 export default function Tasks() {
   const { user } = useAuth();
-  const { profile } = useProfile();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
   const { taskId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A linked assignee (including "all") wins over the default-to-me behaviour
+  const hasLinkedAssignee = useRef(searchParams.has('assignee'));
   
   // Sidebar state
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   
-  const [projects, setProjects] = useState<ProjectWithTasks[]>([]);
-  const [allTasks, setAllTasks] = useState<Task[]>([]);
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
-  const [projectStatuses, setProjectStatuses] = useState<{ [projectId: string]: Array<{ id: string; name: string; color: string }> }>({});
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { data: projectRows = EMPTY_PROJECTS } = useProjects();
+  const { data: teamMembers = EMPTY_MEMBERS } = useProfiles();
+  const projectIds = useMemo(() => projectRows.map(p => p.id), [projectRows]);
+  const { data: projectStatuses = EMPTY_STATUSES } = useStatusesForProjects(projectIds);
+  const [customFieldsByProject, setCustomFieldsByProject] = useState<Record<string, ProjectCustomField[]>>({});
+  const [permissionsByProject, setPermissionsByProject] = useState<Record<string, ProjectPermissions>>({});
+  const [projectLabels, setProjectLabels] = useState<ProjectLabel[]>([]);
+  const updateTask = useUpdateTask();
+  useRealtimeCacheSync();
   const [taskFormOpen, setTaskFormOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [taskLoading, setTaskLoading] = useState(false);
-  const [selectedProject, setSelectedProject] = useState<string>('all');
+  const [selectedProject, setSelectedProject] = useState<string>(() => searchParams.get('project') || 'all');
   const [lastSelectedProject, setLastSelectedProject] = useState<string>('');
-  const [viewMode, setViewMode] = useState<'grouped' | 'list' | 'kanban' | 'calendar'>('grouped');
+  const [viewMode, setViewMode] = useState<ViewMode>(() => parseViewMode(searchParams.get('view')));
+  const [timelineGroupBy, setTimelineGroupBy] = useState<TimelineGroupBy>(() =>
+    searchParams.get('group') === 'assignee' ? 'assignee' : 'project'
+  );
   const [expandedProjects, setExpandedProjects] = useState<Set<string>>(new Set());
   const [statusManagementOpen, setStatusManagementOpen] = useState(false);
+  const [labelManagementOpen, setLabelManagementOpen] = useState(false);
   
-  const [filters, setFilters] = useState<TaskFilters>({
-    search: '',
-    status: 'all',
-    priority: 'all',
-    assignee: 'all',
-    sortBy: 'created_at',
-    sortOrder: 'desc',
-  });
+  const [filters, setFilters] = useState<TaskFilters>(() => taskFiltersFromParams(searchParams));
+
+  // List and grouped views page through the server; the board, calendar and
+  // timeline still work on the whole set of tasks they show
+  const visibleTo = useTaskVisibility();
+  const listQuery: TaskListQuery = useMemo(() => ({
+    filters,
+    visibleTo,
+    projectId: selectedProject === 'all' ? null : selectedProject
+  }), [filters, visibleTo, selectedProject]);
+  const countsQuery: TaskListQuery = useMemo(() => ({ filters: DEFAULT_TASK_FILTERS, visibleTo }), [visibleTo]);
+  const { data: totalCounts = EMPTY_COUNTS, isLoading: loading } = useTaskCounts(countsQuery);
+  const { data: filteredCounts = EMPTY_COUNTS, isSuccess: filteredCountsLoaded } = useTaskCounts(listQuery, viewMode === 'grouped' || viewMode === 'list');
+  const needsAllTasks = viewMode === 'calendar' || viewMode === 'timeline';
+  const { data: allTasks = EMPTY_TASKS, error: tasksError } = useAllTasks(needsAllTasks);
+  const { data: boardTasks = EMPTY_TASKS } = useProjectTasks(
+    viewMode === 'kanban' && selectedProject !== 'all' ? selectedProject : undefined
+  );
+  const viewTasks = viewMode === 'kanban' ? boardTasks : allTasks;
+  const searchMatches = useTaskSearchMatches(
+    needsAllTasks || viewMode === 'kanban' ? filters.search : '',
+    selectedProject === 'all' ? null : selectedProject
+  );
+  // Bulk selection in the list and grouped views; the board keeps its own
+  const selection = useTaskSelection();
+  const bulkActions = useTaskBulkActions();
+
+  useEffect(() => {
+    selection.clear();
+  }, [listQuery, viewMode]);
 
   // Default to current user's tasks when available
   useEffect(() => {
-    if (user && filters.assignee === 'all') {
+    if (user && filters.assignee === 'all' && !hasLinkedAssignee.current) {
       setFilters((prev) => ({ ...prev, assignee: user.id }));
     }
   }, [user]);
 
   useEffect(() => {
     if (!user) return;
-    
-    Promise.all([
-      fetchProjects(),
-      fetchAllTasks(),
-      fetchTeamMembers(),
-      fetchProjectStatuses()
-    ]);
-
-    // Set up realtime subscriptions for all project statuses and tasks
-    const projectStatusesChannel = supabase
-      .channel('all-project-statuses-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'project_statuses'
-        }, 
-        (payload) => {
-          console.log('Project statuses realtime change detected:', payload);
-          // Force complete refresh
-          setTimeout(() => {
-            fetchProjectStatuses();
-            fetchAllTasks();
-          }, 100);
-        }
-      )
-      .subscribe();
-
-    const tasksChannel = supabase
-      .channel('all-tasks-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'tasks'
-        }, 
-        (payload) => {
-          console.log('Tasks realtime change detected:', payload);
-          // Force complete refresh with slight delay
-          setTimeout(() => {
-            fetchAllTasks();
-            fetchProjectStatuses();
-          }, 100);
-        }
-      )
-      .subscribe();
-
-    // Backup polling mechanism in case realtime doesn't work
-    const pollingInterval = setInterval(() => {
-      fetchAllTasks();
-      fetchProjectStatuses();
-    }, 5000); // Poll every 5 seconds
-
-    // Cleanup subscriptions and polling on unmount
-    return () => {
-      supabase.removeChannel(projectStatusesChannel);
-      supabase.removeChannel(tasksChannel);
-      clearInterval(pollingInterval);
+    spawnDueRecurringTasks();
+    archiveDoneTasks();
+    // Nothing else purges expired trash, so opening the task list does it
+    TrashService.purgeExpired();
+  }, [user]);
+
+  useEffect(() => {
+    if (!tasksError) return;
+    console.error('Error fetching tasks:', tasksError);
+    toast({
+      title: "Warning",
+      description: "Could not load all tasks",
+      variant: "destructive"
+    });
+  }, [tasksError]);
+
+  useEffect(() => {
+    if (projectIds.length === 0) return;
+    CustomFieldService.getFieldsForProjects(projectIds).then(setCustomFieldsByProject);
+    ProjectPermissionService.getMyPermissionsForProjects(projectIds).then(setPermissionsByProject);
+    LabelService.getLabelsForProjects(projectIds).then(setProjectLabels);
+  }, [projectIds]);
+
+  // Task counts per status, counted by the server over the visible parent tasks
+  const projects: ProjectWithCounts[] = useMemo(() => projectRows.map(project => {
+    const taskCounts: { total: number; [status: string]: number } = {
+      total: 0,
+      'To Do': 0,
+      'In Progress': 0,
+      'Review': 0,
+      'Done': 0
     };
-  }, [user, profile]);
+    totalCounts.filter(c => c.project_id === project.id).forEach(c => {
+      taskCounts[c.status] = (taskCounts[c.status] || 0) + c.total;
+      taskCounts.total += c.total;
+    });
+    return { ...project, taskCounts };
+  }), [projectRows, totalCounts]);
+
+  // Tasks matching the current filters, per project
+  const filteredTotals = useMemo(() => {
+    const totals: Record<string, number> = {};
+    filteredCounts.forEach(c => {
+      totals[c.project_id] = (totals[c.project_id] || 0) + c.total;
+    });
+    return totals;
+  }, [filteredCounts]);
+
+  // Projects the user may create tasks in, for quick-add and bulk moves
+  const quickAddProjects = useMemo(
+    () => projectRows.filter(project => !project.is_template && permissionsByProject[project.id]?.create_tasks),
+    [projectRows, permissionsByProject]
+  );
+
+  // Statuses offered by the bulk bar: the project's own, or every name in use across projects
+  const bulkStatuses = useMemo(() => {
+    if (selectedProject !== 'all') return projectStatuses[selectedProject] || [];
+    const byName = new Map<string, StatusSummary>();
+    Object.values(projectStatuses).flat().forEach(status => {
+      if (!byName.has(status.name)) byName.set(status.name, status);
+    });
+    return Array.from(byName.values());
+  }, [projectStatuses, selectedProject]);
+
+  const scopedPermissions = selectedProject === 'all'
+    ? Object.values(permissionsByProject)
+    : [permissionsByProject[selectedProject]].filter(Boolean);
+  const canBulkEdit = scopedPermissions.some(p => p.edit_tasks);
+  const canBulkDelete = scopedPermissions.some(p => p.delete_tasks);
+
+  const projectNames = useMemo(
+    () => Object.fromEntries(projectRows.map(project => [project.id, project.name])),
+    [projectRows]
+  );
 
   useEffect(() => {
     // Remember last selected project
@@ -168,36 +273,24 @@ export default function Tasks() {
   }, [selectedProject]);
 
   useEffect(() => {
-    // Listen for task updates from other components
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'taskUpdated') {
-        console.log('Task updated from another component, refreshing...');
-        fetchAllTasks();
-        fetchProjectStatuses();
-        // Clear the flag
-        localStorage.removeItem('taskUpdated');
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    
-    // Also check for local task updates (same tab)
-    const checkTaskUpdates = () => {
-      if (localStorage.getItem('taskUpdated')) {
-        console.log('Local task update detected, refreshing...');
-        fetchAllTasks();
-        fetchProjectStatuses();
-        localStorage.removeItem('taskUpdated');
-      }
-    };
-
-    const localUpdateInterval = setInterval(checkTaskUpdates, 500);
+    // Mirror filters and view settings in the URL so the current view can be linked
+    const values = taskFiltersToParams(filters);
+    if (selectedProject !== 'all') values.project = selectedProject;
+    if (viewMode !== 'grouped') values.view = viewMode;
+    if (timelineGroupBy !== 'project') values.group = timelineGroupBy;
+
+    setSearchParams(
+      prev => mergeSearchParams(prev, [...TASK_FILTER_PARAM_KEYS, ...PAGE_PARAM_KEYS], values),
+      { replace: true }
+    );
+  }, [filters, selectedProject, viewMode, timelineGroupBy]);
 
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      clearInterval(localUpdateInterval);
-    };
-  }, []);
+  const applySavedView = (view: SavedTaskView) => {
+    setFilters(deserializeTaskFilters(view.filters));
+    setSelectedProject(view.project_id || 'all');
+    if (view.view_mode) setViewMode(parseViewMode(view.view_mode));
+    if (view.group_by === 'project' || view.group_by === 'assignee') setTimelineGroupBy(view.group_by);
+  };
 
   useEffect(() => {
     // Load saved project preference
@@ -207,6 +300,23 @@ export default function Tasks() {
     }
   }, []);
 
+  // Requests from the command palette arrive as navigation state
+  useEffect(() => {
+    const request = location.state as { createTaskInProject?: string; assignee?: string } | null;
+    if (!request) return;
+
+    if (request.assignee) {
+      hasLinkedAssignee.current = true;
+      setFilters(prev => ({ ...prev, assignee: request.assignee! }));
+    }
+    if (request.createTaskInProject) {
+      setSelectedProject(request.createTaskInProject);
+      setLastSelectedProject(request.createTaskInProject);
+      openCreateTaskForm();
+    }
+    navigate({ pathname: location.pathname, search: location.search }, { replace: true, state: null });
+  }, [location.state]);
+
   // Handle sidebar for task viewing
   useEffect(() => {
     if (taskId) {
@@ -224,206 +334,33 @@ export default function Tasks() {
     setSidebarOpen(false);
     setSelectedTaskId(null);
     if (taskId) {
-      navigate('/tasks');
+      navigate({ pathname: '/tasks', search: searchParams.toString() });
     }
   };
 
-  const fetchProjects = async () => {
-    try {
-      const { data: projectsData, error: projectsError } = await supabase
-        .from('projects')
-        .select('*')
-        .order('name');
-
-      if (projectsError) throw projectsError;
-
-      const projectsWithTasks: ProjectWithTasks[] = await Promise.all(
-        (projectsData || []).map(async (project) => {
-          try {
-            let taskQuery = supabase
-              .from('tasks')
-              .select('*')
-              .eq('project_id', project.id);
-            
-            // If user is not an admin, show tasks they created OR are assigned to
-            if (profile?.role !== 'admin' && user?.id) {
-              taskQuery = taskQuery.or(`created_by.eq.${user.id},assignee_id.eq.${user.id}`);
-            }
-            
-            const { data: tasksData, error: tasksError } = await taskQuery
-              .order('created_at', { ascending: false });
-
-            if (tasksError) {
-              console.warn(`Error fetching tasks for project ${project.id}:`, tasksError);
-              // Return project with empty tasks array if there's an error
-              return {
-                ...project,
-                tasks: [],
-                taskCounts: {
-                  total: 0,
-                  'To Do': 0,
-                  'In Progress': 0,
-                  'Review': 0,
-                  'Done': 0,
-                }
-              };
-            }
-
-            const tasks = (tasksData || []) as Task[];
-            const parentTasks = tasks.filter(t => !t.is_subtask);
-            
-            // Calculate task counts dynamically based on project statuses
-            const taskCounts: { total: number; [status: string]: number } = { total: parentTasks.length };
-            
-            // Get all unique statuses from tasks
-            const uniqueStatuses = new Set(parentTasks.map(t => t.status));
-            uniqueStatuses.forEach(status => {
-              taskCounts[status] = parentTasks.filter(t => t.status === status).length;
-            });
-            
-            // Ensure default statuses exist with 0 count if no tasks have them
-            const defaultStatuses = ['To Do', 'In Progress', 'Review', 'Done'];
-            defaultStatuses.forEach(status => {
-              if (!taskCounts[status]) {
-                taskCounts[status] = 0;
-              }
-            });
-            
-            return {
-              ...project,
-              tasks,
-              taskCounts
-            };
-          } catch (projectError) {
-            console.warn(`Error processing project ${project.id}:`, projectError);
-            return {
-              ...project,
-              tasks: [],
-              taskCounts: {
-                total: 0,
-                'To Do': 0,
-                'In Progress': 0,
-                'Review': 0,
-                'Done': 0,
-              }
-            };
-          }
-        })
-      );
+  const refreshTasks = () => queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+  const refreshStatuses = () => queryClient.invalidateQueries({ queryKey: queryKeys.statuses.all });
 
-      setProjects(projectsWithTasks);
-    } catch (err: any) {
-      console.error('Error fetching projects:', err);
-      toast({
-        title: "Error",
-        description: "Failed to load projects",
-        variant: "destructive"
-      });
+  // Create the next occurrence of recurring tasks whose date has been reached
+  const spawnDueRecurringTasks = async () => {
+    const { data, error } = await supabase.rpc('spawn_due_recurring_tasks');
+    if (error) {
+      console.error('Error spawning recurring tasks:', error);
+      return;
     }
-  };
-
-  const fetchAllTasks = async () => {
-    try {
-      console.log('Fetching all tasks...');
-      
-      let query = supabase
-        .from('tasks')
-        .select('*');
-      
-      // If user is not an admin, show tasks they created OR are assigned to
-      if (profile?.role !== 'admin' && user?.id) {
-        query = query.or(`created_by.eq.${user.id},assignee_id.eq.${user.id}`);
-      }
-      
-      const { data, error } = await query.order('created_at', { ascending: false });
-
-      if (error) throw error;
-      console.log('Tasks fetched:', data?.length || 0);
-      setAllTasks((data || []) as Task[]);
-    } catch (err: any) {
-      console.error('Error fetching tasks:', err);
-      // Don't crash the app, just show a warning and set empty tasks
-      setAllTasks([]);
-      toast({
-        title: "Warning",
-        description: "Could not load all tasks",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
+    if (data && data > 0) {
+      refreshTasks();
     }
   };
 
-  const fetchTeamMembers = async () => {
+  // Archive done tasks past their project's auto-archive period
+  const archiveDoneTasks = async () => {
     try {
-      const { data: profilesData, error } = await supabase
-        .from('profiles')
-        .select('user_id, display_name, full_name');
-
-      if (error) throw error;
-
-      const members = (profilesData || []).map(profile => ({
-        id: profile.user_id,
-        name: profile.display_name || profile.full_name || 'Unknown User'
-      }));
-
-      setTeamMembers(members);
-    } catch (err: any) {
-      console.error('Error fetching team members:', err);
-    }
-  };
-
-  const fetchProjectStatuses = async () => {
-    try {
-      console.log('Fetching project statuses...');
-      // Get all projects user has access to
-      const { data: projectsData, error: projectsError } = await supabase
-        .from('projects')
-        .select('id')
-        .order('name');
-
-      if (projectsError) throw projectsError;
-
-      const statusesByProject: { [projectId: string]: Array<{ id: string; name: string; color: string }> } = {};
-
-      // Fetch statuses for each project
-      await Promise.all(
-        (projectsData || []).map(async (project) => {
-          try {
-            const { data: statusData, error: statusError } = await supabase
-              .from('project_statuses')
-              .select('id, name, color')
-              .eq('project_id', project.id)
-              .order('position');
-
-            if (statusError || !statusData || statusData.length === 0) {
-              // Use default statuses if no custom ones exist
-              statusesByProject[project.id] = [
-                { id: '1', name: 'To Do', color: '#6b7280' },
-                { id: '2', name: 'In Progress', color: '#0ea5e9' },
-                { id: '3', name: 'Review', color: '#f59e0b' },
-                { id: '4', name: 'Done', color: '#22c55e' }
-              ];
-            } else {
-              statusesByProject[project.id] = statusData;
-            }
-          } catch (err) {
-            console.error(`Error fetching statuses for project ${project.id}:`, err);
-            // Fallback to default statuses
-            statusesByProject[project.id] = [
-              { id: '1', name: 'To Do', color: '#6b7280' },
-              { id: '2', name: 'In Progress', color: '#0ea5e9' },
-              { id: '3', name: 'Review', color: '#f59e0b' },
-              { id: '4', name: 'Done', color: '#22c55e' }
-            ];
-          }
-        })
-      );
-
-      console.log('Project statuses fetched:', Object.keys(statusesByProject).length, 'projects');
-      setProjectStatuses(statusesByProject);
-    } catch (err: any) {
-      console.error('Error fetching project statuses:', err);
+      if (await TaskRepository.archiveDoneTasks() > 0) {
+        refreshTasks();
+      }
+    } catch (err: unknown) {
+      console.error('Error archiving done tasks:', err);
     }
   };
 
@@ -431,13 +368,14 @@ export default function Tasks() {
     setTaskLoading(true);
     try {
       const projectId = taskData.project_id || lastSelectedProject;
+      const { files, label_ids, ...fields } = taskData;
       
       // Status and kanban columns are now unified
       
       const { data: taskResult, error } = await supabase
         .from('tasks')
         .insert({
-          ...taskData,
+          ...fields,
           project_id: projectId,
           created_by: user?.id,
           assignee_id: taskData.assignee_id === 'unassigned' ? null : taskData.assignee_id,
@@ -448,6 +386,10 @@ export default function Tasks() {
 
       if (error) throw error;
 
+      if (label_ids?.length) {
+        await LabelService.setTaskLabels(taskResult.id, label_ids);
+      }
+
       // Log activity
       if (projectId) {
         await supabase.rpc('log_project_activity', {
@@ -466,9 +408,8 @@ export default function Tasks() {
       });
 
       setTaskFormOpen(false);
-      fetchProjects();
-      fetchAllTasks();
-      fetchProjectStatuses();
+      refreshTasks();
+      refreshStatuses();
     } catch (err: any) {
       console.error('Error creating task:', err);
       toast({
@@ -486,18 +427,24 @@ export default function Tasks() {
     
     setTaskLoading(true);
     try {
+      const { files, label_ids, ...fields } = taskData;
+
       // Status and kanban columns are now unified
       
       const { error } = await supabase
         .from('tasks')
         .update({
-          ...taskData,
+          ...fields,
           assignee_id: taskData.assignee_id === 'unassigned' ? null : taskData.assignee_id
         })
         .eq('id', editingTask.id);
 
       if (error) throw error;
 
+      if (label_ids) {
+        await LabelService.setTaskLabels(editingTask.id, label_ids);
+      }
+
       // Log activity
       await supabase.rpc('log_project_activity', {
         p_project_id: editingTask.project_id,
@@ -515,9 +462,8 @@ export default function Tasks() {
 
       setTaskFormOpen(false);
       setEditingTask(null);
-      fetchProjects();
-      fetchAllTasks();
-      fetchProjectStatuses();
+      refreshTasks();
+      refreshStatuses();
     } catch (err: any) {
       console.error('Error updating task:', err);
       toast({
@@ -531,70 +477,40 @@ export default function Tasks() {
   };
 
   const handleDeleteTask = async (taskId: string) => {
-    try {
-      const task = allTasks.find(t => t.id === taskId);
-      
-      // If task doesn't exist in our current list, it might already be deleted from modal
-      if (!task) {
-        await Promise.all([fetchProjects(), fetchAllTasks(), fetchProjectStatuses()]);
-        return;
-      }
-      
-      // If the sidebar is open for this task, close it first
-      if (selectedTaskId === taskId && sidebarOpen) {
-        handleSidebarClose();
-      }
-      
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
-
-      if (error) throw error;
-
-      // Log activity
-      if (task) {
-        await supabase.rpc('log_project_activity', {
-          p_project_id: task.project_id,
-          p_user_id: user?.id,
-          p_activity_type: 'task_deleted',
-          p_description: `Deleted task "${task.title}"`,
-          p_entity_type: 'task',
-          p_entity_id: taskId
-        });
-      }
-
-      toast({
-        title: "Success",
-        description: "Task deleted successfully",
-      });
-
-      // Refresh data
-      await Promise.all([fetchProjects(), fetchAllTasks(), fetchProjectStatuses()]);
-    } catch (err: any) {
-      console.error('Error deleting task:', err);
-      toast({
-        title: "Error",
-        description: "Failed to delete task",
-        variant: "destructive"
-      });
+    const task = findCachedTask(queryClient, taskId);
+    
+    // If task doesn't exist in our current list, it might already be deleted from modal
+    if (!task) {
+      await Promise.all([refreshTasks(), refreshStatuses()]);
+      return;
     }
+    
+    // If the sidebar is open for this task, close it first
+    if (selectedTaskId === taskId && sidebarOpen) {
+      handleSidebarClose();
+    }
+    
+    // Goes to the trash, with an undo button in the toast
+    await bulkActions.deleteTasks([taskId]);
+    await refreshStatuses();
   };
 
   const handleStatusChange = async (taskId: string, status: Task['status']) => {
     try {
-      const task = allTasks.find(t => t.id === taskId);
+      const task = findCachedTask(queryClient, taskId);
+
+      const check = await TaskDependencyService.checkStatusChange(taskId, status);
+      if (!check.allowed) {
+        toast({
+          title: "სტატუსის შეცვლა შეუძლებელია",
+          description: check.warning,
+          variant: "destructive"
+        });
+        return;
+      }
       
       // Status and kanban columns are now unified
-      
-      const { error } = await supabase
-        .from('tasks')
-        .update({ 
-          status
-        })
-        .eq('id', taskId);
-
-      if (error) throw error;
+      await updateTask.mutateAsync({ taskId, fields: { status } });
 
       // Log activity
       if (task) {
@@ -608,8 +524,12 @@ export default function Tasks() {
         });
       }
 
-      fetchProjects();
-      fetchAllTasks();
+      if (check.warning) {
+        toast({
+          title: "გაფრთხილება",
+          description: check.warning
+        });
+      }
     } catch (err: any) {
       console.error('Error updating task status:', err);
       toast({
@@ -620,6 +540,37 @@ export default function Tasks() {
     }
   };
 
+  const handleSelectAll = async () => {
+    try {
+      selection.selectAll(await TaskRepository.listTaskIds(listQuery));
+    } catch (err: unknown) {
+      console.error('Error selecting tasks:', err);
+      toast({
+        title: "შეცდომა",
+        description: "დავალებების არჩევა ვერ მოხერხდა",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleBulkUpdate = (changes: BulkTaskChanges) => {
+    bulkActions.updateTasks([...selection.selectedIds], changes);
+  };
+
+  const handleBulkArchive = async (archived: boolean) => {
+    if (await bulkActions.archiveTasks([...selection.selectedIds], archived)) {
+      selection.clear();
+    }
+  };
+
+  const handleBulkDelete = () => {
+    if (selectedTaskId && selection.selectedIds.has(selectedTaskId) && sidebarOpen) {
+      handleSidebarClose();
+    }
+    bulkActions.deleteTasks([...selection.selectedIds]);
+    selection.clear();
+  };
+
   const openCreateTaskForm = () => {
     setEditingTask(null);
     setTaskFormOpen(true);
@@ -642,14 +593,18 @@ export default function Tasks() {
 
   // Get filtered tasks based on selected project and filters
   const getFilteredTasks = () => {
-    let tasks = selectedProject === 'all' ? allTasks : allTasks.filter(t => t.project_id === selectedProject);
+    let tasks = selectedProject === 'all' ? viewTasks : viewTasks.filter(t => t.project_id === selectedProject);
     
     // Apply filters
+    // Archived tasks, and across projects the tasks of archived ones, only show when asked for
+    if (filters.archived === 'only') {
+      tasks = tasks.filter(task => task.archived_at);
+    } else if (filters.archived !== 'all') {
+      tasks = tasks.filter(task => !task.archived_at && (selectedProject !== 'all' || projectIds.includes(task.project_id)));
+    }
+
     if (filters.search) {
-      tasks = tasks.filter(task =>
-        task.title.toLowerCase().includes(filters.search.toLowerCase()) ||
-        task.description?.toLowerCase().includes(filters.search.toLowerCase())
-      );
+      tasks = tasks.filter(task => matchesTaskSearch(task, filters.search, searchMatches));
     }
 
     if (filters.status && filters.status !== 'all') {
@@ -660,6 +615,10 @@ export default function Tasks() {
       tasks = tasks.filter(task => task.priority === filters.priority);
     }
 
+    if (filters.tag && filters.tag !== 'all') {
+      tasks = tasks.filter(task => task.labels?.some(label => label.name === filters.tag));
+    }
+
     if (filters.assignee && filters.assignee !== 'all') {
       if (filters.assignee === 'unassigned') {
         tasks = tasks.filter(task => !task.assignee_id);
@@ -712,17 +671,47 @@ export default function Tasks() {
 
   // Calculate overall task counts
   const overallTaskCounts = React.useMemo(() => {
-    const tasks = selectedProject === 'all' ? allTasks : allTasks.filter(t => t.project_id === selectedProject);
-    const parentTasks = tasks.filter(t => !t.is_subtask);
-    
+    const counts = selectedProject === 'all' ? totalCounts : totalCounts.filter(c => c.project_id === selectedProject);
+    const countStatus = (status: string) =>
+      counts.filter(c => c.status === status).reduce((sum, c) => sum + c.total, 0);
+
     return {
-      total: parentTasks.length,
-      todo: parentTasks.filter(t => t.status === 'todo').length,
-      inProgress: parentTasks.filter(t => t.status === 'in-progress').length,
-      review: parentTasks.filter(t => t.status === 'review').length,
-      done: parentTasks.filter(t => t.status === 'done').length,
+      total: counts.reduce((sum, c) => sum + c.total, 0),
+      todo: countStatus('todo'),
+      inProgress: countStatus('in-progress'),
+      review: countStatus('review'),
+      done: countStatus('done'),
     };
-  }, [allTasks, selectedProject]);
+  }, [totalCounts, selectedProject]);
+
+  // Label names in scope, used by the tag filter
+  const availableTags = React.useMemo(() => {
+    const labels = selectedProject === 'all' ? projectLabels : projectLabels.filter(l => l.project_id === selectedProject);
+    return Array.from(new Set(labels.map(label => label.name))).sort((a, b) => a.localeCompare(b));
+  }, [projectLabels, selectedProject]);
+
+  const renderTaskCard = (task: Task, listTasks: Task[]) => (
+    <TaskCard
+      task={task}
+      onEdit={openEditTaskForm}
+      onDelete={handleDeleteTask}
+      onArchive={(taskId, archived) => bulkActions.archiveTasks([taskId], archived)}
+      onStatusChange={handleStatusChange}
+      assigneeName={teamMembers.find(m => m.id === task.assignee_id)?.name}
+      creatorName={teamMembers.find(m => m.id === task.created_by)?.name}
+      teamMembers={teamMembers}
+      projectStatuses={projectStatuses[task.project_id] || []}
+      onTasksChange={() => {
+        refreshTasks();
+      }}
+      onTaskClick={handleTaskClick}
+      permissions={permissionsByProject[task.project_id]}
+      selected={selection.selectedIds.has(task.id)}
+      onSelect={canBulkEdit || canBulkDelete
+        ? (id, range) => selection.toggle(id, range, listTasks.map(t => t.id))
+        : undefined}
+    />
+  );
 
   if (loading) {
     return (
@@ -768,7 +757,18 @@ export default function Tasks() {
               </Select>
 
               {/* View Mode Toggle */}
-              <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as any)}>
+              <SavedViewSwitcher
+                scope="tasks"
+                projectId={selectedProject !== 'all' ? selectedProject : null}
+                getCurrentState={() => ({
+                  filters: { ...filters },
+                  view_mode: viewMode,
+                  group_by: timelineGroupBy
+                })}
+                onApply={applySavedView}
+              />
+
+              <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as ViewMode)}>
                 <TabsList>
                   <TabsTrigger value="grouped">
                     <Grid3X3 className="h-4 w-4" />
@@ -782,6 +782,9 @@ export default function Tasks() {
                   <TabsTrigger value="calendar">
                     <Calendar className="h-4 w-4" />
                   </TabsTrigger>
+                  <TabsTrigger value="timeline">
+                    <ChartGantt className="h-4 w-4" />
+                  </TabsTrigger>
                 </TabsList>
               </Tabs>
 
@@ -796,6 +799,16 @@ export default function Tasks() {
                     სტატუსების მართვა
                   </Button>
                 )}
+                {selectedProject !== 'all' && (
+                  <Button 
+                    variant="outline" 
+                    onClick={() => setLabelManagementOpen(true)}
+                    size="sm"
+                  >
+                    <Tags className="h-4 w-4 mr-2" />
+                    ლეიბლების მართვა
+                  </Button>
+                )}
                 <Button onClick={openCreateTaskForm}>
                   <Plus className="h-4 w-4 mr-2" />
                   ახალი დავალება
@@ -808,12 +821,21 @@ export default function Tasks() {
 
       {/* Content */}
       <div className="px-6 py-6 space-y-6">
+        {(selectedProject === 'all' ? quickAddProjects.length > 0 : permissionsByProject[selectedProject]?.create_tasks) && (
+          <QuickAddTask
+            key={selectedProject}
+            projectId={selectedProject === 'all' ? undefined : selectedProject}
+            projects={quickAddProjects}
+          />
+        )}
+
         {/* Filters */}
         <TaskFiltersComponent
           filters={filters}
           onFiltersChange={setFilters}
           teamMembers={teamMembers}
           taskCounts={overallTaskCounts}
+          availableTags={availableTags}
           kanbanColumns={
             selectedProject !== 'all' && projectStatuses[selectedProject]
               ? projectStatuses[selectedProject].map(status => ({
@@ -825,14 +847,21 @@ export default function Tasks() {
           }
         />
 
+        <TaskSearchHits
+          search={filters.search}
+          projectId={selectedProject === 'all' ? null : selectedProject}
+          projectNames={projectNames}
+          onOpenTask={handleTaskClick}
+        />
+
         {/* Task Views */}
         {viewMode === 'grouped' && (
           <div className="space-y-6">
             {projects.map((project) => {
-              const projectTasks = getFilteredTasks().filter(t => t.project_id === project.id && !t.is_subtask);
+              const projectTaskCount = filteredTotals[project.id] || 0;
               
               if (selectedProject !== 'all' && selectedProject !== project.id) return null;
-              if (projectTasks.length === 0 && selectedProject === 'all') return null;
+              if (projectTaskCount === 0 && selectedProject === 'all') return null;
 
               return (
                 <Card key={project.id}>
@@ -862,7 +891,7 @@ export default function Tasks() {
                           
                           <div className="flex items-center gap-2">
                             <Badge variant="outline">
-                              {projectTasks.length} tasks
+                              {projectTaskCount} tasks
                             </Badge>
                             <Badge variant="secondary">
                               {project.taskCounts['Done'] || 0}/{project.taskCounts.total} completed
@@ -874,32 +903,16 @@ export default function Tasks() {
                     
                     <CollapsibleContent>
                       <CardContent className="pt-0">
-                        {projectTasks.length > 0 ? (
-                          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                            {projectTasks.map((task) => (
-                              <TaskCard
-                                key={task.id}
-                                task={task}
-                                onEdit={openEditTaskForm}
-                                onDelete={handleDeleteTask}
-                                onStatusChange={handleStatusChange}
-                                assigneeName={teamMembers.find(m => m.id === task.assignee_id)?.name}
-                                creatorName={teamMembers.find(m => m.id === task.created_by)?.name}
-                                teamMembers={teamMembers}
-                                projectStatuses={projectStatuses[task.project_id] || []}
-                                onTasksChange={() => {
-                                  fetchProjects();
-                                  fetchAllTasks();
-                                }}
-                                onTaskClick={handleTaskClick}
-                              />
-                            ))}
-                          </div>
-                        ) : (
-                          <div className="text-center py-8">
-                            <p className="text-muted-foreground">No tasks in this project</p>
-                          </div>
-                        )}
+                        <VirtualTaskList
+                          query={{ ...listQuery, projectId: project.id }}
+                          grid
+                          renderTask={renderTaskCard}
+                          emptyState={
+                            <div className="text-center py-8">
+                              <p className="text-muted-foreground">No tasks in this project</p>
+                            </div>
+                          }
+                        />
                       </CardContent>
                     </CollapsibleContent>
                   </Collapsible>
@@ -911,38 +924,34 @@ export default function Tasks() {
 
         {viewMode === 'list' && (
           <div className="space-y-4">
-            {getFilteredTasks().filter(t => !t.is_subtask).map((task) => {
-              const project = projects.find(p => p.id === task.project_id);
-              return (
-                <div key={task.id} className="relative">
-                  {/* Project indicator */}
-                  <div className="absolute left-0 top-0 bottom-0 w-1 rounded-full bg-primary" />
-                  <div className="ml-4">
-                    <div className="flex items-center gap-2 mb-2">
-                      <FolderOpen className="h-4 w-4 text-muted-foreground" />
-                      <span className="text-sm text-muted-foreground">
-                        {project?.name}
-                      </span>
+            <VirtualTaskList
+              query={listQuery}
+              estimateSize={210}
+              renderTask={(task, listTasks) => {
+                const project = projects.find(p => p.id === task.project_id);
+                return (
+                  <div className="relative">
+                    {/* Project indicator */}
+                    <div className="absolute left-0 top-0 bottom-0 w-1 rounded-full bg-primary" />
+                    <div className="ml-4">
+                      <div className="flex items-center gap-2 mb-2">
+                        <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm text-muted-foreground">
+                          {project?.name}
+                        </span>
+                        <CustomFieldColumns
+                          fields={(customFieldsByProject[task.project_id] || []).filter(f => f.show_in_list)}
+                          values={task.custom_fields}
+                          teamMembers={teamMembers}
+                          className="ml-auto justify-end"
+                        />
+                      </div>
+                      {renderTaskCard(task, listTasks)}
                     </div>
-                    <TaskCard
-                      task={task}
-                      onEdit={openEditTaskForm}
-                      onDelete={handleDeleteTask}
-                      onStatusChange={handleStatusChange}
-                      assigneeName={teamMembers.find(m => m.id === task.assignee_id)?.name}
-                      creatorName={teamMembers.find(m => m.id === task.created_by)?.name}
-                      teamMembers={teamMembers}
-                      projectStatuses={projectStatuses[task.project_id] || []}
-                      onTasksChange={() => {
-                        fetchProjects();
-                        fetchAllTasks();
-                      }}
-                      onTaskClick={handleTaskClick}
-                    />
                   </div>
-                </div>
-              );
-            })}
+                );
+              }}
+            />
           </div>
         )}
 
@@ -956,9 +965,8 @@ export default function Tasks() {
                 onTaskEdit={openEditTaskForm}
                 onCreateTask={openCreateTaskForm}
                 onTasksChange={() => {
-                  fetchProjects();
-                  fetchAllTasks();
-                  fetchProjectStatuses();
+                  refreshTasks();
+                  refreshStatuses();
                 }}
                 onTaskClick={handleTaskClick}
               />
@@ -985,8 +993,40 @@ export default function Tasks() {
           />
         )}
 
+        {viewMode === 'timeline' && (
+          <TasksTimelineView
+            tasks={getFilteredTasks()}
+            teamMembers={teamMembers}
+            projects={projects}
+            groupBy={timelineGroupBy}
+            onGroupByChange={setTimelineGroupBy}
+            onTaskClick={handleTaskClick}
+            onTasksChange={() => {
+              refreshTasks();
+            }}
+          />
+        )}
+
+        {(viewMode === 'grouped' || viewMode === 'list') && (
+          <BulkActionBar
+            selectedCount={selection.selectedIds.size}
+            matchingCount={filteredCounts.reduce((sum, c) => sum + c.total, 0)}
+            onSelectAll={handleSelectAll}
+            onClear={selection.clear}
+            onUpdate={handleBulkUpdate}
+            onDelete={canBulkDelete ? handleBulkDelete : undefined}
+            onArchive={canBulkEdit && filters.archived !== 'only' ? () => handleBulkArchive(true) : undefined}
+            onUnarchive={canBulkEdit && filters.archived !== 'hide' ? () => handleBulkArchive(false) : undefined}
+            statuses={bulkStatuses}
+            members={teamMembers}
+            projects={quickAddProjects}
+            labels={selectedProject === 'all' ? [] : projectLabels.filter(label => label.project_id === selectedProject)}
+            busy={bulkActions.isUpdating}
+          />
+        )}
+
         {/* Empty state */}
-        {getFilteredTasks().length === 0 && viewMode !== 'kanban' && viewMode !== 'calendar' && (
+        {(viewMode === 'grouped' || viewMode === 'list') && filteredCountsLoaded && filteredCounts.length === 0 && (
           <div className="text-center py-12">
             <div className="w-24 h-24 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
               <ListTodo className="h-12 w-12 text-muted-foreground" />
@@ -1030,12 +1070,12 @@ export default function Tasks() {
         projectStatuses={
           selectedTaskId 
             ? (() => {
-                const task = filteredTasks.find(t => t.id === selectedTaskId);
+                const task = findCachedTask(queryClient, selectedTaskId);
                 return task ? projectStatuses[task.project_id] || [] : [];
               })()
             : []
         }
-        onProjectStatusesUpdate={fetchProjectStatuses}
+        onProjectStatusesUpdate={refreshStatuses}
       />
 
       {/* Status Management Dialog */}
@@ -1045,12 +1085,21 @@ export default function Tasks() {
           onOpenChange={setStatusManagementOpen}
           projectId={selectedProject}
           onSuccess={() => {
-            fetchProjectStatuses();
-            fetchProjects();
-            fetchAllTasks();
+            refreshStatuses();
+            refreshTasks();
           }}
         />
       )}
+
+      {/* Label Management Dialog */}
+      {selectedProject !== 'all' && (
+        <LabelManagement
+          open={labelManagementOpen}
+          onOpenChange={setLabelManagementOpen}
+          projectId={selectedProject}
+          onSuccess={refreshTasks}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,77 @@
+import { format, parseISO, isValid } from 'date-fns';
+import type { ProjectCustomField, CustomFieldValue, CustomFieldType } from '@/services/customFieldService';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'ტექსტი',
+  number: 'რიცხვი',
+  date: 'თარიღი',
+  select: 'არჩევანი',
+  user: 'მომხმარებელი',
+  checkbox: 'მონიშვნა',
+};
+
+export function isEmptyCustomFieldValue(value: CustomFieldValue | undefined): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Human readable value for chips and list columns
+ */
+export function formatCustomFieldValue(
+  field: ProjectCustomField,
+  value: CustomFieldValue | undefined,
+  teamMembers: Array<{ id: string; name: string }> = []
+): string {
+  if (isEmptyCustomFieldValue(value)) return '—';
+
+  switch (field.field_type) {
+    case 'checkbox':
+      return value === true ? 'კი' : 'არა';
+    case 'date': {
+      const date = parseISO(String(value));
+      return isValid(date) ? format(date, 'MMM dd, yyyy') : String(value);
+    }
+    case 'user':
+      return teamMembers.find(m => m.id === value)?.name || 'უცნობი მომხმარებელი';
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Whether a task's value satisfies a filter on the field.
+ * Text matches by substring; other types match exactly; checkbox filters are "true"/"false".
+ */
+export function matchesCustomFieldFilter(
+  field: ProjectCustomField,
+  value: CustomFieldValue | undefined,
+  filter: string
+): boolean {
+  if (!filter) return true;
+
+  switch (field.field_type) {
+    case 'text':
+      return String(value ?? '').toLowerCase().includes(filter.toLowerCase());
+    case 'number':
+      return !isEmptyCustomFieldValue(value) && Number(value) === Number(filter);
+    case 'checkbox':
+      return (value === true) === (filter === 'true');
+    case 'user':
+      return filter === 'unassigned' ? isEmptyCustomFieldValue(value) : value === filter;
+    default:
+      return String(value ?? '') === filter;
+  }
+}
+
+/**
+ * Human readable value of an active filter, for the filter badges
+ */
+export function formatCustomFieldFilter(
+  field: ProjectCustomField,
+  filter: string,
+  teamMembers: Array<{ id: string; name: string }> = []
+): string {
+  if (field.field_type === 'checkbox') return filter === 'true' ? 'კი' : 'არა';
+  if (field.field_type === 'user' && filter === 'unassigned') return 'Unassigned';
+  return formatCustomFieldValue(field, filter, teamMembers);
+}
@@ -0,0 +1,230 @@
+import { format, isValid, parseISO } from 'date-fns';
+import type { TaskFilters } from '../components/TaskFilters';
+import type { TaskFilters as BoardFilters } from '../components/AdvancedTaskFilters';
+
+// Filter state is kept in the query string so a view can be linked to a colleague.
+// Only values that differ from the defaults are written, to keep links short.
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  search: '',
+  status: 'all',
+  priority: 'all',
+  assignee: 'all',
+  sortBy: 'created_at',
+  sortOrder: 'desc',
+  tag: 'all',
+  archived: 'hide',
+};
+
+export const DEFAULT_BOARD_FILTERS: BoardFilters = {
+  search: '',
+  assignees: [],
+  priorities: [],
+  statuses: [],
+  dateRange: { from: null, to: null },
+  tags: [],
+  hasFiles: null,
+  hasComments: null,
+  overdue: null,
+  archived: null,
+  customFields: {},
+};
+
+const TASK_FILTER_PARAMS: Record<keyof TaskFilters, string> = {
+  search: 'q',
+  status: 'status',
+  priority: 'priority',
+  assignee: 'assignee',
+  sortBy: 'sort',
+  sortOrder: 'order',
+  tag: 'tag',
+  archived: 'archived',
+};
+
+export const TASK_FILTER_PARAM_KEYS = Object.values(TASK_FILTER_PARAMS);
+
+const BOARD_LIST_PARAMS = {
+  assignees: 'b_assignees',
+  priorities: 'b_priorities',
+  statuses: 'b_statuses',
+  tags: 'b_tags',
+} as const;
+
+const BOARD_FLAG_PARAMS = {
+  hasFiles: 'b_files',
+  hasComments: 'b_comments',
+  overdue: 'b_overdue',
+  archived: 'b_archived',
+} as const;
+
+// Custom field filters are written as b_cf_<fieldId>=<value>
+const BOARD_CUSTOM_FIELD_PREFIX = 'b_cf_';
+
+export const BOARD_FILTER_PARAM_KEYS = [
+  'b_q', 'b_from', 'b_to',
+  ...Object.values(BOARD_LIST_PARAMS),
+  ...Object.values(BOARD_FLAG_PARAMS),
+  `${BOARD_CUSTOM_FIELD_PREFIX}*`,
+];
+
+/**
+ * Write the given values into a copy of the params, dropping the managed keys first.
+ * A managed key ending in "*" drops every key with that prefix.
+ */
+export function mergeSearchParams(
+  params: URLSearchParams,
+  managedKeys: string[],
+  values: Record<string, string>
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  managedKeys.forEach(key => {
+    if (key.endsWith('*')) {
+      const prefix = key.slice(0, -1);
+      Array.from(next.keys()).filter(k => k.startsWith(prefix)).forEach(k => next.delete(k));
+    } else {
+      next.delete(key);
+    }
+  });
+  Object.entries(values).forEach(([key, value]) => next.set(key, value));
+  return next;
+}
+
+export function taskFiltersToParams(filters: TaskFilters): Record<string, string> {
+  const values: Record<string, string> = {};
+  (Object.keys(TASK_FILTER_PARAMS) as Array<keyof TaskFilters>).forEach(key => {
+    const value = filters[key];
+    // The assignee is always written: an explicit "all" must survive the default-to-me behaviour
+    if (value && (key === 'assignee' || value !== DEFAULT_TASK_FILTERS[key])) {
+      values[TASK_FILTER_PARAMS[key]] = String(value);
+    }
+  });
+  return values;
+}
+
+export function taskFiltersFromParams(params: URLSearchParams): TaskFilters {
+  const filters = { ...DEFAULT_TASK_FILTERS };
+  (Object.keys(TASK_FILTER_PARAMS) as Array<keyof TaskFilters>).forEach(key => {
+    const value = params.get(TASK_FILTER_PARAMS[key]);
+    if (value !== null) {
+      (filters as Record<string, string>)[key] = value;
+    }
+  });
+  if (filters.sortOrder !== 'asc' && filters.sortOrder !== 'desc') {
+    filters.sortOrder = DEFAULT_TASK_FILTERS.sortOrder;
+  }
+  return filters;
+}
+
+const toDateParam = (date: Date | null) => (date ? format(date, 'yyyy-MM-dd') : null);
+
+const fromDateParam = (value: unknown): Date | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+const fromFlag = (value: unknown): boolean | null => (value === true || value === 'true' ? true : null);
+
+export function boardFiltersToParams(filters: BoardFilters): Record<string, string> {
+  const values: Record<string, string> = {};
+  if (filters.search) values.b_q = filters.search;
+
+  (Object.keys(BOARD_LIST_PARAMS) as Array<keyof typeof BOARD_LIST_PARAMS>).forEach(key => {
+    if (filters[key].length > 0) values[BOARD_LIST_PARAMS[key]] = filters[key].join(',');
+  });
+
+  const from = toDateParam(filters.dateRange.from);
+  const to = toDateParam(filters.dateRange.to);
+  if (from) values.b_from = from;
+  if (to) values.b_to = to;
+
+  (Object.keys(BOARD_FLAG_PARAMS) as Array<keyof typeof BOARD_FLAG_PARAMS>).forEach(key => {
+    if (filters[key] === true) values[BOARD_FLAG_PARAMS[key]] = 'true';
+  });
+
+  Object.entries(filters.customFields).forEach(([fieldId, value]) => {
+    if (value) values[BOARD_CUSTOM_FIELD_PREFIX + fieldId] = value;
+  });
+
+  return values;
+}
+
+export function boardFiltersFromParams(params: URLSearchParams): BoardFilters {
+  const list = (key: string) => (params.get(key) || '').split(',').filter(Boolean);
+  const customFields: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(BOARD_CUSTOM_FIELD_PREFIX) && value) {
+      customFields[key.slice(BOARD_CUSTOM_FIELD_PREFIX.length)] = value;
+    }
+  });
+
+  return {
+    search: params.get('b_q') || '',
+    assignees: list(BOARD_LIST_PARAMS.assignees),
+    priorities: list(BOARD_LIST_PARAMS.priorities),
+    statuses: list(BOARD_LIST_PARAMS.statuses),
+    tags: list(BOARD_LIST_PARAMS.tags),
+    dateRange: {
+      from: fromDateParam(params.get('b_from')),
+      to: fromDateParam(params.get('b_to')),
+    },
+    hasFiles: fromFlag(params.get(BOARD_FLAG_PARAMS.hasFiles)),
+    hasComments: fromFlag(params.get(BOARD_FLAG_PARAMS.hasComments)),
+    overdue: fromFlag(params.get(BOARD_FLAG_PARAMS.overdue)),
+    archived: fromFlag(params.get(BOARD_FLAG_PARAMS.archived)),
+    customFields,
+  };
+}
+
+/**
+ * Board filters hold Date objects; saved views store them as yyyy-MM-dd strings
+ */
+export function serializeBoardFilters(filters: BoardFilters): Record<string, unknown> {
+  return {
+    ...filters,
+    dateRange: {
+      from: toDateParam(filters.dateRange.from),
+      to: toDateParam(filters.dateRange.to),
+    },
+  };
+}
+
+export function deserializeBoardFilters(value: Record<string, unknown>): BoardFilters {
+  const stringList = (key: string) =>
+    Array.isArray(value[key]) ? (value[key] as unknown[]).filter((v): v is string => typeof v === 'string') : [];
+  const dateRange = (value.dateRange || {}) as { from?: unknown; to?: unknown };
+  const customFields = Object.fromEntries(
+    Object.entries((value.customFields || {}) as Record<string, unknown>)
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+  );
+
+  return {
+    search: typeof value.search === 'string' ? value.search : '',
+    assignees: stringList('assignees'),
+    priorities: stringList('priorities'),
+    statuses: stringList('statuses'),
+    tags: stringList('tags'),
+    dateRange: {
+      from: fromDateParam(dateRange.from),
+      to: fromDateParam(dateRange.to),
+    },
+    hasFiles: fromFlag(value.hasFiles),
+    hasComments: fromFlag(value.hasComments),
+    overdue: fromFlag(value.overdue),
+    archived: fromFlag(value.archived),
+    customFields,
+  };
+}
+
+export function deserializeTaskFilters(value: Record<string, unknown>): TaskFilters {
+  const filters = { ...DEFAULT_TASK_FILTERS };
+  (Object.keys(DEFAULT_TASK_FILTERS) as Array<keyof TaskFilters>).forEach(key => {
+    if (typeof value[key] === 'string') {
+      (filters as Record<string, string>)[key] = value[key] as string;
+    }
+  });
+  if (filters.sortOrder !== 'asc' && filters.sortOrder !== 'desc') {
+    filters.sortOrder = DEFAULT_TASK_FILTERS.sortOrder;
+  }
+  return filters;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuickAdd } from './quickAdd';
+
+// A Wednesday
+const now = new Date(2025, 10, 19, 9, 0);
+
+const parse = (text: string) => parseQuickAdd(text, { now });
+
+describe('parseQuickAdd', () => {
+  describe('words that only look like dates stay in the title', () => {
+    it.each([
+      'Decide 3 vendors',
+      'Marketing 2 campaign',
+      'Call 20 marketers',
+      'Release 1.2',
+      'Enjoy the sun',
+      'Sat down with the team',
+      'Wed 2 planning docs'
+    ])('%s', text => {
+      const result = parse(text);
+      expect(result.title).toBe(text);
+      expect(result.dueDate).toBeNull();
+    });
+  });
+
+  describe('month names and abbreviations', () => {
+    it('reads an abbreviation before the day', () => {
+      expect(parse('Send report nov 20')).toMatchObject({ title: 'Send report', dueDate: '2025-11-20' });
+    });
+
+    it('reads a full month name after the day', () => {
+      expect(parse('Send report 3 december')).toMatchObject({ title: 'Send report', dueDate: '2025-12-03' });
+    });
+
+    it('reads a longer abbreviation', () => {
+      expect(parse('Renew domain sept 4')).toMatchObject({ title: 'Renew domain', dueDate: '2026-09-04' });
+    });
+  });
+
+  describe('weekdays', () => {
+    it('reads full names', () => {
+      expect(parse('Standup friday')).toMatchObject({ title: 'Standup', dueDate: '2025-11-21' });
+    });
+
+    it('reads unambiguous abbreviations on their own', () => {
+      expect(parse('Standup thu')).toMatchObject({ title: 'Standup', dueDate: '2025-11-20' });
+    });
+
+    it('reads ambiguous abbreviations after a lead word', () => {
+      expect(parse('Pay rent by sat')).toMatchObject({ title: 'Pay rent', dueDate: '2025-11-22' });
+      expect(parse('Review next wed')).toMatchObject({ title: 'Review', dueDate: '2025-11-26' });
+    });
+
+    it('ignores partial weekday names', () => {
+      expect(parse('Fix satur bug')).toMatchObject({ title: 'Fix satur bug', dueDate: null });
+    });
+  });
+
+  describe('day and month numbers', () => {
+    it('reads a two-digit month', () => {
+      expect(parse('Close books 20.11')).toMatchObject({ title: 'Close books', dueDate: '2025-11-20' });
+      expect(parse('Close books 5/03')).toMatchObject({ title: 'Close books', dueDate: '2026-03-05' });
+    });
+
+    it('reads a single-digit month with a year', () => {
+      expect(parse('Close books 5.3.2026')).toMatchObject({ title: 'Close books', dueDate: '2026-03-05' });
+    });
+  });
+});
@@ -0,0 +1,337 @@
+import { addDays, addMonths, addWeeks, format, isValid, parse, startOfDay } from 'date-fns';
+import type { Task } from '../components/TaskCard';
+
+// One-line task entry: "Fix invoice export tomorrow 5pm !high @nino #billing ~2h"
+//   !priority   @assignee   #label (repeatable)   ~estimate (2h, 30m, 1h30m)
+//   due dates: today, tomorrow, weekday names, "in 3 days", 2025-11-20, 20.11, nov 20
+//   (sun, sat and wed only after "on", "by" or "next", as they are words too)
+//   due times: 5pm, 5:30pm, 17:00, optionally after "at"
+// Everything that is not recognised stays in the title.
+
+export interface QuickAddMember {
+  id: string;
+  name: string;
+}
+
+export interface QuickAddLabel {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface QuickAddResult {
+  title: string;
+  dueDate: string | null;
+  dueTime: string | null;
+  priority: Task['priority'] | null;
+  assignee: QuickAddMember | null;
+  unknownAssignee: string | null;
+  labels: QuickAddLabel[];
+  unknownLabels: string[];
+  estimate: number | null;
+}
+
+const PRIORITIES: Record<string, Task['priority']> = {
+  low: 'low',
+  l: 'low',
+  medium: 'medium',
+  med: 'medium',
+  m: 'medium',
+  normal: 'medium',
+  high: 'high',
+  h: 'high',
+  critical: 'critical',
+  crit: 'critical',
+  urgent: 'critical',
+  c: 'critical',
+  '1': 'critical',
+  '2': 'high',
+  '3': 'medium',
+  '4': 'low'
+};
+
+const RELATIVE_DAYS: Record<string, number> = {
+  today: 0,
+  tod: 0,
+  'დღეს': 0,
+  tomorrow: 1,
+  tmrw: 1,
+  tmr: 1,
+  'ხვალ': 1,
+  'ზეგ': 2
+};
+
+// Full names and the abbreviations accepted for each weekday, Sunday first
+const WEEKDAYS = [
+  ['sunday', 'sun'],
+  ['monday', 'mon'],
+  ['tuesday', 'tue', 'tues'],
+  ['wednesday', 'wed'],
+  ['thursday', 'thu', 'thur', 'thurs'],
+  ['friday', 'fri'],
+  ['saturday', 'sat']
+];
+
+// Abbreviations that are also ordinary words, so they need a lead word to count as dates
+const AMBIGUOUS_WEEKDAYS = ['sun', 'sat', 'wed'];
+
+const WEEKDAY_LEADS = ['on', 'by', 'next'];
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const normalize = (value: string) => value.toLowerCase().replace(/[-_]+/g, ' ').trim();
+
+const weekdayIndex = (word: string, afterLead = false) =>
+  !afterLead && AMBIGUOUS_WEEKDAYS.includes(word) ? -1 : WEEKDAYS.findIndex(names => names.includes(word));
+
+// An abbreviation is any prefix of the month name of at least three letters: "sep", "sept", "september"
+const monthIndex = (word: string) =>
+  word.length >= 3 ? MONTHS.findIndex(month => month.startsWith(word)) : -1;
+
+// The next such weekday after today, never today itself
+const nextWeekday = (today: Date, weekday: number) =>
+  addDays(today, ((weekday - today.getDay() + 6) % 7) + 1);
+
+// A day and month in the coming twelve months
+const upcomingDate = (today: Date, month: number, day: number, year?: number) => {
+  const date = new Date(year ?? today.getFullYear(), month, day);
+  if (date.getMonth() !== month) return null;
+  if (year === undefined && date < today) date.setFullYear(date.getFullYear() + 1);
+  return date;
+};
+
+/**
+ * Parse a due date starting at `words[index]`. Returns the date and how many words it used.
+ */
+function parseDate(words: string[], index: number, today: Date): { date: Date; length: number } | null {
+  const word = words[index].toLowerCase();
+  const next = words[index + 1]?.toLowerCase();
+  const third = words[index + 2]?.toLowerCase();
+
+  if (word in RELATIVE_DAYS) {
+    return { date: addDays(today, RELATIVE_DAYS[word]), length: 1 };
+  }
+
+  if (WEEKDAY_LEADS.includes(word) && next && weekdayIndex(next, true) >= 0) {
+    return { date: nextWeekday(today, weekdayIndex(next, true)), length: 2 };
+  }
+  if (weekdayIndex(word) >= 0) {
+    return { date: nextWeekday(today, weekdayIndex(word)), length: 1 };
+  }
+
+  if (word === 'in' && next && /^\d+$/.test(next) && third) {
+    const amount = Number(next);
+    if (/^days?$/.test(third)) return { date: addDays(today, amount), length: 3 };
+    if (/^weeks?$/.test(third)) return { date: addWeeks(today, amount), length: 3 };
+    if (/^months?$/.test(third)) return { date: addMonths(today, amount), length: 3 };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(word)) {
+    const date = parse(word, 'yyyy-MM-dd', today);
+    return isValid(date) ? { date, length: 1 } : null;
+  }
+
+  // Day first, as written in Georgia: 20.11, 20/11, 5.3.2025. Without a year the
+  // month takes two digits (05.03), so version numbers like 1.2 stay in the title.
+  const dayMonth = word.match(/^(\d{1,2})[./](\d{2})$/) ?? word.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (dayMonth) {
+    const date = upcomingDate(today, Number(dayMonth[2]) - 1, Number(dayMonth[1]), dayMonth[3] ? Number(dayMonth[3]) : undefined);
+    return date ? { date, length: 1 } : null;
+  }
+
+  // "nov 20" or "20 nov"
+  if (monthIndex(word) >= 0 && next && /^\d{1,2}$/.test(next)) {
+    const date = upcomingDate(today, monthIndex(word), Number(next));
+    return date ? { date, length: 2 } : null;
+  }
+  if (/^\d{1,2}$/.test(word) && next && monthIndex(next) >= 0) {
+    const date = upcomingDate(today, monthIndex(next), Number(word));
+    return date ? { date, length: 2 } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a time of day starting at `words[index]`, as "HH:mm"
+ */
+function parseTime(words: string[], index: number): { time: string; length: number } | null {
+  let offset = 0;
+  if (words[index].toLowerCase() === 'at' && words[index + 1]) offset = 1;
+
+  const word = words[index + offset].toLowerCase();
+  const next = words[index + offset + 1]?.toLowerCase();
+
+  if (word === 'noon') return { time: '12:00', length: offset + 1 };
+
+  const toTime = (hours: number, minutes: number) =>
+    hours < 24 && minutes < 60
+      ? `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+      : null;
+
+  const meridiem = (hours: number, suffix: string) => (hours % 12) + (suffix === 'pm' ? 12 : 0);
+
+  // 5pm, 5:30pm
+  const twelveHour = word.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)$/);
+  if (twelveHour && Number(twelveHour[1]) <= 12) {
+    const time = toTime(meridiem(Number(twelveHour[1]), twelveHour[3]), Number(twelveHour[2] ?? 0));
+    return time ? { time, length: offset + 1 } : null;
+  }
+
+  // 5 pm
+  const bareHour = word.match(/^(\d{1,2})(?::(\d{2}))?$/);
+  if (bareHour && (next === 'am' || next === 'pm') && Number(bareHour[1]) <= 12) {
+    const time = toTime(meridiem(Number(bareHour[1]), next), Number(bareHour[2] ?? 0));
+    return time ? { time, length: offset + 2 } : null;
+  }
+
+  // 17:00; a bare number only counts as a time after "at"
+  if (bareHour && (bareHour[2] !== undefined || offset === 1)) {
+    const time = toTime(Number(bareHour[1]), Number(bareHour[2] ?? 0));
+    return time ? { time, length: offset + 1 } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Hours from an estimate such as 2h, 1.5h, 45m or 1h30m
+ */
+function parseEstimate(value: string): number | null {
+  const match = value.toLowerCase().match(/^(?:(\d+(?:[.,]\d+)?)h)?(?:(\d+)m)?$/);
+  if (match && (match[1] || match[2])) {
+    const hours = Number((match[1] ?? '0').replace(',', '.')) + Number(match[2] ?? 0) / 60;
+    return hours > 0 ? Math.round(hours * 100) / 100 : null;
+  }
+  // A bare number is hours
+  if (/^\d+(?:[.,]\d+)?$/.test(value)) {
+    const hours = Number(value.replace(',', '.'));
+    return hours > 0 ? hours : null;
+  }
+  return null;
+}
+
+/**
+ * A project member for an @mention: an exact first name or full name wins over a prefix
+ */
+function findMember(members: QuickAddMember[], mention: string): QuickAddMember | null {
+  const wanted = normalize(mention);
+  const compact = wanted.replace(/\s+/g, '');
+  const names = members.map(member => ({ member, name: member.name.toLowerCase() }));
+
+  return (
+    names.find(({ name }) => name.replace(/\s+/g, '') === compact)?.member ??
+    names.find(({ name }) => name.split(/\s+/).includes(wanted))?.member ??
+    names.find(({ name }) => name.split(/\s+/).some(part => part.startsWith(wanted)))?.member ??
+    null
+  );
+}
+
+function findLabel(labels: QuickAddLabel[], tag: string): QuickAddLabel | null {
+  const wanted = normalize(tag);
+  const compact = wanted.replace(/\s+/g, '');
+  return labels.find(label => {
+    const name = normalize(label.name);
+    return name === wanted || name.replace(/\s+/g, '') === compact;
+  }) ?? null;
+}
+
+/**
+ * Split quick-add text into the task title and the fields typed inline
+ */
+export function parseQuickAdd(
+  text: string,
+  options: { members?: QuickAddMember[]; labels?: QuickAddLabel[]; now?: Date } = {}
+): QuickAddResult {
+  const { members = [], labels = [], now = new Date() } = options;
+  const today = startOfDay(now);
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const used = new Array<boolean>(words.length).fill(false);
+
+  const result: QuickAddResult = {
+    title: '',
+    dueDate: null,
+    dueTime: null,
+    priority: null,
+    assignee: null,
+    unknownAssignee: null,
+    labels: [],
+    unknownLabels: [],
+    estimate: null
+  };
+  let dueDate: Date | null = null;
+
+  const consume = (index: number, length: number) => {
+    for (let i = index; i < index + length; i++) used[i] = true;
+  };
+
+  words.forEach((word, index) => {
+    if (used[index]) return;
+    const sigil = word[0];
+    const value = word.slice(1);
+
+    if (sigil === '!' && !result.priority && PRIORITIES[value.toLowerCase()]) {
+      result.priority = PRIORITIES[value.toLowerCase()];
+      consume(index, 1);
+      return;
+    }
+
+    if (sigil === '@' && value && !result.assignee && !result.unknownAssignee) {
+      const member = findMember(members, value);
+      if (member) {
+        result.assignee = member;
+      } else {
+        result.unknownAssignee = value;
+      }
+      consume(index, 1);
+      return;
+    }
+
+    if (sigil === '#' && value) {
+      const label = findLabel(labels, value);
+      if (label) {
+        if (!result.labels.some(l => l.id === label.id)) result.labels.push(label);
+      } else if (!result.unknownLabels.includes(value)) {
+        result.unknownLabels.push(value);
+      }
+      consume(index, 1);
+      return;
+    }
+
+    if (sigil === '~' && result.estimate === null) {
+      const estimate = parseEstimate(value);
+      if (estimate !== null) {
+        result.estimate = estimate;
+        consume(index, 1);
+        return;
+      }
+    }
+
+    if (!dueDate) {
+      const date = parseDate(words, index, today);
+      if (date) {
+        dueDate = date.date;
+        consume(index, date.length);
+        return;
+      }
+    }
+
+    if (!result.dueTime) {
+      const time = parseTime(words, index);
+      if (time) {
+        result.dueTime = time.time;
+        consume(index, time.length);
+      }
+    }
+  });
+
+  // A time alone means today
+  if (result.dueTime && !dueDate) dueDate = today;
+
+  result.dueDate = dueDate ? format(dueDate, 'yyyy-MM-dd') : null;
+  result.title = words.filter((_, index) => !used[index]).join(' ');
+  return result;
+}
@@ -0,0 +1,124 @@
+import { addDays, addMonths, format, getDaysInMonth, parseISO, startOfMonth, startOfWeek, differenceInCalendarWeeks } from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceEnds {
+  type: 'never' | 'count' | 'date';
+  count?: number;
+  until?: string; // yyyy-MM-dd
+}
+
+/**
+ * RRULE-style recurrence stored in tasks.recurrence.
+ * Mirrors public.next_recurrence_date in the database, which does the actual spawning.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays?: number[]; // 0 (Sunday) .. 6 (Saturday)
+  month_day?: number;
+  ends: RecurrenceEnds;
+}
+
+export const WEEKDAY_LABELS = ['კვ', 'ორშ', 'სამ', 'ოთხ', 'ხუთ', 'პარ', 'შაბ'];
+
+// Monday-first order for pickers
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export function parseRecurrence(value: unknown): RecurrenceRule | null {
+  if (!value || typeof value !== 'object') return null;
+  const rule = value as Partial<RecurrenceRule>;
+  if (!rule.frequency || !['daily', 'weekly', 'monthly'].includes(rule.frequency)) return null;
+
+  return {
+    frequency: rule.frequency,
+    interval: Math.max(1, Number(rule.interval) || 1),
+    weekdays: Array.isArray(rule.weekdays) ? rule.weekdays : undefined,
+    month_day: rule.month_day ? Number(rule.month_day) : undefined,
+    ends: rule.ends && ['never', 'count', 'date'].includes(rule.ends.type) ? rule.ends : { type: 'never' }
+  };
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const { interval } = rule;
+  let summary: string;
+
+  switch (rule.frequency) {
+    case 'daily':
+      summary = interval === 1 ? 'ყოველდღე' : `ყოველ ${interval} დღეში`;
+      break;
+    case 'weekly': {
+      const days = WEEKDAY_ORDER
+        .filter(day => rule.weekdays?.includes(day))
+        .map(day => WEEKDAY_LABELS[day])
+        .join(', ');
+      summary = interval === 1 ? 'ყოველკვირა' : `ყოველ ${interval} კვირაში`;
+      if (days) summary += ` (${days})`;
+      break;
+    }
+    case 'monthly':
+      summary = interval === 1 ? 'ყოველთვე' : `ყოველ ${interval} თვეში`;
+      if (rule.month_day) summary += `, ${rule.month_day} რიცხვში`;
+      break;
+  }
+
+  if (rule.ends.type === 'count' && rule.ends.count) {
+    summary += ` · ${rule.ends.count} ჯერ`;
+  } else if (rule.ends.type === 'date' && rule.ends.until) {
+    summary += ` · ${format(parseISO(rule.ends.until), 'dd.MM.yyyy')}-მდე`;
+  }
+
+  return summary;
+}
+
+/**
+ * Calculate the date of the occurrence after fromDate
+ */
+export function getNextOccurrence(rule: RecurrenceRule, fromDate: Date): Date | null {
+  const interval = Math.max(1, rule.interval || 1);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(fromDate, interval);
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [fromDate.getDay()];
+      const weekStart = startOfWeek(fromDate);
+      for (let i = 1; i <= 7 * interval + 6; i++) {
+        const candidate = addDays(fromDate, i);
+        const weeksApart = differenceInCalendarWeeks(startOfWeek(candidate), weekStart);
+        if (weekdays.includes(candidate.getDay()) && weeksApart % interval === 0) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+    case 'monthly': {
+      const monthStart = addMonths(startOfMonth(fromDate), interval);
+      const day = Math.min(rule.month_day || fromDate.getDate(), getDaysInMonth(monthStart));
+      return addDays(monthStart, day - 1);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * The next occurrence of a task's series, or null when the series has ended
+ */
+export function getTaskNextOccurrence(
+  rule: RecurrenceRule,
+  task: { due_date: string | null; start_date?: string | null; created_at: string; recurrence_index?: number }
+): Date | null {
+  if (rule.ends.type === 'count' && (task.recurrence_index || 1) >= (rule.ends.count || 0)) {
+    return null;
+  }
+
+  const anchor = parseISO(task.due_date || task.start_date || task.created_at);
+  const next = getNextOccurrence(rule, anchor);
+
+  if (next && rule.ends.type === 'date' && rule.ends.until && next > parseISO(rule.ends.until)) {
+    return null;
+  }
+
+  return next;
+}
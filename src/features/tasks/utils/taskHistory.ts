@@ -0,0 +1,87 @@
+import { format, parseISO, isValid } from 'date-fns';
+import type { Json } from '@/core/config/types';
+import { EstimateUnit, formatEstimate } from '@/services/taskEstimateService';
+import { parseRecurrence, describeRecurrence } from './recurrence';
+
+export const TASK_FIELD_LABELS: Record<string, string> = {
+  title: 'სათაური',
+  description: 'აღწერა',
+  notes: 'შენიშვნები',
+  status: 'სტატუსი',
+  priority: 'პრიორიტეტი',
+  assignee_id: 'შემსრულებელი',
+  due_date: 'ვადა',
+  due_time: 'ვადის დრო',
+  start_date: 'დაწყების თარიღი',
+  budget: 'ბიუჯეტი',
+  estimate: 'შეფასება',
+  parent_task_id: 'მშობელი დავალება',
+  is_subtask: 'ქვედავალება',
+  recurrence: 'გამეორება',
+  project_id: 'პროექტი',
+  created_by: 'შემქმნელი'
+};
+
+const USER_FIELDS = new Set(['assignee_id', 'created_by']);
+const DATE_FIELDS = new Set(['due_date', 'start_date']);
+const LONG_TEXT_FIELDS = new Set(['description', 'notes']);
+
+export function getTaskFieldLabel(field: string): string {
+  return TASK_FIELD_LABELS[field] || field;
+}
+
+/**
+ * Whether a field holds free text, shown as a before/after block rather than inline
+ */
+export function isLongTextField(field: string): boolean {
+  return LONG_TEXT_FIELDS.has(field);
+}
+
+/**
+ * Human readable value of a task field as stored in the history; estimates are
+ * shown in the project's estimate unit
+ */
+export function formatTaskFieldValue(
+  field: string,
+  value: Json | null | undefined,
+  teamMembers: Array<{ id: string; name: string }> = [],
+  estimateUnit: EstimateUnit = 'hours'
+): string {
+  if (value === null || value === undefined || value === '') return '—';
+
+  if (USER_FIELDS.has(field)) {
+    return teamMembers.find(m => m.id === value)?.name || 'უცნობი მომხმარებელი';
+  }
+
+  if (DATE_FIELDS.has(field)) {
+    const date = parseISO(String(value));
+    return isValid(date) ? format(date, 'MMM dd, yyyy') : String(value);
+  }
+
+  if (field === 'budget') {
+    return `₾${Number(value).toFixed(2)}`;
+  }
+
+  if (field === 'estimate') {
+    return formatEstimate(Number(value), estimateUnit);
+  }
+
+  if (field === 'due_time') {
+    return String(value).slice(0, 5);
+  }
+
+  if (field === 'recurrence') {
+    const rule = parseRecurrence(value);
+    return rule ? describeRecurrence(rule) : '—';
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'კი' : 'არა';
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
@@ -0,0 +1,300 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+
+export type ImportField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'assignee'
+  | 'due_date'
+  | 'budget'
+  | 'parent_task';
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: string; required?: boolean; aliases: string[] }> = [
+  { key: 'title', label: 'სათაური', required: true, aliases: ['title', 'name', 'task', 'სათაური', 'დასახელება'] },
+  { key: 'description', label: 'აღწერა', aliases: ['description', 'details', 'აღწერა'] },
+  { key: 'status', label: 'სტატუსი', aliases: ['status', 'state', 'სტატუსი'] },
+  { key: 'priority', label: 'პრიორიტეტი', aliases: ['priority', 'პრიორიტეტი'] },
+  { key: 'assignee', label: 'შემსრულებელი (ელ-ფოსტა ან სახელი)', aliases: ['assignee', 'assigned to', 'owner', 'email', 'შემსრულებელი'] },
+  { key: 'due_date', label: 'დასრულების თარიღი', aliases: ['due date', 'due', 'deadline', 'ვადა'] },
+  { key: 'budget', label: 'ბიუჯეტი', aliases: ['budget', 'cost', 'ბიუჯეტი'] },
+  { key: 'parent_task', label: 'მშობელი დავალება', aliases: ['parent', 'parent task', 'მშობელი დავალება'] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ParsedImportFile {
+  columns: string[];
+  rows: Array<Record<string, string>>;
+}
+
+export interface ImportContext {
+  statuses: Array<{ name: string }>;
+  members: Array<{ id: string; name: string; email?: string }>;
+  existingTasks: Array<{ id: string; title: string; parent_task_id?: string | null }>;
+}
+
+export interface PreparedImportRow {
+  rowNumber: number;
+  title: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  assignee_id: string | null;
+  due_date: string | null;
+  budget: number | null;
+  // Parent given by title; resolved either to another row of the file or to an existing task
+  parentTitle: string | null;
+  parentTaskId: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+const PRIORITIES = ['low', 'medium', 'high', 'critical'];
+
+const PRIORITY_ALIASES: Record<string, string> = {
+  urgent: 'critical',
+  'დაბალი': 'low',
+  'საშუალო': 'medium',
+  'მაღალი': 'high',
+  'კრიტიკული': 'critical',
+};
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd.MM.yyyy', 'dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy/MM/dd'];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, embedded newlines).
+ * The delimiter is detected from the header line, so semicolon exports from Excel work too.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Read an uploaded CSV or JSON file into columns and string rows
+ */
+export function parseImportFile(text: string, fileName: string): ParsedImportFile {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('JSON ფაილის წაკითხვა ვერ მოხერხდა');
+    }
+
+    const items = Array.isArray(data) ? data : (data as { tasks?: unknown })?.tasks;
+    if (!Array.isArray(items)) {
+      throw new Error('JSON ფაილი უნდა შეიცავდეს დავალებების მასივს');
+    }
+
+    const objects = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+    const columns = Array.from(new Set(objects.flatMap(item => Object.keys(item))));
+    const rows = objects.map(item =>
+      Object.fromEntries(columns.map(column => {
+        const value = item[column];
+        return [column, value === null || value === undefined ? '' : String(value)];
+      }))
+    );
+
+    return { columns, rows };
+  }
+
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    throw new Error('ფაილი ცარიელია');
+  }
+
+  const columns = header.map((column, index) => column.trim() || `სვეტი ${index + 1}`);
+  const rows = lines.map(line =>
+    Object.fromEntries(columns.map((column, index) => [column, (line[index] || '').trim()]))
+  );
+
+  return { columns, rows };
+}
+
+/**
+ * Pre-select a column for each field whose header matches one of its aliases
+ */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const match = columns.find(column => field.aliases.includes(normalize(column).replace(/_/g, ' ')));
+    if (match) mapping[field.key] = match;
+  });
+  return mapping;
+}
+
+const parseDate = (value: string): string | null => {
+  const iso = parseISO(value);
+  if (isValid(iso)) return format(iso, 'yyyy-MM-dd');
+
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value, pattern, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+};
+
+/**
+ * Dry run: turn raw rows into task payloads and collect per-row errors.
+ * Nothing is written; rows with errors are skipped by the import.
+ */
+export function validateImportRows(
+  rows: Array<Record<string, string>>,
+  mapping: ColumnMapping,
+  context: ImportContext
+): PreparedImportRow[] {
+  const read = (row: Record<string, string>, field: ImportField) =>
+    mapping[field] ? (row[mapping[field]!] || '').trim() : '';
+
+  const defaultStatus = context.statuses[0]?.name || 'To Do';
+  const existingByTitle = new Map(context.existingTasks.map(task => [normalize(task.title), task]));
+  const fileTitles = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const title = normalize(read(row, 'title'));
+    if (title && !fileTitles.has(title)) fileTitles.set(title, index);
+  });
+
+  const prepared = rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const title = read(row, 'title');
+    if (!title) errors.push('სათაური აუცილებელია');
+    else if (title.length > 255) errors.push('სათაური ძალიან გრძელია');
+    else if (existingByTitle.has(normalize(title))) warnings.push('ამ სახელით დავალება უკვე არსებობს');
+    if (title && fileTitles.get(normalize(title)) !== index) warnings.push('სათაური ფაილში მეორდება');
+
+    let status = defaultStatus;
+    const rawStatus = read(row, 'status');
+    if (rawStatus) {
+      const match = context.statuses.find(s => normalize(s.name) === normalize(rawStatus));
+      if (match) status = match.name;
+      else errors.push(`უცნობი სტატუსი "${rawStatus}"`);
+    }
+
+    let priority = 'medium';
+    const rawPriority = normalize(read(row, 'priority'));
+    if (rawPriority) {
+      const value = PRIORITY_ALIASES[rawPriority] || rawPriority;
+      if (PRIORITIES.includes(value)) priority = value;
+      else errors.push(`უცნობი პრიორიტეტი "${read(row, 'priority')}"`);
+    }
+
+    let assignee_id: string | null = null;
+    const rawAssignee = read(row, 'assignee');
+    if (rawAssignee) {
+      const member = context.members.find(m =>
+        (m.email && normalize(m.email) === normalize(rawAssignee)) || normalize(m.name) === normalize(rawAssignee)
+      );
+      if (member) assignee_id = member.id;
+      else errors.push(`"${rawAssignee}" პროექტის წევრი არ არის`);
+    }
+
+    let due_date: string | null = null;
+    const rawDate = read(row, 'due_date');
+    if (rawDate) {
+      due_date = parseDate(rawDate);
+      if (!due_date) errors.push(`არასწორი თარიღი "${rawDate}"`);
+    }
+
+    let budget: number | null = null;
+    const rawBudget = read(row, 'budget');
+    if (rawBudget) {
+      budget = Number(rawBudget.replace(/[\s₾$€]/g, '').replace(',', '.'));
+      if (isNaN(budget) || budget < 0) {
+        errors.push(`არასწორი ბიუჯეტი "${rawBudget}"`);
+        budget = null;
+      }
+    }
+
+    let parentTitle: string | null = null;
+    let parentTaskId: string | null = null;
+    const rawParent = read(row, 'parent_task');
+    if (rawParent) {
+      parentTitle = rawParent;
+      const parentIndex = fileTitles.get(normalize(rawParent));
+      const existingParent = existingByTitle.get(normalize(rawParent));
+
+      if (parentIndex !== undefined) {
+        if (parentIndex === index) errors.push('დავალება არ შეიძლება იყოს საკუთარი მშობელი');
+        else if (read(rows[parentIndex], 'parent_task')) errors.push('ქვედავალებას არ შეიძლება ჰქონდეს ქვედავალება');
+      } else if (existingParent) {
+        if (existingParent.parent_task_id) errors.push('ქვედავალებას არ შეიძლება ჰქონდეს ქვედავალება');
+        else parentTaskId = existingParent.id;
+      } else {
+        errors.push(`მშობელი დავალება "${rawParent}" ვერ მოიძებნა`);
+      }
+    }
+
+    return {
+      rowNumber: index + 1,
+      title,
+      description: read(row, 'description') || null,
+      status,
+      priority,
+      assignee_id,
+      due_date,
+      budget,
+      parentTitle,
+      parentTaskId,
+      errors,
+      warnings,
+    };
+  });
+
+  // A subtask cannot be imported when its parent row in the same file is skipped
+  prepared.forEach(row => {
+    if (!row.parentTitle || row.parentTaskId || row.errors.length > 0) return;
+    const parentIndex = fileTitles.get(normalize(row.parentTitle));
+    if (parentIndex !== undefined && prepared[parentIndex].errors.length > 0) {
+      row.errors.push('მშობელი დავალება შეცდომის გამო არ შემოვა');
+    }
+  });
+
+  return prepared;
+}
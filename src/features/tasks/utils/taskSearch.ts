@@ -0,0 +1,42 @@
+// Full-text hits mark matched words with these control characters instead of HTML
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split a highlighted snippet into plain and matched parts
+ */
+export function splitHighlights(snippet: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  snippet.split(MATCH_START).forEach((chunk, index) => {
+    if (index === 0) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      return;
+    }
+    const [matched, rest = ''] = chunk.split(MATCH_END);
+    if (matched) parts.push({ text: matched, match: true });
+    if (rest) parts.push({ text: rest, match: false });
+  });
+  return parts;
+}
+
+/**
+ * Whether a task matches the search box. Uses the server's full-text matches when they
+ * have loaded, and plain substring matching until then.
+ */
+export function matchesTaskSearch(
+  task: { id: string; title: string; description?: string | null },
+  search: string,
+  matchingTaskIds: Set<string> | null
+): boolean {
+  if (!search.trim()) return true;
+  if (matchingTaskIds) return matchingTaskIds.has(task.id);
+
+  const searchLower = search.toLowerCase();
+  return task.title.toLowerCase().includes(searchLower) ||
+    !!task.description?.toLowerCase().includes(searchLower);
+}
@@ -2,20 +2,42 @@ import React, { useState } from 'react';
 import { Button } from '@/shared/components/ui/button';
 import { Input } from '@/shared/components/ui/input';
 import { Badge } from '@/shared/components/ui/badge';
-import { 
-  Dialog, 
-  DialogContent, 
-  DialogHeader, 
-  DialogTitle, 
-  DialogTrigger 
+import { Label } from '@/shared/components/ui/label';
+import { Switch } from '@/shared/components/ui/switch';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/shared/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
 } from '@/shared/components/ui/dialog';
-import { 
-  Timer, 
-  Play, 
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/shared/components/ui/alert-dialog';
+import { format } from 'date-fns';
+import {
+  Timer,
+  Play,
   Square,
-  Clock
+  Clock,
+  ArrowRightLeft,
+  Coffee,
+  Settings2,
+  ChevronDown
 } from 'lucide-react';
-import { useTimeTracking } from '@/contexts/TimeTrackingContext';
+import { useTimeTracking, TimerSettings } from '@/contexts/TimeTrackingContext';
+import { useProjects } from '@/core/data/hooks/useProjectQueries';
+import { useProjectTasks } from '@/core/data/hooks/useTaskQueries';
+
+const NO_PROJECT = 'none';
+const NO_TASK = 'none';
 
 const formatDuration = (seconds: number) => {
   const hours = Math.floor(seconds / 3600);
@@ -29,13 +51,59 @@ const formatDuration = (seconds: number) => {
   }
 };
 
+type NumericSetting = Exclude<keyof TimerSettings, 'pomodoroEnabled'>;
+
+// Numeric timer settings with the range each accepts
+const numericSettings: Array<{ key: NumericSetting; label: string; min: number; max: number }> = [
+  { key: 'workMinutes', label: 'მუშაობა (წთ)', min: 1, max: 180 },
+  { key: 'shortBreakMinutes', label: 'მოკლე შესვენება (წთ)', min: 1, max: 60 },
+  { key: 'longBreakMinutes', label: 'გრძელი შესვენება (წთ)', min: 1, max: 120 },
+  { key: 'longBreakEvery', label: 'გრძელი შესვენება ყოველ', min: 1, max: 12 }
+];
+
 export function FloatingTimer() {
   const [isOpen, setIsOpen] = useState(false);
-  const { currentEntry, isRunning, currentTime, startTimer, stopTimer } = useTimeTracking();
+  const {
+    currentEntry,
+    isRunning,
+    currentTime,
+    startTimer,
+    stopTimer,
+    settings,
+    updateSettings,
+    idleSince,
+    resolveIdle,
+    pomodoro,
+    resumeWork
+  } = useTimeTracking();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [resolvingIdle, setResolvingIdle] = useState(false);
+  const onBreak = pomodoro.phase === 'break';
+  const [projectId, setProjectId] = useState(NO_PROJECT);
+  const [taskId, setTaskId] = useState(NO_TASK);
+  const [description, setDescription] = useState('');
+  const { data: projects = [] } = useProjects();
+  const { data: projectTasks = [] } = useProjectTasks(projectId === NO_PROJECT ? undefined : projectId);
+  const tasks = projectTasks.filter(task => !task.archived_at);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) return;
+
+    // Start from what's running, so switching only needs the new task picked
+    setProjectId(currentEntry?.project_id ?? NO_PROJECT);
+    setTaskId(currentEntry?.task_id ?? NO_TASK);
+    setDescription('');
+  };
 
   const handleStart = async () => {
+    const task = tasks.find(t => t.id === taskId);
+
     try {
-      await startTimer('სამუშაო დრო');
+      await startTimer(description.trim() || task?.title || 'სამუშაო დრო', {
+        projectId: projectId === NO_PROJECT ? null : projectId,
+        taskId: task?.id ?? null
+      });
       setIsOpen(false);
     } catch (error) {
       console.error('Failed to start timer:', error);
@@ -51,20 +119,64 @@ export function FloatingTimer() {
     }
   };
 
+  const handleResume = async () => {
+    try {
+      await resumeWork();
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to resume work:', error);
+    }
+  };
+
+  const handleIdle = async (action: 'keep' | 'discard' | 'split') => {
+    setResolvingIdle(true);
+    await resolveIdle(action);
+    setResolvingIdle(false);
+  };
+
+  const changeNumericSetting = (key: NumericSetting, value: string, min: number, max: number) => {
+    const number = Math.round(Number(value));
+    if (!Number.isFinite(number)) return;
+    updateSettings({ [key]: Math.min(max, Math.max(min, number)) });
+  };
+
+  const idleMinutes = idleSince ? Math.round((Date.now() - idleSince.getTime()) / 60000) : 0;
+
+  // Picking what's already running would only restart it
+  const isSameTarget = isRunning
+    && (currentEntry?.project_id ?? NO_PROJECT) === projectId
+    && (currentEntry?.task_id ?? NO_TASK) === taskId
+    && !description.trim();
+
   return (
     <div className="fixed bottom-6 right-6 z-50">
-      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
         <DialogTrigger asChild>
           <Button
             size="lg"
             className={`rounded-full w-16 h-16 shadow-lg transition-all duration-300 hover:scale-110 ${
-              isRunning 
-                ? 'bg-red-500 hover:bg-red-600' 
-                : 'bg-primary hover:bg-primary/90'
+              isRunning
+                ? 'bg-red-500 hover:bg-red-600'
+                : onBreak
+                  ? 'bg-green-600 hover:bg-green-700'
+                  : 'bg-primary hover:bg-primary/90'
             }`}
-            title={isRunning ? `მუშაობს: ${formatDuration(currentTime)}` : 'სამუშაო ტაიმერი'}
+            title={
+              isRunning
+                ? `მუშაობს: ${formatDuration(currentTime)}${currentEntry?.task ? ` — ${currentEntry.task.title}` : ''}`
+                : onBreak
+                  ? `შესვენება: ${formatDuration(pomodoro.remaining)}`
+                  : 'სამუშაო ტაიმერი'
+            }
           >
-            {isRunning ? (
+            {onBreak && !isRunning ? (
+              <div className="flex flex-col items-center">
+                <Coffee className="h-6 w-6" />
+                <span className="text-xs font-mono">
+                  {formatDuration(pomodoro.remaining)}
+                </span>
+              </div>
+            ) : isRunning ? (
               <div className="flex flex-col items-center">
                 <Square className="h-6 w-6" />
                 <span className="text-xs font-mono">
@@ -76,7 +188,7 @@ export function FloatingTimer() {
             )}
           </Button>
         </DialogTrigger>
-        
+
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
@@ -84,7 +196,7 @@ export function FloatingTimer() {
               სამუშაო ტაიმერი
             </DialogTitle>
           </DialogHeader>
-          
+
           <div className="space-y-4">
             {/* Current Timer Display */}
             <div className="text-center p-4 bg-muted/30 rounded-lg">
@@ -92,39 +204,181 @@ export function FloatingTimer() {
                 {formatDuration(currentTime)}
               </div>
               {currentEntry && (
-                <p className="text-sm text-muted-foreground mb-2">
-                  {currentEntry.description}
-                </p>
+                <div className="mb-2 space-y-0.5">
+                  {(currentEntry.task || currentEntry.project) && (
+                    <p className="text-sm font-medium">
+                      {[currentEntry.task?.title, currentEntry.project?.name].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                  {currentEntry.description !== currentEntry.task?.title && (
+                    <p className="text-sm text-muted-foreground">
+                      {currentEntry.description}
+                    </p>
+                  )}
+                </div>
               )}
               {isRunning && (
                 <Badge variant="secondary">
                   მუშაობს
                 </Badge>
               )}
+              {pomodoro.phase !== 'off' && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  {onBreak ? 'შესვენება' : 'პომოდორო'}: დარჩა {formatDuration(pomodoro.remaining)}
+                  {pomodoro.completed > 0 && ` · დასრულებული ${pomodoro.completed}/${settings.longBreakEvery}`}
+                </p>
+              )}
             </div>
 
-            {/* Controls */}
-            {!isRunning ? (
-              <Button 
-                onClick={handleStart}
-                className="w-full gap-2"
-              >
+            {!isRunning && pomodoro.resumeTarget && (
+              <Button onClick={handleResume} className="w-full gap-2">
                 <Play className="h-4 w-4" />
-                ჩართვა
+                {onBreak ? 'შესვენების გამოტოვება' : 'შემდეგი პომოდორო'}
               </Button>
-            ) : (
-              <Button 
+            )}
+
+            {isRunning && (
+              <Button
                 onClick={handleStop}
-                variant="destructive" 
+                variant="destructive"
                 className="w-full gap-2"
               >
                 <Square className="h-4 w-4" />
                 გათიშვა
               </Button>
             )}
+
+            {/* What to track */}
+            <div className="space-y-3 border-t pt-4">
+              <div className="space-y-2">
+                <Label>პროექტი</Label>
+                <Select value={projectId} onValueChange={value => { setProjectId(value); setTaskId(NO_TASK); }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROJECT}>პროექტის გარეშე</SelectItem>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>დავალება</Label>
+                <Select value={taskId} onValueChange={setTaskId} disabled={projectId === NO_PROJECT}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TASK}>დავალების გარეშე</SelectItem>
+                    {tasks.map(task => (
+                      <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="floating-timer-description">აღწერა</Label>
+                <Input
+                  id="floating-timer-description"
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                  placeholder="რაზე მუშაობთ?"
+                />
+              </div>
+
+              <Button
+                onClick={handleStart}
+                variant={isRunning ? 'outline' : 'default'}
+                className="w-full gap-2"
+                disabled={isSameTarget}
+              >
+                {isRunning ? <ArrowRightLeft className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                {isRunning ? 'გადართვა' : 'ჩართვა'}
+              </Button>
+            </div>
+
+            {/* Idle detection and Pomodoro */}
+            <Collapsible open={settingsOpen} onOpenChange={setSettingsOpen} className="border-t pt-2">
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="w-full justify-between">
+                  <span className="flex items-center gap-2">
+                    <Settings2 className="h-4 w-4" />
+                    პარამეტრები
+                  </span>
+                  <ChevronDown className={`h-4 w-4 transition-transform ${settingsOpen ? 'rotate-180' : ''}`} />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-3 pt-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="timer-idle-minutes">უმოქმედობის ლიმიტი (წთ)</Label>
+                    <p className="text-xs text-muted-foreground">0 თიშავს. ითვლება მხოლოდ ამ აპში მოქმედება.</p>
+                  </div>
+                  <Input
+                    id="timer-idle-minutes"
+                    type="number"
+                    min={0}
+                    max={240}
+                    className="h-8 w-20"
+                    value={settings.idleMinutes}
+                    onChange={e => changeNumericSetting('idleMinutes', e.target.value, 0, 240)}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="timer-pomodoro">პომოდოროს რეჟიმი</Label>
+                  <Switch
+                    id="timer-pomodoro"
+                    checked={settings.pomodoroEnabled}
+                    onCheckedChange={checked => updateSettings({ pomodoroEnabled: checked })}
+                  />
+                </div>
+                {settings.pomodoroEnabled && (
+                  <div className="grid grid-cols-2 gap-3">
+                    {numericSettings.map(({ key, label, min, max }) => (
+                      <div key={key} className="space-y-1">
+                        <Label htmlFor={`timer-${key}`} className="text-xs">{label}</Label>
+                        <Input
+                          id={`timer-${key}`}
+                          type="number"
+                          min={min}
+                          max={max}
+                          className="h-8"
+                          value={settings[key]}
+                          onChange={e => changeNumericSetting(key, e.target.value, min, max)}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CollapsibleContent>
+            </Collapsible>
           </div>
         </DialogContent>
       </Dialog>
+
+      <AlertDialog open={idleSince !== null}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>უმოქმედობა</AlertDialogTitle>
+            <AlertDialogDescription>
+              {idleSince && `${format(idleSince, 'HH:mm')}-დან (${idleMinutes} წთ) მოქმედება არ დაფიქსირებულა, ტაიმერი კი ისევ მუშაობს${currentEntry?.task ? ` — ${currentEntry.task.title}` : ''}. რა ვუყოთ ამ დროს?`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" disabled={resolvingIdle} onClick={() => handleIdle('split')}>
+              ცალკე ჩანაწერად
+            </Button>
+            <Button variant="outline" disabled={resolvingIdle} onClick={() => handleIdle('discard')}>
+              გაუქმება
+            </Button>
+            <Button disabled={resolvingIdle} onClick={() => handleIdle('keep')}>
+              შენარჩუნება
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-}
\ No newline at end of file
+}
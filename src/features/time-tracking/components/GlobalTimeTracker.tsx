@@ -26,6 +26,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useTimeTracking } from '@/contexts/TimeTrackingContext';
 import { useToast } from '@/shared/hooks/use-toast';
 import { format, differenceInSeconds, addSeconds } from 'date-fns';
 
@@ -86,9 +87,8 @@ const parseTimeInput = (timeString: string): number => {
 
 export function GlobalTimeTracker() {
   const [timeEntries, setTimeEntries] = useState<GlobalTimeEntry[]>([]);
-  const [currentEntry, setCurrentEntry] = useState<GlobalTimeEntry | null>(null);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [isRunning, setIsRunning] = useState(false);
+  // Shares the user's one running timer with the floating timer and task trackers
+  const { currentEntry, isRunning, currentTime, startTimer: startSharedTimer, stopTimer: stopSharedTimer } = useTimeTracking();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [description, setDescription] = useState('');
   const { user } = useAuth();
@@ -106,22 +106,9 @@ export function GlobalTimeTracker() {
   useEffect(() => {
     if (user) {
       fetchTimeEntries();
-      checkRunningTimer();
     }
   }, [user]);
 
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isRunning && currentEntry) {
-      interval = setInterval(() => {
-        const now = Date.now();
-        const startTime = new Date(currentEntry.start_time).getTime();
-        setCurrentTime(Math.floor((now - startTime) / 1000));
-      }, 1000);
-    }
-    return () => clearInterval(interval);
-  }, [isRunning, currentEntry]);
-
   const fetchTimeEntries = async () => {
     if (!user) return;
     
@@ -146,32 +133,7 @@ export function GlobalTimeTracker() {
     }
   };
 
-  const checkRunningTimer = async () => {
-    if (!user) return;
-    
-    try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .select('*')
-        .eq('user_id', user.id)
-        .is('task_id', null)
-        .eq('is_running', true)
-        .maybeSingle();
-
-      if (error && error.code !== 'PGRST116') throw error;
-      
-      if (data) {
-        setCurrentEntry(data);
-        setIsRunning(true);
-        setDescription(data.description);
-      }
-    } catch (err) {
-      console.error('Error checking running timer:', err);
-    }
-  };
-
   const startTimer = async () => {
-    if (!user) return;
     if (!description.trim()) {
       toast({
         title: "Error",
@@ -182,75 +144,20 @@ export function GlobalTimeTracker() {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('time_entries')
-        .insert({
-          user_id: user.id,
-          description: description.trim(),
-          start_time: new Date().toISOString(),
-          is_running: true,
-          duration: 0,
-          task_id: null,
-          project_id: null,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      setCurrentEntry(data);
-      setIsRunning(true);
-      setCurrentTime(0);
-
-      toast({
-        title: "Timer Started",
-        description: "Time tracking has begun",
-      });
+      await startSharedTimer(description);
+      fetchTimeEntries();
     } catch (err) {
       console.error('Error starting timer:', err);
-      toast({
-        title: "Error",
-        description: "Failed to start timer",
-        variant: "destructive"
-      });
     }
   };
 
   const stopTimer = async () => {
-    if (!currentEntry) return;
-
     try {
-      const endTime = new Date().toISOString();
-      const duration = Math.floor((new Date(endTime).getTime() - new Date(currentEntry.start_time).getTime()) / 1000);
-
-      const { error } = await supabase
-        .from('time_entries')
-        .update({
-          end_time: endTime,
-          duration,
-          is_running: false,
-        })
-        .eq('id', currentEntry.id);
-
-      if (error) throw error;
-
-      setCurrentEntry(null);
-      setIsRunning(false);
-      setCurrentTime(0);
+      await stopSharedTimer();
       setDescription('');
       fetchTimeEntries();
-
-      toast({
-        title: "Timer Stopped",
-        description: `Time logged: ${formatDuration(duration)}`,
-      });
     } catch (err) {
       console.error('Error stopping timer:', err);
-      toast({
-        title: "Error",
-        description: "Failed to stop timer",
-        variant: "destructive"
-      });
     }
   };
 
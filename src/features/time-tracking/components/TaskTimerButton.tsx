@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Button } from '@/shared/components/ui/button';
+import { Loader2, Play, Square } from 'lucide-react';
+import { useTimeTracking } from '@/contexts/TimeTrackingContext';
+
+interface TaskTimerButtonProps {
+  taskId: string;
+  projectId: string;
+  taskTitle: string;
+  className?: string;
+}
+
+const formatElapsed = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    : `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Starts the user's timer on a task, or stops it when it's already running there.
+ * Starting it on another task stops the previous one.
+ */
+export function TaskTimerButton({ taskId, projectId, taskTitle, className }: TaskTimerButtonProps) {
+  const { currentEntry, currentTime, startTimer, stopTimer } = useTimeTracking();
+  const [busy, setBusy] = useState(false);
+  const isRunningHere = currentEntry?.task_id === taskId;
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards open the task when clicked
+    e.stopPropagation();
+    setBusy(true);
+    try {
+      if (isRunningHere) {
+        await stopTimer();
+      } else {
+        await startTimer(taskTitle, { taskId, projectId });
+      }
+    } catch (error) {
+      console.error('Failed to toggle task timer:', error);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={`h-7 px-2 ${isRunningHere ? 'text-red-600 hover:text-red-700' : ''} ${className ?? ''}`}
+      onClick={handleClick}
+      disabled={busy}
+      title={isRunningHere ? 'ტაიმერის გაჩერება' : 'ტაიმერის ჩართვა ამ დავალებაზე'}
+    >
+      {busy ? (
+        <Loader2 className="h-3 w-3 animate-spin" />
+      ) : isRunningHere ? (
+        <Square className="h-3 w-3" />
+      ) : (
+        <Play className="h-3 w-3" />
+      )}
+      {isRunningHere && <span className="ml-1 font-mono text-xs">{formatElapsed(currentTime)}</span>}
+    </Button>
+  );
+}
@@ -0,0 +1,284 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ka } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Textarea } from '@/shared/components/ui/textarea';
+import { Label } from '@/shared/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/shared/components/ui/dialog';
+import { Check, ChevronDown, ChevronRight, ClipboardCheck, Loader2, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import {
+  TimesheetService,
+  TimesheetCell,
+  TimesheetStatus,
+  TimesheetSummary,
+  shiftDate
+} from '@/services/timesheetService';
+import { TimesheetStatusBadge } from './TimesheetStatusBadge';
+
+interface TimesheetApprovalsProps {
+  // Leave out to review sheets from every project the user can approve in
+  projectId?: string;
+}
+
+const formatHours = (seconds: number) => `${Math.round((seconds / 3600) * 100) / 100}სთ`;
+
+/**
+ * Submitted timesheets for project admins to approve, or reject with a comment
+ */
+export function TimesheetApprovals({ projectId }: TimesheetApprovalsProps) {
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { toast } = useToast();
+  const isAdmin = profile?.role === 'admin';
+  const [sheets, setSheets] = useState<TimesheetSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<'all' | TimesheetStatus>('submitted');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<Record<string, TimesheetCell[]>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  // Sheet awaiting a rejection comment
+  const [rejecting, setRejecting] = useState<TimesheetSummary | null>(null);
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    loadSheets();
+  }, [statusFilter, projectId]);
+
+  const loadSheets = async () => {
+    setLoading(true);
+    const result = await TimesheetService.list({
+      status: statusFilter === 'all' ? undefined : statusFilter,
+      projectId
+    });
+    setLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSheets(result.sheets!);
+  };
+
+  // Only admins may review their own time
+  const reviewable = useMemo(
+    () => sheets.filter(sheet => sheet.status !== 'draft' && (isAdmin || sheet.user_id !== user?.id)),
+    [sheets, isAdmin, user?.id]
+  );
+
+  const toggleDetails = async (sheet: TimesheetSummary) => {
+    if (expandedId === sheet.id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(sheet.id);
+    if (details[sheet.id]) return;
+
+    const result = await TimesheetService.getWeekCells(sheet.user_id, sheet.week_start, sheet.time_zone);
+    if (result.success) {
+      setDetails(prev => ({
+        ...prev,
+        [sheet.id]: result.cells!.filter(cell => cell.project_id === sheet.project_id)
+      }));
+    }
+  };
+
+  const review = async (sheet: TimesheetSummary, approve: boolean, reviewComment?: string) => {
+    setBusyId(sheet.id);
+    const result = await TimesheetService.review(sheet.id, approve, reviewComment);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: approve ? "დამტკიცებულია" : "უარყოფილია",
+      description: `${sheet.user_name || 'წევრის'} დრო — ${sheet.project_name}`
+    });
+    loadSheets();
+  };
+
+  const handleReject = async () => {
+    if (!rejecting || !comment.trim()) return;
+    const sheet = rejecting;
+    setRejecting(null);
+    await review(sheet, false, comment.trim());
+    setComment('');
+  };
+
+  const renderDetails = (sheet: TimesheetSummary) => {
+    const cells = details[sheet.id];
+    if (!cells) {
+      return (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+
+    const days = Array.from({ length: 7 }, (_, i) => shiftDate(sheet.week_start, i));
+    const tasks = Array.from(new Map(cells.map(cell => [cell.task_id ?? '', cell.task_title])).entries());
+
+    return (
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b text-muted-foreground">
+              <th className="py-1.5 pr-2 text-left font-medium">დავალება</th>
+              {days.map(date => (
+                <th key={date} className="px-1 py-1.5 text-center font-medium">
+                  {format(parseISO(date), 'EEE d', { locale: ka })}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {tasks.map(([taskId, title]) => (
+              <tr key={taskId} className="border-b last:border-0">
+                <td className="py-1.5 pr-2">{title ?? 'პროექტზე მუშაობა'}</td>
+                {days.map(date => {
+                  const seconds = cells
+                    .filter(cell => (cell.task_id ?? '') === taskId && cell.work_date === date)
+                    .reduce((sum, cell) => sum + cell.seconds, 0);
+                  return (
+                    <td key={date} className="px-1 py-1.5 text-center">
+                      {seconds ? formatHours(seconds) : '–'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          დასამტკიცებელი დრო
+          {statusFilter === 'submitted' && reviewable.length > 0 && (
+            <Badge variant="secondary">{reviewable.length}</Badge>
+          )}
+        </CardTitle>
+        <Select value={statusFilter} onValueChange={value => setStatusFilter(value as 'all' | TimesheetStatus)}>
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="submitted">გაგზავნილი</SelectItem>
+            <SelectItem value="approved">დამტკიცებული</SelectItem>
+            <SelectItem value="rejected">უარყოფილი</SelectItem>
+            <SelectItem value="all">ყველა</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : reviewable.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">დასამტკიცებელი ფურცლები არ არის</p>
+        ) : (
+          <div className="divide-y">
+            {reviewable.map(sheet => (
+              <div key={sheet.id} className="py-3">
+                <div className="flex items-center gap-3">
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => toggleDetails(sheet)}>
+                    {expandedId === sheet.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </Button>
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{sheet.user_name || 'უცნობი'}</span>
+                      <TimesheetStatusBadge status={sheet.status} />
+                      <span className="text-sm text-muted-foreground">{formatHours(sheet.total_seconds)}</span>
+                    </div>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {!projectId && `${sheet.project_name} · `}
+                      {format(parseISO(sheet.week_start), 'd MMM', { locale: ka })} – {format(parseISO(shiftDate(sheet.week_start, 6)), 'd MMM yyyy', { locale: ka })}
+                      {sheet.reviewer_name && ` · განიხილა ${sheet.reviewer_name}`}
+                    </p>
+                    {sheet.review_comment && (
+                      <p className="mt-1 text-xs italic text-muted-foreground">„{sheet.review_comment}"</p>
+                    )}
+                  </div>
+                  {sheet.status === 'submitted' && (
+                    <Button size="sm" disabled={busyId !== null} onClick={() => review(sheet, true)}>
+                      {busyId === sheet.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                      დამტკიცება
+                    </Button>
+                  )}
+                  {sheet.status === 'submitted' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive"
+                      disabled={busyId !== null}
+                      onClick={() => setRejecting(sheet)}
+                    >
+                      <X className="mr-2 h-4 w-4" />
+                      უარყოფა
+                    </Button>
+                  )}
+                </div>
+                {expandedId === sheet.id && <div className="mt-3 pl-9">{renderDetails(sheet)}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={rejecting !== null} onOpenChange={open => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>დროის უარყოფა</DialogTitle>
+            <DialogDescription>
+              წევრი დაინახავს თქვენს კომენტარს და შეძლებს კვირის შესწორებას და ხელახლა გაგზავნას.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="timesheet-reject-comment">კომენტარი</Label>
+            <Textarea
+              id="timesheet-reject-comment"
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              placeholder="რა უნდა შესწორდეს?"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>გაუქმება</Button>
+            <Button variant="destructive" disabled={!comment.trim()} onClick={handleReject}>უარყოფა</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,407 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { addWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import { ka } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Badge } from '@/shared/components/ui/badge';
+import { Input } from '@/shared/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
+import { CalendarDays, ChevronLeft, ChevronRight, Loader2, Lock, Plus, Send, Undo2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { queryKeys } from '@/core/data/queryKeys';
+import { useProjects } from '@/core/data/hooks/useProjectQueries';
+import { useProjectTasks } from '@/core/data/hooks/useTaskQueries';
+import {
+  TimesheetService,
+  TimesheetCell,
+  Timesheet,
+  isLockedStatus,
+  shiftDate
+} from '@/services/timesheetService';
+import { TimesheetStatusBadge } from './TimesheetStatusBadge';
+
+interface GridRow {
+  key: string;
+  projectId: string | null;
+  projectName: string;
+  taskId: string | null;
+  taskTitle: string | null;
+}
+
+const NO_TASK = 'none';
+
+const rowKey = (projectId: string | null, taskId: string | null) => `${projectId ?? ''}:${taskId ?? ''}`;
+const cellKey = (row: string, date: string) => `${row}|${date}`;
+
+const toHours = (seconds: number) => (seconds ? String(Math.round((seconds / 3600) * 100) / 100) : '');
+
+const thisWeek = () => format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+/**
+ * The current user's week as a grid of tasks by day. Hours are typed straight into
+ * the cells; the week is then submitted per project for approval.
+ */
+export function TimesheetGrid() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: projects = [] } = useProjects();
+  const [weekStart, setWeekStart] = useState(thisWeek);
+  const [cells, setCells] = useState<TimesheetCell[]>([]);
+  const [sheets, setSheets] = useState<Timesheet[]>([]);
+  // Rows added by hand that have no time yet
+  const [addedRows, setAddedRows] = useState<GridRow[]>([]);
+  // Cell inputs being edited, keyed by cellKey
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [newProjectId, setNewProjectId] = useState('');
+  const [newTaskId, setNewTaskId] = useState(NO_TASK);
+  const { data: projectTasks = [] } = useProjectTasks(newProjectId || undefined);
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => shiftDate(weekStart, i)), [weekStart]);
+
+  useEffect(() => {
+    setAddedRows([]);
+    setDrafts({});
+    loadWeek();
+  }, [weekStart, user?.id]);
+
+  const loadWeek = async () => {
+    if (!user) return;
+    setLoading(true);
+    const [result, weekSheets] = await Promise.all([
+      TimesheetService.getWeekCells(user.id, weekStart),
+      TimesheetService.getMyWeekSheets(user.id, weekStart)
+    ]);
+    setLoading(false);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCells(result.cells!);
+    setSheets(weekSheets);
+  };
+
+  const secondsByCell = useMemo(() => {
+    const totals = new Map<string, number>();
+    cells.forEach(cell => {
+      const key = cellKey(rowKey(cell.project_id, cell.task_id), cell.work_date);
+      totals.set(key, (totals.get(key) ?? 0) + cell.seconds);
+    });
+    return totals;
+  }, [cells]);
+
+  const rows = useMemo(() => {
+    const byKey = new Map<string, GridRow>();
+    cells.forEach(cell => {
+      const key = rowKey(cell.project_id, cell.task_id);
+      if (!byKey.has(key)) {
+        byKey.set(key, {
+          key,
+          projectId: cell.project_id,
+          projectName: cell.project_name ?? 'პროექტის გარეშე',
+          taskId: cell.task_id,
+          taskTitle: cell.task_title
+        });
+      }
+    });
+    addedRows.forEach(row => {
+      if (!byKey.has(row.key)) byKey.set(row.key, row);
+    });
+    // Projects in name order with time outside a project last, tasks after the project's own row
+    return Array.from(byKey.values()).sort((a, b) =>
+      Number(a.projectId === null) - Number(b.projectId === null)
+      || a.projectName.localeCompare(b.projectName)
+      || Number(a.taskId !== null) - Number(b.taskId !== null)
+      || (a.taskTitle ?? '').localeCompare(b.taskTitle ?? '')
+    );
+  }, [cells, addedRows]);
+
+  const sheetByProject = useMemo(() => new Map(sheets.map(sheet => [sheet.project_id, sheet])), [sheets]);
+
+  const isRowLocked = (row: GridRow) => !!row.projectId && isLockedStatus(sheetByProject.get(row.projectId)?.status);
+
+  const dayTotal = (date: string) => rows.reduce((sum, row) => sum + (secondsByCell.get(cellKey(row.key, date)) ?? 0), 0);
+  const rowTotal = (row: GridRow) => days.reduce((sum, date) => sum + (secondsByCell.get(cellKey(row.key, date)) ?? 0), 0);
+  const weekTotal = days.reduce((sum, date) => sum + dayTotal(date), 0);
+
+  const projectIdsWithTime = useMemo(
+    () => Array.from(new Set(cells.filter(cell => cell.project_id && cell.seconds > 0).map(cell => cell.project_id!))),
+    [cells]
+  );
+  const canSubmit = projectIdsWithTime.some(projectId => !isLockedStatus(sheetByProject.get(projectId)?.status));
+  const canWithdraw = sheets.some(sheet => sheet.status === 'submitted');
+
+  const saveCell = async (row: GridRow, date: string) => {
+    const key = cellKey(row.key, date);
+    const draft = drafts[key];
+    if (draft === undefined) return;
+
+    const hours = draft.trim() === '' ? 0 : Number(draft.replace(',', '.'));
+    const clearDraft = () => setDrafts(prev => {
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+
+    if (!Number.isFinite(hours) || hours < 0 || hours > 24) {
+      toast({
+        title: "არასწორი მნიშვნელობა",
+        description: "შეიყვანეთ საათები 0-დან 24-მდე",
+        variant: "destructive"
+      });
+      clearDraft();
+      return;
+    }
+
+    const seconds = Math.round(hours * 3600);
+    if (seconds === (secondsByCell.get(key) ?? 0)) {
+      clearDraft();
+      return;
+    }
+
+    setBusy(key);
+    const result = await TimesheetService.setHours({ projectId: row.projectId, taskId: row.taskId, date, seconds });
+    setBusy(null);
+    clearDraft();
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: queryKeys.timeEntries.all });
+    loadWeek();
+  };
+
+  const handleAddRow = () => {
+    const project = projects.find(p => p.id === newProjectId);
+    if (!project) return;
+    const task = projectTasks.find(t => t.id === newTaskId);
+    const taskId = task?.id ?? null;
+
+    setAddedRows(prev => [...prev, {
+      key: rowKey(project.id, taskId),
+      projectId: project.id,
+      projectName: project.name,
+      taskId,
+      taskTitle: task?.title ?? null
+    }]);
+    setNewTaskId(NO_TASK);
+  };
+
+  const handleSubmit = async () => {
+    setBusy('submit');
+    const result = await TimesheetService.submitWeek(weekStart);
+    setBusy(null);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "გაგზავნილია",
+      description: result.count
+        ? `${result.count} პროექტის დრო გაიგზავნა დასამტკიცებლად`
+        : 'გასაგზავნი დრო არ მოიძებნა'
+    });
+    loadWeek();
+  };
+
+  const handleWithdraw = async () => {
+    setBusy('withdraw');
+    const result = await TimesheetService.withdrawWeek(weekStart);
+    setBusy(null);
+
+    if (!result.success) {
+      toast({
+        title: "შეცდომა",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    loadWeek();
+  };
+
+  const rejectedSheets = sheets.filter(sheet => sheet.status === 'rejected' && sheet.review_comment);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          {format(parseISO(days[0]), 'd MMM', { locale: ka })} – {format(parseISO(days[6]), 'd MMM yyyy', { locale: ka })}
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setWeekStart(format(addWeeks(parseISO(weekStart), -1), 'yyyy-MM-dd'))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" disabled={weekStart === thisWeek()} onClick={() => setWeekStart(thisWeek())}>
+            ეს კვირა
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setWeekStart(format(addWeeks(parseISO(weekStart), 1), 'yyyy-MM-dd'))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          {canWithdraw && (
+            <Button variant="outline" size="sm" disabled={busy !== null} onClick={handleWithdraw}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              გაგზავნის გაუქმება
+            </Button>
+          )}
+          <Button size="sm" disabled={!canSubmit || busy !== null} onClick={handleSubmit}>
+            {busy === 'submit' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            კვირის გაგზავნა
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rejectedSheets.map(sheet => (
+          <div key={sheet.id} className="rounded-md border border-destructive/50 bg-destructive/5 p-3 text-sm">
+            <span className="font-medium">
+              {projects.find(p => p.id === sheet.project_id)?.name ?? 'პროექტი'} — უარყოფილია:
+            </span>{' '}
+            {sheet.review_comment}
+          </div>
+        ))}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="py-2 pr-2 text-left font-medium">დავალება</th>
+                  {days.map(date => (
+                    <th key={date} className="w-20 px-1 py-2 text-center font-medium">
+                      {format(parseISO(date), 'EEE d', { locale: ka })}
+                    </th>
+                  ))}
+                  <th className="w-16 py-2 pl-2 text-right font-medium">სულ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="py-8 text-center text-muted-foreground">
+                      ამ კვირაში დრო არ არის აღრიცხული
+                    </td>
+                  </tr>
+                )}
+                {rows.map((row, index) => {
+                  const locked = isRowLocked(row);
+                  const showProject = index === 0 || rows[index - 1].projectId !== row.projectId;
+                  const sheet = row.projectId ? sheetByProject.get(row.projectId) : undefined;
+
+                  return (
+                    <React.Fragment key={row.key}>
+                      {showProject && (
+                        <tr className="border-b bg-muted/40">
+                          <td colSpan={9} className="px-2 py-1.5">
+                            <div className="flex items-center gap-2 font-medium">
+                              {row.projectName}
+                              {sheet && <TimesheetStatusBadge status={sheet.status} />}
+                              {!row.projectId && (
+                                <span className="text-xs font-normal text-muted-foreground">
+                                  პროექტის გარეშე დრო დასამტკიცებლად არ იგზავნება
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                      <tr className="border-b">
+                        <td className="py-1 pr-2">
+                          <div className="flex items-center gap-1.5">
+                            {locked && <Lock className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                            <span className="truncate">{row.taskTitle ?? 'პროექტზე მუშაობა'}</span>
+                          </div>
+                        </td>
+                        {days.map(date => {
+                          const key = cellKey(row.key, date);
+                          return (
+                            <td key={date} className="px-1 py-1">
+                              <Input
+                                className="h-8 text-center"
+                                inputMode="decimal"
+                                disabled={locked || busy === key}
+                                value={drafts[key] ?? toHours(secondsByCell.get(key) ?? 0)}
+                                onChange={e => setDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+                                onBlur={() => saveCell(row, date)}
+                                onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                              />
+                            </td>
+                          );
+                        })}
+                        <td className="py-1 pl-2 text-right font-medium">{toHours(rowTotal(row)) || '0'}</td>
+                      </tr>
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+              <tfoot>
+                <tr className="font-medium">
+                  <td className="py-2 pr-2">სულ</td>
+                  {days.map(date => (
+                    <td key={date} className="px-1 py-2 text-center">{toHours(dayTotal(date)) || '0'}</td>
+                  ))}
+                  <td className="py-2 pl-2 text-right">{toHours(weekTotal) || '0'}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 border-t pt-4">
+          <Select value={newProjectId} onValueChange={value => { setNewProjectId(value); setNewTaskId(NO_TASK); }}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue placeholder="აირჩიეთ პროექტი" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newTaskId} onValueChange={setNewTaskId} disabled={!newProjectId}>
+            <SelectTrigger className="h-8 w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_TASK}>დავალების გარეშე</SelectItem>
+              {projectTasks.map(task => (
+                <SelectItem key={task.id} value={task.id}>{task.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" disabled={!newProjectId} onClick={handleAddRow}>
+            <Plus className="mr-2 h-4 w-4" />
+            სტრიქონის დამატება
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
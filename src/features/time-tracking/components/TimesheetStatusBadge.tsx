@@ -0,0 +1,18 @@
+import React from 'react';
+import { Badge } from '@/shared/components/ui/badge';
+
+const statusConfig: Record<string, { label: string; className: string }> = {
+  draft: { label: 'მონახაზი', className: 'bg-muted text-muted-foreground' },
+  submitted: { label: 'გაგზავნილი', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300' },
+  approved: { label: 'დამტკიცებული', className: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  rejected: { label: 'უარყოფილი', className: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' }
+};
+
+export function TimesheetStatusBadge({ status }: { status: string }) {
+  const config = statusConfig[status] ?? statusConfig.draft;
+  return (
+    <Badge variant="outline" className={`border-transparent text-xs ${config.className}`}>
+      {config.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useCallback } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'] as const;
+
+// How often to check for idleness; also catches the machine waking from sleep
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Calls onIdle once the page has had no input for thresholdMinutes, passing
+ * the moment of the last input. It doesn't fire again until reset is called.
+ * Only input in this app counts, as browsers don't expose system-wide idleness.
+ */
+export function useIdleDetection(
+  enabled: boolean,
+  thresholdMinutes: number,
+  onIdle: (idleSince: Date) => void
+) {
+  const lastActivityRef = useRef(Date.now());
+  const firedRef = useRef(false);
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || thresholdMinutes <= 0) return;
+
+    const markActive = () => {
+      if (!firedRef.current) {
+        lastActivityRef.current = Date.now();
+      }
+    };
+
+    const check = () => {
+      if (firedRef.current) return;
+      if (Date.now() - lastActivityRef.current >= thresholdMinutes * 60 * 1000) {
+        firedRef.current = true;
+        onIdleRef.current(new Date(lastActivityRef.current));
+      }
+    };
+
+    firedRef.current = false;
+    lastActivityRef.current = Date.now();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    // Coming back to the tab is when a long absence should surface
+    document.addEventListener('visibilitychange', check);
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      document.removeEventListener('visibilitychange', check);
+      clearInterval(interval);
+    };
+  }, [enabled, thresholdMinutes]);
+
+  const reset = useCallback(() => {
+    firedRef.current = false;
+    lastActivityRef.current = Date.now();
+  }, []);
+
+  return { reset };
+}
@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useProjects } from '@/core/data/hooks/useProjectQueries';
+import { ProjectPermissionService } from '@/services/projectPermissionService';
+import { TimesheetGrid } from '../components/TimesheetGrid';
+import { TimesheetApprovals } from '../components/TimesheetApprovals';
+
+export default function Timesheets() {
+  const { profile } = useProfile();
+  const { data: projects = [] } = useProjects();
+  const [canApprove, setCanApprove] = useState(false);
+
+  useEffect(() => {
+    if (profile?.role === 'admin') {
+      setCanApprove(true);
+      return;
+    }
+    if (projects.length === 0) return;
+
+    ProjectPermissionService.getMyPermissionsForProjects(projects.map(project => project.id)).then(byProject =>
+      setCanApprove(Object.values(byProject).some(permissions => permissions.approve_timesheets))
+    );
+  }, [profile?.role, projects]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-card">
+        <div className="px-6 py-6">
+          <h1 className="text-3xl font-bold text-foreground">Timesheets</h1>
+          <p className="text-muted-foreground">
+            Log your week by task and submit it for approval
+          </p>
+        </div>
+      </div>
+
+      <div className="px-6 py-6">
+        {canApprove ? (
+          <Tabs defaultValue="week">
+            <TabsList>
+              <TabsTrigger value="week">My week</TabsTrigger>
+              <TabsTrigger value="approvals">Approvals</TabsTrigger>
+            </TabsList>
+            <TabsContent value="week">
+              <TimesheetGrid />
+            </TabsContent>
+            <TabsContent value="approvals">
+              <TimesheetApprovals />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <TimesheetGrid />
+        )}
+      </div>
+    </div>
+  );
+}
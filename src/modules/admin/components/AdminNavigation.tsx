@@ -9,7 +9,8 @@ import {
   Activity,
   FileText,
   Settings,
-  BarChart3
+  BarChart3,
+  Trash2
 } from 'lucide-react';
 
 const adminNavigation = [
@@ -19,6 +20,7 @@ const adminNavigation = [
   { name: 'System Activity', href: '/admin/activity', icon: Activity },
   { name: 'Time Analytics', href: '/admin/time-analytics', icon: BarChart3 },
   { name: 'All Tasks', href: '/admin/tasks', icon: FileText },
+  { name: 'Trash', href: '/admin/trash', icon: Trash2 },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
 ];
 
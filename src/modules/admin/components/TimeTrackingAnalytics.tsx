@@ -13,10 +13,13 @@ import {
   Download,
   Search,
   Filter,
-  Timer
+  Timer,
+  Hourglass
 } from 'lucide-react';
 import { supabase } from '@/core/config/client';
 import { useToast } from '@/shared/hooks/use-toast';
+import { TimesheetService, Timesheet, isEntryApproved } from '@/services/timesheetService';
+import { TaskEstimateService, EstimateOverrun, formatEstimate } from '@/services/taskEstimateService';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, subDays, subWeeks, subMonths, startOfDay, endOfDay, parseISO, isWithinInterval } from 'date-fns';
 
 interface TimeEntry {
@@ -30,6 +33,7 @@ interface TimeEntry {
   created_at: string;
   task_id: string | null;
   project_id: string | null;
+  is_billable: boolean;
 }
 
 interface UserProfile {
@@ -45,12 +49,14 @@ interface UserTimeStats {
   user_name: string;
   user_role: string;
   total_time: number;
+  billable_time: number;
   entries_count: number;
   avg_session: number;
   last_activity: string | null;
   daily_avg: number;
   weekly_total: number;
   monthly_total: number;
+  overrun_tasks: number;
 }
 
 interface DailyWorkHours {
@@ -93,7 +99,13 @@ const formatHours = (seconds: number) => {
   return `${hours.toFixed(1)}h`;
 };
 
-const calculateEnhancedStats = async (userStatsMap: Map<string, UserTimeStats>, entries: TimeEntry[], dateRange: { start: Date; end: Date }) => {
+// approvedSheets limits the weekly and monthly totals to approved timesheet weeks
+const calculateEnhancedStats = async (
+  userStatsMap: Map<string, UserTimeStats>,
+  entries: TimeEntry[],
+  dateRange: { start: Date; end: Date },
+  approvedSheets?: Timesheet[]
+) => {
   const now = new Date();
   const weekAgo = subWeeks(now, 1);
   const monthAgo = subMonths(now, 1);
@@ -111,18 +123,21 @@ const calculateEnhancedStats = async (userStatsMap: Map<string, UserTimeStats>,
   
   // Fetch additional data for weekly and monthly totals
   try {
-    const { data: weeklyData } = await supabase
+    const { data: weeklyEntries } = await supabase
       .from('time_entries')
-      .select('user_id, duration')
+      .select('user_id, project_id, started_at, duration')
       .gte('started_at', weekAgo.toISOString())
       .lte('started_at', now.toISOString());
       
-    const { data: monthlyData } = await supabase
+    const { data: monthlyEntries } = await supabase
       .from('time_entries')
-      .select('user_id, duration')
+      .select('user_id, project_id, started_at, duration')
       .gte('started_at', monthAgo.toISOString())
       .lte('started_at', now.toISOString());
 
+    const weeklyData = approvedSheets ? weeklyEntries?.filter(entry => isEntryApproved(entry, approvedSheets)) : weeklyEntries;
+    const monthlyData = approvedSheets ? monthlyEntries?.filter(entry => isEntryApproved(entry, approvedSheets)) : monthlyEntries;
+
     // Calculate weekly totals
     if (weeklyData) {
       const weeklyTotals = new Map<string, number>();
@@ -187,13 +202,16 @@ export function TimeTrackingAnalytics() {
   const [customStartDate, setCustomStartDate] = useState<string>('');
   const [customEndDate, setCustomEndDate] = useState<string>('');
   const [roleFilter, setRoleFilter] = useState('all');
+  const [approvalFilter, setApprovalFilter] = useState('all'); // 'all' | 'approved'
   const [dailyWorkHours, setDailyWorkHours] = useState<DailyWorkHours[]>([]);
+  // Tasks over their estimate, counting all time logged on them rather than the selected range
+  const [overruns, setOverruns] = useState<EstimateOverrun[]>([]);
   const [viewMode, setViewMode] = useState('summary'); // 'summary' | 'daily'
   const { toast } = useToast();
 
   useEffect(() => {
     fetchAnalyticsData();
-  }, [dateRange, roleFilter, customStartDate, customEndDate]);
+  }, [dateRange, roleFilter, approvalFilter, customStartDate, customEndDate]);
 
   const getDateRange = () => {
     const now = new Date();
@@ -254,6 +272,14 @@ export function TimeTrackingAnalytics() {
 
       if (entriesError) throw entriesError;
 
+      // Approved sheets covering both the selected range and the last month's totals
+      const approvedSheets = approvalFilter === 'approved'
+        ? await TimesheetService.getApprovedSheets(
+            format(start < subMonths(new Date(), 1) ? start : subMonths(new Date(), 1), 'yyyy-MM-dd'),
+            format(end > new Date() ? end : new Date(), 'yyyy-MM-dd')
+          )
+        : undefined;
+
       console.log('DEBUG: Raw time entries found:', entriesData?.length || 0, entriesData);
 
       // Then fetch profiles separately
@@ -267,7 +293,9 @@ export function TimeTrackingAnalytics() {
 
       if (profilesError) throw profilesError;
 
-      const entries = entriesData || [];
+      const entries = approvedSheets
+        ? (entriesData || []).filter(entry => isEntryApproved(entry, approvedSheets))
+        : entriesData || [];
       const profiles = profilesData || [];
       
       // Create a profile lookup map
@@ -293,17 +321,20 @@ export function TimeTrackingAnalytics() {
             user_name: userName,
             user_role: userRole,
             total_time: 0,
+            billable_time: 0,
             entries_count: 0,
             avg_session: 0,
             last_activity: null,
             daily_avg: 0,
             weekly_total: 0,
-            monthly_total: 0
+            monthly_total: 0,
+            overrun_tasks: 0
           });
         }
         
         const stats = userStatsMap.get(userId)!;
         stats.total_time += entry.duration;
+        if (entry.is_billable) stats.billable_time += entry.duration;
         stats.entries_count += 1;
         
         if (!stats.last_activity || entry.started_at > stats.last_activity) {
@@ -312,7 +343,13 @@ export function TimeTrackingAnalytics() {
       });
 
       // Calculate enhanced statistics
-      await calculateEnhancedStats(userStatsMap, entries, { start, end });
+      await calculateEnhancedStats(userStatsMap, entries, { start, end }, approvedSheets);
+
+      const overrunList = await TaskEstimateService.getOverruns();
+      setOverruns(overrunList);
+      userStatsMap.forEach((stats) => {
+        stats.overrun_tasks = overrunList.filter(o => o.assignee_id === stats.user_id).length;
+      });
 
       const statsArray = Array.from(userStatsMap.values())
         .filter(stats => roleFilter === 'all' || stats.user_role === roleFilter)
@@ -337,15 +374,18 @@ export function TimeTrackingAnalytics() {
   const exportData = async () => {
     try {
       const csvContent = [
-        'User,Role,Total Time,Weekly Time,Monthly Time,Daily Avg,Entries Count,Last Activity',
+        'User,Role,Total Time,Billable Time,Non-billable Time,Weekly Time,Monthly Time,Daily Avg,Entries Count,Tasks Over Estimate,Last Activity',
         ...userStats.map(stat => [
           stat.user_name,
           stat.user_role,
           formatDurationDetailed(stat.total_time),
+          formatDurationDetailed(stat.billable_time),
+          formatDurationDetailed(stat.total_time - stat.billable_time),
           formatDurationDetailed(stat.weekly_total),
           formatDurationDetailed(stat.monthly_total),
           formatDurationDetailed(stat.daily_avg),
           stat.entries_count,
+          stat.overrun_tasks,
           stat.last_activity ? format(new Date(stat.last_activity), 'yyyy-MM-dd HH:mm:ss') : 'Never'
         ].join(','))
       ].join('\n');
@@ -435,6 +475,15 @@ export function TimeTrackingAnalytics() {
               <SelectItem value="user">User</SelectItem>
             </SelectContent>
           </Select>
+          <Select value={approvalFilter} onValueChange={setApprovalFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Time</SelectItem>
+              <SelectItem value="approved">Approved Timesheets Only</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
         
         <div className="flex gap-4 items-center flex-wrap">
@@ -536,10 +585,12 @@ export function TimeTrackingAnalytics() {
                     <th className="text-left p-2">User</th>
                     <th className="text-left p-2">Role</th>
                     <th className="text-right p-2">Total Time</th>
+                    <th className="text-right p-2">Billable</th>
                     <th className="text-right p-2">Weekly Time</th>
                     <th className="text-right p-2">Monthly Time</th>
                     <th className="text-right p-2">Daily Avg</th>
                     <th className="text-right p-2">Entries</th>
+                    <th className="text-right p-2">Over Estimate</th>
                     <th className="text-left p-2">Last Activity</th>
                   </tr>
                 </thead>
@@ -555,6 +606,9 @@ export function TimeTrackingAnalytics() {
                       <td className="p-2 text-right font-mono">
                         {formatDuration(stat.total_time)}
                       </td>
+                      <td className="p-2 text-right font-mono">
+                        {formatDuration(stat.billable_time)}
+                      </td>
                       <td className="p-2 text-right font-mono">
                         {formatDuration(stat.weekly_total)}
                       </td>
@@ -565,6 +619,13 @@ export function TimeTrackingAnalytics() {
                         {formatDuration(stat.daily_avg)}
                       </td>
                       <td className="p-2 text-right">{stat.entries_count}</td>
+                      <td className="p-2 text-right">
+                        {stat.overrun_tasks > 0 ? (
+                          <Badge variant="destructive">{stat.overrun_tasks}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">0</span>
+                        )}
+                      </td>
                       <td className="p-2">
                         {stat.last_activity ? (
                           <div className="flex items-center gap-1">
@@ -643,6 +704,53 @@ export function TimeTrackingAnalytics() {
           </CardContent>
         </Card>
       )}
+
+      {overruns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5 text-red-600" />
+              Tasks Over Estimate
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Task</th>
+                    <th className="text-left p-2">Project</th>
+                    <th className="text-left p-2">Assignee</th>
+                    <th className="text-right p-2">Estimate</th>
+                    <th className="text-right p-2">Logged</th>
+                    <th className="text-right p-2">Over By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overruns.map((overrun) => (
+                    <tr key={overrun.task_id} className="border-b hover:bg-muted/50">
+                      <td className="p-2 font-medium">{overrun.title}</td>
+                      <td className="p-2">{overrun.project_name}</td>
+                      <td className="p-2">
+                        {userStats.find(stat => stat.user_id === overrun.assignee_id)?.user_name ?? (
+                          <span className="text-muted-foreground text-sm">{overrun.assignee_id ? '—' : 'Unassigned'}</span>
+                        )}
+                      </td>
+                      <td className="p-2 text-right font-mono">
+                        {formatEstimate(overrun.estimate, overrun.estimate_unit)}
+                      </td>
+                      <td className="p-2 text-right font-mono">{formatDuration(overrun.logged_seconds)}</td>
+                      <td className="p-2 text-right font-mono text-red-600">
+                        {formatDuration(overrun.logged_seconds - overrun.estimated_seconds)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,7 +1,17 @@
 import React, { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useParams, Navigate, useNavigate } from 'react-router-dom';
 import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { queryKeys } from '@/core/data/queryKeys';
+import { useProjectTasks, useUpdateTask } from '@/core/data/hooks/useTaskQueries';
+import { useProject, useProjects, useProjectStats } from '@/core/data/hooks/useProjectQueries';
+import { useProjectMembers } from '@/core/data/hooks/useMemberQueries';
+import { useProjectStatuses } from '@/core/data/hooks/useStatusQueries';
+import { useRealtimeCacheSync } from '@/core/data/hooks/useRealtimeCacheSync';
+import type { ProjectStats } from '@/core/data/repositories/projectRepository';
+import type { MemberSummary } from '@/core/data/repositories/memberRepository';
+import { DEFAULT_PROJECT_STATUSES } from '@/core/data/repositories/statusRepository';
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card';
 import { Badge } from '@/shared/components/ui/badge';
 import { Button } from '@/shared/components/ui/button';
@@ -9,45 +19,29 @@ import { Progress } from '@/shared/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
 import { LoadingSpinner } from '@/shared/components/common/LoadingSpinner';
 import { useToast } from '@/shared/hooks/use-toast';
-import { Calendar, Users, BarChart3, Plus, Settings, ListTodo, Shield, Activity, FileText } from 'lucide-react';
+import { Calendar, Users, BarChart3, Plus, Settings, ListTodo, Shield, Activity, FileText, Archive } from 'lucide-react';
 import { format } from 'date-fns';
 import { TaskCard, Task } from '@/features/tasks/components/TaskCard';
 import { TaskForm } from '@/features/tasks/components/TaskForm';
 import { TaskFiltersComponent, TaskFilters } from '@/features/tasks/components/TaskFilters';
+import { useTaskSearchMatches } from '@/features/tasks/hooks/useTaskSearch';
+import { matchesTaskSearch } from '@/features/tasks/utils/taskSearch';
 import { TeamManagement } from '@/features/projects/components/EnhancedTeamManagement';
 import { KanbanBoard } from '@/features/kanban/components/KanbanBoard';
 import { TasksCalendarView } from '@/features/tasks/components/TasksCalendarView';
 import { FileManager } from '@/shared/components/forms/FileManager';
 import { ActivityFeed } from '@/shared/components/common/ActivityFeed';
+import { TrashBin } from '@/features/project/components/TrashBin';
 import { TaskViewerSidebar } from '@/features/tasks/components/TaskViewerSidebar';
+import { useTaskBulkActions } from '@/features/tasks/hooks/useTaskBulkActions';
 import { FileUploadService } from '@/services/fileUploadService';
+import { LabelService } from '@/services/labelService';
 import { FileUploadItem } from '@/components/ui/file-upload';
 
-interface Project {
-  id: string;
-  name: string;
-  description: string | null;
-  status: string | null;
-  category: string | null;
-  created_at: string;
-  updated_at: string;
-  start_date: string | null;
-  end_date: string | null;
-  created_by: string;
-}
-
-interface ProjectStats {
-  totalTasks: number;
-  completedTasks: number;
-  teamMembers: number;
-  completionPercentage: number;
-}
-
-interface TeamMember {
-  id: string;
-  name: string;
-  role?: string;
-}
+// Stable fallbacks while queries load
+const EMPTY_STATS: ProjectStats = { totalTasks: 0, completedTasks: 0, teamMembers: 0, completionPercentage: 0 };
+const EMPTY_TASKS: Task[] = [];
+const EMPTY_MEMBERS: MemberSummary[] = [];
 
 interface AdminStats {
   totalProjects: number;
@@ -65,24 +59,24 @@ export default function AdminProjectDetails() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   
-  const [project, setProject] = useState<Project | null>(null);
-  const [stats, setStats] = useState<ProjectStats>({
-    totalTasks: 0,
-    completedTasks: 0,
-    teamMembers: 0,
-    completionPercentage: 0
-  });
-  const [adminStats, setAdminStats] = useState<AdminStats>({
-    totalProjects: 0,
+  const queryClient = useQueryClient();
+  const bulkActions = useTaskBulkActions();
+  const { data: project, isPending: loading, error: projectError } = useProject(id);
+  const error = projectError?.message ?? null;
+  const { data: stats = EMPTY_STATS } = useProjectStats(id);
+  const { data: allProjects } = useProjects();
+  const [lastBackup] = useState(() => new Date().toISOString());
+  const adminStats: AdminStats = {
+    totalProjects: allProjects?.length || 0,
     systemHealth: 'Good',
-    lastBackup: new Date().toISOString()
-  });
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+    lastBackup
+  };
   const [activeTab, setActiveTab] = useState('overview');
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
-  const [projectStatuses, setProjectStatuses] = useState<Array<{ id: string; name: string; color: string }>>([]);
+  const { data: tasks = EMPTY_TASKS, error: tasksError } = useProjectTasks(id);
+  const { data: teamMembers = EMPTY_MEMBERS } = useProjectMembers(id);
+  const { data: projectStatuses = DEFAULT_PROJECT_STATUSES } = useProjectStatuses(id);
+  const updateTask = useUpdateTask();
+  useRealtimeCacheSync(id);
   const [taskFormOpen, setTaskFormOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [taskLoading, setTaskLoading] = useState(false);
@@ -92,7 +86,8 @@ export default function AdminProjectDetails() {
     assignee: 'all',
     search: '',
     sortBy: 'created_at',
-    sortOrder: 'desc'
+    sortOrder: 'desc',
+    archived: 'hide'
   });
 
   const handleTaskClick = (taskId: string) => {
@@ -106,246 +101,30 @@ export default function AdminProjectDetails() {
   };
 
   useEffect(() => {
-    if (!id || !user) return;
-    
-    fetchProject();
-    fetchProjectStats();
-    fetchTasks();
-    fetchTeamMembers();
-    fetchProjectStatuses();
-    fetchAdminStats();
-
-    // Set up realtime subscriptions
-    const projectStatusesChannel = supabase
-      .channel('project-statuses-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'project_statuses',
-          filter: `project_id=eq.${id}`
-        }, 
-        (payload) => {
-          console.log('Project statuses realtime change detected:', payload);
-          setTimeout(() => {
-            fetchProjectStatuses();
-            fetchTasks();
-          }, 100);
-        }
-      )
-      .subscribe();
-
-    const tasksChannel = supabase
-      .channel('tasks-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'tasks',
-          filter: `project_id=eq.${id}`
-        }, 
-        (payload) => {
-          console.log('Tasks realtime change detected:', payload);
-          setTimeout(() => {
-            fetchTasks();
-            fetchProjectStats();
-            fetchProjectStatuses();
-          }, 100);
-        }
-      )
-      .subscribe();
-
-    const kanbanColumnsChannel = supabase
-      .channel('kanban-columns-changes')
-      .on('postgres_changes', 
-        { 
-          event: '*', 
-          schema: 'public', 
-          table: 'kanban_columns',
-          filter: `project_id=eq.${id}`
-        }, 
-        () => {
-          console.log('Kanban columns changed, refreshing...');
-          // Force refresh both kanban and project statuses
-          window.location.reload(); // Force full refresh for kanban changes
-        }
-      )
-      .subscribe();
-
-    // Cleanup subscriptions on unmount
-    return () => {
-      supabase.removeChannel(projectStatusesChannel);
-      supabase.removeChannel(tasksChannel);
-      supabase.removeChannel(kanbanColumnsChannel);
-    };
-  }, [id, user]);
-
-  const fetchProject = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('id', id)
-        .single();
-
-      if (error) throw error;
-      setProject(data);
-    } catch (err: any) {
-      setError(err.message);
-      toast({
-        title: "Error",
-        description: "Failed to load project details",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchAdminStats = async () => {
-    try {
-      // Get total projects count
-      const { data: projects, error: projectsError } = await supabase
-        .from('projects')
-        .select('id');
-
-      if (projectsError) throw projectsError;
-
-      setAdminStats({
-        totalProjects: projects?.length || 0,
-        systemHealth: 'Good',
-        lastBackup: new Date().toISOString()
-      });
-    } catch (err: any) {
-      console.error('Error fetching admin stats:', err);
-    }
-  };
-
-  const fetchProjectStats = async () => {
-    try {
-      // Get team members count
-      const { data: members, error: membersError } = await supabase
-        .from('project_members')
-        .select('id')
-        .eq('project_id', id);
-
-      if (membersError) throw membersError;
-
-      // Get tasks statistics
-      const { data: tasksData, error: tasksError } = await supabase
-        .from('tasks')
-        .select('status')
-        .eq('project_id', id);
-
-      if (tasksError) throw tasksError;
-
-      const teamMembersCount = members?.length || 0;
-      const totalTasks = tasksData?.length || 0;
-      const completedTasks = tasksData?.filter(task => task.status === 'done').length || 0;
-      const completionPercentage = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
-
-      setStats({
-        totalTasks,
-        completedTasks,
-        teamMembers: teamMembersCount,
-        completionPercentage
-      });
-    } catch (err: any) {
-      console.error('Error fetching project stats:', err);
-    }
-  };
-
-  const fetchTasks = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('tasks')
-        .select('*')
-        .eq('project_id', id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setTasks((data || []) as Task[]);
-    } catch (err: any) {
-      console.error('Error fetching tasks:', err);
-      toast({
-        title: "Error",
-        description: "Failed to load tasks",
-        variant: "destructive"
-      });
-    }
-  };
-
-  const fetchTeamMembers = async () => {
-    try {
-      // First get project members
-      const { data: membersData, error: membersError } = await supabase
-        .from('project_members')
-        .select('user_id, role')
-        .eq('project_id', id);
-
-      if (membersError) throw membersError;
-
-      if (!membersData || membersData.length === 0) {
-        setTeamMembers([]);
-        return;
-      }
-
-      // Then get profile info for each member
-      const userIds = membersData.map(m => m.user_id);
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('user_id, display_name, full_name')
-        .in('user_id', userIds);
-
-      if (profilesError) throw profilesError;
-
-      const members = membersData.map(member => {
-        const profile = profilesData?.find(p => p.user_id === member.user_id);
-        return {
-          id: member.user_id,
-          name: profile?.display_name || profile?.full_name || 'Unknown User',
-          role: member.role
-        };
-      });
-
-      setTeamMembers(members);
-    } catch (err: any) {
-      console.error('Error fetching team members:', err);
-    }
-  };
-
-  const fetchProjectStatuses = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('project_statuses')
-        .select('id, name, color')
-        .eq('project_id', id)
-        .order('position');
+    if (!projectError) return;
+    toast({
+      title: "Error",
+      description: "Failed to load project details",
+      variant: "destructive"
+    });
+  }, [projectError]);
 
-      if (error) throw error;
+  useEffect(() => {
+    if (!tasksError) return;
+    console.error('Error fetching tasks:', tasksError);
+    toast({
+      title: "Error",
+      description: "Failed to load tasks",
+      variant: "destructive"
+    });
+  }, [tasksError]);
 
-      if (!data || data.length === 0) {
-        // Use default statuses if none exist
-        setProjectStatuses([
-          { id: 'default-1', name: 'To Do', color: '#6b7280' },
-          { id: 'default-2', name: 'In Progress', color: '#0ea5e9' },
-          { id: 'default-3', name: 'Review', color: '#f59e0b' },
-          { id: 'default-4', name: 'Done', color: '#22c55e' }
-        ]);
-      } else {
-        setProjectStatuses(data);
-      }
-    } catch (err: any) {
-      console.error('Error fetching project statuses:', err);
-      // Fallback to default statuses
-      setProjectStatuses([
-        { id: 'default-1', name: 'To Do', color: '#6b7280' },
-        { id: 'default-2', name: 'In Progress', color: '#0ea5e9' },
-        { id: 'default-3', name: 'Review', color: '#f59e0b' },
-        { id: 'default-4', name: 'Done', color: '#22c55e' }
-      ]);
-    }
+  const refreshTasks = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.tasks.all });
+    if (id) queryClient.invalidateQueries({ queryKey: queryKeys.projects.stats(id) });
   };
+  const refreshStatuses = () => queryClient.invalidateQueries({ queryKey: queryKeys.statuses.all });
+  const refreshMembers = () => queryClient.invalidateQueries({ queryKey: queryKeys.members.all });
 
   const handleCreateTask = async (taskData: any & { files?: FileUploadItem[] }) => {
     setTaskLoading(true);
@@ -369,6 +148,7 @@ export default function AdminProjectDetails() {
           priority: taskData.priority,
           assignee_id: taskData.assignee_id === 'unassigned' ? null : taskData.assignee_id,
           due_date: taskData.due_date,
+          recurrence: taskData.recurrence ?? null,
           project_id: id,
           created_by: user?.id,
           kanban_column: kanban_column,
@@ -406,6 +186,10 @@ export default function AdminProjectDetails() {
         }
       }
 
+      if (taskData.label_ids?.length) {
+        await LabelService.setTaskLabels(taskResult.id, taskData.label_ids);
+      }
+
       // Log activity
       await supabase.rpc('log_project_activity', {
         p_project_id: id,
@@ -422,8 +206,7 @@ export default function AdminProjectDetails() {
       });
 
       setTaskFormOpen(false);
-      fetchTasks();
-      fetchProjectStats();
+      refreshTasks();
     } catch (err: any) {
       console.error('Error creating task:', err);
       toast({
@@ -451,10 +234,12 @@ export default function AdminProjectDetails() {
       
       const kanban_column = statusToColumnMap[taskData.status] || 'to-do';
       
+      const { files, label_ids, ...fields } = taskData;
+
       const { error } = await supabase
         .from('tasks')
         .update({
-          ...taskData,
+          ...fields,
           assignee_id: taskData.assignee_id === 'unassigned' ? null : taskData.assignee_id,
           kanban_column: kanban_column
         })
@@ -462,6 +247,10 @@ export default function AdminProjectDetails() {
 
       if (error) throw error;
 
+      if (label_ids) {
+        await LabelService.setTaskLabels(editingTask.id, label_ids);
+      }
+
       // Log activity
       await supabase.rpc('log_project_activity', {
         p_project_id: id,
@@ -479,8 +268,7 @@ export default function AdminProjectDetails() {
 
       setTaskFormOpen(false);
       setEditingTask(null);
-      fetchTasks();
-      fetchProjectStats();
+      refreshTasks();
     } catch (err: any) {
       console.error('Error updating task:', err);
       toast({
@@ -493,47 +281,9 @@ export default function AdminProjectDetails() {
     }
   };
 
+  // Goes to the trash, with an undo button in the toast
   const handleDeleteTask = async (taskId: string) => {
-    try {
-      // Get task title before deleting
-      const { data: taskData } = await supabase
-        .from('tasks')
-        .select('title')
-        .eq('id', taskId)
-        .single();
-
-      const { error } = await supabase
-        .from('tasks')
-        .delete()
-        .eq('id', taskId);
-
-      if (error) throw error;
-
-      // Log activity
-      await supabase.rpc('log_project_activity', {
-        p_project_id: id,
-        p_user_id: user?.id,
-        p_activity_type: 'task_deleted',
-        p_description: `Admin deleted task "${taskData?.title || 'Unknown'}"`,
-        p_entity_type: 'task',
-        p_entity_id: taskId
-      });
-
-      toast({
-        title: "Success",
-        description: "Task deleted successfully",
-      });
-
-      fetchTasks();
-      fetchProjectStats();
-    } catch (err: any) {
-      console.error('Error deleting task:', err);
-      toast({
-        title: "Error",
-        description: "Failed to delete task",
-        variant: "destructive"
-      });
-    }
+    await bulkActions.deleteTasks([taskId]);
   };
 
   const handleStatusChange = async (taskId: string, status: Task['status']) => {
@@ -555,15 +305,7 @@ export default function AdminProjectDetails() {
       
       const kanban_column = statusToColumnMap[status] || 'to-do';
 
-      const { error } = await supabase
-        .from('tasks')
-        .update({ 
-          status,
-          kanban_column: kanban_column 
-        })
-        .eq('id', taskId);
-
-      if (error) throw error;
+      await updateTask.mutateAsync({ taskId, fields: { status, kanban_column } });
 
       // Log activity
       await supabase.rpc('log_project_activity', {
@@ -575,8 +317,7 @@ export default function AdminProjectDetails() {
         p_entity_id: taskId
       });
 
-      fetchTasks();
-      fetchProjectStats();
+      refreshTasks();
     } catch (err: any) {
       console.error('Error updating task status:', err);
       toast({
@@ -597,16 +338,22 @@ export default function AdminProjectDetails() {
     setTaskFormOpen(true);
   };
 
+  const searchMatches = useTaskSearchMatches(filters.search, id ?? null);
+
   // Filter and sort tasks (exclude subtasks from main task list)
   const filteredTasks = React.useMemo(() => {
     let filtered = [...tasks].filter(task => !task.is_subtask);
 
+    // Archived tasks only show when asked for
+    if (filters.archived === 'only') {
+      filtered = filtered.filter(task => task.archived_at);
+    } else if (filters.archived !== 'all') {
+      filtered = filtered.filter(task => !task.archived_at);
+    }
+
     // Apply filters
     if (filters.search) {
-      filtered = filtered.filter(task =>
-        task.title.toLowerCase().includes(filters.search.toLowerCase()) ||
-        task.description?.toLowerCase().includes(filters.search.toLowerCase())
-      );
+      filtered = filtered.filter(task => matchesTaskSearch(task, filters.search, searchMatches));
     }
 
     if (filters.status && filters.status !== 'all') {
@@ -660,7 +407,7 @@ export default function AdminProjectDetails() {
     });
 
     return filtered;
-  }, [tasks, filters]);
+  }, [tasks, filters, searchMatches]);
 
   // Calculate task counts for filters (exclude subtasks)
   const taskCounts = React.useMemo(() => {
@@ -709,6 +456,12 @@ export default function AdminProjectDetails() {
                 <Badge className={getStatusColor(project.status)}>
                   {project.status || 'Unknown'}
                 </Badge>
+                {project.archived_at && (
+                  <Badge variant="outline">
+                    <Archive className="h-3 w-3 mr-1" />
+                    Archived
+                  </Badge>
+                )}
                 <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
                   Admin View
                 </Badge>
@@ -752,7 +505,7 @@ export default function AdminProjectDetails() {
       {/* Navigation Tabs */}
       <div className="px-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-8 lg:w-fit lg:grid-cols-8">
+          <TabsList className="grid w-full grid-cols-9 lg:w-fit lg:grid-cols-9">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="admin">Admin</TabsTrigger>
             <TabsTrigger value="tasks">Tasks</TabsTrigger>
@@ -761,6 +514,7 @@ export default function AdminProjectDetails() {
             <TabsTrigger value="files">Files</TabsTrigger>
             <TabsTrigger value="team">Team</TabsTrigger>
             <TabsTrigger value="activity">Activity</TabsTrigger>
+            <TabsTrigger value="trash">Trash</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -1014,15 +768,15 @@ export default function AdminProjectDetails() {
                     task={task}
                     onEdit={openEditTaskForm}
                     onDelete={handleDeleteTask}
+                    onArchive={(taskId, archived) => bulkActions.archiveTasks([taskId], archived)}
                     onStatusChange={handleStatusChange}
                     assigneeName={teamMembers.find(m => m.id === task.assignee_id)?.name}
                     creatorName={teamMembers.find(m => m.id === task.created_by)?.name}
                     teamMembers={teamMembers}
                     projectStatuses={projectStatuses}
                     onTasksChange={() => {
-                      fetchTasks();
-                      fetchProjectStats();
-                      fetchProjectStatuses();
+                      refreshTasks();
+                      refreshStatuses();
                     }}
                     showSubtasks={true}
                     onTaskClick={handleTaskClick}
@@ -1040,8 +794,8 @@ export default function AdminProjectDetails() {
               onTaskEdit={openEditTaskForm}
               onCreateTask={openCreateTaskForm}
               onTasksChange={() => {
-                fetchTasks();
-                fetchProjectStatuses();
+                refreshTasks();
+                refreshStatuses();
               }}
               onTaskClick={handleTaskClick}
             />
@@ -1066,7 +820,7 @@ export default function AdminProjectDetails() {
           <TabsContent value="team" className="py-6">
             <TeamManagement 
               projectId={id!} 
-              onTeamMembersChange={fetchTeamMembers}
+              onTeamMembersChange={refreshMembers}
             />
           </TabsContent>
 
@@ -1076,6 +830,10 @@ export default function AdminProjectDetails() {
               teamMembers={teamMembers}
             />
           </TabsContent>
+
+          <TabsContent value="trash" className="py-6">
+            <TrashBin projectId={id!} />
+          </TabsContent>
         </Tabs>
       </div>
 
@@ -1096,7 +854,7 @@ export default function AdminProjectDetails() {
         isOpen={sidebarOpen}
         onClose={handleSidebarClose}
         projectStatuses={projectStatuses}
-        onProjectStatusesUpdate={fetchProjectStatuses}
+        onProjectStatusesUpdate={refreshStatuses}
       />
     </div>
   );
@@ -11,8 +11,13 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Label } from '@/shared/components/ui/label';
 import { Textarea } from '@/shared/components/ui/textarea';
 import { useToast } from '@/shared/hooks/use-toast';
-import { Database, Users, Plus, Search, Filter, Trash2 } from 'lucide-react';
+import { ToastAction } from '@/shared/components/ui/toast';
+import { Database, Users, Plus, Search, Filter, Trash2, Copy, Archive, ArchiveRestore } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
+import { Switch } from '@/shared/components/ui/switch';
+import { ProjectTemplateService } from '@/services/projectTemplateService';
+import { TrashService } from '@/services/trashService';
+import { ProjectRepository } from '@/core/data/repositories/projectRepository';
 
 interface Project {
   id: string;
@@ -25,6 +30,8 @@ interface Project {
   created_by: string;
   created_at: string;
   updated_at: string;
+  is_template?: boolean;
+  archived_at?: string | null;
   member_count?: number;
 }
 
@@ -34,6 +41,8 @@ export default function AdminProjects() {
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [categoryFilter, setCategoryFilter] = useState('all');
+  // 'hide' (default), 'only' or 'all'
+  const [archivedFilter, setArchivedFilter] = useState('hide');
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
@@ -45,8 +54,12 @@ export default function AdminProjects() {
     start_date: '',
     end_date: ''
   });
+  const [templateId, setTemplateId] = useState('none');
+  const [copyTemplateMembers, setCopyTemplateMembers] = useState(true);
   const { toast } = useToast();
 
+  const templates = projects.filter(p => p.is_template);
+
   useEffect(() => {
     fetchProjects();
   }, []);
@@ -92,34 +105,15 @@ export default function AdminProjects() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const { data: projectData, error } = await supabase
-        .from('projects')
-        .insert([{
+      if (templateId !== 'none') {
+        // Columns, statuses, tasks and roles come from the template
+        const result = await ProjectTemplateService.createFromTemplate(templateId, {
           ...newProject,
-          created_by: user.id,
-          start_date: newProject.start_date || null,
-          end_date: newProject.end_date || null,
-        }])
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Create default kanban columns for the new project
-      const defaultColumns = [
-        { name: 'To Do', position: 0, color: '#6b7280', project_id: projectData.id },
-        { name: 'In Progress', position: 1, color: '#3b82f6', project_id: projectData.id },
-        { name: 'Review', position: 2, color: '#f59e0b', project_id: projectData.id },
-        { name: 'Done', position: 3, color: '#10b981', project_id: projectData.id }
-      ];
-
-      const { error: columnsError } = await supabase
-        .from('kanban_columns')
-        .insert(defaultColumns);
-
-      if (columnsError) {
-        console.error('Error creating kanban columns:', columnsError);
-        // Don't throw here - project is created, just log the error
+          copyMembers: copyTemplateMembers
+        });
+        if (!result.success) throw new Error(result.error);
+      } else {
+        await createEmptyProject(user.id);
       }
 
       toast({
@@ -136,6 +130,8 @@ export default function AdminProjects() {
         start_date: '',
         end_date: ''
       });
+      setTemplateId('none');
+      setCopyTemplateMembers(true);
       fetchProjects();
     } catch (error: any) {
       toast({
@@ -146,34 +142,123 @@ export default function AdminProjects() {
     }
   };
 
+  // Plain project with the default board columns
+  const createEmptyProject = async (userId: string) => {
+    const { data: projectData, error } = await supabase
+      .from('projects')
+      .insert([{
+        ...newProject,
+        created_by: userId,
+        start_date: newProject.start_date || null,
+        end_date: newProject.end_date || null,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    // Create default kanban columns for the new project
+    const defaultColumns = [
+      { name: 'To Do', status_value: 'To Do', position: 0, color: '#6b7280', project_id: projectData.id },
+      { name: 'In Progress', status_value: 'In Progress', position: 1, color: '#3b82f6', project_id: projectData.id },
+      { name: 'Review', status_value: 'Review', position: 2, color: '#f59e0b', project_id: projectData.id },
+      { name: 'Done', status_value: 'Done', position: 3, color: '#10b981', project_id: projectData.id }
+    ];
+
+    const { error: columnsError } = await supabase
+      .from('kanban_columns')
+      .insert(defaultColumns);
+
+    if (columnsError) {
+      console.error('Error creating kanban columns:', columnsError);
+      // Don't throw here - project is created, just log the error
+    }
+  };
+
+  const openCreateFromTemplate = (project: Project) => {
+    setTemplateId(project.id);
+    setNewProject(prev => ({ ...prev, category: project.category || prev.category }));
+    setCreateDialogOpen(true);
+  };
+
+  // Projects go to the trash with their tasks and files; the toast can undo it
   const deleteProject = async () => {
     if (!projectToDelete) return;
 
-    try {
-      const { error } = await supabase
-        .from('projects')
-        .delete()
-        .eq('id', projectToDelete.id);
-
-      if (error) throw error;
+    const project = projectToDelete;
+    const result = await TrashService.moveToTrash('project', [project.id]);
 
+    if (!result.success) {
       toast({
-        title: 'Success',
-        description: `Project "${projectToDelete.name}" deleted successfully`
+        variant: 'destructive',
+        title: 'Error',
+        description: result.error
       });
+      return;
+    }
+
+    toast({
+      title: 'Moved to trash',
+      description: `Project "${project.name}" moved to trash`,
+      action: (
+        <ToastAction altText="Restore project" onClick={() => restoreProject(project)}>
+          Undo
+        </ToastAction>
+      )
+    });
+
+    setDeleteDialogOpen(false);
+    setProjectToDelete(null);
+    fetchProjects();
+  };
+
+  const restoreProject = async (project: Project) => {
+    const result = await TrashService.restore('project', [project.id]);
 
-      setDeleteDialogOpen(false);
-      setProjectToDelete(null);
+    toast(result.success ? {
+      title: 'Restored',
+      description: `Project "${project.name}" restored`
+    } : {
+      variant: 'destructive',
+      title: 'Error',
+      description: result.error
+    });
+    fetchProjects();
+  };
+
+  // Archived projects are read-only and hidden from the default lists
+  const toggleArchived = async (project: Project) => {
+    const archived = !project.archived_at;
+    try {
+      await ProjectRepository.setProjectArchived(project.id, archived);
+      toast({
+        title: archived ? 'Archived' : 'Unarchived',
+        description: archived
+          ? `Project "${project.name}" is now read-only`
+          : `Project "${project.name}" can be edited again`
+      });
       fetchProjects();
-    } catch (error: any) {
+    } catch (error: unknown) {
+      console.error('Error archiving project:', error);
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: error.message || 'Failed to delete project'
+        description: archived ? 'Failed to archive project' : 'Failed to unarchive project'
       });
     }
   };
 
+  const renderArchiveButton = (project: Project) => (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => toggleArchived(project)}
+      title={project.archived_at ? 'Unarchive project' : 'Archive project'}
+    >
+      {project.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+    </Button>
+  );
+
   const handleDeleteClick = (project: Project) => {
     setProjectToDelete(project);
     setDeleteDialogOpen(true);
@@ -183,8 +268,7 @@ export default function AdminProjects() {
     const variants = {
       active: 'default',
       inactive: 'secondary',
-      completed: 'default',
-      archived: 'outline'
+      completed: 'default'
     } as const;
     
     return (
@@ -199,7 +283,8 @@ export default function AdminProjects() {
                          project.description?.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || project.status === statusFilter;
     const matchesCategory = categoryFilter === 'all' || (project.category || 'uncategorized') === categoryFilter;
-    return matchesSearch && matchesStatus && matchesCategory;
+    const matchesArchived = archivedFilter === 'all' || (archivedFilter === 'only') === !!project.archived_at;
+    return matchesSearch && matchesStatus && matchesCategory && matchesArchived;
   });
 
   const groupedByCategory = filteredProjects.reduce((acc: Record<string, Project[]>, p) => {
@@ -241,6 +326,39 @@ export default function AdminProjects() {
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
+              {templates.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="template">Template</Label>
+                  <Select value={templateId} onValueChange={setTemplateId}>
+                    <SelectTrigger id="template">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Empty project</SelectItem>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {templateId !== 'none' && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          id="copy-template-members"
+                          checked={copyTemplateMembers}
+                          onCheckedChange={setCopyTemplateMembers}
+                        />
+                        <Label htmlFor="copy-template-members" className="font-normal">
+                          Copy team members and their roles
+                        </Label>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Columns, statuses, labels, custom fields, tasks and subtasks are copied. Due dates keep their distance from the start date.
+                      </p>
+                    </>
+                  )}
+                </div>
+              )}
               <div>
                 <Label htmlFor="name">Project Name</Label>
                 <Input
@@ -321,7 +439,7 @@ export default function AdminProjects() {
             <DialogHeader>
               <DialogTitle>Delete Project</DialogTitle>
               <DialogDescription>
-                Are you sure you want to delete the project "{projectToDelete?.name}"? This action cannot be undone and will permanently remove all associated data.
+                Are you sure you want to delete the project "{projectToDelete?.name}"? It moves to the trash together with its tasks and files, and can be restored from there until the retention period ends.
               </DialogDescription>
             </DialogHeader>
             <div className="flex justify-end gap-2 mt-4">
@@ -363,7 +481,7 @@ export default function AdminProjects() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {projects.filter(p => p.status === 'active').length}
+              {projects.filter(p => p.status === 'active' && !p.archived_at).length}
             </div>
           </CardContent>
         </Card>
@@ -412,7 +530,17 @@ export default function AdminProjects() {
             <SelectItem value="active">Active</SelectItem>
             <SelectItem value="inactive">Inactive</SelectItem>
             <SelectItem value="completed">Completed</SelectItem>
-            <SelectItem value="archived">Archived</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={archivedFilter} onValueChange={setArchivedFilter}>
+          <SelectTrigger className="w-44">
+            <Archive className="h-4 w-4 mr-2" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="hide">Hide Archived</SelectItem>
+            <SelectItem value="only">Archived Only</SelectItem>
+            <SelectItem value="all">Include Archived</SelectItem>
           </SelectContent>
         </Select>
         <Select value={categoryFilter} onValueChange={setCategoryFilter}>
@@ -465,7 +593,11 @@ export default function AdminProjects() {
                     <TableRow key={project.id}>
                       <TableCell>
                         <div>
-                          <div className="font-medium">{project.name}</div>
+                          <div className="font-medium flex items-center gap-2">
+                            {project.name}
+                            {project.is_template && <Badge variant="secondary">Template</Badge>}
+                            {project.archived_at && <Badge variant="outline">Archived</Badge>}
+                          </div>
                           {project.description && (
                             <div className="text-sm text-muted-foreground truncate max-w-xs">
                               {project.description}
@@ -497,6 +629,17 @@ export default function AdminProjects() {
                           >
                             View
                           </Button>
+                          {project.is_template && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openCreateFromTemplate(project)}
+                              title="Create project from template"
+                            >
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {renderArchiveButton(project)}
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -556,7 +699,10 @@ export default function AdminProjects() {
                         <TableRow key={project.id}>
                           <TableCell>
                             <div>
-                              <div className="font-medium">{project.name}</div>
+                              <div className="font-medium flex items-center gap-2">
+                                {project.name}
+                                {project.archived_at && <Badge variant="outline">Archived</Badge>}
+                              </div>
                               {project.description && (
                                 <div className="text-sm text-muted-foreground truncate max-w-xs">
                                   {project.description}
@@ -583,6 +729,7 @@ export default function AdminProjects() {
                               >
                                 View
                               </Button>
+                              {renderArchiveButton(project)}
                               <Button 
                                 variant="outline" 
                                 size="sm"
@@ -9,6 +9,7 @@ import { Switch } from '@/shared/components/ui/switch';
 import { Separator } from '@/shared/components/ui/separator';
 import { Badge } from '@/shared/components/ui/badge';
 import { useToast } from '@/shared/hooks/use-toast';
+import { BillingRatesEditor } from '@/features/billing/components/BillingRatesEditor';
 import { 
   Settings, 
   Database, 
@@ -384,6 +385,9 @@ export default function AdminSettings() {
           </CardContent>
         </Card>
 
+        {/* Billing Rates */}
+        <BillingRatesEditor />
+
         {/* Security Settings */}
         <Card>
           <CardHeader>
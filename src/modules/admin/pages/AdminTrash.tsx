@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { AdminLayout } from '@/modules/admin/layouts/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card';
+import { Button } from '@/shared/components/ui/button';
+import { Input } from '@/shared/components/ui/input';
+import { Label } from '@/shared/components/ui/label';
+import { Clock, Save } from 'lucide-react';
+import { useToast } from '@/shared/hooks/use-toast';
+import { TrashService } from '@/services/trashService';
+import { TrashBin } from '@/features/project/components/TrashBin';
+
+export default function AdminTrash() {
+  const { toast } = useToast();
+  const [retentionDays, setRetentionDays] = useState('');
+  const [savedDays, setSavedDays] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Bumped after saving so the list reloads with the new purge dates
+  const [listKey, setListKey] = useState(0);
+
+  useEffect(() => {
+    TrashService.getRetentionDays().then(days => {
+      setSavedDays(days);
+      if (days !== null) setRetentionDays(String(days));
+    });
+  }, []);
+
+  const days = Number(retentionDays);
+  const isValid = Number.isInteger(days) && days >= 1 && days <= 365;
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await TrashService.setRetentionDays(days);
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: "Error",
+        description: result.error,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSavedDays(days);
+    setListKey(key => key + 1);
+    toast({
+      title: "Saved",
+      description: `Trashed items are now kept for ${days} days`
+    });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground">
+            Deleted projects, tasks and files from every project
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Clock className="h-5 w-5 mr-2" />
+              Retention
+            </CardTitle>
+            <CardDescription>
+              Items are deleted for good, along with their stored files, once they have been in the trash this long
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="trash-retention">Days to keep</Label>
+                <Input
+                  id="trash-retention"
+                  type="number"
+                  min={1}
+                  max={365}
+                  className="w-32"
+                  value={retentionDays}
+                  onChange={e => setRetentionDays(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleSave} disabled={!isValid || days === savedDays || saving}>
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </div>
+            {!isValid && retentionDays !== '' && (
+              <p className="mt-2 text-sm text-destructive">Enter a whole number of days between 1 and 365</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <TrashBin key={listKey} />
+      </div>
+    </AdminLayout>
+  );
+}
@@ -11,6 +11,7 @@ import {
   User,
   Settings,
   FileText,
+  CalendarClock,
   ChevronDown,
   ChevronRight
 } from 'lucide-react';
@@ -25,6 +26,7 @@ const userNavigation = [
   { name: 'Dashboard', href: '/dashboard', icon: Home },
   { name: 'My Tasks', href: '/tasks', icon: FileText },
   { name: 'Projects', href: '/projects', icon: FolderOpen, hasSubmenu: true },
+  { name: 'Timesheets', href: '/timesheets', icon: CalendarClock },
   { name: 'Profile', href: '/profile/edit', icon: User },
   { name: 'Settings', href: '/settings', icon: Settings },
 ] as const;
@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/sha
 import { Button } from '@/shared/components/ui/button';
 import { Input } from '@/shared/components/ui/input';
 import { Badge } from '@/shared/components/ui/badge';
+import { useToast } from '@/shared/hooks/use-toast';
+import { ProjectRepository } from '@/core/data/repositories/projectRepository';
 import { Progress } from '@/shared/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs';
 import {
@@ -17,6 +19,8 @@ import {
   CheckCircle2,
   Clock,
   Users,
+  Archive,
+  ArchiveRestore,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { LoadingSpinner } from '@/shared/components/common/LoadingSpinner';
@@ -31,6 +35,8 @@ interface Project {
   updated_at: string;
   start_date: string | null;
   end_date: string | null;
+  created_by: string;
+  archived_at: string | null;
   task_count?: number;
   completed_tasks?: number;
   completion_percentage?: number;
@@ -40,17 +46,21 @@ interface ProjectFilters {
   search: string;
   status: string;
   category: string;
+  // 'hide' (default), 'only' or 'all'
+  archived: string;
 }
 
 export default function UserProjects() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { toast } = useToast();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState<ProjectFilters>({
     search: '',
     status: 'all',
-    category: 'all'
+    category: 'all',
+    archived: 'hide'
   });
   const [categories, setCategories] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<'grid' | 'list'>('grid');
@@ -143,20 +153,62 @@ export default function UserProjects() {
     
     const matchesStatus = filters.status === 'all' || project.status === filters.status;
     const matchesCategory = filters.category === 'all' || project.category === filters.category;
+    const matchesArchived = filters.archived === 'all' || (filters.archived === 'only') === !!project.archived_at;
     
-    return matchesSearch && matchesStatus && matchesCategory;
+    return matchesSearch && matchesStatus && matchesCategory && matchesArchived;
   });
 
   const handleFilterChange = (key: keyof ProjectFilters, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
   };
 
+  // Creators can archive their projects, which makes them read-only
+  const toggleArchived = async (project: Project) => {
+    const archived = !project.archived_at;
+    try {
+      await ProjectRepository.setProjectArchived(project.id, archived);
+      setProjects(prev => prev.map(p => p.id === project.id
+        ? { ...p, archived_at: archived ? new Date().toISOString() : null }
+        : p
+      ));
+      toast({
+        title: archived ? 'Project archived' : 'Project unarchived',
+        description: archived
+          ? `"${project.name}" is now read-only and hidden from the project list`
+          : `"${project.name}" can be edited again`
+      });
+    } catch (error: unknown) {
+      console.error('Error archiving project:', error);
+      toast({
+        title: 'Error',
+        description: archived ? 'Failed to archive project' : 'Failed to unarchive project',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const renderArchiveButton = (project: Project) => project.created_by === user?.id && (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-8 w-8 p-0"
+      title={project.archived_at ? 'Unarchive project' : 'Archive project'}
+      onClick={(e) => {
+        // Rows and cards open the project
+        e.preventDefault();
+        e.stopPropagation();
+        toggleArchived(project);
+      }}
+    >
+      {project.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+    </Button>
+  );
+
   const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'active': return 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400';
       case 'inactive': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400';
       case 'completed': return 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400';
-      case 'archived': return 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400';
       default: return '';
     }
   };
@@ -226,7 +278,16 @@ export default function UserProjects() {
                       <option value="active">Active</option>
                       <option value="inactive">Inactive</option>
                       <option value="completed">Completed</option>
-                      <option value="archived">Archived</option>
+                    </select>
+
+                    <select 
+                      className="bg-background border rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary" 
+                      value={filters.archived}
+                      onChange={(e) => handleFilterChange('archived', e.target.value)}
+                    >
+                      <option value="hide">Hide archived</option>
+                      <option value="only">Archived only</option>
+                      <option value="all">Include archived</option>
                     </select>
                     
                     <select 
@@ -274,9 +335,13 @@ export default function UserProjects() {
                             <CardHeader className="pb-2">
                               <div className="flex justify-between items-start">
                                 <CardTitle className="text-xl">{project.name}</CardTitle>
-                                <Badge className={getStatusColor(project.status)}>
-                                  {project.status || 'unknown'}
-                                </Badge>
+                                <div className="flex items-center gap-1">
+                                  {project.archived_at && <Badge variant="outline">Archived</Badge>}
+                                  <Badge className={getStatusColor(project.status)}>
+                                    {project.status || 'unknown'}
+                                  </Badge>
+                                  {renderArchiveButton(project)}
+                                </div>
                               </div>
                               <CardDescription className="line-clamp-2">
                                 {project.description || 'No description'}
@@ -329,6 +394,7 @@ export default function UserProjects() {
                               <th className="text-left p-3">Status</th>
                               <th className="text-left p-3">Tasks</th>
                               <th className="text-left p-3">Last Updated</th>
+                              <th className="p-3"></th>
                             </tr>
                           </thead>
                           <tbody className="divide-y">
@@ -344,9 +410,12 @@ export default function UserProjects() {
                                 </td>
                                 <td className="p-3">{project.category || '-'}</td>
                                 <td className="p-3">
-                                  <Badge className={getStatusColor(project.status)}>
-                                    {project.status || 'unknown'}
-                                  </Badge>
+                                  <div className="flex items-center gap-1">
+                                    <Badge className={getStatusColor(project.status)}>
+                                      {project.status || 'unknown'}
+                                    </Badge>
+                                    {project.archived_at && <Badge variant="outline">Archived</Badge>}
+                                  </div>
                                 </td>
                                 <td className="p-3">
                                   <div className="flex flex-col">
@@ -362,6 +431,7 @@ export default function UserProjects() {
                                     {format(new Date(project.updated_at), 'dd/MM/yyyy')}
                                   </span>
                                 </td>
+                                <td className="p-3 text-right">{renderArchiveButton(project)}</td>
                               </tr>
                             ))}
                           </tbody>
@@ -0,0 +1,255 @@
+import { supabase } from '@/core/config/client';
+import type { Tables } from '@/core/config/types';
+import { getTimeZone } from './timesheetService';
+
+export type BillingRate = Tables<'billing_rates'>;
+export type Invoice = Tables<'invoices'>;
+export type InvoiceItem = Tables<'invoice_items'>;
+
+export type InvoiceStatus = 'issued' | 'paid' | 'void';
+
+/** A line an invoice for a period would hold, as returned by preview_invoice */
+export interface InvoiceLine {
+  item_type: 'time' | 'budget';
+  description: string;
+  task_id: string | null;
+  user_id: string | null;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  entry_count: number;
+}
+
+export interface InvoiceDetails {
+  periodStart: string;
+  periodEnd: string;
+  clientName?: string;
+  dueDate?: string;
+  taxRate?: number;
+  notes?: string;
+}
+
+// Bucket holding project files, where rendered invoices are kept
+const FILES_BUCKET = 'project-files';
+
+/** Invoice numbers as printed, e.g. INV-0042 */
+export const formatInvoiceNumber = (invoiceNumber: number) => `INV-${String(invoiceNumber).padStart(4, '0')}`;
+
+export const formatMoney = (amount: number, currency = 'GEL') =>
+  currency === 'GEL' ? `₾${Number(amount).toFixed(2)}` : `${Number(amount).toFixed(2)} ${currency}`;
+
+export class BillingService {
+  /**
+   * Hourly rates of a project, or the workspace-wide ones when projectId is null
+   */
+  static async getRates(projectId: string | null): Promise<BillingRate[]> {
+    const query = supabase.from('billing_rates').select('*');
+    const { data, error } = await (projectId ? query.eq('project_id', projectId) : query.is('project_id', null));
+
+    if (error) {
+      console.error('Error loading billing rates:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Create or change a rate for everyone, a role or one user
+   */
+  static async saveRate(rate: {
+    id?: string;
+    projectId: string | null;
+    userId?: string | null;
+    role?: string | null;
+    hourlyRate: number;
+  }): Promise<{ success: boolean; error?: string }> {
+    const { error } = rate.id
+      ? await supabase.from('billing_rates').update({ hourly_rate: rate.hourlyRate }).eq('id', rate.id)
+      : await supabase.from('billing_rates').insert({
+          project_id: rate.projectId,
+          user_id: rate.userId ?? null,
+          role: rate.role ?? null,
+          hourly_rate: rate.hourlyRate
+        });
+
+    if (error) {
+      console.error('Error saving billing rate:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'ასეთი განაკვეთი უკვე არსებობს' : 'განაკვეთის შენახვა ვერ მოხერხდა'
+      };
+    }
+
+    return { success: true };
+  }
+
+  static async deleteRate(rateId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.from('billing_rates').delete().eq('id', rateId);
+
+    if (error) {
+      console.error('Error deleting billing rate:', error);
+      return { success: false, error: 'განაკვეთის წაშლა ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * What an invoice for the period would bill: approved billable time and the
+   * budgets of tasks finished in it, leaving out anything already invoiced
+   */
+  static async previewInvoice(projectId: string, from: string, to: string): Promise<{ success: boolean; lines?: InvoiceLine[]; error?: string }> {
+    const { data, error } = await supabase.rpc('preview_invoice', {
+      p_project_id: projectId,
+      p_from: from,
+      p_to: to,
+      p_time_zone: getTimeZone()
+    });
+
+    if (error) {
+      console.error('Error previewing invoice:', error);
+      return { success: false, error: 'ინვოისის მომზადება ვერ მოხერხდა' };
+    }
+
+    return { success: true, lines: (data || []) as InvoiceLine[] };
+  }
+
+  /**
+   * Issue an invoice with the next invoice number and return it
+   */
+  static async createInvoice(projectId: string, details: InvoiceDetails): Promise<{ success: boolean; invoice?: Invoice; error?: string }> {
+    const { data: invoiceId, error } = await supabase.rpc('create_invoice', {
+      p_project_id: projectId,
+      p_from: details.periodStart,
+      p_to: details.periodEnd,
+      p_time_zone: getTimeZone(),
+      p_client_name: details.clientName,
+      p_due_date: details.dueDate || undefined,
+      p_tax_rate: details.taxRate ?? 0,
+      p_notes: details.notes
+    });
+
+    if (error || !invoiceId) {
+      console.error('Error creating invoice:', error);
+      return {
+        success: false,
+        error: error?.message.includes('Nothing to invoice')
+          ? 'ამ პერიოდში საინვოისე არაფერია'
+          : 'ინვოისის შექმნა ვერ მოხერხდა'
+      };
+    }
+
+    const { data: invoice, error: loadError } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .single();
+
+    if (loadError) {
+      console.error('Error loading invoice:', loadError);
+      return { success: false, error: 'ინვოისის ჩატვირთვა ვერ მოხერხდა' };
+    }
+
+    return { success: true, invoice };
+  }
+
+  /**
+   * A project's invoices, newest first
+   */
+  static async getInvoices(projectId: string): Promise<Invoice[]> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('invoice_number', { ascending: false });
+
+    if (error) {
+      console.error('Error loading invoices:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static async getInvoiceItems(invoiceId: string): Promise<InvoiceItem[]> {
+    const { data, error } = await supabase
+      .from('invoice_items')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('position');
+
+    if (error) {
+      console.error('Error loading invoice items:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Mark an invoice paid, or void it so its time and budgets can be billed again
+   */
+  static async setStatus(invoiceId: string, status: InvoiceStatus): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('set_invoice_status', { p_invoice_id: invoiceId, p_status: status });
+
+    if (error) {
+      console.error('Error changing invoice status:', error);
+      return { success: false, error: 'ინვოისის სტატუსის შეცვლა ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Keep the rendered invoice among the project's files and link it to the invoice
+   */
+  static async storeDocument(invoice: Invoice, html: string): Promise<{ success: boolean; error?: string }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { success: false, error: 'ავტორიზაცია საჭიროა' };
+
+    const filename = `${formatInvoiceNumber(invoice.invoice_number)}.html`;
+    const filePath = `${invoice.project_id}/invoices/${Date.now()}-${filename}`;
+    const blob = new Blob([html], { type: 'text/html' });
+
+    const { error: uploadError } = await supabase.storage
+      .from(FILES_BUCKET)
+      .upload(filePath, blob, { contentType: 'text/html' });
+
+    if (uploadError) {
+      console.error('Error uploading invoice:', uploadError);
+      return { success: false, error: 'ინვოისის ფაილის შენახვა ვერ მოხერხდა' };
+    }
+
+    const { data: file, error: fileError } = await supabase
+      .from('project_files')
+      .insert({
+        project_id: invoice.project_id,
+        filename,
+        file_path: filePath,
+        file_size: blob.size,
+        file_type: 'text/html',
+        uploaded_by: user.id
+      })
+      .select('id')
+      .single();
+
+    if (fileError || !file) {
+      console.error('Error saving invoice file:', fileError);
+      await supabase.storage.from(FILES_BUCKET).remove([filePath]);
+      return { success: false, error: 'ინვოისის ფაილის შენახვა ვერ მოხერხდა' };
+    }
+
+    const { error: linkError } = await supabase.rpc('set_invoice_file', {
+      p_invoice_id: invoice.id,
+      p_file_id: file.id
+    });
+
+    if (linkError) {
+      console.error('Error linking invoice file:', linkError);
+      return { success: false, error: 'ინვოისის ფაილის მიბმა ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+}
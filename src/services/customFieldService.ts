@@ -0,0 +1,194 @@
+import { supabase } from '@/core/config/client';
+import type { Json } from '@/core/config/types';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'user' | 'checkbox';
+
+export type CustomFieldValue = string | number | boolean | null;
+
+export interface ProjectCustomField {
+  id: string;
+  project_id: string;
+  name: string;
+  field_type: CustomFieldType;
+  options: string[];
+  position: number;
+  show_in_list: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CustomFieldInput = Pick<ProjectCustomField, 'name' | 'field_type' | 'options' | 'position' | 'show_in_list'>;
+
+type CustomFieldRow = Omit<ProjectCustomField, 'field_type' | 'options'> & { field_type: string; options: Json };
+
+const toField = (row: CustomFieldRow): ProjectCustomField => ({
+  ...row,
+  field_type: row.field_type as CustomFieldType,
+  options: Array.isArray(row.options) ? row.options.filter((o): o is string => typeof o === 'string') : []
+});
+
+export class CustomFieldService {
+  /**
+   * Get the custom fields defined for a project, in display order
+   */
+  static async getProjectFields(projectId: string): Promise<ProjectCustomField[]> {
+    const byProject = await this.getFieldsForProjects([projectId]);
+    return byProject[projectId] || [];
+  }
+
+  /**
+   * Get custom fields for many projects at once, keyed by project id
+   */
+  static async getFieldsForProjects(projectIds: string[]): Promise<Record<string, ProjectCustomField[]>> {
+    if (projectIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('project_custom_fields')
+      .select('*')
+      .in('project_id', projectIds)
+      .order('position');
+
+    if (error) {
+      console.error('Error fetching custom fields:', error);
+      return {};
+    }
+
+    const result: Record<string, ProjectCustomField[]> = {};
+    (data || []).forEach(row => {
+      const field = toField(row);
+      if (!result[field.project_id]) result[field.project_id] = [];
+      result[field.project_id].push(field);
+    });
+
+    return result;
+  }
+
+  /**
+   * Get custom field values for many tasks at once, keyed by task id and field id
+   */
+  static async getValuesForTasks(taskIds: string[]): Promise<Record<string, Record<string, CustomFieldValue>>> {
+    if (taskIds.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('task_custom_field_values')
+      .select('task_id, field_id, value')
+      .in('task_id', taskIds);
+
+    if (error) {
+      console.error('Error fetching custom field values:', error);
+      return {};
+    }
+
+    const result: Record<string, Record<string, CustomFieldValue>> = {};
+    (data || []).forEach(row => {
+      if (!result[row.task_id]) result[row.task_id] = {};
+      result[row.task_id][row.field_id] = row.value as CustomFieldValue;
+    });
+
+    return result;
+  }
+
+  /**
+   * Attach custom field values to a list of tasks so views can render and filter by them
+   */
+  static async withCustomFields<T extends { id: string }>(
+    tasks: T[]
+  ): Promise<Array<T & { custom_fields: Record<string, CustomFieldValue> }>> {
+    const valuesByTask = await this.getValuesForTasks(tasks.map(t => t.id));
+    return tasks.map(task => ({ ...task, custom_fields: valuesByTask[task.id] || {} }));
+  }
+
+  /**
+   * Set the value of a custom field on a task; empty values are removed
+   */
+  static async setValue(taskId: string, fieldId: string, value: CustomFieldValue): Promise<{ success: boolean; error?: string }> {
+    const isEmpty = value === null || value === '' || value === 'unassigned';
+
+    const { error } = isEmpty
+      ? await supabase
+          .from('task_custom_field_values')
+          .delete()
+          .eq('task_id', taskId)
+          .eq('field_id', fieldId)
+      : await supabase
+          .from('task_custom_field_values')
+          .upsert({ task_id: taskId, field_id: fieldId, value, updated_at: new Date().toISOString() });
+
+    if (error) {
+      console.error('Error saving custom field value:', error);
+      return { success: false, error: 'ველის შენახვა ვერ მოხერხდა' };
+    }
+
+    localStorage.setItem('taskUpdated', Date.now().toString());
+    return { success: true };
+  }
+
+  /**
+   * Whether a user may design the custom fields of a project (managers, the creator, admins)
+   */
+  static async canManageFields(projectId: string, userId: string): Promise<boolean> {
+    const [{ data: member }, { data: project }, { data: isAdmin }] = await Promise.all([
+      supabase.from('project_members').select('role').eq('project_id', projectId).eq('user_id', userId).maybeSingle(),
+      supabase.from('projects').select('created_by').eq('id', projectId).maybeSingle(),
+      supabase.rpc('is_admin', { user_id: userId })
+    ]);
+
+    return member?.role === 'manager' || project?.created_by === userId || isAdmin === true;
+  }
+
+  /**
+   * Create a new custom field in a project
+   */
+  static async createField(projectId: string, input: CustomFieldInput): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('project_custom_fields')
+      .insert({ ...input, name: input.name.trim(), project_id: projectId });
+
+    if (error) {
+      console.error('Error creating custom field:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? `ველი "${input.name.trim()}" უკვე არსებობს` : 'ველის შექმნა ვერ მოხერხდა'
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Update the definition of a custom field
+   */
+  static async updateField(fieldId: string, updates: Partial<CustomFieldInput>): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('project_custom_fields')
+      .update(updates.name ? { ...updates, name: updates.name.trim() } : updates)
+      .eq('id', fieldId);
+
+    if (error) {
+      console.error('Error updating custom field:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? `ველი "${updates.name?.trim()}" უკვე არსებობს` : 'ველის განახლება ვერ მოხერხდა'
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Delete a custom field together with its values on every task
+   */
+  static async deleteField(fieldId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('project_custom_fields')
+      .delete()
+      .eq('id', fieldId);
+
+    if (error) {
+      console.error('Error deleting custom field:', error);
+      return false;
+    }
+
+    return true;
+  }
+}
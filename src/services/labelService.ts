@@ -0,0 +1,215 @@
+import { supabase } from '@/core/config/client';
+
+export interface ProjectLabel {
+  id: string;
+  project_id: string;
+  name: string;
+  color: string;
+  created_at: string;
+}
+
+export class LabelService {
+  /**
+   * Get all labels defined for a project
+   */
+  static async getProjectLabels(projectId: string): Promise<ProjectLabel[]> {
+    const { data, error } = await supabase
+      .from('project_labels')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching project labels:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the labels defined for many projects at once
+   */
+  static async getLabelsForProjects(projectIds: string[]): Promise<ProjectLabel[]> {
+    if (projectIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('project_labels')
+      .select('*')
+      .in('project_id', projectIds)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching project labels:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Get the labels attached to a single task
+   */
+  static async getTaskLabels(taskId: string): Promise<ProjectLabel[]> {
+    const labelsByTask = await this.getLabelsForTasks([taskId]);
+    return labelsByTask[taskId] || [];
+  }
+
+  /**
+   * Get labels for many tasks at once, keyed by task id
+   */
+  static async getLabelsForTasks(taskIds: string[]): Promise<Record<string, ProjectLabel[]>> {
+    if (taskIds.length === 0) return {};
+
+    const { data: links, error } = await supabase
+      .from('task_labels')
+      .select('task_id, label_id')
+      .in('task_id', taskIds);
+
+    if (error) {
+      console.error('Error fetching task labels:', error);
+      return {};
+    }
+
+    const labelIds = [...new Set((links || []).map(l => l.label_id))];
+    if (labelIds.length === 0) return {};
+
+    const { data: labels, error: labelsError } = await supabase
+      .from('project_labels')
+      .select('*')
+      .in('id', labelIds)
+      .order('name');
+
+    if (labelsError) {
+      console.error('Error fetching labels:', labelsError);
+      return {};
+    }
+
+    const result: Record<string, ProjectLabel[]> = {};
+    (labels || []).forEach(label => {
+      (links || [])
+        .filter(l => l.label_id === label.id)
+        .forEach(l => {
+          if (!result[l.task_id]) result[l.task_id] = [];
+          result[l.task_id].push(label);
+        });
+    });
+
+    return result;
+  }
+
+  /**
+   * Attach labels to a list of tasks so views can render and filter by them
+   */
+  static async withLabels<T extends { id: string }>(tasks: T[]): Promise<Array<T & { labels: ProjectLabel[] }>> {
+    const labelsByTask = await this.getLabelsForTasks(tasks.map(t => t.id));
+    return tasks.map(task => ({ ...task, labels: labelsByTask[task.id] || [] }));
+  }
+
+  /**
+   * Replace the labels on a task with the given set
+   */
+  static async setTaskLabels(taskId: string, labelIds: string[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: existing, error: fetchError } = await supabase
+        .from('task_labels')
+        .select('label_id')
+        .eq('task_id', taskId);
+
+      if (fetchError) throw fetchError;
+
+      const currentIds = (existing || []).map(l => l.label_id);
+      const toRemove = currentIds.filter(id => !labelIds.includes(id));
+      const toAdd = labelIds.filter(id => !currentIds.includes(id));
+
+      if (toRemove.length > 0) {
+        const { error } = await supabase
+          .from('task_labels')
+          .delete()
+          .eq('task_id', taskId)
+          .in('label_id', toRemove);
+
+        if (error) throw error;
+      }
+
+      if (toAdd.length > 0) {
+        const { error } = await supabase
+          .from('task_labels')
+          .insert(toAdd.map(labelId => ({ task_id: taskId, label_id: labelId })));
+
+        if (error) throw error;
+      }
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error updating task labels:', error);
+      const message = (error as { message?: string })?.message;
+      return { success: false, error: message || 'ლეიბლების განახლება ვერ მოხერხდა' };
+    }
+  }
+
+  /**
+   * Create a new label in a project
+   */
+  static async createLabel(
+    projectId: string,
+    name: string,
+    color: string
+  ): Promise<{ success: boolean; label?: ProjectLabel; error?: string }> {
+    const { data, error } = await supabase
+      .from('project_labels')
+      .insert({ project_id: projectId, name: name.trim(), color })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating label:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'ასეთი ლეიბლი უკვე არსებობს' : 'ლეიბლის შექმნა ვერ მოხერხდა'
+      };
+    }
+
+    return { success: true, label: data };
+  }
+
+  /**
+   * Rename or recolor a label
+   */
+  static async updateLabel(
+    labelId: string,
+    updates: Partial<Pick<ProjectLabel, 'name' | 'color'>>
+  ): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('project_labels')
+      .update(updates)
+      .eq('id', labelId);
+
+    if (error) {
+      console.error('Error updating label:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'ასეთი ლეიბლი უკვე არსებობს' : 'ლეიბლის განახლება ვერ მოხერხდა'
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Delete a label; it is removed from every task that used it
+   */
+  static async deleteLabel(labelId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('project_labels')
+      .delete()
+      .eq('id', labelId);
+
+    if (error) {
+      console.error('Error deleting label:', error);
+      return false;
+    }
+
+    return true;
+  }
+}
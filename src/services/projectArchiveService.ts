@@ -0,0 +1,106 @@
+import { format } from 'date-fns';
+import { supabase } from '@/core/config/client';
+import type { Json } from '@/core/config/types';
+
+export const PROJECT_ARCHIVE_FORMAT = 'crm-infinity.project-archive';
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+type ArchiveRow = Record<string, Json>;
+
+/**
+ * Portable project archive as produced by the export_project_archive RPC.
+ * Rows mirror the table definitions at export time.
+ */
+export interface ProjectArchive {
+  format: typeof PROJECT_ARCHIVE_FORMAT;
+  version: number;
+  exported_at: string;
+  exported_by: string;
+  project: ArchiveRow & { id: string; name: string };
+  users: Array<{ id: string; email: string; name: string | null }>;
+  members: ArchiveRow[];
+  kanban_columns: ArchiveRow[];
+  project_statuses: ArchiveRow[];
+  labels: ArchiveRow[];
+  custom_fields: ArchiveRow[];
+  tasks: ArchiveRow[];
+  task_labels: ArchiveRow[];
+  task_custom_field_values: ArchiveRow[];
+  task_dependencies: ArchiveRow[];
+  task_comments: ArchiveRow[];
+  task_attachments: ArchiveRow[];
+  time_entries: ArchiveRow[];
+  calendar_events: ArchiveRow[];
+  project_files: ArchiveRow[];
+}
+
+export class ProjectArchiveService {
+  /**
+   * Build the archive of a project on the server
+   */
+  static async exportProject(projectId: string): Promise<{ success: boolean; archive?: ProjectArchive; error?: string }> {
+    const { data, error } = await supabase.rpc('export_project_archive', { p_project_id: projectId });
+
+    if (error || !data) {
+      console.error('Error exporting project:', error);
+      return { success: false, error: 'პროექტის ექსპორტი ვერ მოხერხდა' };
+    }
+
+    return { success: true, archive: data as unknown as ProjectArchive };
+  }
+
+  /**
+   * Save an archive as a JSON file named after the project and the export date
+   */
+  static downloadArchive(archive: ProjectArchive) {
+    const slug = archive.project.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'project';
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${slug}-${format(new Date(archive.exported_at), 'yyyy-MM-dd')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Read an archive file and check its format and version before it is sent to the server
+   */
+  static async readArchive(file: File): Promise<{ success: boolean; archive?: ProjectArchive; error?: string }> {
+    let data: Partial<ProjectArchive>;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      return { success: false, error: 'ფაილის წაკითხვა ვერ მოხერხდა' };
+    }
+
+    if (data?.format !== PROJECT_ARCHIVE_FORMAT || !data.project || !Array.isArray(data.tasks)) {
+      return { success: false, error: 'ეს ფაილი პროექტის არქივი არ არის' };
+    }
+
+    if (data.version !== PROJECT_ARCHIVE_VERSION) {
+      return { success: false, error: `არქივის ვერსია ${data.version} არ არის მხარდაჭერილი` };
+    }
+
+    return { success: true, archive: data as ProjectArchive };
+  }
+
+  /**
+   * Recreate an archived project as a new project; returns the new project's id
+   */
+  static async restoreProject(archive: ProjectArchive, name?: string): Promise<{ success: boolean; projectId?: string; error?: string }> {
+    const { data, error } = await supabase.rpc('restore_project_archive', {
+      p_archive: archive as unknown as Json,
+      p_name: name?.trim() || undefined
+    });
+
+    if (error || !data) {
+      console.error('Error restoring project:', error);
+      return { success: false, error: 'პროექტის აღდგენა ვერ მოხერხდა' };
+    }
+
+    return { success: true, projectId: data };
+  }
+}
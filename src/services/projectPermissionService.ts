@@ -0,0 +1,143 @@
+import { supabase } from '@/core/config/client';
+import type { Json } from '@/core/config/types';
+
+export type ProjectPermission =
+  | 'create_tasks'
+  | 'edit_tasks'
+  | 'delete_tasks'
+  | 'manage_board'
+  | 'manage_members'
+  | 'upload_files'
+  | 'delete_files'
+  | 'view_budget'
+  | 'log_time_for_others'
+  | 'approve_timesheets'
+  | 'manage_billing';
+
+export type ProjectRole = 'manager' | 'member' | 'viewer';
+
+export type ProjectPermissions = Record<ProjectPermission, boolean>;
+
+export type RolePermissionMatrix = Record<ProjectRole, ProjectPermissions>;
+
+export const PROJECT_ROLES: ProjectRole[] = ['manager', 'member', 'viewer'];
+
+export const PROJECT_PERMISSION_LABELS: Record<ProjectPermission, string> = {
+  create_tasks: 'დავალებების შექმნა',
+  edit_tasks: 'დავალებების რედაქტირება',
+  delete_tasks: 'დავალებების წაშლა',
+  manage_board: 'სვეტებისა და სტატუსების მართვა',
+  manage_members: 'გუნდის მართვა',
+  upload_files: 'ფაილების ატვირთვა',
+  delete_files: 'ფაილების წაშლა',
+  view_budget: 'ბიუჯეტის ნახვა',
+  log_time_for_others: 'სხვისთვის დროის აღრიცხვა',
+  approve_timesheets: 'დროის აღრიცხვის ფურცლების დამტკიცება',
+  manage_billing: 'განაკვეთებისა და ინვოისების მართვა'
+};
+
+export const PROJECT_PERMISSIONS = Object.keys(PROJECT_PERMISSION_LABELS) as ProjectPermission[];
+
+/** Mirrors default_project_role_permissions() in the database */
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissionMatrix = {
+  manager: {
+    create_tasks: true, edit_tasks: true, delete_tasks: true, manage_board: true,
+    manage_members: true, upload_files: true, delete_files: true, view_budget: true,
+    log_time_for_others: true, approve_timesheets: true, manage_billing: true
+  },
+  member: {
+    create_tasks: true, edit_tasks: true, delete_tasks: false, manage_board: false,
+    manage_members: false, upload_files: true, delete_files: false, view_budget: true,
+    log_time_for_others: false, approve_timesheets: false, manage_billing: false
+  },
+  viewer: {
+    create_tasks: false, edit_tasks: false, delete_tasks: false, manage_board: false,
+    manage_members: false, upload_files: false, delete_files: false, view_budget: false,
+    log_time_for_others: false, approve_timesheets: false, manage_billing: false
+  }
+};
+
+export const ALL_PERMISSIONS = Object.fromEntries(
+  PROJECT_PERMISSIONS.map(permission => [permission, true])
+) as ProjectPermissions;
+
+export const NO_PERMISSIONS = Object.fromEntries(
+  PROJECT_PERMISSIONS.map(permission => [permission, false])
+) as ProjectPermissions;
+
+const toPermissions = (value: Json | undefined, fallback: ProjectPermissions): ProjectPermissions => {
+  const source = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  return Object.fromEntries(
+    PROJECT_PERMISSIONS.map(permission => [
+      permission,
+      typeof source[permission] === 'boolean' ? source[permission] : fallback[permission]
+    ])
+  ) as ProjectPermissions;
+};
+
+export class ProjectPermissionService {
+  /**
+   * Get the current user's effective permissions in a project
+   */
+  static async getMyPermissions(projectId: string): Promise<ProjectPermissions> {
+    const byProject = await this.getMyPermissionsForProjects([projectId]);
+    return byProject[projectId] ?? NO_PERMISSIONS;
+  }
+
+  /**
+   * Get the current user's effective permissions for several projects, keyed by project id
+   */
+  static async getMyPermissionsForProjects(projectIds: string[]): Promise<Record<string, ProjectPermissions>> {
+    if (projectIds.length === 0) return {};
+
+    const { data, error } = await supabase.rpc('get_my_project_permissions', { p_project_ids: projectIds });
+
+    if (error) {
+      console.error('Error fetching project permissions:', error);
+      return {};
+    }
+
+    return Object.fromEntries(
+      (data || []).map(row => [row.project_id, toPermissions(row.permissions, NO_PERMISSIONS)])
+    );
+  }
+
+  /**
+   * Get a project's role matrix with defaults filled in for anything it does not configure
+   */
+  static async getRoleMatrix(projectId: string): Promise<RolePermissionMatrix> {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('role_permissions')
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching role permissions:', error);
+    }
+
+    const stored = data?.role_permissions;
+    const matrix = stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+
+    return Object.fromEntries(
+      PROJECT_ROLES.map(role => [role, toPermissions(matrix[role], DEFAULT_ROLE_PERMISSIONS[role])])
+    ) as RolePermissionMatrix;
+  }
+
+  /**
+   * Replace a project's role matrix
+   */
+  static async saveRoleMatrix(projectId: string, matrix: RolePermissionMatrix): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('set_project_role_permissions', {
+      p_project_id: projectId,
+      p_matrix: matrix as unknown as Json
+    });
+
+    if (error) {
+      console.error('Error saving role permissions:', error);
+      return { success: false, error: 'უფლებების შენახვა ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,39 @@
+import { supabase } from '@/core/config/client';
+
+export interface CreateFromTemplateInput {
+  name: string;
+  description?: string;
+  category?: string;
+  status?: string;
+  start_date?: string;
+  end_date?: string;
+  copyMembers: boolean;
+}
+
+export class ProjectTemplateService {
+  /**
+   * Create a new project from a template; task dates are shifted to the new start date
+   */
+  static async createFromTemplate(
+    templateId: string,
+    input: CreateFromTemplateInput
+  ): Promise<{ success: boolean; projectId?: string; error?: string }> {
+    const { data, error } = await supabase.rpc('create_project_from_template', {
+      p_template_id: templateId,
+      p_name: input.name.trim(),
+      p_description: input.description || undefined,
+      p_category: input.category || undefined,
+      p_status: input.status || undefined,
+      p_start_date: input.start_date || undefined,
+      p_end_date: input.end_date || undefined,
+      p_copy_members: input.copyMembers
+    });
+
+    if (error || !data) {
+      console.error('Error creating project from template:', error);
+      return { success: false, error: 'შაბლონიდან პროექტის შექმნა ვერ მოხერხდა' };
+    }
+
+    return { success: true, projectId: data };
+  }
+}
@@ -0,0 +1,128 @@
+import { supabase } from '@/core/config/client';
+import type { Json } from '@/core/config/types';
+
+export type SavedViewScope = 'tasks' | 'board';
+
+export interface SavedTaskView {
+  id: string;
+  user_id: string;
+  project_id: string | null;
+  name: string;
+  scope: SavedViewScope;
+  is_shared: boolean;
+  view_mode: string | null;
+  group_by: string | null;
+  filters: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewInput {
+  name: string;
+  project_id: string | null;
+  is_shared: boolean;
+  view_mode?: string | null;
+  group_by?: string | null;
+  filters: Record<string, unknown>;
+}
+
+export class SavedViewService {
+  /**
+   * Get the views a user can apply on a screen: their own plus views shared in their projects
+   */
+  static async getViews(scope: SavedViewScope, projectId?: string | null): Promise<SavedTaskView[]> {
+    let query = supabase
+      .from('saved_task_views')
+      .select('*')
+      .eq('scope', scope)
+      .order('name');
+
+    // Project screens only list views for that project; the Tasks page also lists cross-project views
+    if (projectId) {
+      query = scope === 'board'
+        ? query.eq('project_id', projectId)
+        : query.or(`project_id.eq.${projectId},project_id.is.null`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching saved views:', error);
+      return [];
+    }
+
+    return (data || []) as SavedTaskView[];
+  }
+
+  /**
+   * Save the current filter state as a new named view
+   */
+  static async createView(
+    userId: string,
+    scope: SavedViewScope,
+    input: SavedViewInput
+  ): Promise<{ success: boolean; view?: SavedTaskView; error?: string }> {
+    const { data, error } = await supabase
+      .from('saved_task_views')
+      .insert({
+        user_id: userId,
+        scope,
+        name: input.name.trim(),
+        project_id: input.project_id,
+        is_shared: input.is_shared && !!input.project_id,
+        view_mode: input.view_mode ?? null,
+        group_by: input.group_by ?? null,
+        filters: input.filters as Json
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating saved view:', error);
+      return { success: false, error: 'ხედის შენახვა ვერ მოხერხდა' };
+    }
+
+    return { success: true, view: data as SavedTaskView };
+  }
+
+  /**
+   * Overwrite a view with the current filter state
+   */
+  static async updateView(
+    viewId: string,
+    input: Partial<SavedViewInput>
+  ): Promise<{ success: boolean; error?: string }> {
+    const { filters, ...rest } = input;
+    const { error } = await supabase
+      .from('saved_task_views')
+      .update({
+        ...rest,
+        ...(filters ? { filters: filters as Json } : {})
+      })
+      .eq('id', viewId);
+
+    if (error) {
+      console.error('Error updating saved view:', error);
+      return { success: false, error: 'ხედის განახლება ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Delete a saved view
+   */
+  static async deleteView(viewId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('saved_task_views')
+      .delete()
+      .eq('id', viewId);
+
+    if (error) {
+      console.error('Error deleting saved view:', error);
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,277 @@
+import { supabase } from '@/core/config/client';
+import { isDoneStatus, isInProgressStatus } from '@/features/kanban/utils/statusMapping';
+
+export interface TaskDependency {
+  id: string;
+  task_id: string;
+  depends_on_task_id: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface DependencyTask {
+  dependencyId: string;
+  id: string;
+  title: string;
+  status: string;
+  project_id: string;
+}
+
+export interface TaskDependencies {
+  blockedBy: DependencyTask[];
+  blocks: DependencyTask[];
+}
+
+export interface StatusChangeCheck {
+  allowed: boolean;
+  warning?: string;
+  openBlockers: DependencyTask[];
+}
+
+export class TaskDependencyService {
+  /**
+   * Get the tasks blocking a task and the tasks it blocks
+   */
+  static async getTaskDependencies(taskId: string): Promise<TaskDependencies> {
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select('*')
+      .or(`task_id.eq.${taskId},depends_on_task_id.eq.${taskId}`);
+
+    if (error) {
+      console.error('Error fetching task dependencies:', error);
+      return { blockedBy: [], blocks: [] };
+    }
+
+    const dependencies = (data || []) as TaskDependency[];
+    const relatedIds = dependencies.map(d => d.task_id === taskId ? d.depends_on_task_id : d.task_id);
+
+    if (relatedIds.length === 0) {
+      return { blockedBy: [], blocks: [] };
+    }
+
+    const { data: tasksData, error: tasksError } = await supabase
+      .from('tasks')
+      .select('id, title, status, project_id')
+      .in('id', relatedIds);
+
+    if (tasksError) {
+      console.error('Error fetching dependency tasks:', tasksError);
+      return { blockedBy: [], blocks: [] };
+    }
+
+    const toDependencyTask = (dependencyId: string, relatedId: string): DependencyTask | null => {
+      const related = tasksData?.find(t => t.id === relatedId);
+      return related ? { dependencyId, ...related } : null;
+    };
+
+    return {
+      blockedBy: dependencies
+        .filter(d => d.task_id === taskId)
+        .map(d => toDependencyTask(d.id, d.depends_on_task_id))
+        .filter(Boolean) as DependencyTask[],
+      blocks: dependencies
+        .filter(d => d.depends_on_task_id === taskId)
+        .map(d => toDependencyTask(d.id, d.task_id))
+        .filter(Boolean) as DependencyTask[],
+    };
+  }
+
+  /**
+   * Get all dependency rows touching any of the given tasks
+   */
+  static async getDependenciesForTasks(taskIds: string[]): Promise<TaskDependency[]> {
+    if (taskIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('task_dependencies')
+      .select('*')
+      .in('task_id', taskIds);
+
+    if (error) {
+      console.error('Error fetching dependencies for tasks:', error);
+      return [];
+    }
+
+    return (data || []) as TaskDependency[];
+  }
+
+  /**
+   * Attach to each task how many unfinished tasks block it and how many tasks it blocks,
+   * in two queries for the whole list
+   */
+  static async withDependencyCounts<T extends { id: string }>(
+    tasks: T[]
+  ): Promise<Array<T & { open_blocker_count: number; blocks_count: number }>> {
+    const ids = tasks.map(t => t.id);
+    let dependencies: TaskDependency[] = [];
+    let blockerStatuses = new Map<string, string>();
+
+    if (ids.length > 0) {
+      const { data, error } = await supabase
+        .from('task_dependencies')
+        .select('*')
+        .or(`task_id.in.(${ids.join(',')}),depends_on_task_id.in.(${ids.join(',')})`);
+
+      if (error) {
+        console.error('Error fetching dependencies for tasks:', error);
+      } else {
+        dependencies = (data || []) as TaskDependency[];
+      }
+
+      const blockerIds = [...new Set(dependencies.filter(d => ids.includes(d.task_id)).map(d => d.depends_on_task_id))];
+      if (blockerIds.length > 0) {
+        const { data: blockers, error: blockersError } = await supabase
+          .from('tasks')
+          .select('id, status')
+          .in('id', blockerIds);
+
+        if (blockersError) {
+          console.error('Error fetching blocking tasks:', blockersError);
+        }
+        blockerStatuses = new Map((blockers || []).map(t => [t.id, t.status]));
+      }
+    }
+
+    return tasks.map(task => ({
+      ...task,
+      open_blocker_count: dependencies.filter(d => {
+        const status = blockerStatuses.get(d.depends_on_task_id);
+        return d.task_id === task.id && status !== undefined && !isDoneStatus(status);
+      }).length,
+      blocks_count: dependencies.filter(d => d.depends_on_task_id === task.id).length
+    }));
+  }
+
+  /**
+   * Check whether adding "taskId is blocked by dependsOnTaskId" would close a loop
+   */
+  static wouldCreateCycle(
+    dependencies: Array<Pick<TaskDependency, 'task_id' | 'depends_on_task_id'>>,
+    taskId: string,
+    dependsOnTaskId: string
+  ): boolean {
+    if (taskId === dependsOnTaskId) return true;
+
+    // Walk everything dependsOnTaskId (transitively) depends on; reaching taskId means a cycle
+    const visited = new Set<string>();
+    const stack = [dependsOnTaskId];
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === taskId) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+
+      dependencies
+        .filter(d => d.task_id === current)
+        .forEach(d => stack.push(d.depends_on_task_id));
+    }
+
+    return false;
+  }
+
+  /**
+   * Add a blocking dependency between two tasks of the same project
+   */
+  static async addDependency(
+    taskId: string,
+    dependsOnTaskId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: tasksData, error: tasksError } = await supabase
+        .from('tasks')
+        .select('id, project_id')
+        .in('id', [taskId, dependsOnTaskId]);
+
+      if (tasksError) throw tasksError;
+
+      const task = tasksData?.find(t => t.id === taskId);
+      const dependsOn = tasksData?.find(t => t.id === dependsOnTaskId);
+      if (!task || !dependsOn) {
+        return { success: false, error: 'დავალება ვერ მოიძებნა' };
+      }
+      if (task.project_id !== dependsOn.project_id) {
+        return { success: false, error: 'დამოკიდებულება შესაძლებელია მხოლოდ ერთი პროექტის დავალებებს შორის' };
+      }
+
+      const { data: projectTasks } = await supabase
+        .from('tasks')
+        .select('id')
+        .eq('project_id', task.project_id);
+
+      const dependencies = await this.getDependenciesForTasks((projectTasks || []).map(t => t.id));
+      if (this.wouldCreateCycle(dependencies, taskId, dependsOnTaskId)) {
+        return { success: false, error: 'ეს დამოკიდებულება ციკლს შექმნის' };
+      }
+
+      const { error } = await supabase
+        .from('task_dependencies')
+        .insert({
+          task_id: taskId,
+          depends_on_task_id: dependsOnTaskId,
+          created_by: user?.id ?? null,
+        });
+
+      if (error) throw error;
+
+      return { success: true };
+    } catch (error: unknown) {
+      console.error('Error adding task dependency:', error);
+      const message = (error as { message?: string })?.message;
+      return { success: false, error: message || 'დამოკიდებულების დამატება ვერ მოხერხდა' };
+    }
+  }
+
+  /**
+   * Remove a dependency row
+   */
+  static async removeDependency(dependencyId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('task_dependencies')
+      .delete()
+      .eq('id', dependencyId);
+
+    if (error) {
+      console.error('Error removing task dependency:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Decide whether a task may move to a status given its unfinished blockers.
+   * Moving to done is blocked; moving to an in-progress status is allowed with a warning.
+   */
+  static async checkStatusChange(taskId: string, newStatus: string): Promise<StatusChangeCheck> {
+    if (!isDoneStatus(newStatus) && !isInProgressStatus(newStatus)) {
+      return { allowed: true, openBlockers: [] };
+    }
+
+    const { blockedBy } = await this.getTaskDependencies(taskId);
+    const openBlockers = blockedBy.filter(t => !isDoneStatus(t.status));
+
+    if (openBlockers.length === 0) {
+      return { allowed: true, openBlockers };
+    }
+
+    const titles = openBlockers.map(t => `"${t.title}"`).join(', ');
+
+    if (isDoneStatus(newStatus)) {
+      return {
+        allowed: false,
+        warning: `დავალებას ბლოკავს დაუსრულებელი დავალებები: ${titles}`,
+        openBlockers,
+      };
+    }
+
+    return {
+      allowed: true,
+      warning: `დავალება ჯერ კიდევ დაბლოკილია: ${titles}`,
+      openBlockers,
+    };
+  }
+}
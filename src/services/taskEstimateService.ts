@@ -0,0 +1,117 @@
+import { supabase } from '@/core/config/client';
+
+export type EstimateUnit = 'hours' | 'points';
+
+/** A task's estimate against its logged time, as returned by get_task_estimate */
+export interface TaskEstimate {
+  estimate: number | null;
+  unit: EstimateUnit;
+  // Null for points projects without an hour value per point
+  estimatedSeconds: number | null;
+  loggedSeconds: number;
+  // Whether the estimate is summed from the subtasks
+  fromSubtasks: boolean;
+}
+
+/** A task whose logged time has passed its estimate, as returned by get_estimate_overruns */
+export interface EstimateOverrun {
+  task_id: string;
+  title: string;
+  project_id: string;
+  project_name: string;
+  assignee_id: string | null;
+  estimate: number;
+  estimate_unit: EstimateUnit;
+  estimated_seconds: number;
+  logged_seconds: number;
+}
+
+export const ESTIMATE_UNIT_LABELS: Record<EstimateUnit, string> = {
+  hours: 'საათები',
+  points: 'ქულები (story points)'
+};
+
+/** Estimates as shown on cards, e.g. 4სთ or 3 ქ. */
+export const formatEstimate = (value: number, unit: EstimateUnit = 'hours') =>
+  unit === 'points' ? `${Number(value)} ქ.` : `${Number(value)}სთ`;
+
+/** Logged time in hours with one decimal, to sit next to an hour estimate */
+export const formatLoggedHours = (seconds: number) => `${Math.round(seconds / 360) / 10}სთ`;
+
+/**
+ * An estimate given in hours in a project's unit; null for points projects
+ * without an hour value per point
+ */
+export const hoursToEstimate = (hours: number, unit: EstimateUnit, hoursPerPoint: number | null) => {
+  if (unit === 'hours') return hours;
+  return hoursPerPoint ? Math.round((hours / hoursPerPoint) * 100) / 100 : null;
+};
+
+export const isOverrun = (estimate: TaskEstimate | null) =>
+  !!estimate && estimate.estimatedSeconds !== null && estimate.loggedSeconds > estimate.estimatedSeconds;
+
+interface TaskEstimateRow {
+  estimate: number | null;
+  estimate_unit: string;
+  estimated_seconds: number | null;
+  logged_seconds: number;
+  subtask_rollup: boolean;
+}
+
+const toTaskEstimate = (row: TaskEstimateRow): TaskEstimate => ({
+  estimate: row.estimate,
+  unit: row.estimate_unit as EstimateUnit,
+  estimatedSeconds: row.estimated_seconds,
+  loggedSeconds: row.logged_seconds,
+  fromSubtasks: row.subtask_rollup
+});
+
+export class TaskEstimateService {
+  /**
+   * A task's estimate, rolled up from its subtasks, against the time logged on it and its subtasks
+   */
+  static async getTaskEstimate(taskId: string): Promise<TaskEstimate | null> {
+    const { data, error } = await supabase.rpc('get_task_estimate', { p_task_id: taskId });
+
+    if (error || !data?.[0]) {
+      if (error) console.error('Error loading task estimate:', error);
+      return null;
+    }
+
+    return toTaskEstimate(data[0]);
+  }
+
+  /**
+   * Attach each task's estimate against its logged time, in one call for the whole list
+   */
+  static async withEstimates<T extends { id: string }>(
+    tasks: T[]
+  ): Promise<Array<T & { estimate_summary: TaskEstimate | null }>> {
+    const estimates = new Map<string, TaskEstimate>();
+
+    if (tasks.length > 0) {
+      const { data, error } = await supabase.rpc('get_task_estimates', { p_task_ids: tasks.map(t => t.id) });
+
+      if (error) {
+        console.error('Error loading task estimates:', error);
+      }
+      (data || []).forEach(row => estimates.set(row.task_id, toTaskEstimate(row)));
+    }
+
+    return tasks.map(task => ({ ...task, estimate_summary: estimates.get(task.id) ?? null }));
+  }
+
+  /**
+   * Tasks over their estimate in the caller's projects, or in one project, worst first
+   */
+  static async getOverruns(projectId?: string): Promise<EstimateOverrun[]> {
+    const { data, error } = await supabase.rpc('get_estimate_overruns', projectId ? { p_project_id: projectId } : {});
+
+    if (error) {
+      console.error('Error loading estimate overruns:', error);
+      return [];
+    }
+
+    return (data || []) as EstimateOverrun[];
+  }
+}
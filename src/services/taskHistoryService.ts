@@ -0,0 +1,67 @@
+import { supabase } from '@/core/config/client';
+import type { Json } from '@/core/config/types';
+
+export interface TaskFieldChange {
+  id: string;
+  task_id: string;
+  project_id: string;
+  field: string;
+  old_value: Json | null;
+  new_value: Json | null;
+  changed_by: string | null;
+  changed_at: string;
+  reverted_from: string | null;
+  changed_by_name?: string;
+}
+
+export class TaskHistoryService {
+  /**
+   * Get the field-level change history of a task, newest first, with the editor's name
+   */
+  static async getTaskHistory(taskId: string): Promise<TaskFieldChange[]> {
+    const { data, error } = await supabase
+      .from('task_field_history')
+      .select('*')
+      .eq('task_id', taskId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching task history:', error);
+      return [];
+    }
+
+    const changes = (data || []) as TaskFieldChange[];
+    const userIds = Array.from(new Set(changes.map(c => c.changed_by).filter((id): id is string => !!id)));
+
+    if (userIds.length === 0) return changes;
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, display_name, full_name')
+      .in('user_id', userIds);
+
+    return changes.map(change => {
+      const profile = profiles?.find(p => p.user_id === change.changed_by);
+      return {
+        ...change,
+        changed_by_name: profile?.display_name || profile?.full_name || undefined
+      };
+    });
+  }
+
+  /**
+   * Put a field back to the value it had before the given change
+   */
+  static async revertChange(historyId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('revert_task_field_change', { p_history_id: historyId });
+
+    if (error) {
+      console.error('Error reverting task change:', error);
+      return { success: false, error: 'ცვლილების გაუქმება ვერ მოხერხდა' };
+    }
+
+    // Signal other components that task was updated
+    localStorage.setItem('taskUpdated', Date.now().toString());
+    return { success: true };
+  }
+}
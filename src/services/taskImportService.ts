@@ -0,0 +1,113 @@
+import { supabase } from '@/core/config/client';
+import type { PreparedImportRow } from '@/features/tasks/utils/taskImport';
+
+export interface ProjectMemberDirectoryEntry {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export class TaskImportService {
+  /**
+   * Get the members of a project with their e-mail addresses, for resolving assignees
+   */
+  static async getMemberDirectory(projectId: string): Promise<ProjectMemberDirectoryEntry[]> {
+    const { data, error } = await supabase.rpc('get_project_member_directory', {
+      p_project_id: projectId
+    });
+
+    if (error) {
+      console.error('Error fetching project member directory:', error);
+      return [];
+    }
+
+    return (data || []).map(member => ({ id: member.user_id, name: member.name, email: member.email }));
+  }
+
+  /**
+   * Insert validated rows as tasks in two batches (parents, then subtasks) and log one activity entry
+   */
+  static async importTasks(
+    projectId: string,
+    userId: string,
+    rows: PreparedImportRow[],
+    fileName: string
+  ): Promise<{ success: boolean; created: number; error?: string }> {
+    const valid = rows.filter(row => row.errors.length === 0);
+    if (valid.length === 0) {
+      return { success: false, created: 0, error: 'შემოსატანი დავალებები არ არის' };
+    }
+
+    const toInsert = (row: PreparedImportRow) => ({
+      title: row.title,
+      description: row.description,
+      status: row.status,
+      priority: row.priority,
+      assignee_id: row.assignee_id,
+      due_date: row.due_date,
+      budget: row.budget,
+      project_id: projectId,
+      created_by: userId,
+      kanban_column: row.status.toLowerCase().replace(/\s+/g, '-'),
+      kanban_position: 0
+    });
+
+    const parents = valid.filter(row => !row.parentTitle);
+    const subtasks = valid.filter(row => row.parentTitle);
+
+    const { data: createdParents, error: parentsError } = parents.length > 0
+      ? await supabase.from('tasks').insert(parents.map(toInsert)).select('id, title')
+      : { data: [], error: null };
+
+    if (parentsError) {
+      console.error('Error importing tasks:', parentsError);
+      return { success: false, created: 0, error: 'დავალებების შემოტანა ვერ მოხერხდა' };
+    }
+
+    const parentIds = new Map((createdParents || []).map(task => [task.title.trim().toLowerCase(), task.id]));
+    let createdSubtasks = 0;
+
+    if (subtasks.length > 0) {
+      const orderByParent = new Map<string, number>();
+      const { data, error } = await supabase
+        .from('tasks')
+        .insert(subtasks.map(row => {
+          const parentId = row.parentTaskId || parentIds.get(row.parentTitle!.trim().toLowerCase()) || null;
+          const order = orderByParent.get(parentId || '') || 0;
+          orderByParent.set(parentId || '', order + 1);
+          return { ...toInsert(row), parent_task_id: parentId, is_subtask: true, subtask_order: order };
+        }))
+        .select('id');
+
+      if (error) {
+        console.error('Error importing subtasks:', error);
+        return {
+          success: false,
+          created: createdParents?.length || 0,
+          error: 'დავალებები შემოვიდა, მაგრამ ქვედავალებების შემოტანა ვერ მოხერხდა'
+        };
+      }
+      createdSubtasks = data?.length || 0;
+    }
+
+    const created = (createdParents?.length || 0) + createdSubtasks;
+
+    await supabase.rpc('log_project_activity', {
+      p_project_id: projectId,
+      p_user_id: userId,
+      p_activity_type: 'tasks_imported',
+      p_description: `Imported ${created} tasks from "${fileName}"`,
+      p_entity_type: 'project',
+      p_entity_id: projectId,
+      p_metadata: {
+        file_name: fileName,
+        tasks: createdParents?.length || 0,
+        subtasks: createdSubtasks,
+        skipped: rows.length - valid.length
+      }
+    });
+
+    localStorage.setItem('taskUpdated', Date.now().toString());
+    return { success: true, created };
+  }
+}
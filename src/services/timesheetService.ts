@@ -0,0 +1,227 @@
+import { supabase } from '@/core/config/client';
+import { addDays, format, parseISO } from 'date-fns';
+import type { Tables } from '@/core/config/types';
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+export type Timesheet = Tables<'timesheets'>;
+
+/** Time a user logged on one task (or on the project itself) on one day */
+export interface TimesheetCell {
+  project_id: string | null;
+  project_name: string | null;
+  task_id: string | null;
+  task_title: string | null;
+  work_date: string;
+  seconds: number;
+}
+
+/** A sheet as listed by the list_timesheets RPC, with names and the week's total */
+export interface TimesheetSummary {
+  id: string;
+  user_id: string;
+  user_name: string | null;
+  project_id: string;
+  project_name: string;
+  week_start: string;
+  time_zone: string;
+  status: TimesheetStatus;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewer_name: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  total_seconds: number;
+}
+
+/** Submitted and approved weeks can no longer be edited */
+export const isLockedStatus = (status: string | undefined) => status === 'submitted' || status === 'approved';
+
+/** The browser's IANA time zone, which decides the day each entry falls on */
+export const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** The calendar date (yyyy-MM-dd) of a moment in the given time zone */
+export const toZonedDate = (moment: string | Date, timeZone: string) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(moment));
+
+/** A yyyy-MM-dd date moved by a number of days */
+export const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+/**
+ * Whether a time entry falls in one of the given approved sheets
+ */
+export const isEntryApproved = (
+  entry: { user_id: string | null; project_id: string | null; started_at: string | null },
+  approvedSheets: Timesheet[]
+) => {
+  if (!entry.user_id || !entry.project_id || !entry.started_at) return false;
+
+  return approvedSheets.some(sheet => {
+    if (sheet.user_id !== entry.user_id || sheet.project_id !== entry.project_id) return false;
+    const day = toZonedDate(entry.started_at!, sheet.time_zone);
+    return day >= sheet.week_start && day <= shiftDate(sheet.week_start, 6);
+  });
+};
+
+export class TimesheetService {
+  /**
+   * A user's per task and day totals for the week starting on weekStart (a Monday)
+   */
+  static async getWeekCells(
+    userId: string,
+    weekStart: string,
+    timeZone: string = getTimeZone()
+  ): Promise<{ success: boolean; cells?: TimesheetCell[]; error?: string }> {
+    const { data, error } = await supabase.rpc('get_timesheet_rows', {
+      p_user_id: userId,
+      p_week_start: weekStart,
+      p_time_zone: timeZone
+    });
+
+    if (error) {
+      console.error('Error loading timesheet:', error);
+      return { success: false, error: 'დროის აღრიცხვის ჩატვირთვა ვერ მოხერხდა' };
+    }
+
+    return { success: true, cells: data || [] };
+  }
+
+  /**
+   * The current user's sheets for a week, one per project they submitted
+   */
+  static async getMyWeekSheets(userId: string, weekStart: string): Promise<Timesheet[]> {
+    const { data, error } = await supabase
+      .from('timesheets')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('week_start', weekStart);
+
+    if (error) {
+      console.error('Error loading timesheet status:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Set the total time logged on a task or project for one day
+   */
+  static async setHours(params: {
+    projectId: string | null;
+    taskId: string | null;
+    date: string;
+    seconds: number;
+  }): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('set_timesheet_hours', {
+      p_project_id: params.projectId ?? undefined,
+      p_task_id: params.taskId ?? undefined,
+      p_date: params.date,
+      p_seconds: params.seconds,
+      p_time_zone: getTimeZone()
+    });
+
+    if (error) {
+      console.error('Error saving timesheet hours:', error);
+      return {
+        success: false,
+        error: error.message.includes('locked')
+          ? 'ეს კვირა გაგზავნილი ან დამტკიცებულია და მისი შეცვლა შეუძლებელია'
+          : 'დროის შენახვა ვერ მოხერხდა'
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Submit the week for approval; returns how many project sheets were submitted
+   */
+  static async submitWeek(weekStart: string): Promise<{ success: boolean; count?: number; error?: string }> {
+    const { data, error } = await supabase.rpc('submit_timesheet', {
+      p_week_start: weekStart,
+      p_time_zone: getTimeZone()
+    });
+
+    if (error) {
+      console.error('Error submitting timesheet:', error);
+      return {
+        success: false,
+        error: error.message.includes('running timer')
+          ? 'გაგზავნამდე გააჩერეთ მიმდინარე ტაიმერი'
+          : 'კვირის გაგზავნა ვერ მოხერხდა'
+      };
+    }
+
+    return { success: true, count: data };
+  }
+
+  /**
+   * Take a submitted week back to draft
+   */
+  static async withdrawWeek(weekStart: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('withdraw_timesheet', { p_week_start: weekStart });
+
+    if (error) {
+      console.error('Error withdrawing timesheet:', error);
+      return { success: false, error: 'გაგზავნის გაუქმება ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Approve a submitted sheet, or reject it with a comment
+   */
+  static async review(timesheetId: string, approve: boolean, comment?: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('review_timesheet', {
+      p_timesheet_id: timesheetId,
+      p_approve: approve,
+      p_comment: comment
+    });
+
+    if (error) {
+      console.error('Error reviewing timesheet:', error);
+      return { success: false, error: approve ? 'დამტკიცება ვერ მოხერხდა' : 'უარყოფა ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Sheets the current user submitted or can review
+   */
+  static async list(filters: { status?: TimesheetStatus; projectId?: string } = {}): Promise<{ success: boolean; sheets?: TimesheetSummary[]; error?: string }> {
+    const { data, error } = await supabase.rpc('list_timesheets', {
+      p_status: filters.status,
+      p_project_id: filters.projectId
+    });
+
+    if (error) {
+      console.error('Error loading timesheets:', error);
+      return { success: false, error: 'დროის აღრიცხვის ფურცლების ჩატვირთვა ვერ მოხერხდა' };
+    }
+
+    return { success: true, sheets: (data || []) as TimesheetSummary[] };
+  }
+
+  /**
+   * Approved sheets whose weeks overlap a date range (yyyy-MM-dd, inclusive)
+   */
+  static async getApprovedSheets(fromDate: string, toDate: string): Promise<Timesheet[]> {
+    const { data, error } = await supabase
+      .from('timesheets')
+      .select('*')
+      .eq('status', 'approved')
+      .gte('week_start', shiftDate(fromDate, -6))
+      .lte('week_start', toDate);
+
+    if (error) {
+      console.error('Error loading approved timesheets:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
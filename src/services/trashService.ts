@@ -0,0 +1,158 @@
+import { supabase } from '@/core/config/client';
+
+export type TrashEntityType = 'task' | 'project' | 'file';
+
+/**
+ * A trashed task, project or file as listed by the list_trash RPC. Rows that went
+ * to the trash along with it (subtasks, a project's tasks) are counted in item_count.
+ */
+export interface TrashItem {
+  entity_type: TrashEntityType;
+  id: string;
+  project_id: string;
+  project_name: string;
+  title: string;
+  deleted_at: string;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+  item_count: number;
+  purge_at: string;
+}
+
+// Bucket holding project files and task attachments
+const FILES_BUCKET = 'project-files';
+
+// app_settings key holding the retention, and its default in trash_retention_days()
+const TRASH_RETENTION_KEY = 'trash_retention_days';
+const DEFAULT_RETENTION_DAYS = 30;
+
+export class TrashService {
+  /**
+   * Move tasks, projects or files to the trash; returns how many were moved
+   */
+  static async moveToTrash(entityType: TrashEntityType, ids: string[]): Promise<{ success: boolean; count?: number; error?: string }> {
+    const { data, error } = await supabase.rpc('move_to_trash', { p_entity_type: entityType, p_ids: ids });
+
+    if (error) {
+      console.error('Error moving to trash:', error);
+      return { success: false, error: 'სანაგვეში გადატანა ვერ მოხერხდა' };
+    }
+
+    if (!data) {
+      return { success: false, error: 'წაშლის უფლება არ გაქვთ' };
+    }
+
+    return { success: true, count: data };
+  }
+
+  /**
+   * Restore trashed rows along with everything that was trashed with them
+   */
+  static async restore(entityType: TrashEntityType, ids: string[]): Promise<{ success: boolean; count?: number; error?: string }> {
+    const { data, error } = await supabase.rpc('restore_from_trash', { p_entity_type: entityType, p_ids: ids });
+
+    if (error) {
+      console.error('Error restoring from trash:', error);
+      return { success: false, error: 'აღდგენა ვერ მოხერხდა' };
+    }
+
+    if (!data) {
+      return { success: false, error: 'აღდგენა ვერ მოხერხდა — ჯერ აღადგინეთ პროექტი ან მშობელი დავალება' };
+    }
+
+    return { success: true, count: data };
+  }
+
+  /**
+   * Trashed items the user can restore, in one project or across all of them
+   */
+  static async list(projectId?: string): Promise<{ success: boolean; items?: TrashItem[]; error?: string }> {
+    const { data, error } = await supabase.rpc('list_trash', { p_project_id: projectId });
+
+    if (error) {
+      console.error('Error loading trash:', error);
+      return { success: false, error: 'სანაგვის ჩატვირთვა ვერ მოხერხდა' };
+    }
+
+    return { success: true, items: (data || []) as TrashItem[] };
+  }
+
+  /**
+   * Delete trashed rows for good, including their stored files
+   */
+  static async purge(entityType: TrashEntityType, ids: string[]): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabase.rpc('purge_from_trash', { p_entity_type: entityType, p_ids: ids });
+
+    if (error) {
+      console.error('Error purging trash:', error);
+      return { success: false, error: 'სამუდამოდ წაშლა ვერ მოხერხდა' };
+    }
+
+    await this.removeStoredFiles(data || []);
+    return { success: true };
+  }
+
+  /**
+   * Purge everything past the retention period. Runs quietly whenever task lists
+   * or the trash open, since there is no scheduler to do it.
+   */
+  static async purgeExpired(): Promise<void> {
+    const { data, error } = await supabase.rpc('purge_expired_trash');
+
+    if (error) {
+      console.error('Error purging expired trash:', error);
+      return;
+    }
+
+    await this.removeStoredFiles(data || []);
+  }
+
+  /**
+   * Days trashed items are kept before they are purged, from the trash_retention_days app setting
+   */
+  static async getRetentionDays(): Promise<number | null> {
+    const { data, error } = await supabase
+      .from('app_settings')
+      .select('value')
+      .eq('key', TRASH_RETENTION_KEY)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading trash retention:', error);
+      return null;
+    }
+
+    return data ? Number(data.value) : DEFAULT_RETENTION_DAYS;
+  }
+
+  static async setRetentionDays(days: number): Promise<{ success: boolean; error?: string }> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from('app_settings')
+      .upsert({
+        key: TRASH_RETENTION_KEY,
+        value: days,
+        description: 'Days trashed items are kept before they are purged',
+        updated_by: user?.id ?? null,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error('Error saving trash retention:', error);
+      return { success: false, error: 'შენახვა ვერ მოხერხდა' };
+    }
+
+    return { success: true };
+  }
+
+  // Objects left over from purged rows; anything that fails stays queued on the
+  // server and is retried on the next purge
+  private static async removeStoredFiles(paths: string[]) {
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(FILES_BUCKET).remove(paths);
+    if (error) {
+      console.error('Error removing purged files from storage:', error);
+    }
+  }
+}
@@ -5,7 +5,7 @@ import { Button } from '@/shared/components/ui/button';
 import { Input } from '@/shared/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select';
 import { Avatar, AvatarFallback } from '@/shared/components/ui/avatar';
-import { Activity, Filter, Search, FileText, Users, Calendar, CheckCircle, Upload, UserPlus, UserMinus, Edit, Trash2 } from 'lucide-react';
+import { Activity, Filter, Search, FileText, Users, Calendar, CheckCircle, Upload, UserPlus, UserMinus, Edit, Trash2, RotateCcw, Archive, ArchiveRestore, Send, ThumbsUp, ThumbsDown, Receipt, BadgeCheck, Ban } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { supabase } from '@/core/config/client';
 import { useToast } from '@/shared/hooks/use-toast';
@@ -48,11 +48,36 @@ const activityConfig = {
     color: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
     label: 'Task Deleted'
   },
+  task_restored: {
+    icon: RotateCcw,
+    color: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400',
+    label: 'Task Restored'
+  },
+  task_archived: {
+    icon: Archive,
+    color: 'bg-slate-100 text-slate-800 dark:bg-slate-900/20 dark:text-slate-400',
+    label: 'Task Archived'
+  },
+  task_unarchived: {
+    icon: ArchiveRestore,
+    color: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400',
+    label: 'Task Unarchived'
+  },
   file_uploaded: {
     icon: Upload,
     color: 'bg-purple-100 text-purple-800 dark:bg-purple-900/20 dark:text-purple-400',
     label: 'File Uploaded'
   },
+  file_deleted: {
+    icon: Trash2,
+    color: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+    label: 'File Deleted'
+  },
+  file_restored: {
+    icon: RotateCcw,
+    color: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400',
+    label: 'File Restored'
+  },
   member_added: {
     icon: UserPlus,
     color: 'bg-cyan-100 text-cyan-800 dark:bg-cyan-900/20 dark:text-cyan-400',
@@ -68,6 +93,51 @@ const activityConfig = {
     color: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/20 dark:text-indigo-400',
     label: 'Role Changed'
   },
+  project_archived: {
+    icon: Archive,
+    color: 'bg-slate-100 text-slate-800 dark:bg-slate-900/20 dark:text-slate-400',
+    label: 'Project Archived'
+  },
+  project_unarchived: {
+    icon: ArchiveRestore,
+    color: 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-400',
+    label: 'Project Unarchived'
+  },
+  timesheet_submitted: {
+    icon: Send,
+    color: 'bg-sky-100 text-sky-800 dark:bg-sky-900/20 dark:text-sky-400',
+    label: 'Timesheet Submitted'
+  },
+  timesheet_approved: {
+    icon: ThumbsUp,
+    color: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+    label: 'Timesheet Approved'
+  },
+  timesheet_rejected: {
+    icon: ThumbsDown,
+    color: 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400',
+    label: 'Timesheet Rejected'
+  },
+  invoice_created: {
+    icon: Receipt,
+    color: 'bg-violet-100 text-violet-800 dark:bg-violet-900/20 dark:text-violet-400',
+    label: 'Invoice Created'
+  },
+  invoice_paid: {
+    icon: BadgeCheck,
+    color: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+    label: 'Invoice Paid'
+  },
+  invoice_reopened: {
+    icon: RotateCcw,
+    color: 'bg-violet-100 text-violet-800 dark:bg-violet-900/20 dark:text-violet-400',
+    label: 'Invoice Reopened'
+  },
+  invoice_voided: {
+    icon: Ban,
+    color: 'bg-gray-100 text-gray-800 dark:bg-gray-900/20 dark:text-gray-400',
+    label: 'Invoice Voided'
+  },
   event_created: {
     icon: Calendar,
     color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-400',
@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTheme } from 'next-themes';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut
+} from '@/shared/components/ui/command';
+import {
+  CalendarClock,
+  CheckSquare,
+  FolderOpen,
+  MessageSquare,
+  Paperclip,
+  User,
+  Plus,
+  Play,
+  Home,
+  FileText,
+  Settings,
+  Shield,
+  Sun,
+  Moon,
+  Monitor,
+  Loader2,
+  Trash2,
+  Zap
+} from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProfile } from '@/contexts/ProfileContext';
+import { useToast } from '@/shared/hooks/use-toast';
+import { useProjects } from '@/core/data/hooks/useProjectQueries';
+import { useWorkspaceSearch } from '@/core/data/hooks/useSearchQueries';
+import { useTimeEntryMutations } from '@/core/data/hooks/useTimeEntryQueries';
+import type { SearchResult, SearchResultKind } from '@/core/data/repositories/searchRepository';
+import { QuickAddTask } from '@/features/tasks/components/QuickAddTask';
+
+interface PaletteLink {
+  label: string;
+  href: string;
+  icon: React.ElementType;
+  shortcut?: string;
+}
+
+const userLinks: PaletteLink[] = [
+  { label: 'Go to Dashboard', href: '/dashboard', icon: Home, shortcut: 'Ctrl + D' },
+  { label: 'Go to Tasks', href: '/tasks', icon: FileText, shortcut: 'Ctrl + T' },
+  { label: 'Go to Projects', href: '/projects', icon: FolderOpen },
+  { label: 'Go to Timesheets', href: '/timesheets', icon: CalendarClock },
+  { label: 'Go to Profile', href: '/profile/edit', icon: User, shortcut: 'Ctrl + P' },
+  { label: 'Go to Settings', href: '/settings', icon: Settings }
+];
+
+const adminLinks: PaletteLink[] = [
+  { label: 'Go to Admin Dashboard', href: '/admin/dashboard', icon: Shield },
+  { label: 'Go to All Tasks', href: '/admin/tasks', icon: FileText },
+  { label: 'Go to Trash', href: '/admin/trash', icon: Trash2 },
+  { label: 'Go to Project Management', href: '/admin/projects', icon: FolderOpen },
+  { label: 'Go to User Management', href: '/admin/users', icon: User },
+  { label: 'Go to Admin Settings', href: '/admin/settings', icon: Settings }
+];
+
+const themeOptions = [
+  { name: 'light', label: 'Switch to light theme', icon: Sun },
+  { name: 'dark', label: 'Switch to dark theme', icon: Moon },
+  { name: 'system', label: 'Use system theme', icon: Monitor }
+];
+
+const resultGroups: Array<{ kind: SearchResultKind; heading: string; icon: React.ElementType }> = [
+  { kind: 'task', heading: 'Tasks', icon: CheckSquare },
+  { kind: 'project', heading: 'Projects', icon: FolderOpen },
+  { kind: 'comment', heading: 'Comments', icon: MessageSquare },
+  { kind: 'file', heading: 'Files', icon: Paperclip },
+  { kind: 'person', heading: 'People', icon: User }
+];
+
+// Actions are listed locally, so they are matched here rather than by the server search
+const matches = (label: string, term: string) =>
+  term.split(/\s+/).every(word => label.toLowerCase().includes(word.toLowerCase()));
+
+/**
+ * Ctrl+K palette: searches everything the user can see and runs common actions
+ */
+export function CommandPalette() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { profile } = useProfile();
+  const { setTheme } = useTheme();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  // Set while the palette shows quick-add for a project instead of the command list
+  const [quickAddProject, setQuickAddProject] = useState<{ id: string; name: string } | null>(null);
+  const { data: projects = [] } = useProjects();
+  const { data: results = [], isFetching } = useWorkspaceSearch(debouncedSearch);
+  const { createEntry } = useTimeEntryMutations();
+
+  const isAdmin = profile?.role === 'admin';
+  const term = search.trim();
+
+  useEffect(() => {
+    const handleShortcutEvent = (event: CustomEvent) => {
+      if (event.detail.action === 'open-command-palette') {
+        setOpen(true);
+      }
+    };
+
+    window.addEventListener('keyboard-shortcut', handleShortcutEvent as EventListener);
+    return () => {
+      window.removeEventListener('keyboard-shortcut', handleShortcutEvent as EventListener);
+    };
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search), 200);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    if (!open) {
+      setSearch('');
+      setQuickAddProject(null);
+    }
+  }, [open]);
+
+  const links = useMemo(
+    () => [...userLinks, ...(isAdmin ? adminLinks : [])].filter(link => !term || matches(link.label, term)),
+    [isAdmin, term]
+  );
+
+  const createTaskTargets = useMemo(
+    () => projects
+      .filter(project => !project.is_template && (!term || matches(`Create task in ${project.name}`, term)))
+      .slice(0, term ? 5 : 3),
+    [projects, term]
+  );
+
+  const quickAddTargets = term
+    ? projects.filter(project => !project.is_template).slice(0, 3)
+    : [];
+
+  const themes = themeOptions.filter(option => !term || matches(option.label, term));
+  const searchedTasks = term.length >= 2 ? results.filter(result => result.kind === 'task').slice(0, 3) : [];
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const tasksPath = isAdmin ? '/admin/tasks' : '/tasks';
+  const projectPath = (projectId: string) => (isAdmin ? `/admin/project/${projectId}` : `/project/${projectId}`);
+
+  const openResult = (result: SearchResult) => {
+    switch (result.kind) {
+      case 'task':
+      case 'comment':
+        navigate(`/tasks/view/${result.task_id}`);
+        break;
+      case 'project':
+        navigate(projectPath(result.id));
+        break;
+      case 'file':
+        navigate(result.task_id ? `/tasks/view/${result.task_id}` : projectPath(result.project_id!));
+        break;
+      case 'person':
+        navigate(tasksPath, { state: { assignee: result.id } });
+        break;
+    }
+  };
+
+  const startTimerOnTask = async (result: SearchResult) => {
+    if (!user) return;
+
+    try {
+      await createEntry.mutateAsync({
+        task_id: result.task_id,
+        project_id: result.project_id,
+        user_id: user.id,
+        description: result.title,
+        started_at: new Date().toISOString(),
+        is_running: true,
+        duration: 0
+      });
+
+      toast({
+        title: "Timer Started",
+        description: `Tracking time on "${result.title}"`
+      });
+    } catch (error: unknown) {
+      console.error('Error starting timer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start timer",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (!user) return null;
+
+  const groupedResults = term.length >= 2
+    ? resultGroups
+        .map(group => ({ ...group, items: results.filter(result => result.kind === group.kind) }))
+        .filter(group => group.items.length > 0)
+    : [];
+
+  return (
+    <CommandDialog open={open} onOpenChange={setOpen} shouldFilter={false}>
+      {quickAddProject ? (
+        <div className="space-y-2 p-4">
+          <p className="text-sm font-medium">Quick add to {quickAddProject.name}</p>
+          <QuickAddTask
+            projectId={quickAddProject.id}
+            initialText={search}
+            autoFocus
+            onCreated={() => setOpen(false)}
+          />
+        </div>
+      ) : (
+        <>
+          <CommandInput
+            placeholder="Search tasks, projects, comments, files and people..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>
+              {isFetching ? (
+                <span className="inline-flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Searching...
+                </span>
+              ) : (
+                'No results found.'
+              )}
+            </CommandEmpty>
+
+            {groupedResults.map(group => {
+              const Icon = group.icon;
+              return (
+                <CommandGroup key={group.kind} heading={group.heading}>
+                  {group.items.map(result => (
+                    <CommandItem
+                      key={`${result.kind}-${result.id}`}
+                      value={`${result.kind}-${result.id}`}
+                      onSelect={() => run(() => openResult(result))}
+                    >
+                      <Icon className="mr-2 h-4 w-4 shrink-0" />
+                      <span className="truncate">{result.title}</span>
+                      {result.subtitle && (
+                        <span className="ml-2 truncate text-xs text-muted-foreground">{result.subtitle}</span>
+                      )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+
+            {(searchedTasks.length > 0 || quickAddTargets.length > 0 || createTaskTargets.length > 0) && (
+              <>
+                {groupedResults.length > 0 && <CommandSeparator />}
+                <CommandGroup heading="Actions">
+                  {searchedTasks.map(result => (
+                    <CommandItem
+                      key={`timer-${result.id}`}
+                      value={`timer-${result.id}`}
+                      onSelect={() => run(() => startTimerOnTask(result))}
+                    >
+                      <Play className="mr-2 h-4 w-4 shrink-0" />
+                      <span className="truncate">Start timer on {result.title}</span>
+                    </CommandItem>
+                  ))}
+                  {quickAddTargets.map(project => (
+                    <CommandItem
+                      key={`quick-add-${project.id}`}
+                      value={`quick-add-${project.id}`}
+                      onSelect={() => setQuickAddProject({ id: project.id, name: project.name })}
+                    >
+                      <Zap className="mr-2 h-4 w-4 shrink-0" />
+                      <span className="truncate">Quick add "{term}" to {project.name}</span>
+                    </CommandItem>
+                  ))}
+                  {createTaskTargets.map(project => (
+                    <CommandItem
+                      key={`create-${project.id}`}
+                      value={`create-${project.id}`}
+                      onSelect={() => run(() => navigate(tasksPath, { state: { createTaskInProject: project.id } }))}
+                    >
+                      <Plus className="mr-2 h-4 w-4 shrink-0" />
+                      <span className="truncate">Create task in {project.name}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </>
+            )}
+
+            {links.length > 0 && (
+              <CommandGroup heading="Navigation">
+                {links.map(link => {
+                  const Icon = link.icon;
+                  return (
+                    <CommandItem key={link.href} value={link.href} onSelect={() => run(() => navigate(link.href))}>
+                      <Icon className="mr-2 h-4 w-4" />
+                      <span>{link.label}</span>
+                      {link.shortcut && <CommandShortcut>{link.shortcut}</CommandShortcut>}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+
+            {themes.length > 0 && (
+              <CommandGroup heading="Theme">
+                {themes.map(option => {
+                  const Icon = option.icon;
+                  return (
+                    <CommandItem
+                      key={option.name}
+                      value={`theme-${option.name}`}
+                      onSelect={() => run(() => setTheme(option.name))}
+                    >
+                      <Icon className="mr-2 h-4 w-4" />
+                      <span>{option.label}</span>
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </>
+      )}
+    </CommandDialog>
+  );
+}
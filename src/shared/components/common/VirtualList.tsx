@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T, index: number) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  // Height used for rows that have not been measured yet
+  estimateSize: number;
+  gap?: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+  // Called when the last row comes into view, e.g. to load the next page
+  onEndReached?: () => void;
+  className?: string;
+}
+
+// Nearest ancestor that scrolls vertically; the page layout scrolls inside <main>
+const getScrollParent = (element: HTMLElement | null): HTMLElement | Window => {
+  let node = element?.parentElement ?? null;
+  while (node) {
+    const { overflowY } = getComputedStyle(node);
+    if (overflowY === 'auto' || overflowY === 'scroll') return node;
+    node = node.parentElement;
+  }
+  return window;
+};
+
+function MeasuredRow({ id, top, onResize, children }: {
+  id: string;
+  top: number;
+  onResize: (id: string, height: number) => void;
+  children: React.ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    onResize(id, element.offsetHeight);
+    const observer = new ResizeObserver(() => onResize(id, element.offsetHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [id, onResize]);
+
+  return (
+    <div ref={ref} className="absolute left-0 right-0" style={{ transform: `translateY(${top}px)` }}>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Renders only the rows of a long list that are on screen. Rows may have any
+ * height; each is measured once rendered. Several lists can share one scroll area.
+ */
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimateSize,
+  gap = 0,
+  overscan = 600,
+  onEndReached,
+  className = ''
+}: VirtualListProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sizesRef = useRef(new Map<string, number>());
+  const [, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ start: 0, end: 0 });
+  const endReachedForRef = useRef<number | null>(null);
+
+  const handleResize = useCallback((id: string, height: number) => {
+    if (sizesRef.current.get(id) === height) return;
+    sizesRef.current.set(id, height);
+    setMeasureVersion(version => version + 1);
+  }, []);
+
+  // Viewport bounds expressed in the list's own coordinates
+  const updateViewport = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const scrollParent = getScrollParent(container);
+    const listTop = container.getBoundingClientRect().top;
+    const viewTop = scrollParent === window ? 0 : (scrollParent as HTMLElement).getBoundingClientRect().top;
+    const viewHeight = scrollParent === window ? window.innerHeight : (scrollParent as HTMLElement).clientHeight;
+    const start = viewTop - listTop;
+    setViewport(prev => (
+      prev.start === start && prev.end === start + viewHeight ? prev : { start, end: start + viewHeight }
+    ));
+  }, []);
+
+  useEffect(() => {
+    const scrollParent = getScrollParent(containerRef.current);
+    scrollParent.addEventListener('scroll', updateViewport, { passive: true });
+    window.addEventListener('resize', updateViewport);
+    return () => {
+      scrollParent.removeEventListener('scroll', updateViewport);
+      window.removeEventListener('resize', updateViewport);
+    };
+  }, [updateViewport]);
+
+  // Content above the list may have moved it without any scrolling
+  useLayoutEffect(() => {
+    updateViewport();
+  });
+
+  // Row offsets from measured heights, falling back to the estimate
+  const offsets: number[] = [];
+  let totalHeight = 0;
+  items.forEach((item, index) => {
+    offsets.push(totalHeight);
+    totalHeight += (sizesRef.current.get(getKey(item, index)) ?? estimateSize) + gap;
+  });
+  totalHeight = Math.max(0, totalHeight - gap);
+
+  const rangeStart = viewport.start - overscan;
+  const rangeEnd = viewport.end + overscan;
+  let first = 0;
+  while (first < items.length - 1 && offsets[first + 1] <= rangeStart) first++;
+  let last = first;
+  while (last < items.length - 1 && offsets[last + 1] < rangeEnd) last++;
+
+  const lastVisible = items.length > 0 && last === items.length - 1 && offsets[last] < rangeEnd;
+
+  useEffect(() => {
+    if (!lastVisible || !onEndReached || endReachedForRef.current === items.length) return;
+    endReachedForRef.current = items.length;
+    onEndReached();
+  }, [lastVisible, items.length, onEndReached]);
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`} style={{ height: totalHeight }}>
+      {items.slice(first, last + 1).map((item, offset) => {
+        const index = first + offset;
+        const key = getKey(item, index);
+        return (
+          <MeasuredRow key={key} id={key} top={offsets[index]} onResize={handleResize}>
+            {renderItem(item, index)}
+          </MeasuredRow>
+        );
+      })}
+    </div>
+  );
+}
@@ -13,6 +13,9 @@ import { format } from 'date-fns';
 import { supabase } from '@/core/config/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/shared/hooks/use-toast';
+import { ToastAction } from '@/shared/components/ui/toast';
+import { useProjectPermissions } from '@/features/project/hooks/useProjectPermissions';
+import { TrashService } from '@/services/trashService';
 
 interface ProjectFile {
   id: string;
@@ -46,6 +49,7 @@ export function FileManager({ projectId, teamMembers }: FileManagerProps) {
   const [imageThumbnails, setImageThumbnails] = useState<Record<string, string>>({});
   const { user } = useAuth();
   const { toast } = useToast();
+  const { permissions } = useProjectPermissions(projectId);
 
   useEffect(() => {
     fetchFiles();
@@ -240,41 +244,47 @@ export function FileManager({ projectId, teamMembers }: FileManagerProps) {
     }
   };
 
+  // The stored object stays until the file is purged from the trash
   const handleDelete = async (fileId: string) => {
-    try {
-      const file = files.find(f => f.id === fileId);
-      if (!file) return;
-
-      // Delete from storage
-      const { error: storageError } = await supabase.storage
-        .from('project-files')
-        .remove([file.file_path]);
-
-      if (storageError) throw storageError;
-
-      // Delete from database
-      const { error: dbError } = await supabase
-        .from('project_files')
-        .delete()
-        .eq('id', fileId);
-
-      if (dbError) throw dbError;
+    const file = files.find(f => f.id === fileId);
+    setDeleteFileId(null);
+    if (!file) return;
 
-      toast({
-        title: "Success",
-        description: "File deleted successfully",
-      });
+    const result = await TrashService.moveToTrash('file', [fileId]);
 
-      fetchFiles();
-    } catch (err: any) {
-      console.error('Error deleting file:', err);
+    if (!result.success) {
       toast({
         title: "Error",
-        description: "Failed to delete file",
+        description: result.error,
         variant: "destructive"
       });
+      return;
     }
-    setDeleteFileId(null);
+
+    toast({
+      title: "Moved to trash",
+      description: `"${file.filename}" moved to trash`,
+      action: (
+        <ToastAction altText="Restore file" onClick={() => restoreFile(file)}>
+          Undo
+        </ToastAction>
+      )
+    });
+    fetchFiles();
+  };
+
+  const restoreFile = async (file: ProjectFile) => {
+    const result = await TrashService.restore('file', [file.id]);
+
+    toast(result.success ? {
+      title: "Restored",
+      description: `"${file.filename}" restored`
+    } : {
+      title: "Error",
+      description: result.error,
+      variant: "destructive"
+    });
+    fetchFiles();
   };
 
   const getFileIcon = (file: ProjectFile) => {
@@ -359,19 +369,21 @@ export function FileManager({ projectId, teamMembers }: FileManagerProps) {
           <Badge variant="outline">
             {files.length} files ({formatFileSize(totalSize)})
           </Badge>
-          <label>
-            <input
-              type="file"
-              multiple
-              onChange={handleFileSelect}
-              className="hidden"
-              disabled={uploading}
-            />
-            <Button disabled={uploading}>
-              <Upload className="h-4 w-4 mr-2" />
-              Upload Files
-            </Button>
-          </label>
+          {permissions.upload_files && (
+            <label>
+              <input
+                type="file"
+                multiple
+                onChange={handleFileSelect}
+                className="hidden"
+                disabled={uploading}
+              />
+              <Button disabled={uploading}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Files
+              </Button>
+            </label>
+          )}
         </div>
       </div>
 
@@ -449,23 +461,25 @@ export function FileManager({ projectId, teamMembers }: FileManagerProps) {
       </div>
 
       {/* Drag and Drop Area */}
-      <Card 
-        className={`border-2 border-dashed transition-colors ${
-          dragOver ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
-        }`}
-        onDrop={handleDrop}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-      >
-        <CardContent className="p-8">
-          <div className="text-center text-muted-foreground">
-            <Upload className="h-12 w-12 mx-auto mb-4 opacity-50" />
-            <p className="text-lg font-medium">Drag and drop files here</p>
-            <p className="text-sm">or click the Upload Files button above</p>
-            <p className="text-xs mt-2">Maximum file size: 10MB</p>
-          </div>
-        </CardContent>
-      </Card>
+      {permissions.upload_files && (
+        <Card 
+          className={`border-2 border-dashed transition-colors ${
+            dragOver ? 'border-primary bg-primary/5' : 'border-muted-foreground/25'
+          }`}
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+        >
+          <CardContent className="p-8">
+            <div className="text-center text-muted-foreground">
+              <Upload className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p className="text-lg font-medium">Drag and drop files here</p>
+              <p className="text-sm">or click the Upload Files button above</p>
+              <p className="text-xs mt-2">Maximum file size: 10MB</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {/* Files List */}
       {filteredFiles.length === 0 ? (
@@ -524,13 +538,15 @@ export function FileManager({ projectId, teamMembers }: FileManagerProps) {
                         <Download className="h-4 w-4 mr-2" />
                         Download
                       </DropdownMenuItem>
-                      <DropdownMenuItem 
-                        onClick={() => setDeleteFileId(file.id)}
-                        className="text-destructive"
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
-                      </DropdownMenuItem>
+                      {permissions.delete_files && (
+                        <DropdownMenuItem 
+                          onClick={() => setDeleteFileId(file.id)}
+                          className="text-destructive"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
@@ -600,13 +616,15 @@ export function FileManager({ projectId, teamMembers }: FileManagerProps) {
                           <Download className="h-4 w-4 mr-2" />
                           Download
                         </DropdownMenuItem>
-                        <DropdownMenuItem 
-                          onClick={() => setDeleteFileId(file.id)}
-                          className="text-destructive"
-                        >
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Delete
-                        </DropdownMenuItem>
+                        {permissions.delete_files && (
+                          <DropdownMenuItem 
+                            onClick={() => setDeleteFileId(file.id)}
+                            className="text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -623,7 +641,7 @@ export function FileManager({ projectId, teamMembers }: FileManagerProps) {
           <AlertDialogHeader>
             <AlertDialogTitle>Delete File</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this file? This action cannot be undone.
+              Are you sure you want to delete this file? It moves to the project's trash, where it can be restored until the retention period ends.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -56,6 +56,18 @@ export function useKeyboardShortcuts() {
       },
       context: ['tasks', 'kanban']
     },
+    {
+      key: 'k',
+      ctrl: true,
+      description: 'Search Everything',
+      action: () => {
+        const event = new CustomEvent('keyboard-shortcut', { 
+          detail: { action: 'open-command-palette' } 
+        });
+        window.dispatchEvent(event);
+      },
+      context: ['global']
+    },
     {
       key: 'f',
       ctrl: true,
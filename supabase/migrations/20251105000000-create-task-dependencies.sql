@@ -0,0 +1,112 @@
+-- Create task_dependencies table for "blocked by" / "blocks" relationships
+-- A row means: task_id cannot start until depends_on_task_id is done
+CREATE TABLE IF NOT EXISTS public.task_dependencies (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    depends_on_task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    -- A task can depend on another task only once
+    CONSTRAINT unique_task_dependency UNIQUE (task_id, depends_on_task_id),
+    -- A task cannot depend on itself
+    CONSTRAINT task_dependency_not_self CHECK (task_id <> depends_on_task_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.task_dependencies ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for task_dependencies
+CREATE POLICY "Users can view task dependencies from their projects"
+ON public.task_dependencies
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        WHERE tasks.id = task_dependencies.task_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+-- Both tasks must be in the caller's projects; the trigger below keeps them in the same one
+CREATE POLICY "Users can add dependencies to tasks in their projects"
+ON public.task_dependencies
+FOR INSERT
+WITH CHECK (
+    (
+        EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON tasks.project_id = project_members.project_id
+            WHERE tasks.id = task_dependencies.task_id
+            AND project_members.user_id = auth.uid()
+        )
+        AND EXISTS (
+            SELECT 1 FROM public.tasks
+            JOIN public.project_members ON tasks.project_id = project_members.project_id
+            WHERE tasks.id = task_dependencies.depends_on_task_id
+            AND project_members.user_id = auth.uid()
+        )
+    ) OR is_admin(auth.uid())
+);
+
+CREATE POLICY "Users can remove dependencies from tasks in their projects"
+ON public.task_dependencies
+FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        WHERE tasks.id = task_dependencies.task_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_task_id ON public.task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON public.task_dependencies(depends_on_task_id);
+
+-- Reject dependencies between projects and ones that would create a cycle (A -> B -> ... -> A)
+CREATE OR REPLACE FUNCTION public.prevent_task_dependency_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF (SELECT project_id FROM public.tasks WHERE id = NEW.task_id)
+     IS DISTINCT FROM (SELECT project_id FROM public.tasks WHERE id = NEW.depends_on_task_id) THEN
+    RAISE EXCEPTION 'Dependent tasks must belong to the same project'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE chain AS (
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      WHERE d.task_id = NEW.depends_on_task_id
+      UNION
+      SELECT d.depends_on_task_id
+      FROM public.task_dependencies d
+      JOIN chain c ON d.task_id = c.depends_on_task_id
+    )
+    SELECT 1 FROM chain WHERE depends_on_task_id = NEW.task_id
+  ) THEN
+    RAISE EXCEPTION 'Task dependency would create a cycle'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_prevent_task_dependency_cycle
+  BEFORE INSERT OR UPDATE ON public.task_dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_task_dependency_cycle();
+
+-- Enable realtime for task_dependencies
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_dependencies;
+
+-- Comment on table
+COMMENT ON TABLE public.task_dependencies IS 'Blocking relationships between tasks - task_id is blocked by depends_on_task_id';
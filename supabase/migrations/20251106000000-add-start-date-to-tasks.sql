@@ -0,0 +1,8 @@
+-- Add start_date field to tasks table for the timeline (Gantt) view
+ALTER TABLE public.tasks ADD COLUMN start_date DATE DEFAULT NULL;
+
+-- Add comment to explain the column
+COMMENT ON COLUMN public.tasks.start_date IS 'Planned start date - together with due_date it defines the task bar on the timeline';
+
+-- Create index for better performance on timeline range queries
+CREATE INDEX idx_tasks_start_date ON public.tasks(start_date) WHERE start_date IS NOT NULL;
@@ -0,0 +1,104 @@
+-- Create project_labels table for project-scoped task labels (name + color)
+CREATE TABLE IF NOT EXISTS public.project_labels (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    color VARCHAR(7) NOT NULL DEFAULT '#6b7280',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    -- Ensure unique label names per project
+    CONSTRAINT unique_project_label_name UNIQUE (project_id, name)
+);
+
+-- Create task_labels join table linking tasks to project labels
+CREATE TABLE IF NOT EXISTS public.task_labels (
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    label_id UUID NOT NULL REFERENCES public.project_labels(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (task_id, label_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.project_labels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_labels ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for project_labels
+CREATE POLICY "Users can view labels from their projects"
+ON public.project_labels
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = project_labels.project_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+CREATE POLICY "Users can manage labels in their projects"
+ON public.project_labels
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = project_labels.project_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = project_labels.project_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+-- Create policies for task_labels
+CREATE POLICY "Users can view task labels from their projects"
+ON public.task_labels
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        WHERE tasks.id = task_labels.task_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+CREATE POLICY "Users can label tasks in their projects"
+ON public.task_labels
+FOR INSERT
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        JOIN public.project_labels ON project_labels.project_id = tasks.project_id
+        WHERE tasks.id = task_labels.task_id
+        AND project_labels.id = task_labels.label_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+CREATE POLICY "Users can unlabel tasks in their projects"
+ON public.task_labels
+FOR DELETE
+USING (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        WHERE tasks.id = task_labels.task_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_project_labels_project_id ON public.project_labels(project_id);
+CREATE INDEX IF NOT EXISTS idx_task_labels_label_id ON public.task_labels(label_id);
+
+-- Enable realtime for labels
+ALTER PUBLICATION supabase_realtime ADD TABLE public.project_labels;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_labels;
+
+-- Comment on tables
+COMMENT ON TABLE public.project_labels IS 'Project-scoped labels (tags) that can be attached to tasks';
+COMMENT ON TABLE public.task_labels IS 'Labels attached to tasks';
@@ -0,0 +1,246 @@
+-- Add recurrence rules to tasks
+-- The rule is stored as JSONB, e.g.
+--   {"frequency": "weekly", "interval": 1, "weekdays": [1, 3],
+--    "ends": {"type": "count", "count": 10}}
+-- frequency: daily | weekly | monthly
+-- weekdays: 0 (Sunday) .. 6 (Saturday), used by weekly rules
+-- month_day: 1..31, used by monthly rules (clamped to the month's last day)
+-- ends.type: never | count | date (with ends.count or ends.until)
+ALTER TABLE public.tasks ADD COLUMN recurrence JSONB;
+ALTER TABLE public.tasks ADD COLUMN recurrence_index INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE public.tasks ADD COLUMN recurrence_previous_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL;
+
+-- Each occurrence has at most one successor, which keeps spawning idempotent
+CREATE UNIQUE INDEX idx_tasks_recurrence_previous_id ON public.tasks(recurrence_previous_id);
+
+-- Calculate the next occurrence date of a rule after the given date
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(rule JSONB, from_date DATE)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  step INTEGER;
+  weekdays INTEGER[];
+  week_start DATE;
+  candidate DATE;
+  month_start DATE;
+  target_day INTEGER;
+  last_day INTEGER;
+BEGIN
+  IF rule IS NULL OR from_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  step := GREATEST(COALESCE((rule->>'interval')::INTEGER, 1), 1);
+
+  CASE rule->>'frequency'
+    WHEN 'daily' THEN
+      RETURN from_date + step;
+
+    WHEN 'weekly' THEN
+      SELECT COALESCE(array_agg(value::INTEGER), ARRAY[]::INTEGER[]) INTO weekdays
+      FROM jsonb_array_elements_text(COALESCE(rule->'weekdays', '[]'::JSONB));
+
+      IF array_length(weekdays, 1) IS NULL THEN
+        weekdays := ARRAY[EXTRACT(DOW FROM from_date)::INTEGER];
+      END IF;
+
+      -- Only weeks that are a multiple of the interval away from the current one qualify
+      week_start := from_date - EXTRACT(DOW FROM from_date)::INTEGER;
+      FOR i IN 1..(7 * step + 6) LOOP
+        candidate := from_date + i;
+        IF EXTRACT(DOW FROM candidate)::INTEGER = ANY(weekdays)
+           AND ((candidate - EXTRACT(DOW FROM candidate)::INTEGER) - week_start) / 7 % step = 0 THEN
+          RETURN candidate;
+        END IF;
+      END LOOP;
+      RETURN NULL;
+
+    WHEN 'monthly' THEN
+      target_day := COALESCE((rule->>'month_day')::INTEGER, EXTRACT(DAY FROM from_date)::INTEGER);
+      month_start := (date_trunc('month', from_date) + make_interval(months => step))::DATE;
+      last_day := EXTRACT(DAY FROM (month_start + INTERVAL '1 month' - INTERVAL '1 day'))::INTEGER;
+      RETURN month_start + (LEAST(target_day, last_day) - 1);
+
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$;
+
+-- Create the next occurrence of a recurring task, copying its subtasks, assignee and budget.
+-- Returns the new task id, or NULL when the series has ended, a successor already exists
+-- or the signed-in caller is not a member of the task's project. Only the completion
+-- trigger and spawn_due_recurring_tasks call it; it is not exposed to clients.
+CREATE OR REPLACE FUNCTION public.spawn_next_recurring_task(p_task_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  source_task public.tasks%ROWTYPE;
+  anchor_date DATE;
+  next_date DATE;
+  next_status TEXT;
+  new_task_id UUID;
+BEGIN
+  SELECT * INTO source_task FROM public.tasks WHERE id = p_task_id;
+
+  IF NOT FOUND OR source_task.recurrence IS NULL OR source_task.parent_task_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Scheduled runs have no user; signed-in users only spawn in their own projects
+  IF auth.uid() IS NOT NULL
+     AND NOT EXISTS (
+       SELECT 1 FROM public.project_members
+       WHERE project_id = source_task.project_id AND user_id = auth.uid()
+     )
+     AND NOT public.is_admin(auth.uid()) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.tasks WHERE recurrence_previous_id = p_task_id) THEN
+    RETURN NULL;
+  END IF;
+
+  anchor_date := COALESCE(source_task.due_date, source_task.start_date, source_task.created_at::DATE);
+  next_date := public.next_recurrence_date(source_task.recurrence, anchor_date);
+
+  IF next_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Respect the end condition of the series
+  IF source_task.recurrence->'ends'->>'type' = 'count'
+     AND source_task.recurrence_index >= COALESCE((source_task.recurrence->'ends'->>'count')::INTEGER, 0) THEN
+    RETURN NULL;
+  END IF;
+
+  IF source_task.recurrence->'ends'->>'type' = 'date'
+     AND next_date > (source_task.recurrence->'ends'->>'until')::DATE THEN
+    RETURN NULL;
+  END IF;
+
+  -- New occurrences start in the project's first status
+  SELECT name INTO next_status
+  FROM public.project_statuses
+  WHERE project_id = source_task.project_id
+  ORDER BY position
+  LIMIT 1;
+
+  INSERT INTO public.tasks (
+    title, description, priority, status, assignee_id, budget, project_id, created_by,
+    start_date, due_date, recurrence, recurrence_index, recurrence_previous_id
+  ) VALUES (
+    source_task.title,
+    source_task.description,
+    source_task.priority,
+    COALESCE(next_status, 'To Do'),
+    source_task.assignee_id,
+    source_task.budget,
+    source_task.project_id,
+    source_task.created_by,
+    source_task.start_date + (next_date - anchor_date),
+    next_date,
+    source_task.recurrence,
+    source_task.recurrence_index + 1,
+    source_task.id
+  )
+  RETURNING id INTO new_task_id;
+
+  INSERT INTO public.tasks (
+    title, description, priority, status, assignee_id, budget, project_id, created_by,
+    parent_task_id, is_subtask, subtask_order, due_date
+  )
+  SELECT
+    title, description, priority, COALESCE(next_status, 'To Do'), assignee_id, budget, project_id, created_by,
+    new_task_id, TRUE, subtask_order, due_date + (next_date - anchor_date)
+  FROM public.tasks
+  WHERE parent_task_id = source_task.id
+  ORDER BY subtask_order;
+
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT new_task_id, label_id
+  FROM public.task_labels
+  WHERE task_id = source_task.id;
+
+  PERFORM public.log_project_activity(
+    source_task.project_id,
+    COALESCE(auth.uid(), source_task.created_by),
+    'task_created',
+    'Created next occurrence of recurring task "' || source_task.title || '"',
+    'task',
+    new_task_id,
+    jsonb_build_object('recurrence_previous_id', source_task.id, 'recurrence_index', source_task.recurrence_index + 1)
+  );
+
+  RETURN new_task_id;
+END;
+$$;
+
+-- Spawn the next occurrence when a recurring task is completed
+CREATE OR REPLACE FUNCTION public.handle_recurring_task_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.recurrence IS NOT NULL
+     AND NEW.parent_task_id IS NULL
+     AND lower(regexp_replace(trim(NEW.status), '\s+', '-', 'g')) IN ('done', 'completed', 'დასრულებული')
+     AND lower(regexp_replace(trim(OLD.status), '\s+', '-', 'g')) NOT IN ('done', 'completed', 'დასრულებული') THEN
+    PERFORM public.spawn_next_recurring_task(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_spawn_recurring_task_on_completion
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_recurring_task_completion();
+
+-- Spawn the next occurrence of every series whose next date has been reached.
+-- Only the latest occurrence of each series is considered, one step per call, so
+-- a long-idle series doesn't flood the board. Called on page load; can also be scheduled.
+CREATE OR REPLACE FUNCTION public.spawn_due_recurring_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due_task RECORD;
+  spawned_count INTEGER := 0;
+BEGIN
+  FOR due_task IN
+    SELECT t.id
+    FROM public.tasks t
+    WHERE t.recurrence IS NOT NULL
+      AND t.parent_task_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.tasks s WHERE s.recurrence_previous_id = t.id)
+      AND public.next_recurrence_date(
+            t.recurrence,
+            COALESCE(t.due_date, t.start_date, t.created_at::DATE)
+          ) <= CURRENT_DATE
+  LOOP
+    IF public.spawn_next_recurring_task(due_task.id) IS NOT NULL THEN
+      spawned_count := spawned_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN spawned_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.spawn_next_recurring_task(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.tasks.recurrence IS 'RRULE-style recurrence rule (frequency, interval, weekdays, month_day, ends)';
+COMMENT ON COLUMN public.tasks.recurrence_index IS 'Position of this task within its recurring series, starting at 1';
+COMMENT ON COLUMN public.tasks.recurrence_previous_id IS 'The previous occurrence this task was spawned from';
@@ -0,0 +1,89 @@
+-- Create saved_task_views table for named filter/view presets
+-- A view is private to its owner, or shared with every member of its project.
+CREATE TABLE IF NOT EXISTS public.saved_task_views (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    -- Which screen the view belongs to: the Tasks page or a project's kanban board
+    scope TEXT NOT NULL DEFAULT 'tasks' CHECK (scope IN ('tasks', 'board')),
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    view_mode TEXT,
+    group_by TEXT,
+    -- Filter set including sort field and order
+    filters JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    -- Only project-scoped views can be shared
+    CONSTRAINT shared_view_requires_project CHECK (NOT is_shared OR project_id IS NOT NULL)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.saved_task_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared project views"
+ON public.saved_task_views
+FOR SELECT
+USING (
+    user_id = auth.uid()
+    OR (
+        is_shared AND EXISTS (
+            SELECT 1 FROM public.project_members
+            WHERE project_members.project_id = saved_task_views.project_id
+            AND project_members.user_id = auth.uid()
+        )
+    )
+    OR is_admin(auth.uid())
+);
+
+CREATE POLICY "Users can create their own views"
+ON public.saved_task_views
+FOR INSERT
+WITH CHECK (
+    user_id = auth.uid()
+    AND (
+        NOT is_shared
+        OR EXISTS (
+            SELECT 1 FROM public.project_members
+            WHERE project_members.project_id = saved_task_views.project_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR is_admin(auth.uid())
+    )
+);
+
+CREATE POLICY "Users can update their own views"
+ON public.saved_task_views
+FOR UPDATE
+USING (user_id = auth.uid() OR is_admin(auth.uid()))
+WITH CHECK (
+    (user_id = auth.uid() OR is_admin(auth.uid()))
+    AND (
+        NOT is_shared
+        OR EXISTS (
+            SELECT 1 FROM public.project_members
+            WHERE project_members.project_id = saved_task_views.project_id
+            AND project_members.user_id = auth.uid()
+        )
+        OR is_admin(auth.uid())
+    )
+);
+
+CREATE POLICY "Users can delete their own views"
+ON public.saved_task_views
+FOR DELETE
+USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_saved_task_views_user_id ON public.saved_task_views(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_task_views_project_id ON public.saved_task_views(project_id);
+
+-- Create trigger for updating saved_task_views updated_at
+CREATE TRIGGER update_saved_task_views_updated_at
+    BEFORE UPDATE ON public.saved_task_views
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Comment on table
+COMMENT ON TABLE public.saved_task_views IS 'Named task filter views (filters, sort, view mode, grouping), private or shared per project';
@@ -0,0 +1,124 @@
+-- Create project_custom_fields table so each project can define its own task metadata
+CREATE TABLE IF NOT EXISTS public.project_custom_fields (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'user', 'checkbox')),
+    -- Choices for select fields
+    options JSONB NOT NULL DEFAULT '[]',
+    position INTEGER NOT NULL DEFAULT 0,
+    show_in_list BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    -- Ensure unique field names per project
+    CONSTRAINT unique_project_custom_field_name UNIQUE (project_id, name)
+);
+
+-- Create task_custom_field_values table holding one value per task and field
+CREATE TABLE IF NOT EXISTS public.task_custom_field_values (
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    field_id UUID NOT NULL REFERENCES public.project_custom_fields(id) ON DELETE CASCADE,
+    -- Stored as JSON so every field type keeps its native shape (string, number, boolean)
+    value JSONB,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (task_id, field_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.project_custom_fields ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.task_custom_field_values ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for project_custom_fields
+CREATE POLICY "Users can view custom fields from their projects"
+ON public.project_custom_fields
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = project_custom_fields.project_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+-- Only project managers, the project creator and admins design fields
+CREATE POLICY "Project managers can manage custom fields"
+ON public.project_custom_fields
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = project_custom_fields.project_id
+        AND project_members.user_id = auth.uid()
+        AND project_members.role = 'manager'
+    ) OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = project_custom_fields.project_id
+        AND projects.created_by = auth.uid()
+    ) OR is_admin(auth.uid())
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.project_members
+        WHERE project_members.project_id = project_custom_fields.project_id
+        AND project_members.user_id = auth.uid()
+        AND project_members.role = 'manager'
+    ) OR EXISTS (
+        SELECT 1 FROM public.projects
+        WHERE projects.id = project_custom_fields.project_id
+        AND projects.created_by = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+-- Create policies for task_custom_field_values
+CREATE POLICY "Users can view custom field values from their projects"
+ON public.task_custom_field_values
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        WHERE tasks.id = task_custom_field_values.task_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+CREATE POLICY "Users can set custom field values in their projects"
+ON public.task_custom_field_values
+FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        WHERE tasks.id = task_custom_field_values.task_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.tasks
+        JOIN public.project_members ON tasks.project_id = project_members.project_id
+        JOIN public.project_custom_fields ON project_custom_fields.project_id = tasks.project_id
+        WHERE tasks.id = task_custom_field_values.task_id
+        AND project_custom_fields.id = task_custom_field_values.field_id
+        AND project_members.user_id = auth.uid()
+    ) OR is_admin(auth.uid())
+);
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_project_custom_fields_project_id ON public.project_custom_fields(project_id);
+CREATE INDEX IF NOT EXISTS idx_task_custom_field_values_field_id ON public.task_custom_field_values(field_id);
+
+-- Create trigger for updating project_custom_fields updated_at
+CREATE TRIGGER update_project_custom_fields_updated_at
+    BEFORE UPDATE ON public.project_custom_fields
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime for custom fields
+ALTER PUBLICATION supabase_realtime ADD TABLE public.project_custom_fields;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_custom_field_values;
+
+-- Comment on tables
+COMMENT ON TABLE public.project_custom_fields IS 'Project-defined task fields (text, number, date, select, user, checkbox)';
+COMMENT ON TABLE public.task_custom_field_values IS 'Values of project custom fields on tasks';
@@ -0,0 +1,38 @@
+-- Member directory for a project, including e-mail addresses from auth.users.
+-- Used by the task importer to resolve assignees given by e-mail or name.
+CREATE OR REPLACE FUNCTION public.get_project_member_directory(p_project_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  email TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Only members of the project (and admins) may read its directory
+  IF NOT EXISTS (
+    SELECT 1 FROM public.project_members
+    WHERE project_members.project_id = p_project_id
+    AND project_members.user_id = auth.uid()
+  ) AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not a member of project %', p_project_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    pm.user_id,
+    COALESCE(p.display_name, p.full_name, u.email)::TEXT AS name,
+    u.email::TEXT AS email
+  FROM public.project_members pm
+  JOIN auth.users u ON u.id = pm.user_id
+  LEFT JOIN public.profiles p ON p.user_id = pm.user_id
+  WHERE pm.project_id = p_project_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_project_member_directory(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.get_project_member_directory(UUID) IS 'Project members with display name and e-mail, readable by project members';
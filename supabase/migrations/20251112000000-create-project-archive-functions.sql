@@ -0,0 +1,329 @@
+-- Project export / restore as a portable, versioned JSON archive.
+-- Rows are stored with to_jsonb so the archive follows the table definitions;
+-- restore rebuilds them with jsonb_populate_record and fresh IDs.
+
+-- Export a project with its board, tasks and everything hanging off them, for
+-- those who can manage its members
+CREATE OR REPLACE FUNCTION public.export_project_archive(p_project_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  task_ids UUID[];
+  archive JSONB;
+  can_view_budget BOOLEAN;
+BEGIN
+  -- The archive holds every member's time entries and e-mail address, so only
+  -- those who manage the team may take it (has_project_permission comes with the
+  -- permission matrix)
+  IF NOT public.has_project_permission(p_project_id, 'manage_members') AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to export project %', p_project_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.projects WHERE id = p_project_id) THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+
+  -- Task budgets stay out of the archive for those who may not see them
+  can_view_budget := public.has_project_permission(p_project_id, 'view_budget') OR public.is_admin(auth.uid());
+
+  SELECT COALESCE(array_agg(id), '{}') INTO task_ids
+  FROM public.tasks
+  WHERE project_id = p_project_id;
+
+  archive := jsonb_build_object(
+    'format', 'crm-infinity.project-archive',
+    'version', 1,
+    'exported_at', now(),
+    'exported_by', auth.uid(),
+    'project', (SELECT to_jsonb(p) FROM public.projects p WHERE p.id = p_project_id),
+    'members', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(m)), '[]')
+      FROM public.project_members m WHERE m.project_id = p_project_id
+    ),
+    'kanban_columns', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(c) ORDER BY c.position), '[]')
+      FROM public.kanban_columns c WHERE c.project_id = p_project_id
+    ),
+    'project_statuses', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(s) ORDER BY s.position), '[]')
+      FROM public.project_statuses s WHERE s.project_id = p_project_id
+    ),
+    'labels', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(l)), '[]')
+      FROM public.project_labels l WHERE l.project_id = p_project_id
+    ),
+    'custom_fields', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(f) ORDER BY f.position), '[]')
+      FROM public.project_custom_fields f WHERE f.project_id = p_project_id
+    ),
+    -- Parent tasks come before their subtasks
+    'tasks', (
+      SELECT COALESCE(jsonb_agg(
+        CASE WHEN can_view_budget THEN to_jsonb(t) ELSE to_jsonb(t) - 'budget' END
+        ORDER BY t.parent_task_id NULLS FIRST, t.created_at
+      ), '[]')
+      FROM public.tasks t WHERE t.project_id = p_project_id
+    ),
+    'task_labels', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(tl)), '[]')
+      FROM public.task_labels tl WHERE tl.task_id = ANY(task_ids)
+    ),
+    'task_custom_field_values', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(v)), '[]')
+      FROM public.task_custom_field_values v WHERE v.task_id = ANY(task_ids)
+    ),
+    'task_dependencies', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(d)), '[]')
+      FROM public.task_dependencies d WHERE d.task_id = ANY(task_ids)
+    ),
+    -- Oldest first so replies follow the comments they answer
+    'task_comments', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(c) ORDER BY c.created_at), '[]')
+      FROM public.task_comments c WHERE c.task_id = ANY(task_ids)
+    ),
+    'task_attachments', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(a)), '[]')
+      FROM public.task_attachments a WHERE a.task_id = ANY(task_ids)
+    ),
+    'time_entries', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(e) ORDER BY e.created_at), '[]')
+      FROM public.time_entries e WHERE e.task_id = ANY(task_ids) OR e.project_id = p_project_id
+    ),
+    'calendar_events', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(e) ORDER BY e.event_date), '[]')
+      FROM public.calendar_events e WHERE e.project_id = p_project_id
+    ),
+    'project_files', (
+      SELECT COALESCE(jsonb_agg(to_jsonb(f)), '[]')
+      FROM public.project_files f WHERE f.project_id = p_project_id
+    )
+  );
+
+  -- Everyone referenced by the archive, so a restore can match people by e-mail
+  archive := archive || jsonb_build_object('users', (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', u.id,
+      'email', u.email,
+      'name', COALESCE(pr.display_name, pr.full_name)
+    )), '[]')
+    FROM auth.users u
+    LEFT JOIN public.profiles pr ON pr.user_id = u.id
+    WHERE u.id::TEXT IN (
+      SELECT archive->'project'->>'created_by'
+      UNION SELECT x->>'user_id' FROM jsonb_array_elements(archive->'members') x
+      UNION SELECT x->>'assignee_id' FROM jsonb_array_elements(archive->'tasks') x
+      UNION SELECT x->>'created_by' FROM jsonb_array_elements(archive->'tasks') x
+      UNION SELECT x->>'user_id' FROM jsonb_array_elements(archive->'task_comments') x
+      UNION SELECT x->>'uploaded_by' FROM jsonb_array_elements(archive->'task_attachments') x
+      UNION SELECT x->>'user_id' FROM jsonb_array_elements(archive->'time_entries') x
+      UNION SELECT x->>'created_by' FROM jsonb_array_elements(archive->'calendar_events') x
+      UNION SELECT x->>'uploaded_by' FROM jsonb_array_elements(archive->'project_files') x
+    )
+  ));
+
+  RETURN archive;
+END;
+$$;
+
+-- Recreate a project from an archive with new IDs; people are matched by e-mail.
+-- Unknown authors become the restoring user, unknown assignees are cleared.
+CREATE OR REPLACE FUNCTION public.restore_project_archive(p_archive JSONB, p_name TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  new_project_id UUID := gen_random_uuid();
+  me JSONB := to_jsonb(auth.uid());
+  id_map JSONB;
+  user_map JSONB;
+  task_count INTEGER;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can restore projects';
+  END IF;
+
+  IF p_archive->>'format' IS DISTINCT FROM 'crm-infinity.project-archive' THEN
+    RAISE EXCEPTION 'Not a project archive';
+  END IF;
+
+  IF (p_archive->>'version')::INTEGER IS DISTINCT FROM 1 THEN
+    RAISE EXCEPTION 'Unsupported project archive version %', p_archive->>'version';
+  END IF;
+
+  -- A fresh ID for every archived row
+  SELECT COALESCE(jsonb_object_agg(item->>'id', gen_random_uuid()), '{}') INTO id_map
+  FROM unnest(ARRAY[
+    'kanban_columns', 'project_statuses', 'labels', 'custom_fields', 'tasks', 'task_dependencies',
+    'task_comments', 'task_attachments', 'time_entries', 'calendar_events', 'project_files'
+  ]) AS collection,
+  jsonb_array_elements(COALESCE(p_archive->collection, '[]')) AS item
+  WHERE item ? 'id';
+
+  SELECT COALESCE(jsonb_object_agg(x->>'id', u.id), '{}') INTO user_map
+  FROM jsonb_array_elements(COALESCE(p_archive->'users', '[]')) x
+  JOIN auth.users u ON lower(u.email) = lower(x->>'email');
+
+  INSERT INTO public.projects
+  SELECT (jsonb_populate_record(NULL::public.projects, p_archive->'project' || jsonb_build_object(
+    'id', new_project_id,
+    'name', COALESCE(NULLIF(trim(p_name), ''), p_archive->'project'->>'name'),
+    'created_by', me,
+    'created_at', now(),
+    'updated_at', now()
+  ))).*;
+
+  INSERT INTO public.project_members (project_id, user_id, role, permissions)
+  SELECT new_project_id, (user_map->>(m->>'user_id'))::UUID, m->>'role', m->'permissions'
+  FROM jsonb_array_elements(COALESCE(p_archive->'members', '[]')) m
+  WHERE user_map ? (m->>'user_id')
+  ON CONFLICT (project_id, user_id) DO NOTHING;
+
+  INSERT INTO public.kanban_columns
+  SELECT (jsonb_populate_record(NULL::public.kanban_columns, c || jsonb_build_object(
+    'id', id_map->(c->>'id'),
+    'project_id', new_project_id
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'kanban_columns', '[]')) c;
+
+  INSERT INTO public.project_statuses
+  SELECT (jsonb_populate_record(NULL::public.project_statuses, s || jsonb_build_object(
+    'id', id_map->(s->>'id'),
+    'project_id', new_project_id
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'project_statuses', '[]')) s;
+
+  INSERT INTO public.project_labels
+  SELECT (jsonb_populate_record(NULL::public.project_labels, l || jsonb_build_object(
+    'id', id_map->(l->>'id'),
+    'project_id', new_project_id
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'labels', '[]')) l;
+
+  INSERT INTO public.project_custom_fields
+  SELECT (jsonb_populate_record(NULL::public.project_custom_fields, f || jsonb_build_object(
+    'id', id_map->(f->>'id'),
+    'project_id', new_project_id
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'custom_fields', '[]')) f;
+
+  INSERT INTO public.tasks
+  SELECT (jsonb_populate_record(NULL::public.tasks, t || jsonb_build_object(
+    'id', id_map->(t->>'id'),
+    'project_id', new_project_id,
+    'parent_task_id', id_map->(t->>'parent_task_id'),
+    'assignee_id', user_map->(t->>'assignee_id'),
+    'created_by', COALESCE(user_map->(t->>'created_by'), me),
+    'recurrence_previous_id', NULL
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'tasks', '[]')) t;
+
+  GET DIAGNOSTICS task_count = ROW_COUNT;
+
+  -- Inserting subtasks lets the progress trigger move their parents; put the archived statuses back
+  UPDATE public.tasks
+  SET status = t->>'status'
+  FROM jsonb_array_elements(COALESCE(p_archive->'tasks', '[]')) t
+  WHERE tasks.id = (id_map->>(t->>'id'))::UUID
+  AND tasks.status IS DISTINCT FROM t->>'status';
+
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT (id_map->>(tl->>'task_id'))::UUID, (id_map->>(tl->>'label_id'))::UUID
+  FROM jsonb_array_elements(COALESCE(p_archive->'task_labels', '[]')) tl
+  WHERE id_map ? (tl->>'task_id') AND id_map ? (tl->>'label_id');
+
+  INSERT INTO public.task_custom_field_values (task_id, field_id, value)
+  SELECT (id_map->>(v->>'task_id'))::UUID, (id_map->>(v->>'field_id'))::UUID, v->'value'
+  FROM jsonb_array_elements(COALESCE(p_archive->'task_custom_field_values', '[]')) v
+  WHERE id_map ? (v->>'task_id') AND id_map ? (v->>'field_id');
+
+  INSERT INTO public.task_dependencies (task_id, depends_on_task_id, created_by)
+  SELECT (id_map->>(d->>'task_id'))::UUID, (id_map->>(d->>'depends_on_task_id'))::UUID, (user_map->>(d->>'created_by'))::UUID
+  FROM jsonb_array_elements(COALESCE(p_archive->'task_dependencies', '[]')) d
+  WHERE id_map ? (d->>'task_id') AND id_map ? (d->>'depends_on_task_id');
+
+  INSERT INTO public.task_comments
+  SELECT (jsonb_populate_record(NULL::public.task_comments, c || jsonb_build_object(
+    'id', id_map->(c->>'id'),
+    'task_id', id_map->(c->>'task_id'),
+    'reply_to', id_map->(c->>'reply_to'),
+    'user_id', COALESCE(user_map->(c->>'user_id'), me),
+    'mentions', (
+      SELECT COALESCE(jsonb_agg(user_map->m), '[]')
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(c->'mentions') = 'array' THEN c->'mentions' ELSE '[]' END
+      ) m
+      WHERE user_map ? m
+    )
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'task_comments', '[]')) c
+  WHERE id_map ? (c->>'task_id');
+
+  -- Attachment and file rows keep their storage paths; the objects themselves are not copied
+  INSERT INTO public.task_attachments
+  SELECT (jsonb_populate_record(NULL::public.task_attachments, a || jsonb_build_object(
+    'id', id_map->(a->>'id'),
+    'task_id', id_map->(a->>'task_id'),
+    'uploaded_by', COALESCE(user_map->(a->>'uploaded_by'), me)
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'task_attachments', '[]')) a
+  WHERE id_map ? (a->>'task_id');
+
+  INSERT INTO public.project_files
+  SELECT (jsonb_populate_record(NULL::public.project_files, f || jsonb_build_object(
+    'id', id_map->(f->>'id'),
+    'project_id', new_project_id,
+    'uploaded_by', COALESCE(user_map->(f->>'uploaded_by'), me)
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'project_files', '[]')) f;
+
+  INSERT INTO public.time_entries
+  SELECT (jsonb_populate_record(NULL::public.time_entries, e || jsonb_build_object(
+    'id', id_map->(e->>'id'),
+    'task_id', id_map->(e->>'task_id'),
+    'project_id', new_project_id,
+    'user_id', COALESCE(user_map->(e->>'user_id'), me),
+    'is_running', false
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'time_entries', '[]')) e;
+
+  INSERT INTO public.calendar_events
+  SELECT (jsonb_populate_record(NULL::public.calendar_events, e || jsonb_build_object(
+    'id', id_map->(e->>'id'),
+    'project_id', new_project_id,
+    'created_by', COALESCE(user_map->(e->>'created_by'), me)
+  ))).*
+  FROM jsonb_array_elements(COALESCE(p_archive->'calendar_events', '[]')) e;
+
+  -- Comment triggers notify and log as if every restored comment were new; drop that noise
+  DELETE FROM public.notifications WHERE project_id = new_project_id;
+  DELETE FROM public.project_activity WHERE project_id = new_project_id;
+
+  PERFORM public.log_project_activity(
+    new_project_id,
+    auth.uid(),
+    'project_restored',
+    'Restored project from archive with ' || task_count || ' tasks',
+    'project',
+    new_project_id,
+    jsonb_build_object(
+      'source_project_id', p_archive->'project'->>'id',
+      'exported_at', p_archive->>'exported_at',
+      'archive_version', p_archive->'version'
+    )
+  );
+
+  RETURN new_project_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.export_project_archive(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_project_archive(JSONB, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.export_project_archive(UUID) IS 'Versioned JSON archive of a project, its board, tasks, comments, time entries, events and attachment metadata';
+COMMENT ON FUNCTION public.restore_project_archive(JSONB, TEXT) IS 'Recreate a project from export_project_archive output with new IDs, matching users by e-mail';
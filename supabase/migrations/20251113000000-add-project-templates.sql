@@ -0,0 +1,165 @@
+-- Any project can be marked as a template and used as the starting point for new projects
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS is_template BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_projects_is_template ON public.projects(is_template) WHERE is_template;
+
+-- Create a project from a template: board columns, statuses, labels, custom fields,
+-- tasks with subtasks (due dates kept at the same offset from the project start)
+-- and optionally the template's team with their roles.
+CREATE OR REPLACE FUNCTION public.create_project_from_template(
+  p_template_id UUID,
+  p_name TEXT,
+  p_description TEXT DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT 'active',
+  p_start_date DATE DEFAULT NULL,
+  p_end_date DATE DEFAULT NULL,
+  p_copy_members BOOLEAN DEFAULT true
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  template public.projects%ROWTYPE;
+  new_project_id UUID;
+  template_start DATE;
+  new_start DATE := COALESCE(p_start_date, CURRENT_DATE);
+  first_status TEXT;
+  task_map JSONB;
+  label_map JSONB;
+  field_map JSONB;
+  task_count INTEGER;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only administrators can create projects';
+  END IF;
+
+  SELECT * INTO template FROM public.projects WHERE id = p_template_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Template project % not found', p_template_id;
+  END IF;
+
+  -- Due dates are offsets from the template's start (or creation) date
+  template_start := COALESCE(template.start_date, template.created_at::DATE);
+
+  INSERT INTO public.projects (name, description, category, status, start_date, end_date, created_by)
+  VALUES (
+    p_name,
+    COALESCE(p_description, template.description),
+    COALESCE(p_category, template.category),
+    p_status,
+    p_start_date,
+    COALESCE(p_end_date, CASE WHEN template.end_date IS NOT NULL THEN new_start + (template.end_date - template_start) END),
+    auth.uid()
+  )
+  RETURNING id INTO new_project_id;
+
+  IF p_copy_members THEN
+    INSERT INTO public.project_members (project_id, user_id, role, permissions)
+    SELECT new_project_id, user_id, role, permissions
+    FROM public.project_members
+    WHERE project_id = p_template_id
+    ON CONFLICT (project_id, user_id) DO NOTHING;
+  END IF;
+
+  INSERT INTO public.kanban_columns (project_id, name, position, color, status_value)
+  SELECT new_project_id, name, position, color, status_value
+  FROM public.kanban_columns
+  WHERE project_id = p_template_id;
+
+  INSERT INTO public.project_statuses (project_id, name, position, color)
+  SELECT new_project_id, name, position, color
+  FROM public.project_statuses
+  WHERE project_id = p_template_id;
+
+  SELECT COALESCE(jsonb_object_agg(id, gen_random_uuid()), '{}') INTO label_map
+  FROM public.project_labels WHERE project_id = p_template_id;
+
+  INSERT INTO public.project_labels (id, project_id, name, color)
+  SELECT (label_map->>id::TEXT)::UUID, new_project_id, name, color
+  FROM public.project_labels
+  WHERE project_id = p_template_id;
+
+  SELECT COALESCE(jsonb_object_agg(id, gen_random_uuid()), '{}') INTO field_map
+  FROM public.project_custom_fields WHERE project_id = p_template_id;
+
+  INSERT INTO public.project_custom_fields (id, project_id, name, field_type, options, position, show_in_list)
+  SELECT (field_map->>id::TEXT)::UUID, new_project_id, name, field_type, options, position, show_in_list
+  FROM public.project_custom_fields
+  WHERE project_id = p_template_id;
+
+  -- New tasks start in the project's first status
+  SELECT name INTO first_status
+  FROM public.project_statuses
+  WHERE project_id = new_project_id
+  ORDER BY position
+  LIMIT 1;
+  first_status := COALESCE(first_status, 'To Do');
+
+  SELECT COALESCE(jsonb_object_agg(id, gen_random_uuid()), '{}') INTO task_map
+  FROM public.tasks WHERE project_id = p_template_id;
+
+  INSERT INTO public.tasks (
+    id, title, description, priority, status, kanban_column, kanban_position, assignee_id, budget,
+    project_id, created_by, parent_task_id, is_subtask, subtask_order, start_date, due_date, recurrence
+  )
+  SELECT
+    (task_map->>t.id::TEXT)::UUID,
+    t.title,
+    t.description,
+    t.priority,
+    first_status,
+    lower(regexp_replace(first_status, '\s+', '-', 'g')),
+    t.kanban_position,
+    CASE WHEN p_copy_members THEN t.assignee_id END,
+    t.budget,
+    new_project_id,
+    auth.uid(),
+    (task_map->>t.parent_task_id::TEXT)::UUID,
+    t.is_subtask,
+    t.subtask_order,
+    new_start + (t.start_date - template_start),
+    new_start + (t.due_date - template_start),
+    t.recurrence
+  FROM public.tasks t
+  WHERE t.project_id = p_template_id
+  ORDER BY t.parent_task_id NULLS FIRST, t.created_at;
+
+  GET DIAGNOSTICS task_count = ROW_COUNT;
+
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT (task_map->>tl.task_id::TEXT)::UUID, (label_map->>tl.label_id::TEXT)::UUID
+  FROM public.task_labels tl
+  WHERE task_map ? tl.task_id::TEXT AND label_map ? tl.label_id::TEXT;
+
+  INSERT INTO public.task_custom_field_values (task_id, field_id, value)
+  SELECT (task_map->>v.task_id::TEXT)::UUID, (field_map->>v.field_id::TEXT)::UUID, v.value
+  FROM public.task_custom_field_values v
+  WHERE task_map ? v.task_id::TEXT AND field_map ? v.field_id::TEXT;
+
+  INSERT INTO public.task_dependencies (task_id, depends_on_task_id, created_by)
+  SELECT (task_map->>d.task_id::TEXT)::UUID, (task_map->>d.depends_on_task_id::TEXT)::UUID, auth.uid()
+  FROM public.task_dependencies d
+  WHERE task_map ? d.task_id::TEXT AND task_map ? d.depends_on_task_id::TEXT;
+
+  PERFORM public.log_project_activity(
+    new_project_id,
+    auth.uid(),
+    'project_created',
+    'Created project from template "' || template.name || '" with ' || task_count || ' tasks',
+    'project',
+    new_project_id,
+    jsonb_build_object('template_id', p_template_id)
+  );
+
+  RETURN new_project_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_project_from_template(UUID, TEXT, TEXT, TEXT, TEXT, DATE, DATE, BOOLEAN) TO authenticated;
+
+COMMENT ON COLUMN public.projects.is_template IS 'Whether the project is offered as a template when creating projects';
+COMMENT ON FUNCTION public.create_project_from_template(UUID, TEXT, TEXT, TEXT, TEXT, DATE, DATE, BOOLEAN) IS 'Create a project from a template, shifting task dates to the new start date';
@@ -0,0 +1,320 @@
+-- Per-project permission matrix. Each project stores what its member roles may do;
+-- individual members can additionally carry overrides in project_members.permissions.
+-- Admins and the project creator always have every permission.
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS role_permissions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Capabilities granted to each role when a project does not configure its own matrix
+CREATE OR REPLACE FUNCTION public.default_project_role_permissions()
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT '{
+    "manager": {
+      "create_tasks": true, "edit_tasks": true, "delete_tasks": true, "manage_board": true,
+      "manage_members": true, "upload_files": true, "delete_files": true, "view_budget": true,
+      "log_time_for_others": true
+    },
+    "member": {
+      "create_tasks": true, "edit_tasks": true, "delete_tasks": false, "manage_board": false,
+      "manage_members": false, "upload_files": true, "delete_files": false, "view_budget": true,
+      "log_time_for_others": false
+    },
+    "viewer": {
+      "create_tasks": false, "edit_tasks": false, "delete_tasks": false, "manage_board": false,
+      "manage_members": false, "upload_files": false, "delete_files": false, "view_budget": false,
+      "log_time_for_others": false
+    }
+  }'::jsonb;
+$$;
+
+-- Effective permissions of a user in a project: role defaults, then the project's
+-- matrix for that role, then the member's own overrides
+CREATE OR REPLACE FUNCTION public.get_effective_project_permissions(p_project_id UUID, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  defaults JSONB := public.default_project_role_permissions();
+  project_creator UUID;
+  project_matrix JSONB;
+  member_role TEXT;
+  member_overrides JSONB;
+  all_granted JSONB;
+BEGIN
+  SELECT jsonb_object_agg(key, true) INTO all_granted
+  FROM jsonb_object_keys(defaults->'manager') AS key;
+
+  SELECT created_by, role_permissions INTO project_creator, project_matrix
+  FROM public.projects
+  WHERE id = p_project_id;
+
+  IF NOT FOUND THEN
+    RETURN '{}'::jsonb;
+  END IF;
+
+  IF public.is_admin(p_user_id) OR project_creator = p_user_id THEN
+    RETURN all_granted;
+  END IF;
+
+  SELECT role, permissions INTO member_role, member_overrides
+  FROM public.project_members
+  WHERE project_id = p_project_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN '{}'::jsonb;
+  END IF;
+
+  member_role := COALESCE(member_role, 'member');
+
+  RETURN COALESCE(defaults->member_role, defaults->'member')
+    || COALESCE(project_matrix->member_role, '{}'::jsonb)
+    || CASE WHEN jsonb_typeof(member_overrides) = 'object' THEN member_overrides ELSE '{}'::jsonb END;
+END;
+$$;
+
+-- Whether the current user holds a permission in a project; used by the RLS policies below
+CREATE OR REPLACE FUNCTION public.has_project_permission(p_project_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE((public.get_effective_project_permissions(p_project_id, auth.uid())->>p_permission)::BOOLEAN, false);
+$$;
+
+-- The current user's permissions in several projects at once
+CREATE OR REPLACE FUNCTION public.get_my_project_permissions(p_project_ids UUID[])
+RETURNS TABLE (project_id UUID, permissions JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT id, public.get_effective_project_permissions(id, auth.uid())
+  FROM unnest(p_project_ids) AS id;
+$$;
+
+-- Replace a project's role matrix; only members who can manage the team may change it
+CREATE OR REPLACE FUNCTION public.set_project_role_permissions(p_project_id UUID, p_matrix JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_project_permission(p_project_id, 'manage_members') THEN
+    RAISE EXCEPTION 'Not allowed to change permissions of project %', p_project_id;
+  END IF;
+
+  IF jsonb_typeof(p_matrix) <> 'object' THEN
+    RAISE EXCEPTION 'Permission matrix must be an object';
+  END IF;
+
+  UPDATE public.projects
+  SET role_permissions = p_matrix
+  WHERE id = p_project_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.default_project_role_permissions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_project_permission(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_project_permissions(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_project_role_permissions(UUID, JSONB) TO authenticated;
+-- Takes any user id, so only the wrappers above, which pass auth.uid(), may call it
+REVOKE EXECUTE ON FUNCTION public.get_effective_project_permissions(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Tasks
+DROP POLICY IF EXISTS "Users can create tasks in their projects" ON public.tasks;
+DROP POLICY IF EXISTS "Users can update tasks in their projects" ON public.tasks;
+DROP POLICY IF EXISTS "Users can delete tasks in their projects" ON public.tasks;
+
+CREATE POLICY "Users can create tasks in their projects"
+ON public.tasks
+FOR INSERT
+WITH CHECK (
+  public.has_project_permission(project_id, 'create_tasks')
+  AND auth.uid() = created_by
+);
+
+CREATE POLICY "Users can update tasks in their projects"
+ON public.tasks
+FOR UPDATE
+USING (public.has_project_permission(project_id, 'edit_tasks'));
+
+CREATE POLICY "Users can delete tasks in their projects"
+ON public.tasks
+FOR DELETE
+USING (public.has_project_permission(project_id, 'delete_tasks'));
+
+-- Budgets can only be changed by those who may see them. Server-side work without
+-- a user (scheduled jobs) is not limited.
+CREATE OR REPLACE FUNCTION public.check_task_budget_permission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.budget IS DISTINCT FROM OLD.budget
+    AND auth.uid() IS NOT NULL
+    AND NOT public.has_project_permission(NEW.project_id, 'view_budget') THEN
+    RAISE EXCEPTION 'Not allowed to change the budget of task %', NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_task_budget_permission ON public.tasks;
+CREATE TRIGGER check_task_budget_permission
+BEFORE UPDATE OF budget ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.check_task_budget_permission();
+
+-- Board columns and statuses
+DROP POLICY IF EXISTS "Users can create columns in their projects" ON public.kanban_columns;
+DROP POLICY IF EXISTS "Users can update columns in their projects" ON public.kanban_columns;
+DROP POLICY IF EXISTS "Users can delete columns in their projects" ON public.kanban_columns;
+
+CREATE POLICY "Users can create columns in their projects"
+ON public.kanban_columns
+FOR INSERT
+WITH CHECK (public.has_project_permission(project_id, 'manage_board'));
+
+CREATE POLICY "Users can update columns in their projects"
+ON public.kanban_columns
+FOR UPDATE
+USING (public.has_project_permission(project_id, 'manage_board'));
+
+CREATE POLICY "Users can delete columns in their projects"
+ON public.kanban_columns
+FOR DELETE
+USING (public.has_project_permission(project_id, 'manage_board'));
+
+DROP POLICY IF EXISTS "Users can insert project statuses for their projects" ON public.project_statuses;
+DROP POLICY IF EXISTS "Users can update project statuses for their projects" ON public.project_statuses;
+DROP POLICY IF EXISTS "Users can delete project statuses for their projects" ON public.project_statuses;
+
+CREATE POLICY "Users can insert project statuses for their projects"
+ON public.project_statuses
+FOR INSERT
+WITH CHECK (public.has_project_permission(project_id, 'manage_board'));
+
+CREATE POLICY "Users can update project statuses for their projects"
+ON public.project_statuses
+FOR UPDATE
+USING (public.has_project_permission(project_id, 'manage_board'));
+
+CREATE POLICY "Users can delete project statuses for their projects"
+ON public.project_statuses
+FOR DELETE
+USING (public.has_project_permission(project_id, 'manage_board'));
+
+-- Members
+DROP POLICY IF EXISTS "Admins can add project members" ON public.project_members;
+DROP POLICY IF EXISTS "Admins can update project members" ON public.project_members;
+DROP POLICY IF EXISTS "Admins can remove project members" ON public.project_members;
+
+CREATE POLICY "Team managers can add project members"
+ON public.project_members
+FOR INSERT
+WITH CHECK (public.has_project_permission(project_id, 'manage_members'));
+
+CREATE POLICY "Team managers can update project members"
+ON public.project_members
+FOR UPDATE
+USING (public.has_project_permission(project_id, 'manage_members'));
+
+CREATE POLICY "Team managers can remove project members"
+ON public.project_members
+FOR DELETE
+USING (public.has_project_permission(project_id, 'manage_members'));
+
+-- Files and task attachments
+DROP POLICY IF EXISTS "Users can upload files to their projects" ON public.project_files;
+DROP POLICY IF EXISTS "Users can delete files from their projects" ON public.project_files;
+
+CREATE POLICY "Users can upload files to their projects"
+ON public.project_files
+FOR INSERT
+WITH CHECK (public.has_project_permission(project_id, 'upload_files'));
+
+CREATE POLICY "Users can delete files from their projects"
+ON public.project_files
+FOR DELETE
+USING (public.has_project_permission(project_id, 'delete_files'));
+
+DROP POLICY IF EXISTS "Users can delete files from their projects" ON storage.objects;
+
+CREATE POLICY "Users can delete files from their projects"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'project-files'
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.project_files pf
+      WHERE pf.file_path = name
+      AND public.has_project_permission(pf.project_id, 'delete_files')
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.task_attachments ta
+      JOIN public.tasks t ON t.id = ta.task_id
+      WHERE ta.file_path = name
+      AND (ta.uploaded_by = auth.uid() OR public.has_project_permission(t.project_id, 'delete_files'))
+    )
+    OR public.is_admin(auth.uid())
+  )
+);
+
+DROP POLICY IF EXISTS "Users can upload attachments to tasks in their projects" ON public.task_attachments;
+DROP POLICY IF EXISTS "Users can delete their own task attachments" ON public.task_attachments;
+
+CREATE POLICY "Users can upload attachments to tasks in their projects"
+ON public.task_attachments
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_attachments.task_id
+    AND public.has_project_permission(tasks.project_id, 'upload_files')
+  )
+  AND auth.uid() = uploaded_by
+);
+
+CREATE POLICY "Users can delete task attachments"
+ON public.task_attachments
+FOR DELETE
+USING (
+  auth.uid() = uploaded_by
+  OR EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE tasks.id = task_attachments.task_id
+    AND public.has_project_permission(tasks.project_id, 'delete_files')
+  )
+);
+
+-- Time logged on behalf of teammates
+CREATE POLICY "Team leads can log time for project members"
+ON public.time_entries
+FOR INSERT
+WITH CHECK (
+  project_id IS NOT NULL
+  AND public.has_project_permission(project_id, 'log_time_for_others')
+  AND EXISTS (
+    SELECT 1 FROM public.project_members
+    WHERE project_members.project_id = time_entries.project_id
+    AND project_members.user_id = time_entries.user_id
+  )
+);
+
+COMMENT ON COLUMN public.projects.role_permissions IS 'Per-role permission overrides: { "<role>": { "<permission>": boolean } }';
+COMMENT ON FUNCTION public.has_project_permission(UUID, TEXT) IS 'Whether the current user holds a permission in the project (admins and the project creator hold all)';
+COMMENT ON FUNCTION public.set_project_role_permissions(UUID, JSONB) IS 'Replace the role permission matrix of a project';
+COMMENT ON FUNCTION public.check_task_budget_permission() IS 'Rejects budget changes by users without view_budget in the project';
@@ -0,0 +1,106 @@
+-- Field-level history of task edits: one row per changed column per update
+CREATE TABLE IF NOT EXISTS public.task_field_history (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    task_id UUID NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    field TEXT NOT NULL,
+    old_value JSONB,
+    new_value JSONB,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    -- Set when the change was made by reverting an earlier history entry
+    reverted_from UUID REFERENCES public.task_field_history(id) ON DELETE SET NULL
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.task_field_history ENABLE ROW LEVEL SECURITY;
+
+-- History is written by the trigger only; members of the project can read it,
+-- budget changes only with view_budget
+CREATE POLICY "Users can view task history from their projects"
+ON public.task_field_history
+FOR SELECT
+USING (
+    (
+        EXISTS (
+            SELECT 1 FROM public.project_members
+            WHERE project_members.project_id = task_field_history.project_id
+            AND project_members.user_id = auth.uid()
+        ) OR is_admin(auth.uid())
+    )
+    AND (field <> 'budget' OR public.has_project_permission(project_id, 'view_budget'))
+);
+
+-- Add indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_task_field_history_task_id ON public.task_field_history(task_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_task_field_history_project_id ON public.task_field_history(project_id);
+
+-- Record every changed column of a task. Bookkeeping columns that change as a side
+-- effect of other edits (board position, derived kanban column, timestamps) are skipped.
+CREATE OR REPLACE FUNCTION public.record_task_field_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  reverted_id UUID := NULLIF(current_setting('app.reverting_task_history_id', true), '')::UUID;
+BEGIN
+  INSERT INTO public.task_field_history (task_id, project_id, field, old_value, new_value, changed_by, reverted_from)
+  SELECT NEW.id, NEW.project_id, changed.key, old_row->changed.key, changed.value, auth.uid(), reverted_id
+  FROM jsonb_each(new_row) AS changed
+  WHERE changed.key NOT IN ('id', 'created_at', 'updated_at', 'kanban_position', 'kanban_column', 'subtask_order')
+    AND changed.value IS DISTINCT FROM old_row->changed.key;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trigger_record_task_field_changes
+  AFTER UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_task_field_changes();
+
+-- Put a field back to the value it had before a recorded change. Runs with the
+-- caller's rights so the usual task update policies apply; the revert itself is
+-- recorded as a new history entry pointing at the one it undid.
+CREATE OR REPLACE FUNCTION public.revert_task_field_change(p_history_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  entry public.task_field_history%ROWTYPE;
+  updated_count INTEGER;
+BEGIN
+  SELECT * INTO entry FROM public.task_field_history WHERE id = p_history_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'History entry % not found', p_history_id;
+  END IF;
+
+  PERFORM set_config('app.reverting_task_history_id', entry.id::TEXT, true);
+
+  EXECUTE format(
+    'UPDATE public.tasks SET %1$I = (SELECT %1$I FROM jsonb_populate_record(NULL::public.tasks, $1)), updated_at = now() WHERE id = $2',
+    entry.field
+  )
+  USING jsonb_build_object(entry.field, entry.old_value), entry.task_id;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  PERFORM set_config('app.reverting_task_history_id', '', true);
+
+  IF updated_count = 0 THEN
+    RAISE EXCEPTION 'Not allowed to edit task %', entry.task_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revert_task_field_change(UUID) TO authenticated;
+
+-- Enable realtime for task_field_history
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_field_history;
+
+COMMENT ON TABLE public.task_field_history IS 'Who changed which task field, when, and from what to what';
+COMMENT ON FUNCTION public.revert_task_field_change(UUID) IS 'Restore the value a task field had before the given history entry';
@@ -0,0 +1,124 @@
+-- Server-side filtering, sorting and cursor pagination for task lists.
+-- Filters arrive as one JSONB object mirroring the Tasks page filters:
+--   project_id, visible_to, include_subtasks, search, status, priority, assignee, tag
+-- Everything runs with the caller's rights, so the usual task policies apply.
+
+-- Whether a task matches a set of list filters
+CREATE OR REPLACE FUNCTION public.task_matches_filters(t public.tasks, p_filters JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    (p_filters->>'project_id' IS NULL OR t.project_id = (p_filters->>'project_id')::UUID)
+    -- Non-admins only list tasks they created or are assigned to
+    AND (
+      p_filters->>'visible_to' IS NULL
+      OR t.created_by = (p_filters->>'visible_to')::UUID
+      OR t.assignee_id = (p_filters->>'visible_to')::UUID
+    )
+    AND (COALESCE((p_filters->>'include_subtasks')::BOOLEAN, false) OR t.is_subtask IS NOT TRUE)
+    AND (
+      COALESCE(p_filters->>'search', '') = ''
+      OR t.title ILIKE '%' || replace(replace(replace(p_filters->>'search', '\', '\\'), '%', '\%'), '_', '\_') || '%'
+      OR t.description ILIKE '%' || replace(replace(replace(p_filters->>'search', '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    )
+    AND (COALESCE(p_filters->>'status', 'all') = 'all' OR t.status = p_filters->>'status')
+    AND (COALESCE(p_filters->>'priority', 'all') = 'all' OR t.priority = p_filters->>'priority')
+    AND (
+      COALESCE(p_filters->>'assignee', 'all') = 'all'
+      OR (p_filters->>'assignee' = 'unassigned' AND t.assignee_id IS NULL)
+      OR t.assignee_id::TEXT = p_filters->>'assignee'
+      -- Filtering on yourself also shows the tasks you created
+      OR (p_filters->>'assignee' = auth.uid()::TEXT AND t.created_by = auth.uid())
+    )
+    AND (
+      COALESCE(p_filters->>'tag', 'all') = 'all'
+      OR EXISTS (
+        SELECT 1
+        FROM public.task_labels tl
+        JOIN public.project_labels pl ON pl.id = tl.label_id
+        WHERE tl.task_id = t.id AND pl.name = p_filters->>'tag'
+      )
+    );
+$$;
+
+-- One page of tasks. Pages are keyed on (sort value, id): pass the sort_key and id
+-- of the last row of a page to get the next one.
+CREATE OR REPLACE FUNCTION public.list_task_page(
+  p_filters JSONB,
+  p_sort_by TEXT DEFAULT 'created_at',
+  p_sort_desc BOOLEAN DEFAULT true,
+  p_cursor_key TEXT DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (task JSONB, sort_key TEXT)
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  sort_expr TEXT;
+  sort_type TEXT;
+BEGIN
+  CASE p_sort_by
+    WHEN 'title' THEN
+      sort_expr := 'lower(t.title)';
+      sort_type := 'TEXT';
+    WHEN 'priority' THEN
+      sort_expr := 'CASE t.priority WHEN ''low'' THEN 1 WHEN ''medium'' THEN 2 WHEN ''high'' THEN 3 WHEN ''critical'' THEN 4 ELSE 0 END';
+      sort_type := 'INTEGER';
+    WHEN 'due_date' THEN
+      -- Tasks without a due date sort as the earliest
+      sort_expr := 'COALESCE(t.due_date, ''-infinity''::DATE)';
+      sort_type := 'DATE';
+    WHEN 'updated_at' THEN
+      sort_expr := 't.updated_at';
+      sort_type := 'TIMESTAMPTZ';
+    ELSE
+      sort_expr := 't.created_at';
+      sort_type := 'TIMESTAMPTZ';
+  END CASE;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT to_jsonb(t), (%1$s)::TEXT
+     FROM public.tasks t
+     WHERE public.task_matches_filters(t, $1)
+       AND ($2 IS NULL OR (%1$s, t.id) %2$s ($2::%3$s, $3))
+     ORDER BY %1$s %4$s, t.id %4$s
+     LIMIT $4',
+    sort_expr,
+    CASE WHEN p_sort_desc THEN '<' ELSE '>' END,
+    sort_type,
+    CASE WHEN p_sort_desc THEN 'DESC' ELSE 'ASC' END
+  )
+  USING p_filters, p_cursor_key, p_cursor_id, LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
+
+-- Number of matching tasks per project and status, for group headers and filter badges
+CREATE OR REPLACE FUNCTION public.count_tasks_by_status(p_filters JSONB)
+RETURNS TABLE (project_id UUID, status TEXT, total BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT t.project_id, t.status, count(*)
+  FROM public.tasks t
+  WHERE public.task_matches_filters(t, p_filters)
+  GROUP BY t.project_id, t.status;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.task_matches_filters(public.tasks, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_task_page(JSONB, TEXT, BOOLEAN, TEXT, UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.count_tasks_by_status(JSONB) TO authenticated;
+
+-- Keyset indexes for the default and most common orderings
+CREATE INDEX IF NOT EXISTS idx_tasks_created_at_id ON public.tasks(created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_project_created_at_id ON public.tasks(project_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_updated_at_id ON public.tasks(updated_at DESC, id DESC);
+
+COMMENT ON FUNCTION public.list_task_page(JSONB, TEXT, BOOLEAN, TEXT, UUID, INTEGER) IS 'Filtered, sorted page of tasks with a keyset cursor';
+COMMENT ON FUNCTION public.count_tasks_by_status(JSONB) IS 'Filtered task counts per project and status';
@@ -0,0 +1,76 @@
+-- One search over tasks, projects, comments, files and people for the command palette.
+-- Runs with the caller's rights, so each kind only returns rows the user can already see.
+
+CREATE OR REPLACE FUNCTION public.search_workspace(p_query TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  title TEXT,
+  subtitle TEXT,
+  project_id UUID,
+  task_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value,
+           LEAST(GREATEST(p_limit, 1), 20) AS max_rows
+  )
+  (
+    SELECT 'task', t.id, t.title, p.name, t.project_id, t.id
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id, pattern
+    WHERE p.is_template IS NOT TRUE
+      AND (t.title ILIKE pattern.value OR t.description ILIKE pattern.value)
+    ORDER BY t.updated_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'project', p.id, p.name, p.description, p.id, NULL::UUID
+    FROM public.projects p, pattern
+    WHERE p.is_template IS NOT TRUE
+      AND (p.name ILIKE pattern.value OR p.description ILIKE pattern.value)
+    ORDER BY p.updated_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'comment', c.id, left(c.comment, 140), t.title, t.project_id, t.id
+    FROM public.task_comments c
+    JOIN public.tasks t ON t.id = c.task_id, pattern
+    WHERE c.comment ILIKE pattern.value
+    ORDER BY c.created_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'file', f.id, f.filename, f.subtitle, f.project_id, f.task_id
+    FROM (
+      SELECT pf.id, pf.filename, p.name AS subtitle, pf.project_id, NULL::UUID AS task_id, pf.created_at
+      FROM public.project_files pf
+      JOIN public.projects p ON p.id = pf.project_id
+      UNION ALL
+      SELECT ta.id, ta.filename, t.title, t.project_id, t.id, ta.created_at
+      FROM public.task_attachments ta
+      JOIN public.tasks t ON t.id = ta.task_id
+    ) f, pattern
+    WHERE f.filename ILIKE pattern.value
+    ORDER BY f.created_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'person', pr.user_id, COALESCE(pr.full_name, pr.display_name, ''), pr.display_name, NULL::UUID, NULL::UUID
+    FROM public.profiles pr, pattern
+    WHERE pr.full_name ILIKE pattern.value OR pr.display_name ILIKE pattern.value
+    ORDER BY pr.full_name
+    LIMIT (SELECT max_rows FROM pattern)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_workspace(TEXT, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.search_workspace(TEXT, INTEGER) IS 'Tasks, projects, comments, files and people matching a search, for the command palette';
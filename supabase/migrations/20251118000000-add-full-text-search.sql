@@ -0,0 +1,279 @@
+-- Full-text search over tasks (title, description, notes), comments and file names.
+-- Text is indexed twice: with the English configuration, which stems words, and with a
+-- Georgian one. Postgres ships no Georgian stemmer, so that configuration only
+-- lowercases and splits words; it also serves prefix matching while typing.
+-- Searches run with the caller's rights, so hits only come from projects the user belongs to.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_ts_config c
+    JOIN pg_namespace n ON n.oid = c.cfgnamespace
+    WHERE n.nspname = 'public' AND c.cfgname = 'georgian'
+  ) THEN
+    CREATE TEXT SEARCH CONFIGURATION public.georgian (COPY = pg_catalog.simple);
+  END IF;
+END;
+$$;
+
+-- Searchable form of a piece of text in both languages
+CREATE OR REPLACE FUNCTION public.search_document(p_text TEXT, p_weight "char" DEFAULT 'D')
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT setweight(pg_catalog.to_tsvector('pg_catalog.english', COALESCE(p_text, '')), p_weight)
+      || setweight(pg_catalog.to_tsvector('public.georgian', COALESCE(p_text, '')), p_weight);
+$$;
+
+-- Title hits rank above description hits, which rank above notes
+CREATE OR REPLACE FUNCTION public.task_search_document(p_title TEXT, p_description TEXT, p_notes TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT public.search_document(p_title, 'A')
+      || public.search_document(p_description, 'B')
+      || public.search_document(p_notes, 'C');
+$$;
+
+-- File names are split on dots, dashes and underscores so "q3-budget_v2.xlsx" finds "budget"
+CREATE OR REPLACE FUNCTION public.file_search_document(p_filename TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT public.search_document(regexp_replace(COALESCE(p_filename, ''), '[._-]+', ' ', 'g'), 'A');
+$$;
+
+-- What the user typed as a query: web-search syntax in both languages ("quoted phrases",
+-- -exclusions, or), plus every word as a prefix so results appear while typing
+CREATE OR REPLACE FUNCTION public.search_query(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT pg_catalog.websearch_to_tsquery('pg_catalog.english', p_query)
+      || pg_catalog.websearch_to_tsquery('public.georgian', p_query)
+      || COALESCE(
+           (
+             SELECT pg_catalog.to_tsquery('public.georgian', string_agg(quote_literal(word) || ':*', ' & '))
+             FROM regexp_split_to_table(lower(trim(p_query)), '[[:space:][:punct:]]+') AS word
+             WHERE word <> ''
+           ),
+           ''::tsquery
+         );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search
+  ON public.tasks USING GIN (public.task_search_document(title, description, notes));
+CREATE INDEX IF NOT EXISTS idx_task_comments_search
+  ON public.task_comments USING GIN (public.search_document(comment));
+CREATE INDEX IF NOT EXISTS idx_project_files_search
+  ON public.project_files USING GIN (public.file_search_document(filename));
+CREATE INDEX IF NOT EXISTS idx_task_attachments_search
+  ON public.task_attachments USING GIN (public.file_search_document(filename));
+
+-- Ranked hits with highlighted snippets. Matches are wrapped in U+0002 / U+0003 rather
+-- than HTML so the client can highlight them without rendering user content as markup.
+CREATE OR REPLACE FUNCTION public.search_full_text(
+  p_query TEXT,
+  p_project_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  task_id UUID,
+  project_id UUID,
+  title TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH q AS (
+    SELECT public.search_query(p_query) AS query,
+           format('StartSel=%s, StopSel=%s, MaxFragments=2, MaxWords=18, MinWords=6', chr(2), chr(3)) AS options
+  ),
+  hits AS (
+    SELECT 'task' AS kind, t.id, t.id AS task_id, t.project_id, t.title,
+           concat_ws(' … ', t.description, t.notes) AS body,
+           ts_rank(public.task_search_document(t.title, t.description, t.notes), q.query) AS rank
+    FROM public.tasks t, q
+    WHERE public.task_search_document(t.title, t.description, t.notes) @@ q.query
+      AND (p_project_id IS NULL OR t.project_id = p_project_id)
+    UNION ALL
+    SELECT 'comment', c.id, t.id, t.project_id, t.title, c.comment,
+           ts_rank(public.search_document(c.comment), q.query)
+    FROM public.task_comments c
+    JOIN public.tasks t ON t.id = c.task_id, q
+    WHERE public.search_document(c.comment) @@ q.query
+      AND (p_project_id IS NULL OR t.project_id = p_project_id)
+    UNION ALL
+    SELECT 'file', pf.id, NULL::UUID, pf.project_id, pf.filename, pf.filename,
+           ts_rank(public.file_search_document(pf.filename), q.query)
+    FROM public.project_files pf, q
+    WHERE public.file_search_document(pf.filename) @@ q.query
+      AND (p_project_id IS NULL OR pf.project_id = p_project_id)
+    UNION ALL
+    SELECT 'file', ta.id, t.id, t.project_id, ta.filename, ta.filename,
+           ts_rank(public.file_search_document(ta.filename), q.query)
+    FROM public.task_attachments ta
+    JOIN public.tasks t ON t.id = ta.task_id, q
+    WHERE public.file_search_document(ta.filename) @@ q.query
+      AND (p_project_id IS NULL OR t.project_id = p_project_id)
+  ),
+  top_hits AS (
+    SELECT * FROM hits
+    ORDER BY rank DESC, id
+    LIMIT LEAST(GREATEST(p_limit, 1), 500)
+  )
+  -- Headlines are costly, so they are only built for the rows returned
+  SELECT h.kind, h.id, h.task_id, h.project_id,
+         ts_headline('public.georgian', h.title, q.query, q.options),
+         CASE WHEN COALESCE(h.body, '') = '' THEN NULL
+              ELSE ts_headline('public.georgian', h.body, q.query, q.options) END,
+         h.rank
+  FROM top_hits h, q
+  ORDER BY h.rank DESC, h.id;
+$$;
+
+-- List filters now match search terms through the index instead of substring scans
+CREATE OR REPLACE FUNCTION public.task_matches_filters(t public.tasks, p_filters JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    (p_filters->>'project_id' IS NULL OR t.project_id = (p_filters->>'project_id')::UUID)
+    -- Non-admins only list tasks they created or are assigned to
+    AND (
+      p_filters->>'visible_to' IS NULL
+      OR t.created_by = (p_filters->>'visible_to')::UUID
+      OR t.assignee_id = (p_filters->>'visible_to')::UUID
+    )
+    AND (COALESCE((p_filters->>'include_subtasks')::BOOLEAN, false) OR t.is_subtask IS NOT TRUE)
+    AND (
+      COALESCE(trim(p_filters->>'search'), '') = ''
+      OR public.task_search_document(t.title, t.description, t.notes) @@ public.search_query(p_filters->>'search')
+      -- A task also matches through its comments and attachments
+      OR EXISTS (
+        SELECT 1 FROM public.task_comments c
+        WHERE c.task_id = t.id
+          AND public.search_document(c.comment) @@ public.search_query(p_filters->>'search')
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.task_attachments ta
+        WHERE ta.task_id = t.id
+          AND public.file_search_document(ta.filename) @@ public.search_query(p_filters->>'search')
+      )
+    )
+    AND (COALESCE(p_filters->>'status', 'all') = 'all' OR t.status = p_filters->>'status')
+    AND (COALESCE(p_filters->>'priority', 'all') = 'all' OR t.priority = p_filters->>'priority')
+    AND (
+      COALESCE(p_filters->>'assignee', 'all') = 'all'
+      OR (p_filters->>'assignee' = 'unassigned' AND t.assignee_id IS NULL)
+      OR t.assignee_id::TEXT = p_filters->>'assignee'
+      -- Filtering on yourself also shows the tasks you created
+      OR (p_filters->>'assignee' = auth.uid()::TEXT AND t.created_by = auth.uid())
+    )
+    AND (
+      COALESCE(p_filters->>'tag', 'all') = 'all'
+      OR EXISTS (
+        SELECT 1
+        FROM public.task_labels tl
+        JOIN public.project_labels pl ON pl.id = tl.label_id
+        WHERE tl.task_id = t.id AND pl.name = p_filters->>'tag'
+      )
+    );
+$$;
+
+-- The command palette ranks tasks, comments and files by relevance too
+CREATE OR REPLACE FUNCTION public.search_workspace(p_query TEXT, p_limit INTEGER DEFAULT 5)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  title TEXT,
+  subtitle TEXT,
+  project_id UUID,
+  task_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(trim(p_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value,
+           public.search_query(p_query) AS query,
+           LEAST(GREATEST(p_limit, 1), 20) AS max_rows
+  )
+  (
+    SELECT 'task', t.id, t.title, p.name, t.project_id, t.id
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id, pattern
+    WHERE p.is_template IS NOT TRUE
+      AND public.task_search_document(t.title, t.description, t.notes) @@ pattern.query
+    ORDER BY ts_rank(public.task_search_document(t.title, t.description, t.notes), pattern.query) DESC, t.updated_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'project', p.id, p.name, p.description, p.id, NULL::UUID
+    FROM public.projects p, pattern
+    WHERE p.is_template IS NOT TRUE
+      AND (p.name ILIKE pattern.value OR p.description ILIKE pattern.value)
+    ORDER BY p.updated_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'comment', c.id, left(c.comment, 140), t.title, t.project_id, t.id
+    FROM public.task_comments c
+    JOIN public.tasks t ON t.id = c.task_id, pattern
+    WHERE public.search_document(c.comment) @@ pattern.query
+    ORDER BY ts_rank(public.search_document(c.comment), pattern.query) DESC, c.created_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'file', f.id, f.filename, f.subtitle, f.project_id, f.task_id
+    FROM (
+      SELECT pf.id, pf.filename, p.name AS subtitle, pf.project_id, NULL::UUID AS task_id, pf.created_at
+      FROM public.project_files pf
+      JOIN public.projects p ON p.id = pf.project_id
+      UNION ALL
+      SELECT ta.id, ta.filename, t.title, t.project_id, t.id, ta.created_at
+      FROM public.task_attachments ta
+      JOIN public.tasks t ON t.id = ta.task_id
+    ) f, pattern
+    WHERE public.file_search_document(f.filename) @@ pattern.query
+    ORDER BY f.created_at DESC
+    LIMIT (SELECT max_rows FROM pattern)
+  )
+  UNION ALL
+  (
+    SELECT 'person', pr.user_id, COALESCE(pr.full_name, pr.display_name, ''), pr.display_name, NULL::UUID, NULL::UUID
+    FROM public.profiles pr, pattern
+    WHERE pr.full_name ILIKE pattern.value OR pr.display_name ILIKE pattern.value
+    ORDER BY pr.full_name
+    LIMIT (SELECT max_rows FROM pattern)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_document(TEXT, "char") TO authenticated;
+GRANT EXECUTE ON FUNCTION public.task_search_document(TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.file_search_document(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_query(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_full_text(TEXT, UUID, INTEGER) TO authenticated;
+
+COMMENT ON TEXT SEARCH CONFIGURATION public.georgian IS 'Georgian text: lowercased words, no stemming';
+COMMENT ON FUNCTION public.search_query(TEXT) IS 'Search box input as a tsquery in English and Georgian, with prefix matching';
+COMMENT ON FUNCTION public.search_full_text(TEXT, UUID, INTEGER) IS 'Ranked task, comment and file hits with highlighted snippets';
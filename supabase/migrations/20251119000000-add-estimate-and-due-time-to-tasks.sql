@@ -0,0 +1,7 @@
+-- Add estimate and due time fields to tasks, filled in by quick-add ("~2h", "tomorrow 5pm")
+ALTER TABLE public.tasks ADD COLUMN estimate NUMERIC(8, 2) DEFAULT NULL CHECK (estimate IS NULL OR estimate > 0);
+ALTER TABLE public.tasks ADD COLUMN due_time TIME DEFAULT NULL;
+
+-- Add comments to explain the columns
+COMMENT ON COLUMN public.tasks.estimate IS 'Estimated effort in hours';
+COMMENT ON COLUMN public.tasks.due_time IS 'Optional time of day the task is due on its due_date';
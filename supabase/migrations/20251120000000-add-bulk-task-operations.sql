@@ -0,0 +1,291 @@
+-- Bulk edits for task lists and the board. Everything runs with the caller's rights,
+-- so tasks the user may not edit or delete are left alone by the usual policies.
+-- Each bulk operation writes one activity entry per project rather than one per task.
+
+-- Whether a status counts as finished, matching isDoneStatus() in the app
+CREATE OR REPLACE FUNCTION public.is_done_status(p_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT lower(regexp_replace(trim(COALESCE(p_status, '')), '\s+', '-', 'g')) IN ('done', 'completed', 'დასრულებული');
+$$;
+
+-- Ids of every task matching a set of list filters, for "select all"
+CREATE OR REPLACE FUNCTION public.list_task_ids(p_filters JSONB, p_limit INTEGER DEFAULT 1000)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT t.id
+  FROM public.tasks t
+  WHERE public.task_matches_filters(t, p_filters)
+  ORDER BY t.created_at DESC, t.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$$;
+
+-- Apply the same changes to many tasks. p_changes may hold status, priority,
+-- assignee_id, due_date and project_id (a null value clears assignee and due date),
+-- plus add_label_ids / remove_label_ids. Tasks moved to another project take their
+-- subtasks along and lose the labels of the old project. Tasks still blocked by
+-- unfinished tasks are not completed.
+--
+-- Returns { previous: [...], blocked: [...] }: the earlier values of every updated
+-- task, which restore_task_snapshot() puts back, and the ids that were skipped.
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(p_task_ids UUID[], p_changes JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  target_ids UUID[];
+  blocked_ids UUID[] := '{}';
+  updated_ids UUID[];
+  previous JSONB;
+  changed_fields TEXT[];
+  new_values public.tasks;
+  entry RECORD;
+BEGIN
+  IF jsonb_typeof(p_changes) <> 'object' THEN
+    RAISE EXCEPTION 'Changes must be an object';
+  END IF;
+
+  new_values := jsonb_populate_record(NULL::public.tasks, p_changes);
+  changed_fields := ARRAY(
+    SELECT key FROM jsonb_object_keys(p_changes) AS key
+    WHERE key IN ('status', 'priority', 'assignee_id', 'due_date', 'project_id', 'add_label_ids', 'remove_label_ids')
+  );
+
+  IF p_changes ? 'status' AND public.is_done_status(new_values.status) THEN
+    blocked_ids := ARRAY(
+      SELECT DISTINCT d.task_id
+      FROM public.task_dependencies d
+      JOIN public.tasks blocker ON blocker.id = d.depends_on_task_id
+      WHERE d.task_id = ANY(p_task_ids)
+        AND NOT public.is_done_status(blocker.status)
+        -- A blocker completed in the same operation no longer blocks
+        AND NOT (blocker.id = ANY(p_task_ids))
+    );
+  END IF;
+
+  target_ids := ARRAY(SELECT unnest(p_task_ids) EXCEPT SELECT unnest(blocked_ids));
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'id', t.id,
+    'status', t.status,
+    'priority', t.priority,
+    'assignee_id', t.assignee_id,
+    'due_date', t.due_date,
+    'project_id', t.project_id,
+    'label_ids', COALESCE((SELECT jsonb_agg(tl.label_id) FROM public.task_labels tl WHERE tl.task_id = t.id), '[]'::jsonb)
+  ))
+  INTO previous
+  FROM public.tasks t
+  WHERE t.id = ANY(target_ids);
+
+  WITH updated AS (
+    UPDATE public.tasks t
+    SET
+      status = CASE WHEN p_changes ? 'status' THEN new_values.status ELSE t.status END,
+      priority = CASE WHEN p_changes ? 'priority' THEN new_values.priority ELSE t.priority END,
+      assignee_id = CASE WHEN p_changes ? 'assignee_id' THEN new_values.assignee_id ELSE t.assignee_id END,
+      due_date = CASE WHEN p_changes ? 'due_date' THEN new_values.due_date ELSE t.due_date END,
+      project_id = CASE WHEN p_changes ? 'project_id' THEN new_values.project_id ELSE t.project_id END,
+      updated_at = now()
+    WHERE t.id = ANY(target_ids)
+    RETURNING t.id
+  )
+  SELECT array_agg(id) INTO updated_ids FROM updated;
+
+  updated_ids := COALESCE(updated_ids, '{}');
+
+  -- Keep only the snapshot of tasks the policies let us change
+  SELECT COALESCE(jsonb_agg(item), '[]'::jsonb)
+  INTO previous
+  FROM jsonb_array_elements(COALESCE(previous, '[]'::jsonb)) AS item
+  WHERE (item->>'id')::UUID = ANY(updated_ids);
+
+  IF p_changes ? 'project_id' THEN
+    UPDATE public.tasks
+    SET project_id = new_values.project_id, updated_at = now()
+    WHERE parent_task_id = ANY(updated_ids) AND project_id IS DISTINCT FROM new_values.project_id;
+
+    DELETE FROM public.task_labels tl
+    USING public.project_labels pl
+    WHERE pl.id = tl.label_id
+      AND tl.task_id = ANY(updated_ids)
+      AND pl.project_id IS DISTINCT FROM new_values.project_id;
+  END IF;
+
+  IF jsonb_typeof(p_changes->'remove_label_ids') = 'array' THEN
+    DELETE FROM public.task_labels
+    WHERE task_id = ANY(updated_ids)
+      AND label_id IN (SELECT value::UUID FROM jsonb_array_elements_text(p_changes->'remove_label_ids'));
+  END IF;
+
+  IF jsonb_typeof(p_changes->'add_label_ids') = 'array' THEN
+    -- Labels belong to a project, so they only go on tasks of that project
+    INSERT INTO public.task_labels (task_id, label_id)
+    SELECT t.id, pl.id
+    FROM public.tasks t
+    JOIN public.project_labels pl ON pl.project_id = t.project_id
+    WHERE t.id = ANY(updated_ids)
+      AND pl.id IN (SELECT value::UUID FROM jsonb_array_elements_text(p_changes->'add_label_ids'))
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  FOR entry IN
+    SELECT project_id, array_agg(id) AS task_ids
+    FROM (
+      SELECT (item->>'project_id')::UUID AS project_id, (item->>'id')::UUID AS id
+      FROM jsonb_array_elements(previous) AS item
+      UNION ALL
+      -- Moved tasks are also logged in the project they arrived in
+      SELECT new_values.project_id, unnest(updated_ids)
+      WHERE p_changes ? 'project_id'
+    ) affected
+    WHERE project_id IS NOT NULL
+    GROUP BY project_id
+  LOOP
+    PERFORM public.log_project_activity(
+      entry.project_id,
+      auth.uid(),
+      'task_updated',
+      format('Bulk updated %s tasks (%s)', array_length(entry.task_ids, 1), array_to_string(changed_fields, ', ')),
+      'task',
+      NULL,
+      jsonb_build_object('bulk', true, 'task_ids', to_jsonb(entry.task_ids), 'changes', p_changes)
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('previous', previous, 'blocked', to_jsonb(blocked_ids));
+END;
+$$;
+
+-- Put back the values saved by bulk_update_tasks(), including labels, to undo it
+CREATE OR REPLACE FUNCTION public.restore_task_snapshot(p_snapshot JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  restored_ids UUID[];
+  entry RECORD;
+BEGIN
+  WITH saved AS (
+    SELECT
+      (item->>'id')::UUID AS id,
+      jsonb_populate_record(NULL::public.tasks, item) AS task
+    FROM jsonb_array_elements(p_snapshot) AS item
+  ),
+  restored AS (
+    UPDATE public.tasks t
+    SET
+      status = (saved.task).status,
+      priority = (saved.task).priority,
+      assignee_id = (saved.task).assignee_id,
+      due_date = (saved.task).due_date,
+      project_id = (saved.task).project_id,
+      updated_at = now()
+    FROM saved
+    WHERE t.id = saved.id
+    RETURNING t.id
+  )
+  SELECT array_agg(id) INTO restored_ids FROM restored;
+
+  restored_ids := COALESCE(restored_ids, '{}');
+
+  -- Subtasks follow their parent back to its project
+  UPDATE public.tasks sub
+  SET project_id = parent.project_id, updated_at = now()
+  FROM public.tasks parent
+  WHERE sub.parent_task_id = parent.id
+    AND parent.id = ANY(restored_ids)
+    AND sub.project_id IS DISTINCT FROM parent.project_id;
+
+  DELETE FROM public.task_labels WHERE task_id = ANY(restored_ids);
+
+  INSERT INTO public.task_labels (task_id, label_id)
+  SELECT (item->>'id')::UUID, label_id::UUID
+  FROM jsonb_array_elements(p_snapshot) AS item,
+       jsonb_array_elements_text(COALESCE(item->'label_ids', '[]'::jsonb)) AS label_id
+  WHERE (item->>'id')::UUID = ANY(restored_ids)
+  ON CONFLICT DO NOTHING;
+
+  FOR entry IN
+    SELECT (item->>'project_id')::UUID AS project_id, array_agg((item->>'id')::UUID) AS task_ids
+    FROM jsonb_array_elements(p_snapshot) AS item
+    WHERE (item->>'id')::UUID = ANY(restored_ids)
+    GROUP BY 1
+  LOOP
+    PERFORM public.log_project_activity(
+      entry.project_id,
+      auth.uid(),
+      'task_updated',
+      format('Undid bulk update of %s tasks', array_length(entry.task_ids, 1)),
+      'task',
+      NULL,
+      jsonb_build_object('bulk', true, 'undo', true, 'task_ids', to_jsonb(entry.task_ids))
+    );
+  END LOOP;
+
+  RETURN COALESCE(array_length(restored_ids, 1), 0);
+END;
+$$;
+
+-- Delete many tasks at once; returns how many were deleted
+CREATE OR REPLACE FUNCTION public.bulk_delete_tasks(p_task_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  deleted JSONB;
+  deleted_count INTEGER := 0;
+  entry RECORD;
+BEGIN
+  WITH removed AS (
+    DELETE FROM public.tasks
+    WHERE id = ANY(p_task_ids)
+    RETURNING id, project_id, title
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(removed)), '[]'::jsonb) INTO deleted FROM removed;
+
+  FOR entry IN
+    SELECT
+      (item->>'project_id')::UUID AS project_id,
+      jsonb_agg(item->'id') AS task_ids,
+      jsonb_agg(item->'title') AS titles,
+      count(*) AS total
+    FROM jsonb_array_elements(deleted) AS item
+    GROUP BY 1
+  LOOP
+    deleted_count := deleted_count + entry.total;
+
+    PERFORM public.log_project_activity(
+      entry.project_id,
+      auth.uid(),
+      'task_deleted',
+      format('Deleted %s tasks', entry.total),
+      'task',
+      NULL,
+      jsonb_build_object('bulk', true, 'task_ids', entry.task_ids, 'titles', entry.titles)
+    );
+  END LOOP;
+
+  RETURN deleted_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_done_status(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_task_ids(JSONB, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.bulk_update_tasks(UUID[], JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_task_snapshot(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.bulk_delete_tasks(UUID[]) TO authenticated;
+
+COMMENT ON FUNCTION public.list_task_ids(JSONB, INTEGER) IS 'Ids of the tasks matching list filters, for selecting them all';
+COMMENT ON FUNCTION public.bulk_update_tasks(UUID[], JSONB) IS 'Apply the same field and label changes to many tasks, returning a snapshot for undo';
+COMMENT ON FUNCTION public.restore_task_snapshot(JSONB) IS 'Undo bulk_update_tasks() from the snapshot it returned';
+COMMENT ON FUNCTION public.bulk_delete_tasks(UUID[]) IS 'Delete many tasks with one activity entry per project';
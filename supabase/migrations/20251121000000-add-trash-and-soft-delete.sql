@@ -0,0 +1,641 @@
+-- Trash for tasks, projects and files. Deleting one now only stamps deleted_at,
+-- which hides the row from the usual select policies; the trash lists such rows and
+-- can restore them. Whatever goes to the trash along with a row (the subtasks of a
+-- task, the tasks and files of a project) gets the same deleted_at, so restoring the
+-- row brings back exactly those. Rows are purged for good once they have been in the
+-- trash longer than the trash_retention_days setting in app_settings.
+--
+-- The trash functions run with definer rights, since trashed rows are invisible to
+-- the caller, and check permissions themselves: tasks need delete_tasks, files need
+-- delete_files and whole projects are admin only.
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.project_files
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON public.tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON public.projects(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_project_files_deleted_at ON public.project_files(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- How long trashed rows are kept, as a key in the app_settings key/value table
+-- from supabase-schema-extensions.sql. Admins change it there.
+INSERT INTO public.app_settings (key, value, description)
+VALUES ('trash_retention_days', '30', 'Days trashed items are kept before they are purged')
+ON CONFLICT (key) DO NOTHING;
+
+-- The retention period in days, 30 when unset and kept within 1-365
+CREATE OR REPLACE FUNCTION public.trash_retention_days()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT LEAST(365, GREATEST(1, COALESCE(
+    (SELECT (value #>> '{}')::INTEGER FROM public.app_settings WHERE key = 'trash_retention_days'),
+    30
+  )));
+$$;
+
+-- Storage objects of purged rows in the project-files bucket, waiting for a client
+-- to remove them. Only the functions below read or write it.
+CREATE TABLE IF NOT EXISTS public.pending_file_removals (
+  file_path TEXT PRIMARY KEY,
+  queued_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pending_file_removals ENABLE ROW LEVEL SECURITY;
+
+-- Hide trashed rows
+DROP POLICY IF EXISTS "Admins can view all projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can view projects they are members of" ON public.projects;
+DROP POLICY IF EXISTS "Users can view tasks from their projects" ON public.tasks;
+DROP POLICY IF EXISTS "Users can view files from their projects" ON public.project_files;
+
+CREATE POLICY "Admins can view all projects"
+ON public.projects
+FOR SELECT
+USING (deleted_at IS NULL AND public.is_admin(auth.uid()));
+
+CREATE POLICY "Users can view projects they are members of"
+ON public.projects
+FOR SELECT
+USING (
+  deleted_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.project_members
+    WHERE project_members.project_id = projects.id
+    AND project_members.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view tasks from their projects"
+ON public.tasks
+FOR SELECT
+USING (
+  deleted_at IS NULL
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.project_members
+      WHERE project_members.project_id = tasks.project_id
+      AND project_members.user_id = auth.uid()
+    )
+    OR public.is_admin(auth.uid())
+  )
+);
+
+CREATE POLICY "Users can view files from their projects"
+ON public.project_files
+FOR SELECT
+USING (
+  deleted_at IS NULL
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.project_members
+      WHERE project_members.project_id = project_files.project_id
+      AND project_members.user_id = auth.uid()
+    )
+    OR public.is_admin(auth.uid())
+  )
+);
+
+-- Whether a storage path belongs to a purged row and may be removed by anyone
+CREATE OR REPLACE FUNCTION public.is_pending_file_removal(p_file_path TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.pending_file_removals WHERE file_path = p_file_path);
+$$;
+
+DROP POLICY IF EXISTS "Users can delete files from their projects" ON storage.objects;
+
+CREATE POLICY "Users can delete files from their projects"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'project-files'
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.project_files pf
+      WHERE pf.file_path = name
+      AND public.has_project_permission(pf.project_id, 'delete_files')
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.task_attachments ta
+      JOIN public.tasks t ON t.id = ta.task_id
+      WHERE ta.file_path = name
+      AND (ta.uploaded_by = auth.uid() OR public.has_project_permission(t.project_id, 'delete_files'))
+    )
+    OR public.is_pending_file_removal(name)
+    OR public.is_admin(auth.uid())
+  )
+);
+
+-- Moving to and from the trash is not a field edit, so it stays out of task history
+CREATE OR REPLACE FUNCTION public.record_task_field_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  reverted_id UUID := NULLIF(current_setting('app.reverting_task_history_id', true), '')::UUID;
+BEGIN
+  INSERT INTO public.task_field_history (task_id, project_id, field, old_value, new_value, changed_by, reverted_from)
+  SELECT NEW.id, NEW.project_id, changed.key, old_row->changed.key, changed.value, auth.uid(), reverted_id
+  FROM jsonb_each(new_row) AS changed
+  WHERE changed.key NOT IN ('id', 'created_at', 'updated_at', 'kanban_position', 'kanban_column', 'subtask_order', 'deleted_at', 'deleted_by')
+    AND changed.value IS DISTINCT FROM old_row->changed.key;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Trashed subtasks no longer count towards their parent's progress
+CREATE OR REPLACE FUNCTION public.calculate_task_progress(task_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  total_subtasks INTEGER;
+  completed_subtasks INTEGER;
+BEGIN
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE status = 'done')
+  INTO total_subtasks, completed_subtasks
+  FROM public.tasks
+  WHERE parent_task_id = task_id AND deleted_at IS NULL;
+
+  IF total_subtasks = 0 THEN
+    RETURN 0;
+  END IF;
+
+  RETURN ROUND((completed_subtasks::FLOAT / total_subtasks::FLOAT) * 100);
+END;
+$$;
+
+-- Trashed recurring tasks stop spawning occurrences
+CREATE OR REPLACE FUNCTION public.spawn_due_recurring_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  due_task RECORD;
+  spawned_count INTEGER := 0;
+BEGIN
+  FOR due_task IN
+    SELECT t.id
+    FROM public.tasks t
+    WHERE t.recurrence IS NOT NULL
+      AND t.parent_task_id IS NULL
+      AND t.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.tasks s WHERE s.recurrence_previous_id = t.id)
+      AND public.next_recurrence_date(
+            t.recurrence,
+            COALESCE(t.due_date, t.start_date, t.created_at::DATE)
+          ) <= CURRENT_DATE
+  LOOP
+    IF public.spawn_next_recurring_task(due_task.id) IS NOT NULL THEN
+      spawned_count := spawned_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN spawned_count;
+END;
+$$;
+
+-- Write one activity entry per project for rows moved to or from the trash.
+-- p_rows holds { id, project_id, title } objects.
+CREATE OR REPLACE FUNCTION public.log_trash_activity(p_entity_type TEXT, p_action TEXT, p_rows JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  entry RECORD;
+  total_count INTEGER := 0;
+BEGIN
+  FOR entry IN
+    SELECT
+      (item->>'project_id')::UUID AS project_id,
+      jsonb_agg(item->'id') AS ids,
+      jsonb_agg(item->'title') AS titles,
+      count(*) AS total
+    FROM jsonb_array_elements(p_rows) AS item
+    GROUP BY 1
+  LOOP
+    total_count := total_count + entry.total;
+
+    PERFORM public.log_project_activity(
+      entry.project_id,
+      auth.uid(),
+      p_entity_type || '_' || p_action,
+      CASE
+        WHEN entry.total = 1 AND p_action = 'deleted' THEN format('Moved %s "%s" to trash', p_entity_type, entry.titles->>0)
+        WHEN entry.total = 1 THEN format('Restored %s "%s" from trash', p_entity_type, entry.titles->>0)
+        WHEN p_action = 'deleted' THEN format('Moved %s %ss to trash', entry.total, p_entity_type)
+        ELSE format('Restored %s %ss from trash', entry.total, p_entity_type)
+      END,
+      p_entity_type,
+      CASE WHEN entry.total = 1 THEN (entry.ids->>0)::UUID END,
+      jsonb_build_object('trash', true, 'ids', entry.ids, 'titles', entry.titles)
+    );
+  END LOOP;
+
+  RETURN total_count;
+END;
+$$;
+
+-- Move tasks, projects or files to the trash. p_entity_type is 'task', 'project' or
+-- 'file'. Rows the caller may not delete are skipped; returns how many were moved.
+CREATE OR REPLACE FUNCTION public.move_to_trash(p_entity_type TEXT, p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  trashed_at TIMESTAMPTZ := now();
+  trashed JSONB;
+BEGIN
+  IF p_entity_type = 'task' THEN
+    WITH moved AS (
+      UPDATE public.tasks t
+      SET deleted_at = trashed_at, deleted_by = auth.uid()
+      WHERE t.id = ANY(p_ids)
+        AND t.deleted_at IS NULL
+        AND public.has_project_permission(t.project_id, 'delete_tasks')
+      RETURNING t.id, t.project_id, t.title
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]'::jsonb) INTO trashed FROM moved;
+
+    -- Subtasks go along with their parent
+    UPDATE public.tasks
+    SET deleted_at = trashed_at, deleted_by = auth.uid()
+    WHERE deleted_at IS NULL
+      AND parent_task_id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(trashed) AS item);
+
+  ELSIF p_entity_type = 'file' THEN
+    WITH moved AS (
+      UPDATE public.project_files f
+      SET deleted_at = trashed_at, deleted_by = auth.uid()
+      WHERE f.id = ANY(p_ids)
+        AND f.deleted_at IS NULL
+        AND public.has_project_permission(f.project_id, 'delete_files')
+      RETURNING f.id, f.project_id, f.filename AS title
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]'::jsonb) INTO trashed FROM moved;
+
+  ELSIF p_entity_type = 'project' THEN
+    IF NOT public.is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins can delete projects';
+    END IF;
+
+    WITH moved AS (
+      UPDATE public.projects p
+      SET deleted_at = trashed_at, deleted_by = auth.uid()
+      WHERE p.id = ANY(p_ids) AND p.deleted_at IS NULL
+      RETURNING p.id, p.id AS project_id, p.name AS title
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]'::jsonb) INTO trashed FROM moved;
+
+    -- The project's tasks and files go along with it
+    UPDATE public.tasks
+    SET deleted_at = trashed_at, deleted_by = auth.uid()
+    WHERE deleted_at IS NULL
+      AND project_id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(trashed) AS item);
+
+    UPDATE public.project_files
+    SET deleted_at = trashed_at, deleted_by = auth.uid()
+    WHERE deleted_at IS NULL
+      AND project_id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(trashed) AS item);
+
+  ELSE
+    RAISE EXCEPTION 'Unknown trash entity type: %', p_entity_type;
+  END IF;
+
+  RETURN public.log_trash_activity(p_entity_type, 'deleted', trashed);
+END;
+$$;
+
+-- Bring rows back from the trash together with everything trashed along with them.
+-- A task or file whose project (or parent task) is still in the trash stays there
+-- until that is restored first. Returns how many rows were restored.
+CREATE OR REPLACE FUNCTION public.restore_from_trash(p_entity_type TEXT, p_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  restored JSONB;
+BEGIN
+  IF p_entity_type = 'task' THEN
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', t.id, 'project_id', t.project_id, 'title', t.title, 'deleted_at', t.deleted_at
+    )), '[]'::jsonb)
+    INTO restored
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id
+    WHERE t.id = ANY(p_ids)
+      AND t.deleted_at IS NOT NULL
+      AND p.deleted_at IS NULL
+      AND public.has_project_permission(t.project_id, 'delete_tasks')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.tasks parent
+        WHERE parent.id = t.parent_task_id
+        AND parent.deleted_at IS NOT NULL
+        AND NOT (parent.id = ANY(p_ids))
+      );
+
+    UPDATE public.tasks t
+    SET deleted_at = NULL, deleted_by = NULL
+    FROM jsonb_array_elements(restored) AS item
+    WHERE t.deleted_at = (item->>'deleted_at')::TIMESTAMPTZ
+      AND (t.id = (item->>'id')::UUID OR t.parent_task_id = (item->>'id')::UUID);
+
+  ELSIF p_entity_type = 'file' THEN
+    WITH brought_back AS (
+      UPDATE public.project_files f
+      SET deleted_at = NULL, deleted_by = NULL
+      FROM public.projects p
+      WHERE p.id = f.project_id
+        AND f.id = ANY(p_ids)
+        AND f.deleted_at IS NOT NULL
+        AND p.deleted_at IS NULL
+        AND public.has_project_permission(f.project_id, 'delete_files')
+      RETURNING f.id, f.project_id, f.filename AS title
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(brought_back)), '[]'::jsonb) INTO restored FROM brought_back;
+
+  ELSIF p_entity_type = 'project' THEN
+    IF NOT public.is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins can restore projects';
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', p.id, 'project_id', p.id, 'title', p.name, 'deleted_at', p.deleted_at
+    )), '[]'::jsonb)
+    INTO restored
+    FROM public.projects p
+    WHERE p.id = ANY(p_ids) AND p.deleted_at IS NOT NULL;
+
+    UPDATE public.tasks t
+    SET deleted_at = NULL, deleted_by = NULL
+    FROM jsonb_array_elements(restored) AS item
+    WHERE t.project_id = (item->>'id')::UUID
+      AND t.deleted_at = (item->>'deleted_at')::TIMESTAMPTZ;
+
+    UPDATE public.project_files f
+    SET deleted_at = NULL, deleted_by = NULL
+    FROM jsonb_array_elements(restored) AS item
+    WHERE f.project_id = (item->>'id')::UUID
+      AND f.deleted_at = (item->>'deleted_at')::TIMESTAMPTZ;
+
+    UPDATE public.projects p
+    SET deleted_at = NULL, deleted_by = NULL
+    WHERE p.id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(restored) AS item);
+
+  ELSE
+    RAISE EXCEPTION 'Unknown trash entity type: %', p_entity_type;
+  END IF;
+
+  RETURN public.log_trash_activity(p_entity_type, 'restored', restored);
+END;
+$$;
+
+-- Trashed items the caller can restore, optionally within one project. Rows that
+-- went to the trash along with their project or parent task are not listed on their
+-- own; item_count says how many came along.
+CREATE OR REPLACE FUNCTION public.list_trash(p_project_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  entity_type TEXT,
+  id UUID,
+  project_id UUID,
+  project_name TEXT,
+  title TEXT,
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID,
+  deleted_by_name TEXT,
+  item_count INTEGER,
+  purge_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH items AS (
+    SELECT
+      'project'::TEXT AS entity_type, p.id, p.id AS project_id, p.name AS project_name, p.name AS title,
+      p.deleted_at, p.deleted_by,
+      (SELECT count(*) FROM public.tasks t WHERE t.project_id = p.id AND t.deleted_at = p.deleted_at)::INTEGER AS item_count
+    FROM public.projects p
+    WHERE p.deleted_at IS NOT NULL
+      AND public.is_admin(auth.uid())
+      AND (p_project_id IS NULL OR p.id = p_project_id)
+
+    UNION ALL
+
+    SELECT
+      'task', t.id, t.project_id, p.name, t.title, t.deleted_at, t.deleted_by,
+      (SELECT count(*) FROM public.tasks s WHERE s.parent_task_id = t.id AND s.deleted_at = t.deleted_at)::INTEGER
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id
+    WHERE t.deleted_at IS NOT NULL
+      AND p.deleted_at IS DISTINCT FROM t.deleted_at
+      AND NOT EXISTS (
+        SELECT 1 FROM public.tasks parent
+        WHERE parent.id = t.parent_task_id AND parent.deleted_at = t.deleted_at
+      )
+      AND public.has_project_permission(t.project_id, 'delete_tasks')
+      AND (p_project_id IS NULL OR t.project_id = p_project_id)
+
+    UNION ALL
+
+    SELECT 'file', f.id, f.project_id, p.name, f.filename, f.deleted_at, f.deleted_by, 0
+    FROM public.project_files f
+    JOIN public.projects p ON p.id = f.project_id
+    WHERE f.deleted_at IS NOT NULL
+      AND p.deleted_at IS DISTINCT FROM f.deleted_at
+      AND public.has_project_permission(f.project_id, 'delete_files')
+      AND (p_project_id IS NULL OR f.project_id = p_project_id)
+  )
+  SELECT
+    items.entity_type, items.id, items.project_id, items.project_name, items.title,
+    items.deleted_at, items.deleted_by,
+    COALESCE(profiles.full_name, profiles.display_name),
+    items.item_count,
+    items.deleted_at + make_interval(days => public.trash_retention_days())
+  FROM items
+  LEFT JOIN public.profiles ON profiles.user_id = items.deleted_by
+  ORDER BY items.deleted_at DESC;
+$$;
+
+-- Delete trashed rows for good and queue the storage objects of their files and
+-- task attachments. Callers check permissions first.
+CREATE OR REPLACE FUNCTION public.purge_trashed_rows(p_project_ids UUID[], p_task_ids UUID[], p_file_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.pending_file_removals (file_path)
+  SELECT ta.file_path
+  FROM public.task_attachments ta
+  JOIN public.tasks t ON t.id = ta.task_id
+  WHERE t.project_id = ANY(p_project_ids)
+    OR t.id = ANY(p_task_ids)
+    OR t.parent_task_id = ANY(p_task_ids)
+  UNION
+  SELECT pf.file_path
+  FROM public.project_files pf
+  WHERE pf.project_id = ANY(p_project_ids)
+    OR pf.id = ANY(p_file_ids)
+  ON CONFLICT (file_path) DO NOTHING;
+
+  DELETE FROM public.projects WHERE id = ANY(p_project_ids);
+  DELETE FROM public.tasks WHERE id = ANY(p_task_ids);
+  DELETE FROM public.project_files WHERE id = ANY(p_file_ids);
+END;
+$$;
+
+-- Queued storage paths that still have an object; entries whose object is already
+-- gone are dropped
+CREATE OR REPLACE FUNCTION public.take_pending_file_removals()
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.pending_file_removals pending
+  WHERE NOT EXISTS (
+    SELECT 1 FROM storage.objects o
+    WHERE o.bucket_id = 'project-files' AND o.name = pending.file_path
+  );
+
+  RETURN QUERY
+  SELECT pending.file_path
+  FROM public.pending_file_removals pending
+  ORDER BY pending.queued_at
+  LIMIT 1000;
+END;
+$$;
+
+-- Permanently delete trashed rows the caller could restore. Returns the storage
+-- paths the client should remove from the project-files bucket.
+CREATE OR REPLACE FUNCTION public.purge_from_trash(p_entity_type TEXT, p_ids UUID[])
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_entity_type = 'task' THEN
+    PERFORM public.purge_trashed_rows('{}', ARRAY(
+      SELECT t.id FROM public.tasks t
+      WHERE t.id = ANY(p_ids)
+        AND t.deleted_at IS NOT NULL
+        AND public.has_project_permission(t.project_id, 'delete_tasks')
+    ), '{}');
+
+  ELSIF p_entity_type = 'file' THEN
+    PERFORM public.purge_trashed_rows('{}', '{}', ARRAY(
+      SELECT f.id FROM public.project_files f
+      WHERE f.id = ANY(p_ids)
+        AND f.deleted_at IS NOT NULL
+        AND public.has_project_permission(f.project_id, 'delete_files')
+    ));
+
+  ELSIF p_entity_type = 'project' THEN
+    IF NOT public.is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins can purge projects';
+    END IF;
+
+    PERFORM public.purge_trashed_rows(ARRAY(
+      SELECT p.id FROM public.projects p
+      WHERE p.id = ANY(p_ids) AND p.deleted_at IS NOT NULL
+    ), '{}', '{}');
+
+  ELSE
+    RAISE EXCEPTION 'Unknown trash entity type: %', p_entity_type;
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.take_pending_file_removals();
+END;
+$$;
+
+-- Purge everything that has been in the trash longer than the retention period.
+-- Safe for any signed-in user to call; the app does so when trash or task lists open.
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS SETOF TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  cutoff TIMESTAMPTZ;
+BEGIN
+  cutoff := now() - make_interval(days => public.trash_retention_days());
+
+  PERFORM public.purge_trashed_rows(
+    ARRAY(SELECT id FROM public.projects WHERE deleted_at < cutoff),
+    ARRAY(SELECT id FROM public.tasks WHERE deleted_at < cutoff),
+    ARRAY(SELECT id FROM public.project_files WHERE deleted_at < cutoff)
+  );
+
+  RETURN QUERY SELECT * FROM public.take_pending_file_removals();
+END;
+$$;
+
+-- Bulk delete from task lists now goes to the trash
+CREATE OR REPLACE FUNCTION public.bulk_delete_tasks(p_task_ids UUID[])
+RETURNS INTEGER
+LANGUAGE sql
+SET search_path = ''
+AS $$
+  SELECT public.move_to_trash('task', p_task_ids);
+$$;
+
+-- The internal helpers skip permission checks, so they are not callable directly
+REVOKE EXECUTE ON FUNCTION public.log_trash_activity(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.purge_trashed_rows(UUID[], UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.take_pending_file_removals() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.is_pending_file_removal(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.move_to_trash(TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.restore_from_trash(TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_trash(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_from_trash(TEXT, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_expired_trash() TO authenticated;
+
+COMMENT ON COLUMN public.tasks.deleted_at IS 'When the task was moved to the trash; rows trashed together share the timestamp';
+COMMENT ON COLUMN public.projects.deleted_at IS 'When the project was moved to the trash; its tasks and files share the timestamp';
+COMMENT ON COLUMN public.project_files.deleted_at IS 'When the file was moved to the trash';
+COMMENT ON FUNCTION public.trash_retention_days() IS 'Days trashed rows are kept, from the trash_retention_days app setting';
+COMMENT ON TABLE public.pending_file_removals IS 'Storage paths of purged files still to be removed from the project-files bucket';
+COMMENT ON FUNCTION public.move_to_trash(TEXT, UUID[]) IS 'Soft-delete tasks, projects or files together with their children';
+COMMENT ON FUNCTION public.restore_from_trash(TEXT, UUID[]) IS 'Restore trashed rows together with everything trashed along with them';
+COMMENT ON FUNCTION public.list_trash(UUID) IS 'Trashed items the caller can restore, with their purge date';
+COMMENT ON FUNCTION public.purge_from_trash(TEXT, UUID[]) IS 'Permanently delete trashed rows, returning storage paths to remove';
+COMMENT ON FUNCTION public.purge_expired_trash() IS 'Permanently delete rows past the trash retention period, returning storage paths to remove';
+COMMENT ON FUNCTION public.bulk_delete_tasks(UUID[]) IS 'Move many tasks to the trash with one activity entry per project';
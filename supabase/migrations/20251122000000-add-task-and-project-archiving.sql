@@ -0,0 +1,397 @@
+-- Archiving for finished tasks and closed projects. An archived task stays where it
+-- is but drops out of boards and task lists unless they ask for archived tasks; done
+-- tasks can also be archived automatically once they have been done for the number
+-- of days set on their project. An archived project is read-only for everyone,
+-- admins included, and hidden from the default project and task lists; its tasks,
+-- time entries and reports stay readable.
+--
+-- Like the trash, archiving a task takes its subtasks along with the same
+-- archived_at, so unarchiving it brings back exactly those.
+
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS archived_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+ALTER TABLE public.projects
+  ADD COLUMN IF NOT EXISTS archived_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS archived_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS auto_archive_days INTEGER CHECK (auto_archive_days BETWEEN 1 AND 365);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_archived_at ON public.tasks(archived_at) WHERE archived_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_completed_at ON public.tasks(completed_at) WHERE archived_at IS NULL AND completed_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_projects_archived_at ON public.projects(archived_at) WHERE archived_at IS NOT NULL;
+
+-- Tasks finished before completed_at existed count from their last update
+UPDATE public.tasks
+SET completed_at = updated_at
+WHERE completed_at IS NULL AND public.is_done_status(status);
+
+-- The old "archived" project status becomes a real archive
+UPDATE public.projects
+SET archived_at = updated_at, status = 'completed'
+WHERE status = 'archived' AND archived_at IS NULL;
+
+-- Stamp when a task was finished, for auto-archiving
+CREATE OR REPLACE FUNCTION public.set_task_completed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.is_done_status(NEW.status) THEN
+    NEW.completed_at := NULL;
+  ELSIF TG_OP = 'INSERT' OR NOT public.is_done_status(OLD.status) THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_task_completed_at ON public.tasks;
+CREATE TRIGGER set_task_completed_at
+BEFORE INSERT OR UPDATE OF status ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.set_task_completed_at();
+
+-- Archiving is not a field edit worth showing in a task's history
+CREATE OR REPLACE FUNCTION public.record_task_field_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  reverted_id UUID := NULLIF(current_setting('app.reverting_task_history_id', true), '')::UUID;
+BEGIN
+  INSERT INTO public.task_field_history (task_id, project_id, field, old_value, new_value, changed_by, reverted_from)
+  SELECT NEW.id, NEW.project_id, changed.key, old_row->changed.key, changed.value, auth.uid(), reverted_id
+  FROM jsonb_each(new_row) AS changed
+  WHERE changed.key NOT IN (
+      'id', 'created_at', 'updated_at', 'kanban_position', 'kanban_column', 'subtask_order',
+      'deleted_at', 'deleted_by', 'archived_at', 'archived_by', 'completed_at'
+    )
+    AND changed.value IS DISTINCT FROM old_row->changed.key;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Archived projects are read-only: every permission but viewing the budget is
+-- withdrawn, which the task, board and file policies already enforce
+CREATE OR REPLACE FUNCTION public.get_effective_project_permissions(p_project_id UUID, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  defaults JSONB := public.default_project_role_permissions();
+  project_creator UUID;
+  project_matrix JSONB;
+  project_archived_at TIMESTAMPTZ;
+  member_role TEXT;
+  member_overrides JSONB;
+  effective JSONB;
+BEGIN
+  SELECT created_by, role_permissions, archived_at INTO project_creator, project_matrix, project_archived_at
+  FROM public.projects
+  WHERE id = p_project_id;
+
+  IF NOT FOUND THEN
+    RETURN '{}'::jsonb;
+  END IF;
+
+  IF public.is_admin(p_user_id) OR project_creator = p_user_id THEN
+    SELECT jsonb_object_agg(key, true) INTO effective
+    FROM jsonb_object_keys(defaults->'manager') AS key;
+  ELSE
+    SELECT role, permissions INTO member_role, member_overrides
+    FROM public.project_members
+    WHERE project_id = p_project_id AND user_id = p_user_id;
+
+    IF NOT FOUND THEN
+      RETURN '{}'::jsonb;
+    END IF;
+
+    member_role := COALESCE(member_role, 'member');
+
+    effective := COALESCE(defaults->member_role, defaults->'member')
+      || COALESCE(project_matrix->member_role, '{}'::jsonb)
+      || CASE WHEN jsonb_typeof(member_overrides) = 'object' THEN member_overrides ELSE '{}'::jsonb END;
+  END IF;
+
+  IF project_archived_at IS NOT NULL THEN
+    SELECT COALESCE(jsonb_object_agg(key, CASE WHEN key = 'view_budget' THEN value ELSE 'false'::jsonb END), '{}'::jsonb)
+    INTO effective
+    FROM jsonb_each(effective);
+  END IF;
+
+  RETURN effective;
+END;
+$$;
+
+-- Task lists leave out archived tasks, and the tasks of archived projects when not
+-- scoped to one project. The "archived" filter is 'hide' (default), 'only' or 'all'.
+CREATE OR REPLACE FUNCTION public.task_matches_filters(t public.tasks, p_filters JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    (p_filters->>'project_id' IS NULL OR t.project_id = (p_filters->>'project_id')::UUID)
+    -- Non-admins only list tasks they created or are assigned to
+    AND (
+      p_filters->>'visible_to' IS NULL
+      OR t.created_by = (p_filters->>'visible_to')::UUID
+      OR t.assignee_id = (p_filters->>'visible_to')::UUID
+    )
+    AND (COALESCE((p_filters->>'include_subtasks')::BOOLEAN, false) OR t.is_subtask IS NOT TRUE)
+    AND CASE COALESCE(p_filters->>'archived', 'hide')
+      WHEN 'all' THEN true
+      WHEN 'only' THEN t.archived_at IS NOT NULL
+      ELSE t.archived_at IS NULL
+        AND (
+          p_filters->>'project_id' IS NOT NULL
+          OR NOT EXISTS (
+            SELECT 1 FROM public.projects p
+            WHERE p.id = t.project_id AND p.archived_at IS NOT NULL
+          )
+        )
+    END
+    AND (
+      COALESCE(trim(p_filters->>'search'), '') = ''
+      OR public.task_search_document(t.title, t.description, t.notes) @@ public.search_query(p_filters->>'search')
+      -- A task also matches through its comments and attachments
+      OR EXISTS (
+        SELECT 1 FROM public.task_comments c
+        WHERE c.task_id = t.id
+          AND public.search_document(c.comment) @@ public.search_query(p_filters->>'search')
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.task_attachments ta
+        WHERE ta.task_id = t.id
+          AND public.file_search_document(ta.filename) @@ public.search_query(p_filters->>'search')
+      )
+    )
+    AND (COALESCE(p_filters->>'status', 'all') = 'all' OR t.status = p_filters->>'status')
+    AND (COALESCE(p_filters->>'priority', 'all') = 'all' OR t.priority = p_filters->>'priority')
+    AND (
+      COALESCE(p_filters->>'assignee', 'all') = 'all'
+      OR (p_filters->>'assignee' = 'unassigned' AND t.assignee_id IS NULL)
+      OR t.assignee_id::TEXT = p_filters->>'assignee'
+      -- Filtering on yourself also shows the tasks you created
+      OR (p_filters->>'assignee' = auth.uid()::TEXT AND t.created_by = auth.uid())
+    )
+    AND (
+      COALESCE(p_filters->>'tag', 'all') = 'all'
+      OR EXISTS (
+        SELECT 1
+        FROM public.task_labels tl
+        JOIN public.project_labels pl ON pl.id = tl.label_id
+        WHERE tl.task_id = t.id AND pl.name = p_filters->>'tag'
+      )
+    );
+$$;
+
+-- One activity entry per project for a batch of archived or unarchived tasks
+CREATE OR REPLACE FUNCTION public.log_archive_activity(p_action TEXT, p_rows JSONB, p_automatic BOOLEAN DEFAULT false)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  entry RECORD;
+  total_count INTEGER := 0;
+BEGIN
+  FOR entry IN
+    SELECT
+      (item->>'project_id')::UUID AS project_id,
+      jsonb_agg(item->'id') AS ids,
+      jsonb_agg(item->'title') AS titles,
+      count(*) AS total
+    FROM jsonb_array_elements(p_rows) AS item
+    GROUP BY 1
+  LOOP
+    total_count := total_count + entry.total;
+
+    PERFORM public.log_project_activity(
+      entry.project_id,
+      auth.uid(),
+      'task_' || p_action,
+      CASE
+        WHEN p_automatic THEN format('Automatically archived %s done tasks', entry.total)
+        WHEN entry.total = 1 AND p_action = 'archived' THEN format('Archived task "%s"', entry.titles->>0)
+        WHEN entry.total = 1 THEN format('Unarchived task "%s"', entry.titles->>0)
+        WHEN p_action = 'archived' THEN format('Archived %s tasks', entry.total)
+        ELSE format('Unarchived %s tasks', entry.total)
+      END,
+      'task',
+      CASE WHEN entry.total = 1 THEN (entry.ids->>0)::UUID END,
+      jsonb_build_object('automatic', p_automatic, 'ids', entry.ids, 'titles', entry.titles)
+    );
+  END LOOP;
+
+  RETURN total_count;
+END;
+$$;
+
+-- Archive or unarchive tasks together with their subtasks. Tasks the caller may not
+-- edit are skipped; returns how many were changed.
+CREATE OR REPLACE FUNCTION public.set_tasks_archived(p_task_ids UUID[], p_archived BOOLEAN)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  stamp TIMESTAMPTZ := now();
+  changed JSONB;
+BEGIN
+  IF p_archived THEN
+    WITH moved AS (
+      UPDATE public.tasks t
+      SET archived_at = stamp, archived_by = auth.uid()
+      WHERE t.id = ANY(p_task_ids)
+        AND t.archived_at IS NULL
+        AND t.deleted_at IS NULL
+        AND public.has_project_permission(t.project_id, 'edit_tasks')
+      RETURNING t.id, t.project_id, t.title
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]'::jsonb) INTO changed FROM moved;
+
+    UPDATE public.tasks
+    SET archived_at = stamp, archived_by = auth.uid()
+    WHERE archived_at IS NULL
+      AND parent_task_id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(changed) AS item);
+  ELSE
+    WITH targets AS (
+      SELECT t.id, t.archived_at
+      FROM public.tasks t
+      WHERE t.id = ANY(p_task_ids)
+        AND t.archived_at IS NOT NULL
+        AND t.deleted_at IS NULL
+        AND public.has_project_permission(t.project_id, 'edit_tasks')
+    ), moved AS (
+      UPDATE public.tasks t
+      SET archived_at = NULL, archived_by = NULL,
+        -- Restart the clock so auto-archiving does not take it straight back
+        completed_at = CASE WHEN t.completed_at IS NOT NULL THEN stamp END
+      FROM targets
+      WHERE t.id = targets.id
+      RETURNING t.id, t.project_id, t.title
+    ), subtasks AS (
+      -- Subtasks archived along with their parent come back with it
+      UPDATE public.tasks s
+      SET archived_at = NULL, archived_by = NULL
+      FROM targets
+      WHERE s.parent_task_id = targets.id
+        AND s.archived_at = targets.archived_at
+    )
+    SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]'::jsonb) INTO changed FROM moved;
+  END IF;
+
+  RETURN public.log_archive_activity(CASE WHEN p_archived THEN 'archived' ELSE 'unarchived' END, changed);
+END;
+$$;
+
+-- Archive done tasks that have been done longer than their project's
+-- auto_archive_days. There is no scheduler, so task lists call this when they open.
+CREATE OR REPLACE FUNCTION public.archive_done_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  stamp TIMESTAMPTZ := now();
+  changed JSONB;
+BEGIN
+  WITH moved AS (
+    UPDATE public.tasks t
+    SET archived_at = stamp, archived_by = NULL
+    FROM public.projects p
+    WHERE p.id = t.project_id
+      AND p.auto_archive_days IS NOT NULL
+      AND p.archived_at IS NULL
+      AND p.deleted_at IS NULL
+      AND t.archived_at IS NULL
+      AND t.deleted_at IS NULL
+      AND t.parent_task_id IS NULL
+      AND t.completed_at < stamp - make_interval(days => p.auto_archive_days)
+      AND public.is_done_status(t.status)
+    RETURNING t.id, t.project_id, t.title
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(moved)), '[]'::jsonb) INTO changed FROM moved;
+
+  UPDATE public.tasks
+  SET archived_at = stamp
+  WHERE archived_at IS NULL
+    AND parent_task_id IN (SELECT (item->>'id')::UUID FROM jsonb_array_elements(changed) AS item);
+
+  RETURN public.log_archive_activity('archived', changed, true);
+END;
+$$;
+
+-- Archive or unarchive a whole project; allowed for admins and the project's creator
+CREATE OR REPLACE FUNCTION public.set_project_archived(p_project_id UUID, p_archived BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  project_name TEXT;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) AND NOT EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE id = p_project_id AND created_by = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to archive project %', p_project_id;
+  END IF;
+
+  UPDATE public.projects
+  SET archived_at = CASE WHEN p_archived THEN now() END,
+    archived_by = CASE WHEN p_archived THEN auth.uid() END
+  WHERE id = p_project_id
+    AND deleted_at IS NULL
+    AND (archived_at IS NOT NULL) <> p_archived
+  RETURNING name INTO project_name;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.log_project_activity(
+    p_project_id,
+    auth.uid(),
+    CASE WHEN p_archived THEN 'project_archived' ELSE 'project_unarchived' END,
+    format(CASE WHEN p_archived THEN 'Archived project "%s"' ELSE 'Unarchived project "%s"' END, project_name),
+    'project',
+    p_project_id,
+    '{}'::jsonb
+  );
+END;
+$$;
+
+-- The internal helper skips permission checks, so it is not callable directly
+REVOKE EXECUTE ON FUNCTION public.log_archive_activity(TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.set_tasks_archived(UUID[], BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.archive_done_tasks() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_project_archived(UUID, BOOLEAN) TO authenticated;
+
+COMMENT ON COLUMN public.tasks.archived_at IS 'When the task was archived; subtasks archived with it share the timestamp';
+COMMENT ON COLUMN public.tasks.archived_by IS 'Who archived the task; null when it was archived automatically';
+COMMENT ON COLUMN public.tasks.completed_at IS 'When the task last entered a done status';
+COMMENT ON COLUMN public.projects.archived_at IS 'When the project was archived; archived projects are read-only';
+COMMENT ON COLUMN public.projects.auto_archive_days IS 'Archive done tasks after this many days; null turns auto-archiving off';
+COMMENT ON FUNCTION public.set_tasks_archived(UUID[], BOOLEAN) IS 'Archive or unarchive tasks together with their subtasks';
+COMMENT ON FUNCTION public.archive_done_tasks() IS 'Archive done tasks past their project''s auto-archive period';
+COMMENT ON FUNCTION public.set_project_archived(UUID, BOOLEAN) IS 'Archive or unarchive a project, making it read-only';
@@ -0,0 +1,463 @@
+-- Weekly timesheets. Each user submits their logged time per project and week
+-- (Monday to Sunday); members holding approve_timesheets review it. Submitted and
+-- approved weeks are locked: their time entries can no longer be added, changed or
+-- removed. A submitted sheet is unlocked again by withdrawing or rejecting it; an
+-- approved one stays locked.
+
+-- Reviewing timesheets is a project permission, granted to managers by default
+CREATE OR REPLACE FUNCTION public.default_project_role_permissions()
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT '{
+    "manager": {
+      "create_tasks": true, "edit_tasks": true, "delete_tasks": true, "manage_board": true,
+      "manage_members": true, "upload_files": true, "delete_files": true, "view_budget": true,
+      "log_time_for_others": true, "approve_timesheets": true
+    },
+    "member": {
+      "create_tasks": true, "edit_tasks": true, "delete_tasks": false, "manage_board": false,
+      "manage_members": false, "upload_files": true, "delete_files": false, "view_budget": true,
+      "log_time_for_others": false, "approve_timesheets": false
+    },
+    "viewer": {
+      "create_tasks": false, "edit_tasks": false, "delete_tasks": false, "manage_board": false,
+      "manage_members": false, "upload_files": false, "delete_files": false, "view_budget": false,
+      "log_time_for_others": false, "approve_timesheets": false
+    }
+  }'::jsonb;
+$$;
+
+-- Time logged on a task belongs to the task's project, so timesheets can group by project
+CREATE OR REPLACE FUNCTION public.set_time_entry_project()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.project_id IS NULL AND NEW.task_id IS NOT NULL THEN
+    SELECT project_id INTO NEW.project_id
+    FROM public.tasks
+    WHERE id = NEW.task_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_time_entry_project ON public.time_entries;
+CREATE TRIGGER set_time_entry_project
+BEFORE INSERT OR UPDATE OF task_id, project_id ON public.time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.set_time_entry_project();
+
+UPDATE public.time_entries e
+SET project_id = t.project_id
+FROM public.tasks t
+WHERE t.id = e.task_id AND e.project_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.timesheets (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    -- Monday of the week, in the submitter's time zone
+    week_start DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+    -- IANA zone the week was submitted in; decides which day an entry falls on
+    time_zone TEXT NOT NULL DEFAULT 'UTC',
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected')),
+    submitted_at TIMESTAMP WITH TIME ZONE,
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    review_comment TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT unique_timesheet_week UNIQUE (user_id, project_id, week_start)
+);
+
+ALTER TABLE public.timesheets ENABLE ROW LEVEL SECURITY;
+
+-- Sheets change only through the functions below
+CREATE POLICY "Users can view their own and reviewable timesheets"
+ON public.timesheets
+FOR SELECT
+USING (
+    user_id = auth.uid()
+    OR public.has_project_permission(project_id, 'approve_timesheets')
+    OR public.is_admin(auth.uid())
+);
+
+CREATE INDEX IF NOT EXISTS idx_timesheets_project_id_status ON public.timesheets(project_id, status);
+
+CREATE TRIGGER update_timesheets_updated_at
+    BEFORE UPDATE ON public.timesheets
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether time a user logged in a project at a given moment falls in a submitted or
+-- approved week. The time_entries policies call it for the caller's own entries or
+-- those they may log for others; anyone else is told nothing about another user's weeks.
+CREATE OR REPLACE FUNCTION public.is_time_entry_locked(p_user_id UUID, p_project_id UUID, p_started_at TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT p_project_id IS NOT NULL AND p_started_at IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.timesheets s
+    WHERE s.user_id = p_user_id
+      AND s.project_id = p_project_id
+      AND s.status IN ('submitted', 'approved')
+      AND (p_started_at AT TIME ZONE s.time_zone)::DATE BETWEEN s.week_start AND s.week_start + 6
+  ) AND (
+    p_user_id = auth.uid()
+    OR public.is_admin(auth.uid())
+    OR public.has_project_permission(p_project_id, 'log_time_for_others')
+    OR public.has_project_permission(p_project_id, 'approve_timesheets')
+  );
+$$;
+
+-- Restrictive, so they apply on top of whatever lets a user manage their entries.
+-- Cascading deletes and the definer functions are not subject to them.
+DROP POLICY IF EXISTS "Locked timesheet weeks cannot gain entries" ON public.time_entries;
+DROP POLICY IF EXISTS "Locked timesheet weeks cannot be edited" ON public.time_entries;
+DROP POLICY IF EXISTS "Locked timesheet weeks cannot lose entries" ON public.time_entries;
+
+CREATE POLICY "Locked timesheet weeks cannot gain entries"
+ON public.time_entries
+AS RESTRICTIVE
+FOR INSERT
+WITH CHECK (NOT public.is_time_entry_locked(user_id, project_id, started_at));
+
+CREATE POLICY "Locked timesheet weeks cannot be edited"
+ON public.time_entries
+AS RESTRICTIVE
+FOR UPDATE
+USING (NOT public.is_time_entry_locked(user_id, project_id, started_at))
+WITH CHECK (NOT public.is_time_entry_locked(user_id, project_id, started_at));
+
+CREATE POLICY "Locked timesheet weeks cannot lose entries"
+ON public.time_entries
+AS RESTRICTIVE
+FOR DELETE
+USING (NOT public.is_time_entry_locked(user_id, project_id, started_at));
+
+-- Per task and day totals of a user's finished entries in a week. Users see all of
+-- their own time; reviewers only the projects they can approve.
+CREATE OR REPLACE FUNCTION public.get_timesheet_rows(p_user_id UUID, p_week_start DATE, p_time_zone TEXT)
+RETURNS TABLE (
+  project_id UUID,
+  project_name TEXT,
+  task_id UUID,
+  task_title TEXT,
+  work_date DATE,
+  seconds BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    e.project_id, p.name, e.task_id, t.title,
+    (e.started_at AT TIME ZONE p_time_zone)::DATE,
+    sum(e.duration)::BIGINT
+  FROM public.time_entries e
+  LEFT JOIN public.projects p ON p.id = e.project_id
+  LEFT JOIN public.tasks t ON t.id = e.task_id
+  WHERE e.user_id = p_user_id
+    AND e.is_running IS NOT TRUE
+    AND e.started_at >= p_week_start::TIMESTAMP AT TIME ZONE p_time_zone
+    AND e.started_at < (p_week_start + 7)::TIMESTAMP AT TIME ZONE p_time_zone
+    AND (p_user_id = auth.uid() OR public.has_project_permission(e.project_id, 'approve_timesheets'))
+  GROUP BY 1, 2, 3, 4, 5
+  ORDER BY p.name NULLS LAST, t.title NULLS FIRST, 5;
+$$;
+
+-- Set the caller's total for a task (or the project itself) on one day. More time
+-- is added as a new entry; less trims the latest entries of that day first.
+CREATE OR REPLACE FUNCTION public.set_timesheet_hours(
+  p_date DATE,
+  p_seconds INTEGER,
+  p_time_zone TEXT,
+  p_project_id UUID DEFAULT NULL,
+  p_task_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  me UUID := auth.uid();
+  day_start TIMESTAMPTZ := p_date::TIMESTAMP AT TIME ZONE p_time_zone;
+  day_end TIMESTAMPTZ := (p_date + 1)::TIMESTAMP AT TIME ZONE p_time_zone;
+  -- New entries start at midday so they stay on the same day in nearby zones
+  entry_start TIMESTAMPTZ := (p_date + TIME '12:00')::TIMESTAMP AT TIME ZONE p_time_zone;
+  logged INTEGER;
+  excess INTEGER;
+  entry RECORD;
+BEGIN
+  IF p_seconds < 0 OR p_seconds > 86400 THEN
+    RAISE EXCEPTION 'A day holds between 0 and 24 hours';
+  END IF;
+
+  IF public.is_time_entry_locked(me, p_project_id, entry_start) THEN
+    RAISE EXCEPTION 'Timesheet week of % is locked', p_date;
+  END IF;
+
+  SELECT COALESCE(sum(duration), 0) INTO logged
+  FROM public.time_entries
+  WHERE user_id = me
+    AND project_id IS NOT DISTINCT FROM p_project_id
+    AND task_id IS NOT DISTINCT FROM p_task_id
+    AND is_running IS NOT TRUE
+    AND started_at >= day_start AND started_at < day_end;
+
+  IF p_seconds > logged THEN
+    INSERT INTO public.time_entries (user_id, project_id, task_id, description, started_at, ended_at, duration, is_running)
+    VALUES (
+      me, p_project_id, p_task_id, 'Timesheet', entry_start,
+      entry_start + make_interval(secs => p_seconds - logged), p_seconds - logged, false
+    );
+    RETURN;
+  END IF;
+
+  excess := logged - p_seconds;
+
+  FOR entry IN
+    SELECT id, started_at, duration
+    FROM public.time_entries
+    WHERE user_id = me
+      AND project_id IS NOT DISTINCT FROM p_project_id
+      AND task_id IS NOT DISTINCT FROM p_task_id
+      AND is_running IS NOT TRUE
+      AND started_at >= day_start AND started_at < day_end
+    ORDER BY started_at DESC
+  LOOP
+    EXIT WHEN excess <= 0;
+
+    IF entry.duration <= excess THEN
+      DELETE FROM public.time_entries WHERE id = entry.id;
+      excess := excess - entry.duration;
+    ELSE
+      UPDATE public.time_entries
+      SET duration = entry.duration - excess,
+          ended_at = entry.started_at + make_interval(secs => entry.duration - excess)
+      WHERE id = entry.id;
+      excess := 0;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Submit the caller's week for review, one sheet per project with logged time.
+-- Weeks already submitted or approved, and archived projects, are left alone.
+CREATE OR REPLACE FUNCTION public.submit_timesheet(p_week_start DATE, p_time_zone TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  me UUID := auth.uid();
+  week_from TIMESTAMPTZ := p_week_start::TIMESTAMP AT TIME ZONE p_time_zone;
+  week_to TIMESTAMPTZ := (p_week_start + 7)::TIMESTAMP AT TIME ZONE p_time_zone;
+  sheet RECORD;
+  total_count INTEGER := 0;
+BEGIN
+  IF EXTRACT(ISODOW FROM p_week_start) <> 1 THEN
+    RAISE EXCEPTION 'Timesheet weeks start on Monday';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.time_entries
+    WHERE user_id = me AND is_running = true AND project_id IS NOT NULL
+      AND started_at >= week_from AND started_at < week_to
+  ) THEN
+    RAISE EXCEPTION 'Stop the running timer before submitting the week';
+  END IF;
+
+  FOR sheet IN
+    INSERT INTO public.timesheets AS s (user_id, project_id, week_start, time_zone, status, submitted_at)
+    SELECT me, e.project_id, p_week_start, p_time_zone, 'submitted', now()
+    FROM public.time_entries e
+    JOIN public.projects p ON p.id = e.project_id
+    WHERE e.user_id = me
+      AND p.archived_at IS NULL AND p.deleted_at IS NULL
+      AND e.started_at >= week_from AND e.started_at < week_to
+    GROUP BY e.project_id
+    HAVING sum(e.duration) > 0
+    ON CONFLICT (user_id, project_id, week_start) DO UPDATE
+    SET status = 'submitted',
+        time_zone = EXCLUDED.time_zone,
+        submitted_at = EXCLUDED.submitted_at,
+        reviewed_by = NULL,
+        reviewed_at = NULL
+    WHERE s.status IN ('draft', 'rejected')
+    RETURNING s.id, s.project_id
+  LOOP
+    total_count := total_count + 1;
+
+    PERFORM public.log_project_activity(
+      sheet.project_id,
+      me,
+      'timesheet_submitted',
+      format('Submitted the timesheet for the week of %s', p_week_start),
+      'timesheet',
+      sheet.id,
+      jsonb_build_object('week_start', p_week_start)
+    );
+  END LOOP;
+
+  RETURN total_count;
+END;
+$$;
+
+-- Take a submitted week back to draft so it can be edited again
+CREATE OR REPLACE FUNCTION public.withdraw_timesheet(p_week_start DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  withdrawn_count INTEGER;
+BEGIN
+  UPDATE public.timesheets
+  SET status = 'draft', submitted_at = NULL
+  WHERE user_id = auth.uid()
+    AND week_start = p_week_start
+    AND status = 'submitted';
+
+  GET DIAGNOSTICS withdrawn_count = ROW_COUNT;
+  RETURN withdrawn_count;
+END;
+$$;
+
+-- Approve a submitted sheet, or reject it with a comment, which unlocks the week for
+-- the submitter. Approved weeks stay locked, since their time may already be invoiced.
+-- Nobody reviews their own time but admins.
+CREATE OR REPLACE FUNCTION public.review_timesheet(p_timesheet_id UUID, p_approve BOOLEAN, p_comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  sheet public.timesheets%ROWTYPE;
+  note TEXT := NULLIF(trim(p_comment), '');
+BEGIN
+  SELECT * INTO sheet
+  FROM public.timesheets
+  WHERE id = p_timesheet_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Timesheet % not found', p_timesheet_id;
+  END IF;
+
+  IF NOT public.has_project_permission(sheet.project_id, 'approve_timesheets')
+    OR (sheet.user_id = auth.uid() AND NOT public.is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not allowed to review timesheet %', p_timesheet_id;
+  END IF;
+
+  IF p_approve AND sheet.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted timesheets can be approved';
+  END IF;
+
+  IF NOT p_approve AND sheet.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only submitted timesheets can be rejected';
+  END IF;
+
+  IF NOT p_approve AND note IS NULL THEN
+    RAISE EXCEPTION 'A rejected timesheet needs a comment';
+  END IF;
+
+  UPDATE public.timesheets
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_comment = note
+  WHERE id = p_timesheet_id;
+
+  PERFORM public.log_project_activity(
+    sheet.project_id,
+    auth.uid(),
+    CASE WHEN p_approve THEN 'timesheet_approved' ELSE 'timesheet_rejected' END,
+    format(
+      CASE WHEN p_approve THEN 'Approved the timesheet of %s for the week of %s' ELSE 'Rejected the timesheet of %s for the week of %s' END,
+      (SELECT COALESCE(full_name, display_name, 'a member') FROM public.profiles WHERE user_id = sheet.user_id),
+      sheet.week_start
+    ),
+    'timesheet',
+    sheet.id,
+    jsonb_build_object('week_start', sheet.week_start, 'user_id', sheet.user_id, 'comment', note)
+  );
+END;
+$$;
+
+-- Sheets the caller submitted or can review, with who and how much time they cover
+CREATE OR REPLACE FUNCTION public.list_timesheets(p_status TEXT DEFAULT NULL, p_project_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  user_name TEXT,
+  project_id UUID,
+  project_name TEXT,
+  week_start DATE,
+  time_zone TEXT,
+  status TEXT,
+  submitted_at TIMESTAMPTZ,
+  reviewed_by UUID,
+  reviewer_name TEXT,
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  total_seconds BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    s.id, s.user_id, COALESCE(owner.full_name, owner.display_name),
+    s.project_id, p.name, s.week_start, s.time_zone, s.status, s.submitted_at,
+    s.reviewed_by, COALESCE(reviewer.full_name, reviewer.display_name), s.reviewed_at, s.review_comment,
+    (
+      SELECT COALESCE(sum(e.duration), 0)::BIGINT
+      FROM public.time_entries e
+      WHERE e.user_id = s.user_id
+        AND e.project_id = s.project_id
+        AND e.is_running IS NOT TRUE
+        AND e.started_at >= s.week_start::TIMESTAMP AT TIME ZONE s.time_zone
+        AND e.started_at < (s.week_start + 7)::TIMESTAMP AT TIME ZONE s.time_zone
+    )
+  FROM public.timesheets s
+  JOIN public.projects p ON p.id = s.project_id
+  LEFT JOIN public.profiles owner ON owner.user_id = s.user_id
+  LEFT JOIN public.profiles reviewer ON reviewer.user_id = s.reviewed_by
+  WHERE (s.user_id = auth.uid() OR public.has_project_permission(s.project_id, 'approve_timesheets'))
+    AND (p_status IS NULL OR s.status = p_status)
+    AND (p_project_id IS NULL OR s.project_id = p_project_id)
+  ORDER BY s.week_start DESC, s.submitted_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_time_entry_locked(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_timesheet_rows(UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_timesheet_hours(DATE, INTEGER, TEXT, UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_timesheet(DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.withdraw_timesheet(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_timesheet(UUID, BOOLEAN, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_timesheets(TEXT, UUID) TO authenticated;
+
+COMMENT ON TABLE public.timesheets IS 'A user''s logged time in one project for one week, submitted for approval';
+COMMENT ON COLUMN public.timesheets.time_zone IS 'IANA time zone the week was submitted in; decides which day each entry falls on';
+COMMENT ON FUNCTION public.is_time_entry_locked(UUID, UUID, TIMESTAMPTZ) IS 'Whether time logged then falls in a submitted or approved timesheet week';
+COMMENT ON FUNCTION public.get_timesheet_rows(UUID, DATE, TEXT) IS 'Per task and day totals of a user''s time in a week';
+COMMENT ON FUNCTION public.set_timesheet_hours(DATE, INTEGER, TEXT, UUID, UUID) IS 'Set the caller''s total time on a task or project for one day';
+COMMENT ON FUNCTION public.submit_timesheet(DATE, TEXT) IS 'Submit the caller''s week for review, one sheet per project';
+COMMENT ON FUNCTION public.withdraw_timesheet(DATE) IS 'Return the caller''s submitted sheets for a week to draft';
+COMMENT ON FUNCTION public.review_timesheet(UUID, BOOLEAN, TEXT) IS 'Approve or reject a timesheet; approved weeks are locked';
+COMMENT ON FUNCTION public.list_timesheets(TEXT, UUID) IS 'Timesheets the caller submitted or can review';
@@ -0,0 +1,476 @@
+-- Billable time and invoicing. Time entries carry a billable flag; hourly rates are
+-- set globally or per project, for everyone, a project role or a single user, and
+-- the most specific one wins. Invoices bill a project's approved billable time and
+-- the budgets of tasks finished in a period, numbered without gaps.
+
+-- Billing is a project permission, granted to managers by default
+CREATE OR REPLACE FUNCTION public.default_project_role_permissions()
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT '{
+    "manager": {
+      "create_tasks": true, "edit_tasks": true, "delete_tasks": true, "manage_board": true,
+      "manage_members": true, "upload_files": true, "delete_files": true, "view_budget": true,
+      "log_time_for_others": true, "approve_timesheets": true, "manage_billing": true
+    },
+    "member": {
+      "create_tasks": true, "edit_tasks": true, "delete_tasks": false, "manage_board": false,
+      "manage_members": false, "upload_files": true, "delete_files": false, "view_budget": true,
+      "log_time_for_others": false, "approve_timesheets": false, "manage_billing": false
+    },
+    "viewer": {
+      "create_tasks": false, "edit_tasks": false, "delete_tasks": false, "manage_board": false,
+      "manage_members": false, "upload_files": false, "delete_files": false, "view_budget": false,
+      "log_time_for_others": false, "approve_timesheets": false, "manage_billing": false
+    }
+  }'::jsonb;
+$$;
+
+ALTER TABLE public.time_entries
+ADD COLUMN IF NOT EXISTS is_billable BOOLEAN NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS public.billing_rates (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Null for workspace-wide rates
+    project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT CHECK (role IN ('manager', 'member', 'viewer')),
+    hourly_rate NUMERIC(10, 2) NOT NULL CHECK (hourly_rate >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    -- A rate is for everyone, a role or one user
+    CONSTRAINT billing_rate_user_or_role CHECK (user_id IS NULL OR role IS NULL),
+    CONSTRAINT unique_billing_rate UNIQUE NULLS NOT DISTINCT (project_id, user_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS public.invoices (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+    -- Assigned by create_invoice, one after another across the workspace
+    invoice_number INTEGER NOT NULL UNIQUE,
+    status TEXT NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'paid', 'void')),
+    client_name TEXT,
+    notes TEXT,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    due_date DATE,
+    currency TEXT NOT NULL DEFAULT 'GEL',
+    subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (tax_rate BETWEEN 0 AND 100),
+    tax_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    -- The rendered invoice, kept with the project's files
+    file_id UUID REFERENCES public.project_files(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+
+    CONSTRAINT invoice_period_order CHECK (period_end >= period_start)
+);
+
+CREATE TABLE IF NOT EXISTS public.invoice_items (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    -- Hours worked on a task by one person, or a finished task's budget
+    item_type TEXT NOT NULL CHECK (item_type IN ('time', 'budget')),
+    description TEXT NOT NULL,
+    task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    quantity NUMERIC(10, 2) NOT NULL,
+    unit_price NUMERIC(10, 2) NOT NULL,
+    amount NUMERIC(12, 2) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0
+);
+
+-- Time entries billed on an invoice; entries of void invoices can be billed again
+CREATE TABLE IF NOT EXISTS public.invoice_time_entries (
+    invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+    time_entry_id UUID NOT NULL REFERENCES public.time_entries(id) ON DELETE CASCADE,
+    PRIMARY KEY (invoice_id, time_entry_id)
+);
+
+ALTER TABLE public.billing_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Workspace rates are an admin matter; project rates belong to its billing managers
+CREATE POLICY "Billing managers can view rates"
+ON public.billing_rates
+FOR SELECT
+USING (
+    public.is_admin(auth.uid())
+    OR (project_id IS NOT NULL AND public.has_project_permission(project_id, 'manage_billing'))
+);
+
+CREATE POLICY "Billing managers can manage rates"
+ON public.billing_rates
+FOR ALL
+USING (
+    CASE WHEN project_id IS NULL
+      THEN public.is_admin(auth.uid())
+      ELSE public.has_project_permission(project_id, 'manage_billing')
+    END
+)
+WITH CHECK (
+    CASE WHEN project_id IS NULL
+      THEN public.is_admin(auth.uid())
+      ELSE public.has_project_permission(project_id, 'manage_billing')
+    END
+);
+
+-- Invoices are written only by the functions below
+CREATE POLICY "Billing managers can view invoices"
+ON public.invoices
+FOR SELECT
+USING (public.has_project_permission(project_id, 'manage_billing') OR public.is_admin(auth.uid()));
+
+CREATE POLICY "Billing managers can view invoice items"
+ON public.invoice_items
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.invoices
+        WHERE invoices.id = invoice_items.invoice_id
+        AND (public.has_project_permission(invoices.project_id, 'manage_billing') OR public.is_admin(auth.uid()))
+    )
+);
+
+CREATE POLICY "Billing managers can view billed time"
+ON public.invoice_time_entries
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM public.invoices
+        WHERE invoices.id = invoice_time_entries.invoice_id
+        AND (public.has_project_permission(invoices.project_id, 'manage_billing') OR public.is_admin(auth.uid()))
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_project_id ON public.invoices(project_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice_id ON public.invoice_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_task_id ON public.invoice_items(task_id) WHERE item_type = 'budget';
+CREATE INDEX IF NOT EXISTS idx_invoice_time_entries_time_entry_id ON public.invoice_time_entries(time_entry_id);
+
+CREATE TRIGGER update_billing_rates_updated_at
+    BEFORE UPDATE ON public.billing_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_invoices_updated_at
+    BEFORE UPDATE ON public.invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hourly rate of a user in a project: project rates before workspace ones, and
+-- within each a user's own rate before their role's before the default
+CREATE OR REPLACE FUNCTION public.get_billing_rate(p_project_id UUID, p_user_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT r.hourly_rate
+  FROM public.billing_rates r
+  WHERE (r.project_id IS NULL OR r.project_id = p_project_id)
+    AND (r.user_id IS NULL OR r.user_id = p_user_id)
+    AND (
+      r.role IS NULL
+      OR r.role = (
+        SELECT COALESCE(m.role, 'member') FROM public.project_members m
+        WHERE m.project_id = p_project_id AND m.user_id = p_user_id
+      )
+    )
+  ORDER BY (r.project_id IS NOT NULL) DESC, (r.user_id IS NOT NULL) DESC, (r.role IS NOT NULL) DESC
+  LIMIT 1;
+$$;
+
+-- Whether time a user logged in a project at a given moment falls in an approved week
+CREATE OR REPLACE FUNCTION public.is_time_entry_approved(p_user_id UUID, p_project_id UUID, p_started_at TIMESTAMPTZ)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.timesheets s
+    WHERE s.user_id = p_user_id
+      AND s.project_id = p_project_id
+      AND s.status = 'approved'
+      AND (p_started_at AT TIME ZONE s.time_zone)::DATE BETWEEN s.week_start AND s.week_start + 6
+  );
+$$;
+
+-- What an invoice for the period would bill: approved billable time not yet on a
+-- live invoice, per task and person, then the budgets of tasks finished in the
+-- period that were not billed before. Permission checks are left to the callers.
+CREATE OR REPLACE FUNCTION public.get_invoice_candidates(p_project_id UUID, p_from DATE, p_to DATE, p_time_zone TEXT)
+RETURNS TABLE (
+  item_type TEXT,
+  description TEXT,
+  task_id UUID,
+  user_id UUID,
+  quantity NUMERIC,
+  unit_price NUMERIC,
+  amount NUMERIC,
+  time_entry_ids UUID[]
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH billable AS (
+    SELECT e.id, e.user_id, e.task_id, e.duration, COALESCE(public.get_billing_rate(p_project_id, e.user_id), 0) AS rate
+    FROM public.time_entries e
+    WHERE e.project_id = p_project_id
+      AND e.is_billable
+      AND e.is_running IS NOT TRUE
+      AND e.duration > 0
+      AND e.started_at >= p_from::TIMESTAMP AT TIME ZONE p_time_zone
+      AND e.started_at < (p_to + 1)::TIMESTAMP AT TIME ZONE p_time_zone
+      AND public.is_time_entry_approved(e.user_id, e.project_id, e.started_at)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.invoice_time_entries ite
+        JOIN public.invoices i ON i.id = ite.invoice_id
+        WHERE ite.time_entry_id = e.id AND i.status <> 'void'
+      )
+  ),
+  time_items AS (
+    SELECT
+      'time'::TEXT AS item_type,
+      COALESCE(t.title, 'პროექტზე მუშაობა') || ' — ' || COALESCE(pr.full_name, pr.display_name, 'გუნდის წევრი') AS description,
+      b.task_id,
+      b.user_id,
+      round(sum(b.duration) / 3600.0, 2) AS quantity,
+      b.rate AS unit_price,
+      array_agg(b.id) AS time_entry_ids
+    FROM billable b
+    LEFT JOIN public.tasks t ON t.id = b.task_id
+    LEFT JOIN public.profiles pr ON pr.user_id = b.user_id
+    GROUP BY b.task_id, b.user_id, b.rate, t.title, pr.full_name, pr.display_name
+  )
+  SELECT item_type, description, task_id, user_id, quantity, unit_price, round(quantity * unit_price, 2), time_entry_ids
+  FROM (
+    SELECT * FROM time_items ORDER BY description
+  ) ordered_time
+  UNION ALL
+  SELECT *
+  FROM (
+    SELECT 'budget'::TEXT, t.title, t.id, NULL::UUID, 1::NUMERIC, t.budget, t.budget, '{}'::UUID[]
+    FROM public.tasks t
+    WHERE t.project_id = p_project_id
+      AND t.deleted_at IS NULL
+      AND t.budget > 0
+      AND public.is_done_status(t.status)
+      AND t.completed_at >= p_from::TIMESTAMP AT TIME ZONE p_time_zone
+      AND t.completed_at < (p_to + 1)::TIMESTAMP AT TIME ZONE p_time_zone
+      AND NOT EXISTS (
+        SELECT 1 FROM public.invoice_items ii
+        JOIN public.invoices i ON i.id = ii.invoice_id
+        WHERE ii.task_id = t.id AND ii.item_type = 'budget' AND i.status <> 'void'
+      )
+    ORDER BY t.completed_at
+  ) budget_items;
+$$;
+
+-- Line items an invoice for the period would hold, for the builder's preview
+CREATE OR REPLACE FUNCTION public.preview_invoice(p_project_id UUID, p_from DATE, p_to DATE, p_time_zone TEXT)
+RETURNS TABLE (
+  item_type TEXT,
+  description TEXT,
+  task_id UUID,
+  user_id UUID,
+  quantity NUMERIC,
+  unit_price NUMERIC,
+  amount NUMERIC,
+  entry_count INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_project_permission(p_project_id, 'manage_billing') THEN
+    RAISE EXCEPTION 'Not allowed to bill project %', p_project_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.item_type, c.description, c.task_id, c.user_id, c.quantity, c.unit_price, c.amount,
+    cardinality(c.time_entry_ids)
+  FROM public.get_invoice_candidates(p_project_id, p_from, p_to, p_time_zone) c;
+END;
+$$;
+
+-- Issue an invoice for the period with the next invoice number
+CREATE OR REPLACE FUNCTION public.create_invoice(
+  p_project_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_time_zone TEXT,
+  p_client_name TEXT DEFAULT NULL,
+  p_due_date DATE DEFAULT NULL,
+  p_tax_rate NUMERIC DEFAULT 0,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  new_id UUID := gen_random_uuid();
+  next_number INTEGER;
+  invoice_subtotal NUMERIC;
+  invoice_tax NUMERIC;
+BEGIN
+  IF NOT public.has_project_permission(p_project_id, 'manage_billing') THEN
+    RAISE EXCEPTION 'Not allowed to bill project %', p_project_id;
+  END IF;
+
+  -- Serialises invoice creation so numbers stay gapless and nothing is billed twice
+  LOCK TABLE public.invoices IN SHARE ROW EXCLUSIVE MODE;
+
+  CREATE TEMP TABLE invoice_candidates ON COMMIT DROP AS
+  SELECT row_number() OVER () AS position, c.*
+  FROM public.get_invoice_candidates(p_project_id, p_from, p_to, p_time_zone) c;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_temp.invoice_candidates) THEN
+    RAISE EXCEPTION 'Nothing to invoice between % and %', p_from, p_to;
+  END IF;
+
+  SELECT COALESCE(max(invoice_number), 0) + 1 INTO next_number FROM public.invoices;
+  SELECT sum(amount) INTO invoice_subtotal FROM pg_temp.invoice_candidates;
+  invoice_tax := round(invoice_subtotal * COALESCE(p_tax_rate, 0) / 100, 2);
+
+  INSERT INTO public.invoices (
+    id, project_id, invoice_number, client_name, notes, period_start, period_end,
+    due_date, subtotal, tax_rate, tax_amount, total, created_by
+  ) VALUES (
+    new_id, p_project_id, next_number, NULLIF(trim(p_client_name), ''), NULLIF(trim(p_notes), ''), p_from, p_to,
+    p_due_date, invoice_subtotal, COALESCE(p_tax_rate, 0), invoice_tax, invoice_subtotal + invoice_tax, auth.uid()
+  );
+
+  INSERT INTO public.invoice_items (invoice_id, item_type, description, task_id, user_id, quantity, unit_price, amount, position)
+  SELECT new_id, item_type, description, task_id, user_id, quantity, unit_price, amount, position
+  FROM pg_temp.invoice_candidates;
+
+  INSERT INTO public.invoice_time_entries (invoice_id, time_entry_id)
+  SELECT new_id, unnest(time_entry_ids)
+  FROM pg_temp.invoice_candidates;
+
+  DROP TABLE pg_temp.invoice_candidates;
+
+  PERFORM public.log_project_activity(
+    p_project_id,
+    auth.uid(),
+    'invoice_created',
+    format('Issued invoice #%s for %s–%s', next_number, p_from, p_to),
+    'invoice',
+    new_id,
+    jsonb_build_object('invoice_number', next_number, 'total', invoice_subtotal + invoice_tax)
+  );
+
+  RETURN new_id;
+END;
+$$;
+
+-- Mark an invoice paid, or void it so its time and budgets can be billed again
+CREATE OR REPLACE FUNCTION public.set_invoice_status(p_invoice_id UUID, p_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invoice public.invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO invoice
+  FROM public.invoices
+  WHERE id = p_invoice_id;
+
+  IF NOT FOUND OR NOT public.has_project_permission(invoice.project_id, 'manage_billing') THEN
+    RAISE EXCEPTION 'Not allowed to change invoice %', p_invoice_id;
+  END IF;
+
+  IF p_status NOT IN ('issued', 'paid', 'void') THEN
+    RAISE EXCEPTION 'Unknown invoice status %', p_status;
+  END IF;
+
+  IF invoice.status = 'void' THEN
+    RAISE EXCEPTION 'Void invoices cannot be changed';
+  END IF;
+
+  IF invoice.status = p_status THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.invoices
+  SET status = p_status
+  WHERE id = p_invoice_id;
+
+  PERFORM public.log_project_activity(
+    invoice.project_id,
+    auth.uid(),
+    'invoice_' || CASE p_status WHEN 'paid' THEN 'paid' WHEN 'void' THEN 'voided' ELSE 'reopened' END,
+    format(
+      CASE p_status WHEN 'paid' THEN 'Marked invoice #%s as paid' WHEN 'void' THEN 'Voided invoice #%s' ELSE 'Reopened invoice #%s' END,
+      invoice.invoice_number
+    ),
+    'invoice',
+    invoice.id,
+    jsonb_build_object('invoice_number', invoice.invoice_number)
+  );
+END;
+$$;
+
+-- Link the rendered invoice stored among the project's files
+CREATE OR REPLACE FUNCTION public.set_invoice_file(p_invoice_id UUID, p_file_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.invoices i
+  SET file_id = p_file_id
+  WHERE i.id = p_invoice_id
+    AND public.has_project_permission(i.project_id, 'manage_billing')
+    AND EXISTS (
+      SELECT 1 FROM public.project_files f
+      WHERE f.id = p_file_id AND f.project_id = i.project_id
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cannot attach file % to invoice %', p_file_id, p_invoice_id;
+  END IF;
+END;
+$$;
+
+-- Internal helpers that skip permission checks are not callable directly
+REVOKE EXECUTE ON FUNCTION public.get_billing_rate(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_invoice_candidates(UUID, DATE, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.is_time_entry_approved(UUID, UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.preview_invoice(UUID, DATE, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_invoice(UUID, DATE, DATE, TEXT, TEXT, DATE, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_invoice_status(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_invoice_file(UUID, UUID) TO authenticated;
+
+COMMENT ON COLUMN public.time_entries.is_billable IS 'Whether the time can be billed to the client';
+COMMENT ON TABLE public.billing_rates IS 'Hourly rates, workspace-wide or per project, for everyone, a project role or one user';
+COMMENT ON TABLE public.invoices IS 'Invoices billing a project''s approved time and finished task budgets for a period';
+COMMENT ON COLUMN public.invoices.invoice_number IS 'Gapless workspace-wide invoice number';
+COMMENT ON FUNCTION public.get_billing_rate(UUID, UUID) IS 'The most specific hourly rate of a user in a project';
+COMMENT ON FUNCTION public.preview_invoice(UUID, DATE, DATE, TEXT) IS 'Line items an invoice for the period would hold';
+COMMENT ON FUNCTION public.create_invoice(UUID, DATE, DATE, TEXT, TEXT, DATE, NUMERIC, TEXT) IS 'Issue an invoice for a project and period';
+COMMENT ON FUNCTION public.set_invoice_status(UUID, TEXT) IS 'Mark an invoice issued, paid or void';
+COMMENT ON FUNCTION public.set_invoice_file(UUID, UUID) IS 'Attach the rendered invoice file to an invoice';
@@ -0,0 +1,63 @@
+-- One running timer per user. The floating timer and the per-task time trackers
+-- share it: starting a timer anywhere, on a task, a project or nothing at all,
+-- stops whichever timer was running before.
+
+-- Users could run a task timer and the floating one side by side. Keep each
+-- user's latest running entry and end the older ones where it started.
+WITH latest AS (
+  SELECT DISTINCT ON (user_id) id, user_id, started_at
+  FROM public.time_entries
+  WHERE is_running = true
+  ORDER BY user_id, started_at DESC NULLS LAST
+)
+UPDATE public.time_entries e
+SET is_running = false,
+    ended_at = GREATEST(COALESCE(latest.started_at, now()), COALESCE(e.started_at, now())),
+    duration = GREATEST(0, EXTRACT(EPOCH FROM COALESCE(latest.started_at, now()) - COALESCE(e.started_at, now())))::INTEGER
+FROM latest
+WHERE e.user_id = latest.user_id
+  AND e.is_running = true
+  AND e.id <> latest.id;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running_per_user
+ON public.time_entries (user_id)
+WHERE is_running = true;
+
+-- Stop the caller's running timer, if any, and start a new one in the same
+-- transaction. A task's project is filled in by set_time_entry_project.
+CREATE OR REPLACE FUNCTION public.start_timer(
+  p_description TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  me UUID := auth.uid();
+  started TIMESTAMPTZ := now();
+  entry_id UUID;
+BEGIN
+  IF me IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.time_entries
+  SET is_running = false,
+      ended_at = started,
+      duration = GREATEST(0, EXTRACT(EPOCH FROM started - COALESCE(started_at, started)))::INTEGER
+  WHERE user_id = me AND is_running = true;
+
+  INSERT INTO public.time_entries (user_id, task_id, project_id, description, started_at, is_running, duration)
+  VALUES (me, p_task_id, p_project_id, p_description, started, true, 0)
+  RETURNING id INTO entry_id;
+
+  RETURN entry_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_timer(TEXT, UUID, UUID) TO authenticated;
+
+COMMENT ON INDEX public.idx_time_entries_one_running_per_user IS 'A user has at most one running timer';
+COMMENT ON FUNCTION public.start_timer(TEXT, UUID, UUID) IS 'Starts the caller''s timer on a task, a project or neither, stopping the one already running';
@@ -0,0 +1,9 @@
+-- Pomodoro mode for the timer. Each completed work interval is counted on the
+-- time entry that was running when it finished, so a task's pomodoros are the
+-- sum over its entries.
+
+ALTER TABLE public.time_entries
+ADD COLUMN IF NOT EXISTS pomodoros INTEGER NOT NULL DEFAULT 0
+CHECK (pomodoros >= 0);
+
+COMMENT ON COLUMN public.time_entries.pomodoros IS 'Pomodoro work intervals completed while this entry was running';
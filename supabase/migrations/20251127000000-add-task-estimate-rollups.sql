@@ -0,0 +1,220 @@
+-- Time estimates on tasks, in hours or story points as the project chooses.
+-- Subtask estimates roll up to their parent the way calculate_task_progress
+-- rolls up progress, and are compared against the time logged on the task and
+-- its subtasks. Points projects can set how many hours a point is worth; until
+-- they do, their estimates can't be compared with logged time.
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS estimate_unit TEXT NOT NULL DEFAULT 'hours'
+CHECK (estimate_unit IN ('hours', 'points'));
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS hours_per_point NUMERIC(6,2)
+CHECK (hours_per_point > 0);
+
+-- Estimate of a task counting its subtasks: the sum of the subtasks' estimates
+-- when any of them is estimated, otherwise the task's own estimate
+CREATE OR REPLACE FUNCTION public.calculate_task_estimate(task_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  subtask_estimate NUMERIC;
+  own_estimate NUMERIC;
+BEGIN
+  SELECT SUM(estimate)
+  INTO subtask_estimate
+  FROM public.tasks
+  WHERE parent_task_id = task_id AND deleted_at IS NULL;
+
+  IF subtask_estimate IS NOT NULL THEN
+    RETURN subtask_estimate;
+  END IF;
+
+  SELECT estimate INTO own_estimate FROM public.tasks WHERE id = task_id;
+  RETURN own_estimate;
+END;
+$$;
+
+-- Seconds logged on a task and its subtasks. A running timer counts up to now.
+CREATE OR REPLACE FUNCTION public.calculate_task_logged_seconds(task_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(SUM(
+    CASE WHEN e.is_running
+      THEN GREATEST(0, EXTRACT(EPOCH FROM now() - e.started_at))::INTEGER
+      ELSE e.duration
+    END
+  ), 0)::INTEGER
+  FROM public.time_entries e
+  WHERE e.task_id = calculate_task_logged_seconds.task_id
+     OR e.task_id IN (
+       SELECT t.id FROM public.tasks t
+       WHERE t.parent_task_id = calculate_task_logged_seconds.task_id AND t.deleted_at IS NULL
+     );
+$$;
+
+-- Estimate against logged time for one task, for project members
+CREATE OR REPLACE FUNCTION public.get_task_estimate(p_task_id UUID)
+RETURNS TABLE (
+  estimate NUMERIC,
+  estimate_unit TEXT,
+  estimated_seconds INTEGER,
+  logged_seconds INTEGER,
+  subtask_rollup BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  target_project UUID;
+BEGIN
+  SELECT t.project_id INTO target_project FROM public.tasks t WHERE t.id = p_task_id;
+
+  IF target_project IS NULL OR NOT (
+    EXISTS (SELECT 1 FROM public.project_members WHERE project_id = target_project AND user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM public.projects WHERE id = target_project AND created_by = auth.uid())
+    OR public.is_admin(auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view task %', p_task_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    rolled.value,
+    p.estimate_unit,
+    CASE
+      WHEN p.estimate_unit = 'hours' THEN round(rolled.value * 3600)::INTEGER
+      ELSE round(rolled.value * p.hours_per_point * 3600)::INTEGER
+    END,
+    public.calculate_task_logged_seconds(p_task_id),
+    EXISTS (
+      SELECT 1 FROM public.tasks s
+      WHERE s.parent_task_id = p_task_id AND s.deleted_at IS NULL AND s.estimate IS NOT NULL
+    )
+  FROM public.projects p
+  CROSS JOIN LATERAL (SELECT public.calculate_task_estimate(p_task_id) AS value) rolled
+  WHERE p.id = target_project;
+END;
+$$;
+
+-- Estimates against logged time for a list of tasks, e.g. a page of task cards.
+-- Tasks outside the caller's projects are left out.
+CREATE OR REPLACE FUNCTION public.get_task_estimates(p_task_ids UUID[])
+RETURNS TABLE (
+  task_id UUID,
+  estimate NUMERIC,
+  estimate_unit TEXT,
+  estimated_seconds INTEGER,
+  logged_seconds INTEGER,
+  subtask_rollup BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT
+    t.id,
+    rolled.value,
+    p.estimate_unit,
+    CASE
+      WHEN p.estimate_unit = 'hours' THEN round(rolled.value * 3600)::INTEGER
+      ELSE round(rolled.value * p.hours_per_point * 3600)::INTEGER
+    END,
+    public.calculate_task_logged_seconds(t.id),
+    EXISTS (
+      SELECT 1 FROM public.tasks s
+      WHERE s.parent_task_id = t.id AND s.deleted_at IS NULL AND s.estimate IS NOT NULL
+    )
+  FROM public.tasks t
+  JOIN public.projects p ON p.id = t.project_id
+  CROSS JOIN LATERAL (SELECT public.calculate_task_estimate(t.id) AS value) rolled
+  WHERE t.id = ANY(p_task_ids)
+    AND (
+      public.is_admin(auth.uid())
+      OR p.created_by = auth.uid()
+      OR EXISTS (SELECT 1 FROM public.project_members m WHERE m.project_id = t.project_id AND m.user_id = auth.uid())
+    );
+$$;
+
+-- Tasks whose logged time has passed their estimate, in the projects the caller
+-- belongs to (every project for admins). Points projects without an hour value
+-- per point are left out. An overrun subtask is left out when its parent is over
+-- too, since the parent's estimate and logged time already include it.
+CREATE OR REPLACE FUNCTION public.get_estimate_overruns(p_project_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  task_id UUID,
+  title TEXT,
+  project_id UUID,
+  project_name TEXT,
+  assignee_id UUID,
+  estimate NUMERIC,
+  estimate_unit TEXT,
+  estimated_seconds INTEGER,
+  logged_seconds INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH estimated AS (
+    SELECT
+      t.id, t.parent_task_id, t.title, t.project_id, p.name AS project_name, t.assignee_id, p.estimate_unit,
+      public.calculate_task_estimate(t.id) AS estimate,
+      CASE WHEN p.estimate_unit = 'hours' THEN 1 ELSE p.hours_per_point END AS hours_per_unit
+    FROM public.tasks t
+    JOIN public.projects p ON p.id = t.project_id
+    WHERE t.deleted_at IS NULL
+      AND p.deleted_at IS NULL
+      AND (p_project_id IS NULL OR t.project_id = p_project_id)
+      AND (t.estimate IS NOT NULL OR EXISTS (
+        SELECT 1 FROM public.tasks s
+        WHERE s.parent_task_id = t.id AND s.deleted_at IS NULL AND s.estimate IS NOT NULL
+      ))
+      AND (
+        public.is_admin(auth.uid())
+        OR p.created_by = auth.uid()
+        OR EXISTS (SELECT 1 FROM public.project_members m WHERE m.project_id = t.project_id AND m.user_id = auth.uid())
+      )
+  ),
+  compared AS (
+    SELECT
+      e.*,
+      round(e.estimate * e.hours_per_unit * 3600)::INTEGER AS estimated_seconds,
+      public.calculate_task_logged_seconds(e.id) AS logged_seconds
+    FROM estimated e
+    WHERE e.hours_per_unit IS NOT NULL
+  ),
+  overrun AS (
+    SELECT c.* FROM compared c WHERE c.logged_seconds > c.estimated_seconds
+  )
+  SELECT o.id, o.title, o.project_id, o.project_name, o.assignee_id, o.estimate, o.estimate_unit,
+    o.estimated_seconds, o.logged_seconds
+  FROM overrun o
+  WHERE NOT EXISTS (SELECT 1 FROM overrun parent WHERE parent.id = o.parent_task_id)
+  ORDER BY o.logged_seconds::NUMERIC / NULLIF(o.estimated_seconds, 0) DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_task_logged_seconds(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_task_estimate(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_task_estimates(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_estimate_overruns(UUID) TO authenticated;
+
+COMMENT ON COLUMN public.projects.estimate_unit IS 'Unit of task estimates in the project: hours or points';
+COMMENT ON COLUMN public.projects.hours_per_point IS 'Hours a story point is worth, for comparing point estimates with logged time';
+COMMENT ON COLUMN public.tasks.estimate IS 'Estimated effort in the project''s estimate unit';
+COMMENT ON FUNCTION public.calculate_task_estimate(UUID) IS 'Estimate of a task, summed from its subtasks when they are estimated';
+COMMENT ON FUNCTION public.calculate_task_logged_seconds(UUID) IS 'Seconds logged on a task and its subtasks';
+COMMENT ON FUNCTION public.get_task_estimate(UUID) IS 'A task''s rolled-up estimate against its logged time';
+COMMENT ON FUNCTION public.get_task_estimates(UUID[]) IS 'Rolled-up estimates against logged time for a list of tasks';
+COMMENT ON FUNCTION public.get_estimate_overruns(UUID) IS 'Tasks whose logged time exceeds their estimate';